@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, jobs } from '@/lib/db';
+import { requireAdmin } from '@/lib/admin-auth';
+import { requeueJob } from '@/lib/jobs';
+import { runJobNow } from '@/lib/pipeline';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { eq } from 'drizzle-orm';
+
+/**
+ * POST /api/admin/jobs/[id]/requeue
+ * Move a dead-lettered job back to the queue with a fresh set of attempts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const job = await db.query.jobs.findFirst({
+      where: eq(jobs.id, id),
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.state !== 'dead') {
+      return NextResponse.json(
+        { error: `Only dead jobs can be requeued (job is ${job.state})` },
+        { status: 409 }
+      );
+    }
+
+    await requeueJob(id);
+
+    // Clear the failure shown on the recording while the job retries (index jobs never fail it)
+    if (job.type !== 'index') {
+      const status = job.type === 'finalize' ? 'uploading' : job.type === 'convert' ? 'converting' : 'transcribing';
+      await transitionRecordingStatus(job.recordingId, status, {
+        actor: 'admin',
+        reason: `Requeued dead ${job.type} job`,
+      });
+    }
+
+    await runJobNow(id);
+
+    const updated = await db.query.jobs.findFirst({
+      where: eq(jobs.id, id),
+    });
+
+    return NextResponse.json({ success: true, job: updated });
+  } catch (error) {
+    console.error('Error requeuing job:', error);
+    return NextResponse.json(
+      { error: 'Failed to requeue job' },
+      { status: 500 }
+    );
+  }
+}
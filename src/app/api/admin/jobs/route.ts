@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, jobs } from '@/lib/db';
+import { requireAdmin } from '@/lib/admin-auth';
+import { JOB_STATES, type JobState } from '@/lib/jobs';
+import { and, eq, desc } from 'drizzle-orm';
+
+/**
+ * GET /api/admin/jobs?state=dead&recordingId=...
+ * List pipeline jobs, newest first
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state');
+    const recordingId = searchParams.get('recordingId');
+    const limit = Math.min(Number(searchParams.get('limit')) || 100, 500);
+
+    if (state && !JOB_STATES.includes(state as JobState)) {
+      return NextResponse.json(
+        { error: `Invalid state. Expected one of: ${JOB_STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await db.query.jobs.findMany({
+      where: and(
+        state ? eq(jobs.state, state) : undefined,
+        recordingId ? eq(jobs.recordingId, recordingId) : undefined
+      ),
+      orderBy: [desc(jobs.createdAt)],
+      limit,
+    });
+
+    return NextResponse.json({ jobs: results });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { runDueJobs } from '@/lib/pipeline';
+import { pollInFlightJobs } from '@/lib/job-poller';
+import { processVaultDeletions } from '@/lib/vault-cleanup';
+
+/**
+ * POST /api/admin/jobs/run
+ * Poll in-flight Case.dev jobs, run all due jobs and retry due vault deletions now
+ * (for deployments without a long-running worker, e.g. a cron)
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const polled = await pollInFlightJobs();
+    const processed = await runDueJobs();
+    const vaultDeletions = await processVaultDeletions();
+    return NextResponse.json({ success: true, processed, polled, vaultDeletions });
+  } catch (error) {
+    console.error('Error running jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to run jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { queueMissingTranscriptIndexing } from '@/lib/transcript-index';
+
+/**
+ * POST /api/admin/search-index
+ * Queue indexing for active transcripts not yet in the vault index
+ * (transcripts stored before semantic search existed)
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const queued = await queueMissingTranscriptIndexing();
+    return NextResponse.json({ success: true, queued });
+  } catch (error) {
+    console.error('Error queuing transcript indexing:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue transcript indexing' },
+      { status: 500 }
+    );
+  }
+}
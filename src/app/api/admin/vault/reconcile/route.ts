@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { reconcileVault } from '@/lib/vault-cleanup';
+
+/**
+ * GET /api/admin/vault/reconcile
+ * Report vault objects without a recording and recordings whose vault objects are missing
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const report = await reconcileVault();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error reconciling vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile vault' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/vault/reconcile
+ * Reconcile and clean up: queue orphaned objects for deletion and clear
+ * references to missing objects
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const report = await reconcileVault({ cleanup: true });
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error reconciling vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile vault' },
+      { status: 500 }
+    );
+  }
+}
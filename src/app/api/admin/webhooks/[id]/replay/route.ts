@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { processWebhookDelivery } from '@/lib/webhook-deliveries';
+
+/**
+ * POST /api/admin/webhooks/[id]/replay
+ * Process a logged webhook delivery again, even if it was already processed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    const result = await processWebhookDelivery(id, { replay: true });
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.outcome === 'processed' || result.outcome === 'ignored',
+      outcome: result.outcome,
+      error: result.error ?? result.delivery?.lastError ?? undefined,
+      delivery: result.delivery,
+    });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
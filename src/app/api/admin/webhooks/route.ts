@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, webhookDeliveries } from '@/lib/db';
+import { requireAdmin } from '@/lib/admin-auth';
+import {
+  WEBHOOK_SOURCES,
+  WEBHOOK_DELIVERY_STATES,
+  type WebhookSource,
+  type WebhookDeliveryState,
+} from '@/lib/webhook-deliveries';
+import { and, eq, desc } from 'drizzle-orm';
+
+/**
+ * GET /api/admin/webhooks?state=failed&source=transcribe&externalJobId=...
+ * List logged webhook deliveries, most recently received first
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state');
+    const source = searchParams.get('source');
+    const externalJobId = searchParams.get('externalJobId');
+    const limit = Math.min(Number(searchParams.get('limit')) || 100, 500);
+
+    if (state && !WEBHOOK_DELIVERY_STATES.includes(state as WebhookDeliveryState)) {
+      return NextResponse.json(
+        { error: `Invalid state. Expected one of: ${WEBHOOK_DELIVERY_STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (source && !WEBHOOK_SOURCES.includes(source as WebhookSource)) {
+      return NextResponse.json(
+        { error: `Invalid source. Expected one of: ${WEBHOOK_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await db.query.webhookDeliveries.findMany({
+      where: and(
+        state ? eq(webhookDeliveries.state, state) : undefined,
+        source ? eq(webhookDeliveries.source, source) : undefined,
+        externalJobId ? eq(webhookDeliveries.externalJobId, externalJobId) : undefined
+      ),
+      orderBy: [desc(webhookDeliveries.lastReceivedAt)],
+      limit,
+    });
+
+    return NextResponse.json({ deliveries: results });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, cases } from '@/lib/db';
+import { exportCaseTranscripts } from '@/lib/cases';
+import { isLanguageTagStyle } from '@/lib/languages';
+import { DEFAULT_EXPORT_SUBTITLE, DEFAULT_EXPORT_TITLE, isExportFormat } from '@/lib/transcript-export';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/cases/[id]/export
+ * Export the transcripts of a case's recordings as one ZIP archive, numbered
+ * in chronological order. Takes the same `format`, `title`, `subtitle` and
+ * `languageTags` as a single export (the subtitle defaults to the caption);
+ * `recordingIds` (comma-separated) limits the export to some recordings.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'docx';
+    const languageTagStyle = searchParams.get('languageTags') || 'language';
+    const recordingIds = searchParams.get('recordingIds')?.split(',').filter(Boolean);
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Unsupported format. Use "docx", "txt", "pdf", or "json"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isLanguageTagStyle(languageTagStyle)) {
+      return NextResponse.json(
+        { error: 'Unsupported languageTags. Use "language", "interpreter", or "none"' },
+        { status: 400 }
+      );
+    }
+
+    const caseRecord = await db.query.cases.findFirst({
+      where: eq(cases.id, id),
+    });
+
+    if (!caseRecord) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    const archive = await exportCaseTranscripts(caseRecord, format, {
+      title: searchParams.get('title') || DEFAULT_EXPORT_TITLE,
+      subtitle: searchParams.get('subtitle') || caseRecord.caption || DEFAULT_EXPORT_SUBTITLE,
+      languageTagStyle,
+    }, recordingIds);
+
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'No transcripts to export' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(archive.data), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+        'X-Exported-Count': String(archive.exported),
+        'X-Skipped-Count': String(archive.skipped),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting case transcripts:', error);
+    return NextResponse.json(
+      { error: 'Failed to export case transcripts' },
+      { status: 500 }
+    );
+  }
+}
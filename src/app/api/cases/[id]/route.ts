@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, cases } from '@/lib/db';
+import {
+  findCaseByNumber,
+  getCaseRecordingSummaries,
+  linkRecordingsByCaseNumber,
+  syncCaseRecordings,
+  toCaseResponse,
+  updateCaseSchema,
+} from '@/lib/cases';
+import { resolveTranscriptionSettings } from '@/lib/transcription-settings';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/cases/[id]
+ * Get a case with its recordings in chronological order and their totals
+ * (duration, estimated transcript pages, recordings by status)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const caseRecord = await db.query.cases.findFirst({
+      where: eq(cases.id, id),
+    });
+
+    if (!caseRecord) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    const { recordings, totals } = await getCaseRecordingSummaries(id);
+
+    return NextResponse.json({
+      case: toCaseResponse(caseRecord),
+      recordings,
+      totals,
+    });
+  } catch (error) {
+    console.error('Error fetching case:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch case' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/cases/[id]
+ * Update a case. A new case number or court is copied to its recordings.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = updateCaseSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.query.cases.findFirst({
+      where: eq(cases.id, id),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    const { caseNumber, caption, courtName, judge, parties, counsel, settings } = validationResult.data;
+
+    if (caseNumber !== undefined) {
+      const conflict = await findCaseByNumber(caseNumber);
+      if (conflict && conflict.id !== id) {
+        return NextResponse.json(
+          { error: `Case ${conflict.caseNumber} already exists`, caseId: conflict.id },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updateData: Partial<typeof cases.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (caseNumber !== undefined) updateData.caseNumber = caseNumber;
+    if (caption !== undefined) updateData.caption = caption || null;
+    if (courtName !== undefined) updateData.courtName = courtName || null;
+    if (judge !== undefined) updateData.judge = judge || null;
+    if (parties !== undefined) updateData.partiesJson = JSON.stringify(parties);
+    if (counsel !== undefined) updateData.counselJson = JSON.stringify(counsel);
+    if (settings !== undefined) {
+      updateData.settingsJson = settings ? JSON.stringify(resolveTranscriptionSettings(settings)) : null;
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(cases)
+        .set(updateData)
+        .where(eq(cases.id, id))
+        .returning();
+
+      if (row.caseNumber !== existing.caseNumber) {
+        // Recordings already carrying the new number join the case
+        await linkRecordingsByCaseNumber(row, tx);
+      } else if (row.courtName !== existing.courtName) {
+        await syncCaseRecordings(row, tx);
+      }
+      return row;
+    });
+
+    return NextResponse.json({ case: toCaseResponse(updated) });
+  } catch (error) {
+    console.error('Error updating case:', error);
+    return NextResponse.json(
+      { error: 'Failed to update case' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cases/[id]
+ * Delete a case. Its recordings are kept and keep their case number.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const deleted = await db
+      .delete(cases)
+      .where(eq(cases.id, id))
+      .returning({ id: cases.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting case:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete case' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, cases } from '@/lib/db';
+import {
+  createCaseSchema,
+  findCaseByNumber,
+  getCaseRecordingCounts,
+  linkRecordingsByCaseNumber,
+  toCaseResponse,
+} from '@/lib/cases';
+import { resolveTranscriptionSettings } from '@/lib/transcription-settings';
+import { v4 as uuidv4 } from 'uuid';
+import { asc } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/cases
+ * List cases with their number of recordings and total duration
+ */
+export async function GET() {
+  try {
+    const [allCases, counts] = await Promise.all([
+      db.query.cases.findMany({
+        orderBy: [asc(cases.caseNumber)],
+      }),
+      getCaseRecordingCounts(),
+    ]);
+
+    return NextResponse.json({
+      cases: allCases.map(caseRecord => ({
+        ...toCaseResponse(caseRecord),
+        recordingCount: counts.get(caseRecord.id)?.recordings ?? 0,
+        durationSeconds: counts.get(caseRecord.id)?.durationSeconds ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching cases:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cases' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cases
+ * Create a case. Existing recordings with the same case number are linked to it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = createCaseSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const { caseNumber, caption, courtName, judge, parties, counsel, settings } = validationResult.data;
+
+    const existing = await findCaseByNumber(caseNumber);
+    if (existing) {
+      return NextResponse.json(
+        { error: `Case ${existing.caseNumber} already exists`, caseId: existing.id },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const { caseRecord, linkedRecordings } = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(cases).values({
+        id: uuidv4(),
+        caseNumber,
+        caption: caption || null,
+        courtName: courtName || null,
+        judge: judge || null,
+        partiesJson: JSON.stringify(parties ?? []),
+        counselJson: JSON.stringify(counsel ?? []),
+        settingsJson: settings ? JSON.stringify(resolveTranscriptionSettings(settings)) : null,
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+
+      return {
+        caseRecord: created,
+        linkedRecordings: await linkRecordingsByCaseNumber(created, tx),
+      };
+    });
+
+    return NextResponse.json({ case: toCaseResponse(caseRecord), linkedRecordings });
+  } catch (error) {
+    console.error('Error creating case:', error);
+    return NextResponse.json(
+      { error: 'Failed to create case' },
+      { status: 500 }
+    );
+  }
+}
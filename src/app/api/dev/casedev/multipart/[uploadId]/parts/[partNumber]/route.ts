@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFakeCaseDev } from '@/lib/casedev';
+import { saveFakeUploadPart } from '@/lib/casedev-fake';
+
+/**
+ * PUT /api/dev/casedev/multipart/[uploadId]/parts/[partNumber]
+ * Part upload target for the local Case.dev stand-in (CASEDEV_PROVIDER=fake).
+ * Returns the part's ETag, like object storage does.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string; partNumber: string }> }
+) {
+  if (!isFakeCaseDev) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { uploadId, partNumber } = await params;
+    const data = Buffer.from(await request.arrayBuffer());
+
+    const result = await saveFakeUploadPart(
+      uploadId,
+      Number(partNumber),
+      data,
+      request.headers.get('x-amz-checksum-sha256')
+    );
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(null, { status: 200, headers: { ETag: result.etag } });
+  } catch (error) {
+    console.error('Error storing fake upload part:', error);
+    return NextResponse.json(
+      { error: 'Failed to store upload part' },
+      { status: 500 }
+    );
+  }
+}
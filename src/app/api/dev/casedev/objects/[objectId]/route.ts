@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFakeCaseDev } from '@/lib/casedev';
+import { getFakeObject, getFakeObjectPath, saveFakeUpload } from '@/lib/casedev-fake';
+import { promises as fs } from 'fs';
+
+/**
+ * PUT /api/dev/casedev/objects/[objectId]
+ * Upload target for the local Case.dev stand-in (CASEDEV_PROVIDER=fake)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ objectId: string }> }
+) {
+  if (!isFakeCaseDev) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { objectId } = await params;
+    const data = Buffer.from(await request.arrayBuffer());
+
+    const saved = await saveFakeUpload(objectId, data);
+    if (!saved) {
+      return NextResponse.json({ error: 'Object not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error('Error storing fake upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to store upload' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/dev/casedev/objects/[objectId]
+ * Download an object uploaded to the local Case.dev stand-in (honours a
+ * single `Range: bytes=start-end`, like the real vault)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ objectId: string }> }
+) {
+  if (!isFakeCaseDev) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { objectId } = await params;
+    const object = getFakeObject(objectId);
+    if (!object) {
+      return NextResponse.json({ error: 'Object not found' }, { status: 404 });
+    }
+
+    const data = await fs.readFile(getFakeObjectPath(objectId)).catch(() => null);
+    if (!data) {
+      return NextResponse.json({ error: 'Object has not been uploaded' }, { status: 404 });
+    }
+
+    const range = request.headers.get('range')?.match(/^bytes=(\d+)-(\d*)$/);
+    if (range) {
+      const start = Number(range[1]);
+      const end = Math.min(range[2] ? Number(range[2]) : data.length - 1, data.length - 1);
+      if (start > end) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${data.length}` },
+        });
+      }
+      return new NextResponse(new Uint8Array(data.subarray(start, end + 1)), {
+        status: 206,
+        headers: {
+          'Content-Type': object.contentType,
+          'Content-Length': String(end - start + 1),
+          'Content-Range': `bytes ${start}-${end}/${data.length}`,
+        },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': object.contentType,
+        'Content-Length': String(data.length),
+      },
+    });
+  } catch (error) {
+    console.error('Error reading fake upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to read upload' },
+      { status: 500 }
+    );
+  }
+}
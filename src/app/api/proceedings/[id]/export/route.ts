@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, proceedings } from '@/lib/db';
+import { isLanguageTagStyle } from '@/lib/languages';
+import { exportProceedingTranscript, getProceedingSegments } from '@/lib/proceedings';
+import { DEFAULT_EXPORT_TITLE, isExportFormat } from '@/lib/transcript-export';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/proceedings/[id]/export
+ * Export a proceeding as one transcript with cumulative timestamps and
+ * continuous page and line numbers. Takes the same parameters as a single
+ * recording's export; the subtitle defaults to the proceeding's title.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'docx';
+    const languageTagStyle = searchParams.get('languageTags') || 'language';
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Unsupported format. Use "docx", "txt", "pdf", or "json"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isLanguageTagStyle(languageTagStyle)) {
+      return NextResponse.json(
+        { error: 'Unsupported languageTags. Use "language", "interpreter", or "none"' },
+        { status: 400 }
+      );
+    }
+
+    const proceeding = await db.query.proceedings.findFirst({
+      where: eq(proceedings.id, id),
+    });
+
+    if (!proceeding) {
+      return NextResponse.json(
+        { error: 'Proceeding not found' },
+        { status: 404 }
+      );
+    }
+
+    const segments = await getProceedingSegments(id);
+    const exported = await exportProceedingTranscript(proceeding, segments, format, {
+      title: searchParams.get('title') || DEFAULT_EXPORT_TITLE,
+      subtitle: searchParams.get('subtitle') || proceeding.title,
+      languageTagStyle,
+    });
+
+    if (!exported) {
+      return NextResponse.json(
+        { error: 'Transcript not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(exported.data), {
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting proceeding:', error);
+    return NextResponse.json(
+      { error: 'Failed to export proceeding' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, proceedings, recordings } from '@/lib/db';
+import {
+  getProceedingCaseId,
+  getProceedingSegments,
+  getProceedingTranscript,
+  getSegmentAudioUrl,
+  setProceedingRecordings,
+  updateProceedingSchema,
+  validateProceedingRecordings,
+} from '@/lib/proceedings';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/proceedings/[id]
+ * Get a proceeding with its recordings on one timeline (offsets and fresh
+ * audio URLs) and the combined transcript with cumulative timestamps
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const proceeding = await db.query.proceedings.findFirst({
+      where: eq(proceedings.id, id),
+    });
+
+    if (!proceeding) {
+      return NextResponse.json(
+        { error: 'Proceeding not found' },
+        { status: 404 }
+      );
+    }
+
+    const segments = await getProceedingSegments(id);
+    const { lines, missing } = await getProceedingTranscript(segments);
+    const audioUrls = await Promise.all(segments.map(s => getSegmentAudioUrl(s.recording)));
+
+    return NextResponse.json({
+      proceeding,
+      durationMs: segments.reduce((sum, s) => sum + s.durationMs, 0),
+      segments: segments.map((segment, index) => ({
+        recordingId: segment.recording.id,
+        filename: segment.recording.filename,
+        recordingDate: segment.recording.recordingDate,
+        status: segment.recording.status,
+        offsetMs: segment.offsetMs,
+        durationMs: segment.durationMs,
+        audioUrl: audioUrls[index],
+        transcribed: !missing.includes(segment.recording.id),
+      })),
+      utterances: lines,
+    });
+  } catch (error) {
+    console.error('Error fetching proceeding:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch proceeding' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/proceedings/[id]
+ * Rename a proceeding or replace its recordings (`recordingIds`, in order)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = updateProceedingSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.query.proceedings.findFirst({
+      where: eq(proceedings.id, id),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Proceeding not found' },
+        { status: 404 }
+      );
+    }
+
+    const { title, recordingIds } = validationResult.data;
+    const updateData: Partial<typeof proceedings.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (title !== undefined) updateData.title = title;
+    if (recordingIds !== undefined) {
+      const members = await validateProceedingRecordings(recordingIds, id);
+      if (!members.success) {
+        return NextResponse.json(
+          { error: members.error },
+          { status: 409 }
+        );
+      }
+      updateData.caseId = getProceedingCaseId(members.recordings);
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(proceedings)
+        .set(updateData)
+        .where(eq(proceedings.id, id))
+        .returning();
+
+      if (recordingIds !== undefined) {
+        await setProceedingRecordings(id, recordingIds, tx);
+      }
+      return row;
+    });
+
+    return NextResponse.json({ proceeding: updated });
+  } catch (error) {
+    console.error('Error updating proceeding:', error);
+    return NextResponse.json(
+      { error: 'Failed to update proceeding' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/proceedings/[id]
+ * Delete a proceeding. Its recordings and their transcripts are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const deleted = await db.transaction(async (tx) => {
+      await tx
+        .update(recordings)
+        .set({ proceedingPosition: null })
+        .where(eq(recordings.proceedingId, id));
+
+      return tx
+        .delete(proceedings)
+        .where(eq(proceedings.id, id))
+        .returning({ id: proceedings.id });
+    });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Proceeding not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting proceeding:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete proceeding' },
+      { status: 500 }
+    );
+  }
+}
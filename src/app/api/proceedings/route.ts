@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, proceedings, recordings } from '@/lib/db';
+import {
+  createProceedingSchema,
+  getProceedingCaseId,
+  setProceedingRecordings,
+  validateProceedingRecordings,
+} from '@/lib/proceedings';
+import { v4 as uuidv4 } from 'uuid';
+import { asc, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/proceedings
+ * List proceedings with their number of recordings. `caseId` limits the list to one case.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const caseId = request.nextUrl.searchParams.get('caseId');
+
+    const [allProceedings, counts] = await Promise.all([
+      db.query.proceedings.findMany({
+        where: caseId ? eq(proceedings.caseId, caseId) : undefined,
+        orderBy: [asc(proceedings.createdAt)],
+      }),
+      db
+        .select({
+          proceedingId: recordings.proceedingId,
+          recordings: sql<number>`count(*)`.mapWith(Number),
+        })
+        .from(recordings)
+        .where(sql`${recordings.proceedingId} is not null`)
+        .groupBy(recordings.proceedingId),
+    ]);
+    const countMap = new Map(counts.map(row => [row.proceedingId, row.recordings]));
+
+    return NextResponse.json({
+      proceedings: allProceedings.map(proceeding => ({
+        ...proceeding,
+        recordingCount: countMap.get(proceeding.id) ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching proceedings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch proceedings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proceedings
+ * Stitch recordings into a proceeding, in the order given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = createProceedingSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const { title, recordingIds } = validationResult.data;
+
+    const members = await validateProceedingRecordings(recordingIds, null);
+    if (!members.success) {
+      return NextResponse.json(
+        { error: members.error },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const proceeding = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(proceedings).values({
+        id: uuidv4(),
+        title,
+        caseId: getProceedingCaseId(members.recordings),
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+
+      await setProceedingRecordings(created.id, recordingIds, tx);
+      return created;
+    });
+
+    return NextResponse.json({ proceeding });
+  } catch (error) {
+    console.error('Error creating proceeding:', error);
+    return NextResponse.json(
+      { error: 'Failed to create proceeding' },
+      { status: 500 }
+    );
+  }
+}
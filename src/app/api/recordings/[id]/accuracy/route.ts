@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, transcripts, utterances } from '@/lib/db';
+import { db, recordings, utterances } from '@/lib/db';
 import { getAccuracyAssessment } from '@/lib/legal-vocabulary';
+import { getActiveTranscript } from '@/lib/transcripts';
 import { eq, sql } from 'drizzle-orm';
 
 /**
@@ -26,10 +27,8 @@ export async function GET(
       );
     }
 
-    // Get transcript
-    const transcript = await db.query.transcripts.findFirst({
-      where: eq(transcripts.recordingId, id),
-    });
+    // Get the active transcript version
+    const transcript = await getActiveTranscript(id);
 
     if (!transcript) {
       return NextResponse.json(
@@ -47,7 +46,7 @@ export async function GET(
         totalWords: sql<number>`sum(length(${utterances.text}) - length(replace(${utterances.text}, ' ', '')) + 1)`,
       })
       .from(utterances)
-      .where(eq(utterances.recordingId, id));
+      .where(eq(utterances.transcriptId, transcript.id));
 
     const stats = utteranceStats[0] || {
       totalUtterances: 0,
@@ -107,6 +106,7 @@ export async function GET(
         recordingDate: recording.recordingDate,
         originalFormat: recording.originalFormat,
         transcribedAt: transcript.createdAt,
+        transcriptVersion: transcript.version,
       },
       
       // Quality indicators
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { cancelProcessing } from '@/lib/pipeline';
+import { eq } from 'drizzle-orm';
+
+/**
+ * POST /api/recordings/[id]/cancel
+ * Stop an in-progress conversion or transcription.
+ * Late webhook results for the cancelled jobs are ignored; POST /process restarts.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelledJobs = await cancelProcessing(recording);
+
+    if (!cancelledJobs) {
+      return NextResponse.json(
+        { error: 'Recording is not being processed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: 'cancelled',
+      cancelledJobIds: cancelledJobs.map(job => job.id),
+      message: 'Processing cancelled. You can restart it at any time.',
+    });
+  } catch (error) {
+    console.error('Error cancelling recording:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel processing' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, transcripts, utterances } from '@/lib/db';
+import { db, recordings, jobs } from '@/lib/db';
 import { casedev } from '@/lib/casedev';
-import { LEGAL_TRANSCRIPTION_CONFIG } from '@/lib/legal-vocabulary';
+import { ingestTranscriptionResult } from '@/lib/ingest-transcription';
+import { findActiveJob, findWaitingJob, markJobSucceeded } from '@/lib/jobs';
+import { startProcessing } from '@/lib/pipeline';
+import { getRecordingChannels } from '@/lib/channels';
+import { probeRecordingUpload } from '@/lib/media-probe';
+import { resolveTranscriptionSettings, transcriptionSettingsSchema } from '@/lib/transcription-settings';
 import { eq } from 'drizzle-orm';
-import { v4 as uuidv4 } from 'uuid';
-
-const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+import { z } from 'zod';
 
 /**
  * POST /api/recordings/[id]/process
- * Trigger conversion (if FTR) and transcription pipeline
+ * Queue the conversion (if FTR) and transcription pipeline.
+ * An optional `settings` body replaces the recording's transcription settings first.
  */
 export async function POST(
   request: NextRequest,
@@ -17,9 +21,19 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const settingsResult = transcriptionSettingsSchema.optional().safeParse(body?.settings);
+    if (!settingsResult.success) {
+      const errors = settingsResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
 
     // Get recording
-    const recording = await db.query.recordings.findFirst({
+    let recording = await db.query.recordings.findFirst({
       where: eq(recordings.id, id),
     });
 
@@ -30,113 +44,70 @@ export async function POST(
       );
     }
 
-    if (!recording.vaultId || !recording.vaultObjectId) {
+    if (!recording.vaultId || !recording.vaultObjectId || recording.uploadId) {
       return NextResponse.json(
         { error: 'Recording not uploaded to vault yet' },
         { status: 400 }
       );
     }
 
-    const isFTR = recording.originalFormat.toLowerCase() === 'ftr';
-
-    if (isFTR) {
-      // Step 1: Convert FTR to M4A
-      try {
-        // Get the source URL from vault
-        const objectInfo = await casedev.getObject(
-          recording.vaultId,
-          recording.vaultObjectId
-        );
-
-        const convertJob = await casedev.convertFTR(
-          objectInfo.downloadUrl,
-          `${APP_URL}/api/webhooks/convert`,
-          { output_format: 'm4a', preserve_channels: false }
-        );
-
-        // Update recording with convert job ID
-        await db
-          .update(recordings)
-          .set({
-            convertJobId: convertJob.id,
-            status: 'converting',
-            updatedAt: new Date(),
-          })
-          .where(eq(recordings.id, id));
-
-        return NextResponse.json({
-          success: true,
-          status: 'converting',
-          convertJobId: convertJob.id,
-          message: 'FTR conversion started. Transcription will begin after conversion.',
-        });
-      } catch (convertError) {
-        console.error('Convert error:', convertError);
-        
-        // Update status to failed
-        await db
-          .update(recordings)
-          .set({
-            status: 'failed',
-            errorMessage: `Conversion failed: ${convertError instanceof Error ? convertError.message : 'Unknown error'}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(recordings.id, id));
+    // Only one pipeline run per recording at a time
+    const activeJob = await findActiveJob(id);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Recording is already being processed', jobId: activeJob.id },
+        { status: 409 }
+      );
+    }
 
-        return NextResponse.json(
-          { error: 'Failed to start conversion' },
-          { status: 500 }
-        );
-      }
-    } else {
-      // Non-FTR file - go directly to transcription
-      try {
-        const objectInfo = await casedev.getObject(
-          recording.vaultId,
-          recording.vaultObjectId
-        );
+    // Direct uploads go straight to the vault: read the file's headers before paying for a job
+    // (if the client did not report the upload complete, or the file was rejected then)
+    const probe = await probeRecordingUpload(recording, 'user');
+    if (!probe.success) {
+      return NextResponse.json(
+        { error: `Upload rejected: ${probe.error}` },
+        { status: 422 }
+      );
+    }
+    recording = probe.recording;
+
+    if (settingsResult.data) {
+      [recording] = await db
+        .update(recordings)
+        .set({
+          settingsJson: JSON.stringify(resolveTranscriptionSettings(settingsResult.data)),
+          updatedAt: new Date(),
+        })
+        .where(eq(recordings.id, id))
+        .returning();
+    }
 
-        const transcriptionJob = await casedev.createTranscription({
-          audio_url: objectInfo.downloadUrl,
-          ...LEGAL_TRANSCRIPTION_CONFIG,
-          webhook_url: `${APP_URL}/api/webhooks/transcribe`,
-        });
+    // Enqueue the first step and run it right away; failures are retried by the worker
+    const job = await startProcessing(recording);
 
-        // Update recording with transcription job ID
-        await db
-          .update(recordings)
-          .set({
-            transcriptionJobId: transcriptionJob.id,
-            convertedAudioUrl: objectInfo.downloadUrl,
-            status: 'transcribing',
-            updatedAt: new Date(),
-          })
-          .where(eq(recordings.id, id));
+    const updatedJob = await db.query.jobs.findFirst({
+      where: eq(jobs.id, job.id),
+    });
+    const updatedRecording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
 
-        return NextResponse.json({
-          success: true,
-          status: 'transcribing',
-          transcriptionJobId: transcriptionJob.id,
-          message: 'Transcription started.',
-        });
-      } catch (transcribeError) {
-        console.error('Transcription error:', transcribeError);
-        
-        await db
-          .update(recordings)
-          .set({
-            status: 'failed',
-            errorMessage: `Transcription failed: ${transcribeError instanceof Error ? transcribeError.message : 'Unknown error'}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(recordings.id, id));
+    const isFTR = job.type === 'convert';
+    const started = updatedJob?.state === 'waiting';
 
-        return NextResponse.json(
-          { error: 'Failed to start transcription' },
-          { status: 500 }
-        );
-      }
-    }
+    return NextResponse.json({
+      success: true,
+      status: updatedRecording?.status ?? recording.status,
+      jobId: job.id,
+      jobState: updatedJob?.state,
+      convertJobId: updatedRecording?.convertJobId,
+      transcriptionJobId: updatedRecording?.transcriptionJobId,
+      message: !started
+        ? `Could not reach Case.dev${updatedJob?.lastError ? ` (${updatedJob.lastError})` : ''}. The job will be retried automatically.`
+        : isFTR
+          ? 'FTR conversion started. Transcription will begin after conversion.'
+          : 'Transcription started.',
+    });
   } catch (error) {
     console.error('Error processing recording:', error);
     return NextResponse.json(
@@ -201,87 +172,15 @@ export async function GET(
         if (transcriptionJob.status === 'completed' && recording.status === 'transcribing') {
           console.log('Syncing completed transcription results for recording:', recording.id);
           
-          const now = new Date();
-
-          // Check if transcript already exists
-          const existingTranscript = await db.query.transcripts.findFirst({
-            where: eq(transcripts.recordingId, recording.id),
-          });
-
-          if (!existingTranscript) {
-            // Create transcript record
-            const transcriptId = uuidv4();
-            await db.insert(transcripts).values({
-              id: transcriptId,
-              recordingId: recording.id,
-              fullText: transcriptionJob.text || '',
-              confidence: transcriptionJob.confidence,
-              language: 'en',
-              summary: transcriptionJob.summary || null,
-              chaptersJson: transcriptionJob.chapters ? JSON.stringify(transcriptionJob.chapters) : null,
-              createdAt: now,
-            });
+          const ingested = await ingestTranscriptionResult(recording, transcriptionJob);
+          synced = ingested.created;
 
-            // Create utterance records
-            if (transcriptionJob.utterances && transcriptionJob.utterances.length > 0) {
-              const utteranceRecords = transcriptionJob.utterances.map(
-                (u, index) => ({
-                  id: uuidv4(),
-                  transcriptId,
-                  recordingId: recording.id,
-                  speaker: u.speaker,
-                  text: u.text,
-                  startMs: u.start,
-                  endMs: u.end,
-                  sequenceIndex: index,
-                })
-              );
-
-              // Insert in batches to avoid SQLite limits
-              const batchSize = 100;
-              for (let i = 0; i < utteranceRecords.length; i += batchSize) {
-                const batch = utteranceRecords.slice(i, i + batchSize);
-                await db.insert(utterances).values(batch);
-              }
-            }
-
-            synced = true;
+          // The webhook never arrived - close out the waiting transcribe job
+          const waitingJob = await findWaitingJob('transcribe', transcriptionJob.id);
+          if (waitingJob) {
+            await markJobSucceeded(waitingJob.id);
           }
 
-          // Update recording status
-          // Calculate duration from audio_duration or from utterances
-          let durationInSeconds: number | null = null;
-          
-          // Try audio_duration first - it could be in seconds or milliseconds
-          if (transcriptionJob.audio_duration) {
-            // If value is > 10000, it's likely in milliseconds
-            if (transcriptionJob.audio_duration > 10000) {
-              durationInSeconds = Math.round(transcriptionJob.audio_duration / 1000);
-            } else {
-              // Otherwise assume it's already in seconds
-              durationInSeconds = Math.round(transcriptionJob.audio_duration);
-            }
-          }
-          
-          // Fallback: calculate from last utterance end time
-          if (!durationInSeconds && transcriptionJob.utterances && transcriptionJob.utterances.length > 0) {
-            const lastUtterance = transcriptionJob.utterances[transcriptionJob.utterances.length - 1];
-            // Utterance end times are in milliseconds
-            durationInSeconds = Math.round(lastUtterance.end / 1000);
-          }
-          
-          await db
-            .update(recordings)
-            .set({
-              status: 'completed',
-              // Only update duration if we got a valid value > 0
-              durationSeconds: (durationInSeconds && durationInSeconds > 0) 
-                ? durationInSeconds 
-                : recording.durationSeconds,
-              updatedAt: now,
-            })
-            .where(eq(recordings.id, recording.id));
-
           console.log('Transcription results synced for recording:', recording.id);
         }
       } catch (e) {
@@ -289,6 +188,8 @@ export async function GET(
       }
     }
 
+    const channels = await getRecordingChannels(id);
+
     return NextResponse.json({
       recording: {
         id: recording.id,
@@ -297,6 +198,12 @@ export async function GET(
       },
       convertStatus,
       transcriptionStatus,
+      // Per-channel progress for recordings transcribed channel by channel
+      channels: channels.map(c => ({
+        channelIndex: c.channelIndex,
+        transcriptionJobId: c.transcriptionJobId,
+        status: c.status,
+      })),
       synced,
     });
   } catch (error) {
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, transcripts, utterances, speakerLabels } from '@/lib/db';
+import { db, cases, recordings, utterances, speakerLabels, utteranceEdits } from '@/lib/db';
+import type { Job } from '@/lib/db/schema';
 import { casedev } from '@/lib/casedev';
+import { toUtteranceEdit } from '@/lib/utterance-edits';
+import { getActiveTranscript, getTranscriptUtterances } from '@/lib/transcripts';
+import { getRecordingChannels, getChannelSpeakerId } from '@/lib/channels';
+import { abortChunkedUpload } from '@/lib/chunked-upload';
+import { USER_SETTABLE_STATUSES } from '@/lib/recording-status';
+import { cancelRecordingJobs, cancelRemoteJobs } from '@/lib/pipeline';
+import { findCaseByNumber, getCaseRecordingValues } from '@/lib/cases';
+import { getRecordingVaultObjectIds, processVaultDeletions, queueVaultDeletions } from '@/lib/vault-cleanup';
+import { getTranscriptDocumentIds } from '@/lib/transcript-index';
+import { getChannelObjectIds } from '@/lib/converted-audio';
 import { eq } from 'drizzle-orm';
 
 /**
@@ -40,18 +51,13 @@ export async function GET(
       }
     }
 
-    // Get transcript if exists
-    const transcript = await db.query.transcripts.findFirst({
-      where: eq(transcripts.recordingId, id),
-    });
+    // Get the active transcript version if exists
+    const transcript = await getActiveTranscript(id);
 
     // Get utterances if transcript exists
     let recordingUtterances: typeof utterances.$inferSelect[] = [];
     if (transcript) {
-      recordingUtterances = await db.query.utterances.findMany({
-        where: eq(utterances.recordingId, id),
-        orderBy: (utterances, { asc }) => [asc(utterances.sequenceIndex)],
-      });
+      recordingUtterances = await getTranscriptUtterances(transcript.id);
     }
 
     // Get speaker labels
@@ -59,6 +65,16 @@ export async function GET(
       where: eq(speakerLabels.recordingId, id),
     });
 
+    // Separate microphone channels of multi-channel recordings
+    const channels = await getRecordingChannels(id);
+
+    // Get saved proofreading edits for the active version
+    const edits = transcript
+      ? await db.query.utteranceEdits.findMany({
+          where: eq(utteranceEdits.transcriptId, transcript.id),
+        })
+      : [];
+
     // Create a map of speaker labels
     const speakerLabelMap: Record<string, string> = {};
     labels.forEach(label => {
@@ -79,6 +95,13 @@ export async function GET(
       transcript,
       utterances: utterancesWithLabels,
       speakerLabels: labels,
+      utteranceEdits: edits.map(toUtteranceEdit),
+      channels: channels.map(c => ({
+        channelIndex: c.channelIndex,
+        speakerId: getChannelSpeakerId(c.channelIndex),
+        audioUrl: c.audioUrl,
+        status: c.status,
+      })),
     });
   } catch (error) {
     console.error('Error fetching recording:', error);
@@ -91,7 +114,8 @@ export async function GET(
 
 /**
  * DELETE /api/recordings/[id]
- * Delete a recording and all associated data
+ * Delete a recording and all associated data, including its vault objects.
+ * Vault deletions that fail are retried by the worker.
  */
 export async function DELETE(
   request: NextRequest,
@@ -113,11 +137,37 @@ export async function DELETE(
     }
 
     // Delete recording (cascades to transcripts, utterances, speaker labels)
-    await db.delete(recordings).where(eq(recordings.id, id));
+    // and queue its vault objects (audio, channel audio and transcript documents) for deletion
+    // in the same transaction
+    const queued = await db.transaction(async (tx) => {
+      const transcriptDocumentIds = await getTranscriptDocumentIds(id, tx);
+      const channelObjectIds = await getChannelObjectIds(id, tx);
+      await tx.delete(recordings).where(eq(recordings.id, id));
+      return recording.vaultId
+        ? queueVaultDeletions(recording.vaultId, [
+          ...getRecordingVaultObjectIds(recording),
+          ...channelObjectIds,
+          ...transcriptDocumentIds,
+        ], {
+          recordingId: id,
+          reason: 'recording_deleted',
+        }, tx)
+        : [];
+    });
+
+    // Let storage drop the parts of an unfinished chunked upload
+    await abortChunkedUpload(recording);
 
-    // TODO: Also delete from Case.dev vault if needed
+    // Try right away; anything that fails stays queued for retry
+    const vaultDeletion = await processVaultDeletions(queued.map(d => d.id));
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({
+      success: true,
+      vaultObjects: {
+        deleted: vaultDeletion.deleted,
+        pending: queued.length - vaultDeletion.deleted,
+      },
+    });
   } catch (error) {
     console.error('Error deleting recording:', error);
     return NextResponse.json(
@@ -129,7 +179,11 @@ export async function DELETE(
 
 /**
  * PATCH /api/recordings/[id]
- * Update recording metadata
+ * Update recording metadata. `status` may only be 'cancelled', which cancels
+ * processing along with the metadata change (restart with POST /process); it is
+ * recorded in the status history.
+ * `caseId` links the recording to a case (null unlinks it); a new case number
+ * links it to the case with that number, if there is one.
  */
 export async function PATCH(
   request: NextRequest,
@@ -138,7 +192,7 @@ export async function PATCH(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { caseNumber, courtName, recordingDate, status } = body;
+    const { caseId, caseNumber, courtName, recordingDate, status, reason } = body;
 
     const recording = await db.query.recordings.findFirst({
       where: eq(recordings.id, id),
@@ -151,6 +205,34 @@ export async function PATCH(
       );
     }
 
+    if (status !== undefined && !USER_SETTABLE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status can only be changed to ${USER_SETTABLE_STATUSES.join(', ')}; restart processing with POST /api/recordings/${id}/process` },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the case before any status change so a bad case id changes nothing
+    let linkedCase: typeof cases.$inferSelect | null | undefined;
+    if (caseId !== undefined && caseId !== null) {
+      linkedCase = await db.query.cases.findFirst({
+        where: eq(cases.id, caseId),
+      });
+
+      if (!linkedCase) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+    } else if (caseId === null) {
+      linkedCase = null;
+    } else if (caseNumber !== undefined) {
+      linkedCase = typeof caseNumber === 'string' && caseNumber.trim()
+        ? await findCaseByNumber(caseNumber) ?? null
+        : null;
+    }
+
     const updateData: Partial<typeof recordings.$inferInsert> = {
       updatedAt: new Date(),
     };
@@ -158,15 +240,46 @@ export async function PATCH(
     if (caseNumber !== undefined) updateData.caseNumber = caseNumber;
     if (courtName !== undefined) updateData.courtName = courtName;
     if (recordingDate !== undefined) updateData.recordingDate = recordingDate;
-    if (status !== undefined) updateData.status = status;
+    if (linkedCase) {
+      Object.assign(updateData, getCaseRecordingValues(linkedCase));
+    } else if (linkedCase === null) {
+      updateData.caseId = null;
+    }
+
+    // The status and metadata change together or not at all
+    const result = await db.transaction(async (tx) => {
+      let cancelledJobs: Job[] = [];
+      if (status !== undefined) {
+        const cancelled = await cancelRecordingJobs(
+          id,
+          tx,
+          typeof reason === 'string' && reason.trim() ? reason.trim() : undefined
+        );
+        if (!cancelled) {
+          return { error: 'Recording is not being processed' };
+        }
+        cancelledJobs = cancelled;
+      }
+
+      const [updated] = await tx
+        .update(recordings)
+        .set(updateData)
+        .where(eq(recordings.id, id))
+        .returning();
+
+      return { updated, cancelledJobs };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
 
-    const [updated] = await db
-      .update(recordings)
-      .set(updateData)
-      .where(eq(recordings.id, id))
-      .returning();
+    await cancelRemoteJobs(result.cancelledJobs);
 
-    return NextResponse.json({ recording: updated });
+    return NextResponse.json({ recording: result.updated });
   } catch (error) {
     console.error('Error updating recording:', error);
     return NextResponse.json(
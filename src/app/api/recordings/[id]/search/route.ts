@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, utterances, searchHistory } from '@/lib/db';
-import { eq, like, and } from 'drizzle-orm';
+import { db, recordings, searchHistory, speakerLabels } from '@/lib/db';
+import { matchUtterance, parseSearchQuery } from '@/lib/search-query';
+import {
+  getActiveTranscript,
+  getTranscriptUtterances,
+  getTranscriptWords,
+  groupWordsByUtterance,
+} from '@/lib/transcripts';
+import { alignWordsToText, findWordsInCharRange } from '@/lib/word-timing';
+import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
+const DEFAULT_CONTEXT_UTTERANCES = 1;
+const MAX_CONTEXT_UTTERANCES = 5;
+
 /**
  * GET /api/recordings/[id]/search
- * Search within a recording's transcript
+ * Search within a recording's transcript. Supports "phrases", AND/OR/NOT,
+ * wildcards, fuzzy~ terms and speaker:/after:/before: filters (see
+ * search-query.ts). `context` sets how many utterances around each match
+ * are returned (default 1, max 5).
  */
 export async function GET(
   request: NextRequest,
@@ -23,6 +37,22 @@ export async function GET(
       );
     }
 
+    const parsed = parseSearchQuery(query);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid query: ${parsed.error}` },
+        { status: 400 }
+      );
+    }
+
+    const contextSize = Number(searchParams.get('context') ?? DEFAULT_CONTEXT_UTTERANCES);
+    if (!Number.isInteger(contextSize) || contextSize < 0 || contextSize > MAX_CONTEXT_UTTERANCES) {
+      return NextResponse.json(
+        { error: `Parameter "context" must be a whole number from 0 to ${MAX_CONTEXT_UTTERANCES}` },
+        { status: 400 }
+      );
+    }
+
     // Verify recording exists
     const recording = await db.query.recordings.findFirst({
       where: eq(recordings.id, id),
@@ -35,41 +65,76 @@ export async function GET(
       );
     }
 
-    // Search utterances using LIKE (case-insensitive)
-    const searchPattern = `%${query.toLowerCase()}%`;
-    
-    // Get all utterances for this recording that match
-    const allUtterances = await db.query.utterances.findMany({
-      where: eq(utterances.recordingId, id),
-      orderBy: (utterances, { asc }) => [asc(utterances.sequenceIndex)],
+    // Get all utterances of the active transcript version
+    const transcript = await getActiveTranscript(id);
+    const allUtterances = transcript ? await getTranscriptUtterances(transcript.id) : [];
+
+    // speaker: filters match renamed speakers by their current name
+    const labels = await db.query.speakerLabels.findMany({
+      where: eq(speakerLabels.recordingId, id),
     });
+    const labelMap = new Map(labels.map(l => [l.speakerId, l.label]));
 
-    // Filter by search query (case-insensitive)
-    const matchingUtterances = allUtterances.filter(u => 
-      u.text.toLowerCase().includes(query.toLowerCase())
-    );
+    const matches = allUtterances.flatMap((u, index) => {
+      const termHighlights = matchUtterance(parsed.query, u, labelMap.get(u.speaker) ?? u.speakerLabel);
+      return termHighlights ? [{ utterance: u, index, termHighlights }] : [];
+    });
 
     // Save search to history
     await db.insert(searchHistory).values({
       id: uuidv4(),
       recordingId: id,
       query,
-      resultCount: matchingUtterances.length,
+      resultCount: matches.length,
       createdAt: new Date(),
     });
 
-    // Format results with highlighted matches
-    const results = matchingUtterances.map(u => ({
+    // Word timings let each match point to the exact time it is spoken
+    const wordsByUtterance = transcript && matches.length > 0
+      ? groupWordsByUtterance(await getTranscriptWords(transcript.id))
+      : new Map();
+
+    const toContext = (u: (typeof allUtterances)[number]) => ({
       id: u.id,
       speaker: u.speaker,
       speakerLabel: u.speakerLabel,
       text: u.text,
       startMs: u.startMs,
       endMs: u.endMs,
-      sequenceIndex: u.sequenceIndex,
-      // Add highlight info
-      highlights: findHighlights(u.text, query),
-    }));
+    });
+
+    // Format results with highlighted matches
+    const results = matches.map(({ utterance: u, index, termHighlights }) => {
+      const alignedWords = alignWordsToText(u.text, wordsByUtterance.get(u.id) || []);
+      const highlights = termHighlights.map(h => {
+        const matchedWords = findWordsInCharRange(alignedWords, h.start, h.end);
+        return {
+          ...h,
+          startMs: matchedWords.length > 0 ? matchedWords[0].startMs : null,
+          endMs: matchedWords.length > 0 ? matchedWords[matchedWords.length - 1].endMs : null,
+        };
+      });
+
+      return {
+        id: u.id,
+        speaker: u.speaker,
+        speakerLabel: u.speakerLabel,
+        text: u.text,
+        startMs: u.startMs,
+        endMs: u.endMs,
+        sequenceIndex: u.sequenceIndex,
+        language: u.language,
+        // Add highlight info
+        highlights,
+        // Time of the first match, falling back to the utterance start
+        matchStartMs: highlights.find(h => h.startMs !== null)?.startMs ?? u.startMs,
+        // Surrounding utterances, in transcript order
+        context: {
+          before: allUtterances.slice(Math.max(0, index - contextSize), index).map(toContext),
+          after: allUtterances.slice(index + 1, index + 1 + contextSize).map(toContext),
+        },
+      };
+    });
 
     return NextResponse.json({
       query,
@@ -84,27 +149,3 @@ export async function GET(
     );
   }
 }
-
-/**
- * Find all occurrences of a search term in text
- */
-function findHighlights(text: string, query: string): Array<{ start: number; end: number }> {
-  const highlights: Array<{ start: number; end: number }> = [];
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  
-  let startIndex = 0;
-  while (true) {
-    const index = lowerText.indexOf(lowerQuery, startIndex);
-    if (index === -1) break;
-    
-    highlights.push({
-      start: index,
-      end: index + query.length,
-    });
-    
-    startIndex = index + 1;
-  }
-  
-  return highlights;
-}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { PROCESSING_STATUSES, type RecordingStatus } from '@/lib/recording-status';
+import {
+  parseRecordingSettings,
+  resolveTranscriptionSettings,
+  transcriptionSettingsSchema,
+} from '@/lib/transcription-settings';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/recordings/[id]/settings
+ * Transcription settings used the next time the recording is processed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ settings: parseRecordingSettings(recording.settingsJson) });
+  } catch (error) {
+    console.error('Error fetching transcription settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/recordings/[id]/settings
+ * Replace the transcription settings (not while the recording is being processed)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = transcriptionSettingsSchema.safeParse(body.settings ?? body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    if (PROCESSING_STATUSES.includes(recording.status as RecordingStatus)) {
+      return NextResponse.json(
+        { error: 'Settings cannot be changed while the recording is being processed' },
+        { status: 409 }
+      );
+    }
+
+    const settings = resolveTranscriptionSettings(validationResult.data);
+
+    await db
+      .update(recordings)
+      .set({ settingsJson: JSON.stringify(settings), updatedAt: new Date() })
+      .where(eq(recordings.id, id));
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error updating transcription settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update transcription settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, recordings, speakerLabels, utterances } from '@/lib/db';
+import { getActiveTranscript, getTranscriptUtterances } from '@/lib/transcripts';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -31,10 +32,9 @@ export async function GET(
       where: eq(speakerLabels.recordingId, id),
     });
 
-    // Get unique speakers from utterances
-    const recordingUtterances = await db.query.utterances.findMany({
-      where: eq(utterances.recordingId, id),
-    });
+    // Get unique speakers from the active transcript's utterances
+    const transcript = await getActiveTranscript(id);
+    const recordingUtterances = transcript ? await getTranscriptUtterances(transcript.id) : [];
 
     const uniqueSpeakers = [...new Set(recordingUtterances.map(u => u.speaker))];
 
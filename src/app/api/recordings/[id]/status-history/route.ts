@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { getStatusHistory } from '@/lib/recording-status';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/recordings/[id]/status-history
+ * Status transitions of a recording, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const events = await getStatusHistory(id);
+
+    return NextResponse.json({
+      recordingId: id,
+      status: recording.status,
+      events,
+    });
+  } catch (error) {
+    console.error('Error fetching status history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch status history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, rangeTranscriptions, recordings } from '@/lib/db';
+import { getActiveTranscript, listTranscriptVersions } from '@/lib/transcripts';
+import { findActiveJob } from '@/lib/jobs';
+import { getRecordingChannels } from '@/lib/channels';
+import { runJobNow } from '@/lib/pipeline';
+import {
+  createRangeTranscription,
+  createRangeTranscriptionSchema,
+  listRangeTranscriptions,
+  toRangeTranscriptionResponse,
+} from '@/lib/range-transcription';
+import { parseRecordingSettings, resolveTranscriptionSettings } from '@/lib/transcription-settings';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+/**
+ * GET /api/recordings/[id]/transcription/ranges
+ * Passages re-transcribed for a recording, newest first, with the versions
+ * each was cut from and spliced into
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const [ranges, versions] = await Promise.all([
+      listRangeTranscriptions(id),
+      listTranscriptVersions(id),
+    ]);
+    const versionMap = new Map(versions.map(v => [v.id, v.version]));
+
+    return NextResponse.json({
+      ranges: ranges.map(range => ({
+        ...toRangeTranscriptionResponse(range),
+        baseVersion: versionMap.get(range.baseTranscriptId) ?? null,
+        resultVersion: range.resultTranscriptId ? versionMap.get(range.resultTranscriptId) ?? null : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching range transcriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch range transcriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/recordings/[id]/transcription/ranges
+ * Re-transcribe one passage of the active transcript. The range is widened to
+ * whole utterances; `settings` override the recording's settings for this
+ * passage only. For recordings transcribed per channel, `channel` (1-based)
+ * picks the channel to re-transcribe; by default it is the one speaking most
+ * in the passage. When the result arrives it is spliced into a new version.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = createRangeTranscriptionSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const { startMs, endMs, channel, settings } = validationResult.data;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    if (recording.status !== 'completed') {
+      return NextResponse.json(
+        { error: `Cannot re-transcribe a passage of a recording that is ${recording.status}` },
+        { status: 409 }
+      );
+    }
+
+    const transcript = await getActiveTranscript(id);
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'No transcription found for this recording' },
+        { status: 404 }
+      );
+    }
+
+    if (recording.durationSeconds && startMs >= recording.durationSeconds * 1000) {
+      return NextResponse.json(
+        { error: 'The range starts after the end of the recording' },
+        { status: 400 }
+      );
+    }
+
+    if (channel !== undefined) {
+      const channels = await getRecordingChannels(id);
+      if (!channels.some(c => c.channelIndex === channel - 1)) {
+        return NextResponse.json(
+          { error: `Recording has no channel ${channel}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // One run per recording at a time, whether a full run or a passage
+    const activeJob = await findActiveJob(id);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Recording is already being processed', jobId: activeJob.id },
+        { status: 409 }
+      );
+    }
+
+    const { range, job } = await createRangeTranscription(recording, transcript, {
+      startMs,
+      endMs,
+      channelIndex: channel === undefined ? undefined : channel - 1,
+      settings: resolveTranscriptionSettings({
+        ...parseRecordingSettings(recording.settingsJson),
+        ...settings,
+      }),
+    });
+
+    // Submit right away; failures are retried by the worker
+    await runJobNow(job.id);
+
+    const submitted = await db.query.rangeTranscriptions.findFirst({
+      where: eq(rangeTranscriptions.id, range.id),
+    });
+
+    return NextResponse.json(
+      { range: toRangeTranscriptionResponse(submitted ?? range) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting range transcription:', error);
+    return NextResponse.json(
+      { error: 'Failed to start range transcription' },
+      { status: 500 }
+    );
+  }
+}
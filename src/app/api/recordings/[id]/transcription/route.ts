@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, transcripts, utterances } from '@/lib/db';
+import { db, recordings, transcripts } from '@/lib/db';
+import { getActiveTranscript, getTranscriptUtterances, parseTranscriptionSettings } from '@/lib/transcripts';
+import { canTransition, transitionRecordingStatus } from '@/lib/recording-status';
 import { eq } from 'drizzle-orm';
 
 /**
  * DELETE /api/recordings/[id]/transcription
- * Delete the transcription for a recording (allows re-transcription)
- * This keeps the recording but removes the transcript and utterances
+ * Reset a recording for re-transcription.
+ * The current transcript is deactivated but kept as a version, so earlier
+ * output stays available through /transcription/versions.
  */
 export async function DELETE(
   request: NextRequest,
@@ -27,9 +30,7 @@ export async function DELETE(
     }
 
     // Check if transcript exists
-    const transcript = await db.query.transcripts.findFirst({
-      where: eq(transcripts.recordingId, id),
-    });
+    const transcript = await getActiveTranscript(id);
 
     if (!transcript) {
       return NextResponse.json(
@@ -38,29 +39,45 @@ export async function DELETE(
       );
     }
 
-    // Delete utterances first (foreign key constraint)
-    await db.delete(utterances).where(eq(utterances.recordingId, id));
+    if (recording.status !== 'uploading' && !canTransition(recording.status, 'uploading')) {
+      return NextResponse.json(
+        { error: `Cannot reset a recording that is ${recording.status}` },
+        { status: 409 }
+      );
+    }
 
-    // Delete transcript
-    await db.delete(transcripts).where(eq(transcripts.recordingId, id));
+    const transition = await db.transaction(async (tx) => {
+      // Reset recording status to allow re-transcription
+      const reset = await transitionRecordingStatus(id, 'uploading', {
+        actor: 'user',
+        reason: `Transcript version ${transcript.version} reset for re-transcription`,
+        values: { transcriptionJobId: null },
+      }, tx);
+      if (!reset.success) return reset;
+
+      // Deactivate the current version (the next run becomes the new active version)
+      await tx
+        .update(transcripts)
+        .set({ isActive: false })
+        .where(eq(transcripts.id, transcript.id));
+
+      return reset;
+    });
 
-    // Reset recording status to allow re-transcription
-    await db
-      .update(recordings)
-      .set({
-        status: 'uploading', // Reset to initial state
-        transcriptionJobId: null,
-        errorMessage: null,
-        updatedAt: new Date(),
-      })
-      .where(eq(recordings.id, id));
+    if (!transition.success) {
+      return NextResponse.json(
+        { error: transition.error },
+        { status: 409 }
+      );
+    }
 
-    console.log('Transcription deleted for recording:', id);
+    console.log('Transcription reset for recording:', id, 'previous version:', transcript.version);
 
     return NextResponse.json({
       success: true,
-      message: 'Transcription deleted. You can now re-transcribe this recording.',
+      message: `Transcription reset. Version ${transcript.version} is kept in the history and you can now re-transcribe this recording.`,
       recordingId: id,
+      previousVersion: transcript.version,
     });
   } catch (error) {
     console.error('Error deleting transcription:', error);
@@ -94,10 +111,8 @@ export async function GET(
       );
     }
 
-    // Get transcript
-    const transcript = await db.query.transcripts.findFirst({
-      where: eq(transcripts.recordingId, id),
-    });
+    // Get the active transcript version
+    const transcript = await getActiveTranscript(id);
 
     if (!transcript) {
       return NextResponse.json(
@@ -107,13 +122,11 @@ export async function GET(
     }
 
     // Get utterances
-    const recordingUtterances = await db.query.utterances.findMany({
-      where: eq(utterances.recordingId, id),
-      orderBy: (utterances, { asc }) => [asc(utterances.sequenceIndex)],
-    });
+    const recordingUtterances = await getTranscriptUtterances(transcript.id);
 
     return NextResponse.json({
       transcript,
+      settings: parseTranscriptionSettings(transcript.settingsJson),
       utterances: recordingUtterances,
       stats: {
         utteranceCount: recordingUtterances.length,
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings, transcripts } from '@/lib/db';
+import {
+  getTranscriptUtterances,
+  diffTranscriptVersions,
+  parseTranscriptionSettings,
+} from '@/lib/transcripts';
+import { and, eq } from 'drizzle-orm';
+
+/**
+ * GET /api/recordings/[id]/transcription/versions/compare?from=1&to=2
+ * Compare two transcript versions utterance by utterance
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromVersion = Number(searchParams.get('from'));
+    const toVersion = Number(searchParams.get('to'));
+
+    if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion) || fromVersion < 1 || toVersion < 1) {
+      return NextResponse.json(
+        { error: 'Query parameters "from" and "to" must be version numbers' },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const [fromTranscript, toTranscript] = await Promise.all(
+      [fromVersion, toVersion].map(version =>
+        db.query.transcripts.findFirst({
+          where: and(
+            eq(transcripts.recordingId, id),
+            eq(transcripts.version, version)
+          ),
+        })
+      )
+    );
+
+    if (!fromTranscript || !toTranscript) {
+      return NextResponse.json(
+        { error: `Version ${!fromTranscript ? fromVersion : toVersion} not found` },
+        { status: 404 }
+      );
+    }
+
+    const [fromUtterances, toUtterances] = await Promise.all([
+      getTranscriptUtterances(fromTranscript.id),
+      getTranscriptUtterances(toTranscript.id),
+    ]);
+
+    const diff = diffTranscriptVersions(fromUtterances, toUtterances);
+
+    const summarize = (t: typeof fromTranscript, list: typeof fromUtterances) => ({
+      version: t.version,
+      isActive: t.isActive,
+      settings: parseTranscriptionSettings(t.settingsJson),
+      confidence: t.confidence,
+      utteranceCount: list.length,
+      speakerCount: new Set(list.map(u => u.speaker)).size,
+      wordCount: t.fullText ? t.fullText.split(/\s+/).filter(Boolean).length : 0,
+      createdAt: t.createdAt,
+    });
+
+    const pick = (u: (typeof fromUtterances)[number]) => ({
+      id: u.id,
+      speaker: u.speaker,
+      text: u.text,
+      startMs: u.startMs,
+      endMs: u.endMs,
+    });
+
+    return NextResponse.json({
+      from: summarize(fromTranscript, fromUtterances),
+      to: summarize(toTranscript, toUtterances),
+      stats: {
+        unchanged: diff.filter(d => d.type === 'unchanged').length,
+        removed: diff.filter(d => d.type === 'removed').length,
+        added: diff.filter(d => d.type === 'added').length,
+      },
+      changes: diff.map(d => ({
+        type: d.type,
+        ...(d.type !== 'added' && { from: pick(d.from) }),
+        ...(d.type !== 'removed' && { to: pick(d.to) }),
+      })),
+    });
+  } catch (error) {
+    console.error('Error comparing transcript versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare transcript versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, rangeTranscriptions, recordings, utterances } from '@/lib/db';
+import {
+  listTranscriptVersions,
+  activateTranscriptVersion,
+  parseTranscriptionSettings,
+} from '@/lib/transcripts';
+import { queueTranscriptIndexing } from '@/lib/transcript-index';
+import { eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+const activateVersionSchema = z.object({
+  version: z.number().int().positive('Version must be a positive integer'),
+});
+
+/**
+ * GET /api/recordings/[id]/transcription/versions
+ * List all transcript versions for a recording, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await listTranscriptVersions(id);
+
+    // Utterance counts per version
+    const counts = await db
+      .select({
+        transcriptId: utterances.transcriptId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(utterances)
+      .where(eq(utterances.recordingId, id))
+      .groupBy(utterances.transcriptId);
+
+    const countMap: Record<string, number> = {};
+    counts.forEach(c => {
+      countMap[c.transcriptId] = c.count;
+    });
+
+    // Versions made by re-transcribing one passage
+    const ranges = await db.query.rangeTranscriptions.findMany({
+      where: eq(rangeTranscriptions.recordingId, id),
+    });
+    const rangeMap = new Map(ranges
+      .filter(r => r.resultTranscriptId)
+      .map(r => [r.resultTranscriptId!, { id: r.id, startMs: r.startMs, endMs: r.endMs }]));
+
+    return NextResponse.json({
+      versions: versions.map(v => ({
+        id: v.id,
+        version: v.version,
+        isActive: v.isActive,
+        transcriptionJobId: v.transcriptionJobId,
+        settings: parseTranscriptionSettings(v.settingsJson),
+        confidence: v.confidence,
+        language: v.language,
+        utteranceCount: countMap[v.id] || 0,
+        range: rangeMap.get(v.id) ?? null,
+        wordCount: v.fullText ? v.fullText.split(/\s+/).filter(Boolean).length : 0,
+        createdAt: v.createdAt,
+      })),
+      activeVersion: versions.find(v => v.isActive)?.version ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching transcript versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcript versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/recordings/[id]/transcription/versions
+ * Switch the active transcript version
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = activateVersionSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const activated = await activateTranscriptVersion(id, validationResult.data.version);
+
+    if (!activated) {
+      return NextResponse.json(
+        { error: `Version ${validationResult.data.version} not found` },
+        { status: 404 }
+      );
+    }
+
+    // Semantic search should answer from the version now shown
+    if (!activated.indexedAt) {
+      await queueTranscriptIndexing(id, activated.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      activeVersion: activated.version,
+      transcriptId: activated.id,
+    });
+  } catch (error) {
+    console.error('Error switching transcript version:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch transcript version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { finalizeUpload } from '@/lib/chunked-upload';
+import { probeRecordingUpload } from '@/lib/media-probe';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+const completeUploadSchema = z.object({
+  checksum: z.string().regex(/^[a-fA-F0-9]{64}$/, 'Checksum must be a hex SHA-256 digest').optional(),
+});
+
+/**
+ * POST /api/recordings/[id]/upload/complete
+ * Finalize a chunked upload: verify size and `checksum`, then queue the job that
+ * completes the upload in the vault (202). Poll GET /upload until the status
+ * leaves 'uploading'; the recording is ready for processing once it is 'uploaded'.
+ *
+ * For a direct upload, call this once the file is PUT to its upload URL: the
+ * file's headers are read and the recording is marked 'uploaded' (200), or it
+ * is failed if they cannot be read (422).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = completeUploadSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    // Direct upload: the file is already in the vault; read its headers before marking it uploaded
+    if (!recording.uploadPartSize) {
+      if (recording.status !== 'uploading') {
+        return NextResponse.json(
+          { error: 'Upload has already been completed' },
+          { status: 400 }
+        );
+      }
+
+      const probe = await probeRecordingUpload(recording, 'user');
+      if (!probe.success) {
+        return NextResponse.json(
+          { error: `Upload rejected: ${probe.error}` },
+          { status: 422 }
+        );
+      }
+
+      const transition = await transitionRecordingStatus(id, 'uploaded', {
+        actor: 'user',
+        reason: 'Direct upload completed',
+        from: ['uploading'],
+      });
+
+      if (!transition.success) {
+        return NextResponse.json(
+          { error: 'Upload has already been completed' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        status: transition.recording.status,
+      });
+    }
+
+    if (!validationResult.data.checksum) {
+      return NextResponse.json(
+        { error: 'Validation failed: Checksum is required for a chunked upload' },
+        { status: 400 }
+      );
+    }
+
+    const result = await finalizeUpload(recording, validationResult.data.checksum);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    // The worker completes the upload; nothing here waits for it
+    return NextResponse.json({
+      success: true,
+      jobId: result.job.id,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error finalizing upload:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to finalize upload: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { getPartUploadUrl, recordUploadPart } from '@/lib/chunked-upload';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+const sha256Schema = z.string().regex(/^[a-fA-F0-9]{64}$/, 'sha256 must be a hex SHA-256 digest');
+
+const partUrlSchema = z.object({
+  sha256: sha256Schema,
+});
+
+const recordPartSchema = z.object({
+  sha256: sha256Schema,
+  etag: z.string().min(1, 'ETag is required').max(200, 'ETag too long'),
+  sizeBytes: z.number().int('Part size must be a whole number of bytes').positive('Part size must be positive'),
+});
+
+/**
+ * POST /api/recordings/[id]/upload/parts/[partNumber]
+ * Get a presigned URL for uploading one part straight to storage.
+ * Send the part with the returned headers; storage checks it against `sha256`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; partNumber: string }> }
+) {
+  try {
+    const { id, partNumber } = await params;
+    const body = await request.json();
+
+    const validationResult = partUrlSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await getPartUploadUrl(recording, Number(partNumber), validationResult.data.sha256);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      partNumber: Number(partNumber),
+      uploadUrl: result.uploadUrl,
+      headers: result.headers,
+      expiresIn: result.expiresIn,
+    });
+  } catch (error) {
+    console.error('Error getting part upload URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to get part upload URL' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/recordings/[id]/upload/parts/[partNumber]
+ * Record a part that storage accepted: its `etag`, `sha256` and `sizeBytes`.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; partNumber: string }> }
+) {
+  try {
+    const { id, partNumber } = await params;
+    const body = await request.json();
+
+    const validationResult = recordPartSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const { part, error } = await recordUploadPart(recording, Number(partNumber), validationResult.data);
+
+    if (error || !part) {
+      return NextResponse.json(
+        { error: error || 'Failed to record part' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      partNumber: part.partNumber,
+      sizeBytes: part.sizeBytes,
+      sha256: part.sha256,
+    });
+  } catch (error) {
+    console.error('Error recording upload part:', error);
+    return NextResponse.json(
+      { error: 'Failed to record upload part' },
+      { status: 500 }
+    );
+  }
+}
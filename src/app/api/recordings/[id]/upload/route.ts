@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { getPartCount, getUploadParts } from '@/lib/chunked-upload';
+import { findActiveJob } from '@/lib/jobs';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/recordings/[id]/upload
+ * Progress of a chunked upload: which parts have arrived (used to resume), and
+ * whether the upload is being finalized
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!recording.uploadPartSize) {
+      return NextResponse.json(
+        { error: 'Recording was not created for a chunked upload' },
+        { status: 400 }
+      );
+    }
+
+    const parts = await getUploadParts(id);
+    const finalizeJob = recording.status === 'uploading' ? await findActiveJob(id) : undefined;
+
+    return NextResponse.json({
+      recordingId: id,
+      status: recording.status,
+      errorMessage: recording.errorMessage,
+      finalizing: !!finalizeJob,
+      filename: recording.filename,
+      fileSizeBytes: recording.fileSizeBytes,
+      partSize: recording.uploadPartSize,
+      partCount: getPartCount(recording.fileSizeBytes, recording.uploadPartSize),
+      uploadedBytes: parts.reduce((sum, p) => sum + p.sizeBytes, 0),
+      parts: parts.map(p => ({
+        partNumber: p.partNumber,
+        sizeBytes: p.sizeBytes,
+        sha256: p.sha256,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching upload progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch upload progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings, utteranceEdits } from '@/lib/db';
+import {
+  saveUtteranceEditsSchema,
+  toUtteranceEdit,
+  getCorrectedText,
+} from '@/lib/utterance-edits';
+import { getActiveTranscript, getTranscriptUtterances } from '@/lib/transcripts';
+import { eq, and } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+/**
+ * GET /api/recordings/[id]/utterances
+ * Get the saved transcript edits for the active transcript version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const transcript = await getActiveTranscript(id);
+    const edits = transcript
+      ? await db.query.utteranceEdits.findMany({
+          where: eq(utteranceEdits.transcriptId, transcript.id),
+        })
+      : [];
+
+    return NextResponse.json({
+      edits: edits.map(toUtteranceEdit),
+      raw: edits.map(e => ({
+        utteranceId: e.utteranceId,
+        originalText: e.originalText,
+        correctedText: e.correctedText,
+        isDeleted: e.isDeleted,
+        updatedAt: e.updatedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching utterance edits:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch utterance edits' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/recordings/[id]/utterances
+ * Replace the saved transcript edits for the active transcript version.
+ * The viewer sends its full edit list, so utterances missing from the
+ * request are reverted to the raw ASR output.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = saveUtteranceEditsSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const { edits } = validationResult.data;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const transcript = await getActiveTranscript(id);
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'No transcription found for this recording' },
+        { status: 404 }
+      );
+    }
+
+    // Only accept edits for utterances of the active version
+    const recordingUtterances = await getTranscriptUtterances(transcript.id);
+    const utteranceMap = new Map(recordingUtterances.map(u => [u.id, u]));
+
+    const unknownIds = edits
+      .map(e => e.utteranceId)
+      .filter(utteranceId => !utteranceMap.has(utteranceId));
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown utterances for the active transcript: ${unknownIds.slice(0, 5).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const editRecords = edits.map(edit => {
+      const utterance = utteranceMap.get(edit.utteranceId)!;
+      return {
+        id: uuidv4(),
+        recordingId: id,
+        transcriptId: transcript.id,
+        utteranceId: edit.utteranceId,
+        originalText: utterance.text,
+        correctedText: getCorrectedText(edit.segments),
+        segmentsJson: JSON.stringify(edit.segments),
+        isDeleted: edit.segments.length === 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.delete(utteranceEdits).where(eq(utteranceEdits.transcriptId, transcript.id));
+
+      const batchSize = 100;
+      for (let i = 0; i < editRecords.length; i += batchSize) {
+        await tx.insert(utteranceEdits).values(editRecords.slice(i, i + batchSize));
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      editCount: editRecords.length,
+      savedAt: now,
+    });
+  } catch (error) {
+    console.error('Error saving utterance edits:', error);
+    return NextResponse.json(
+      { error: 'Failed to save utterance edits' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/recordings/[id]/utterances
+ * Revert saved edits - all edits of the active version, or a single utterance with ?utteranceId=
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const utteranceId = searchParams.get('utteranceId');
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    if (utteranceId) {
+      await db.delete(utteranceEdits).where(
+        and(
+          eq(utteranceEdits.recordingId, id),
+          eq(utteranceEdits.utteranceId, utteranceId)
+        )
+      );
+    } else {
+      // Clearing all edits only affects the active version
+      const transcript = await getActiveTranscript(id);
+      if (transcript) {
+        await db.delete(utteranceEdits).where(eq(utteranceEdits.transcriptId, transcript.id));
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error reverting utterance edits:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert utterance edits' },
+      { status: 500 }
+    );
+  }
+}
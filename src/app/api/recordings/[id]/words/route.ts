@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, recordings } from '@/lib/db';
+import { getActiveTranscript, getTranscriptWords } from '@/lib/transcripts';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/recordings/[id]/words
+ * Get word-level timings for the active transcript version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, id),
+    });
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    const transcript = await getActiveTranscript(id);
+    const wordList = transcript ? await getTranscriptWords(transcript.id) : [];
+
+    return NextResponse.json({
+      transcriptId: transcript?.id ?? null,
+      words: wordList.map(w => ({
+        utteranceId: w.utteranceId,
+        text: w.text,
+        startMs: w.startMs,
+        endMs: w.endMs,
+        confidence: w.confidence,
+        speaker: w.speaker,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching word timings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch word timings' },
+      { status: 500 }
+    );
+  }
+}
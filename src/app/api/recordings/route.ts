@@ -1,29 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings } from '@/lib/db';
+import { db, cases, recordings } from '@/lib/db';
 import { casedev } from '@/lib/casedev';
+import { MAX_CHANNELS, saveChannelLabels } from '@/lib/channels';
+import { MAX_CHUNKED_UPLOAD_BYTES, UPLOAD_PART_SIZE, getPartCount } from '@/lib/chunked-upload';
+import { getContentType } from '@/lib/media-types';
+import { recordInitialStatus } from '@/lib/recording-status';
+import { APP_VAULT_NAME } from '@/lib/vault-cleanup';
+import { findCaseByNumber, getCaseRecordingValues } from '@/lib/cases';
+import {
+  parseRecordingSettings,
+  resolveTranscriptionSettings,
+  transcriptionSettingsSchema,
+} from '@/lib/transcription-settings';
 import { v4 as uuidv4 } from 'uuid';
-import { desc } from 'drizzle-orm';
+import { desc, eq } from 'drizzle-orm';
 import { z } from 'zod';
 
-// App vault ID - in production, this would be stored in env or created on first use
-const APP_VAULT_NAME = 'Court Recording Transcriber';
-
-// Maximum file size: 500MB (industry standard for audio files)
+// Maximum file size for a single direct upload: 500MB (industry standard for audio files).
+// Larger files use a chunked upload (up to MAX_CHUNKED_UPLOAD_BYTES).
 const MAX_FILE_SIZE = 500 * 1024 * 1024;
 
 // Input validation schema
 const createRecordingSchema = z.object({
   filename: z.string().min(1, 'Filename is required').max(255, 'Filename too long'),
   fileSizeBytes: z.number()
+    .int('File size must be a whole number of bytes')
     .positive('File size must be positive')
-    .max(MAX_FILE_SIZE, `File size exceeds maximum of ${MAX_FILE_SIZE / (1024 * 1024)}MB`),
+    .max(MAX_CHUNKED_UPLOAD_BYTES, `File size exceeds maximum of ${MAX_CHUNKED_UPLOAD_BYTES / (1024 * 1024 * 1024)}GB`),
+  // 'chunked' uploads parts to storage with URLs from /upload/parts and finalizes with /upload/complete
+  uploadMode: z.enum(['direct', 'chunked']).optional(),
+  caseId: z.string().optional().nullable(),
   caseNumber: z.string().max(100, 'Case number too long').optional().nullable(),
   courtName: z.string().max(255, 'Court name too long').optional().nullable(),
   recordingDate: z.string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (use YYYY-MM-DD)')
     .optional()
     .nullable(),
-});
+  preserveChannels: z.boolean().optional(),
+  channelLabels: z.array(z.string().max(100, 'Channel label too long'))
+    .max(MAX_CHANNELS, `At most ${MAX_CHANNELS} channel labels`)
+    .optional(),
+  settings: transcriptionSettingsSchema.optional(),
+}).refine(
+  data => data.uploadMode === 'chunked' || data.fileSizeBytes <= MAX_FILE_SIZE,
+  `File size exceeds maximum of ${MAX_FILE_SIZE / (1024 * 1024)}MB for a direct upload; use a chunked upload`
+);
 
 /**
  * GET /api/recordings
@@ -47,7 +68,10 @@ export async function GET() {
 
 /**
  * POST /api/recordings
- * Create a new recording and get upload URL
+ * Create a new recording and get upload URL. The recording joins the case
+ * given by `caseId`, or else the case with its case number, and takes that
+ * case's court and default settings unless it has its own. After uploading
+ * to the URL, POST /api/recordings/[id]/upload/complete.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -63,7 +87,37 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { filename, fileSizeBytes, caseNumber, courtName, recordingDate } = validationResult.data;
+    const {
+      filename,
+      fileSizeBytes,
+      caseId,
+      caseNumber: requestedCaseNumber,
+      courtName: requestedCourtName,
+      recordingDate,
+      preserveChannels,
+      channelLabels,
+      uploadMode,
+      settings,
+    } = validationResult.data;
+    const isChunked = uploadMode === 'chunked';
+
+    const caseRecord = caseId
+      ? await db.query.cases.findFirst({ where: eq(cases.id, caseId) })
+      : requestedCaseNumber?.trim()
+        ? await findCaseByNumber(requestedCaseNumber)
+        : undefined;
+
+    if (caseId && !caseRecord) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    const caseValues = caseRecord ? getCaseRecordingValues(caseRecord) : null;
+    const caseNumber = caseValues?.caseNumber ?? requestedCaseNumber;
+    const courtName = caseValues?.courtName ?? requestedCourtName;
+    const caseSettings = caseRecord?.settingsJson ? parseRecordingSettings(caseRecord.settingsJson) : null;
 
     // Get file extension to determine format
     const extension = filename.split('.').pop()?.toLowerCase() || '';
@@ -94,12 +148,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get presigned upload URL from Case.dev
-    let uploadUrl: string;
-    let vaultObjectId: string;
+    // Get presigned upload URL from Case.dev (chunked uploads get one per part instead)
+    let uploadUrl: string | null = null;
+    let vaultObjectId: string | null = null;
+    let uploadId: string | null = null;
 
     try {
-      const uploadResponse = await casedev.getUploadUrl(vaultId, {
+      const uploadParams = {
         filename,
         contentType,
         auto_index: false, // We'll trigger manually after conversion
@@ -108,9 +163,17 @@ export async function POST(request: NextRequest) {
           court_name: courtName,
           recording_date: recordingDate,
         },
-      });
-      uploadUrl = uploadResponse.uploadUrl;
-      vaultObjectId = uploadResponse.objectId;
+      };
+
+      if (isChunked) {
+        const multipartResponse = await casedev.createMultipartUpload(vaultId, uploadParams);
+        vaultObjectId = multipartResponse.objectId;
+        uploadId = multipartResponse.uploadId;
+      } else {
+        const uploadResponse = await casedev.getUploadUrl(vaultId, uploadParams);
+        uploadUrl = uploadResponse.uploadUrl;
+        vaultObjectId = uploadResponse.objectId;
+      }
     } catch (uploadError) {
       console.error('Upload URL error:', uploadError);
       const errorMessage = uploadError instanceof Error ? uploadError.message : 'Unknown upload error';
@@ -132,17 +195,34 @@ export async function POST(request: NextRequest) {
       vaultId,
       vaultObjectId,
       status: 'uploading',
+      uploadPartSize: isChunked ? UPLOAD_PART_SIZE : null,
+      uploadId,
+      caseId: caseValues?.caseId ?? null,
       caseNumber,
       courtName,
       recordingDate,
+      // Separate channels only exist in FTR recordings
+      preserveChannels: extension === 'ftr' && !!preserveChannels,
+      settingsJson: JSON.stringify(resolveTranscriptionSettings(settings ?? caseSettings)),
       createdAt: now,
       updatedAt: now,
     }).returning();
 
+    await recordInitialStatus(newRecording, 'user', isChunked ? 'Chunked upload started' : 'Upload started');
+
+    if (newRecording.preserveChannels && channelLabels && channelLabels.length > 0) {
+      await saveChannelLabels(recordingId, channelLabels);
+    }
+
     return NextResponse.json({
       recording: newRecording,
       uploadUrl,
       vaultObjectId,
+      // Chunked uploads: send parts 1..partCount of partSize bytes each
+      ...(isChunked && {
+        partSize: UPLOAD_PART_SIZE,
+        partCount: getPartCount(fileSizeBytes, UPLOAD_PART_SIZE),
+      }),
     });
   } catch (error) {
     console.error('Error creating recording:', error);
@@ -153,17 +233,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function getContentType(extension: string): string {
-  const contentTypes: Record<string, string> = {
-    ftr: 'application/octet-stream',
-    mp3: 'audio/mpeg',
-    wav: 'audio/wav',
-    m4a: 'audio/mp4',
-    mp4: 'video/mp4',
-    webm: 'audio/webm',
-    ogg: 'audio/ogg',
-    flac: 'audio/flac',
-  };
-  return contentTypes[extension] || 'application/octet-stream';
-}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, searchHistory } from '@/lib/db';
+import { searchTranscripts, transcriptSearchSchema } from '@/lib/transcript-search';
+import { semanticSearchTranscripts } from '@/lib/transcript-index';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+/**
+ * GET /api/search
+ * Search the transcripts of all recordings. Filters: caseNumber, court,
+ * from/to (recording date), speaker, status; paged with limit and offset.
+ * With mode=semantic, asks the vault index a question instead; results are
+ * passages (limit applies, offset does not).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const validationResult = transcriptSearchSchema.safeParse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const params = validationResult.data;
+    const { total, results } = params.mode === 'semantic'
+      ? await semanticSearchTranscripts(params).then(matches => ({ total: matches.length, results: matches }))
+      : await searchTranscripts(params);
+
+    // Save the first page of each search to history (not tied to a recording)
+    if (params.offset === 0) {
+      await db.insert(searchHistory).values({
+        id: uuidv4(),
+        recordingId: null,
+        query: params.q,
+        resultCount: total,
+        createdAt: new Date(),
+      });
+    }
+
+    return NextResponse.json({
+      mode: params.mode,
+      query: params.q,
+      total,
+      limit: params.limit,
+      offset: params.offset,
+      results,
+    });
+  } catch (error) {
+    console.error('Error searching transcripts:', error);
+    return NextResponse.json(
+      { error: 'Failed to search transcripts' },
+      { status: 500 }
+    );
+  }
+}
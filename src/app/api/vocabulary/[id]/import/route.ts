@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, vocabularyLists } from '@/lib/db';
+import { normalizeTerms, parseTermImport, parseTerms, toVocabularyListResponse } from '@/lib/vocabulary';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+const importSchema = z.object({
+  text: z.string().min(1, 'Nothing to import').max(1_000_000, 'Import too large'),
+  // 'append' keeps the existing terms, 'replace' discards them
+  mode: z.enum(['append', 'replace']).optional(),
+});
+
+/**
+ * POST /api/vocabulary/[id]/import
+ * Add terms from a pasted witness list (one name per line) or CSV
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = importSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const list = await db.query.vocabularyLists.findFirst({
+      where: eq(vocabularyLists.id, id),
+    });
+
+    if (!list) {
+      return NextResponse.json(
+        { error: 'Vocabulary list not found' },
+        { status: 404 }
+      );
+    }
+
+    const imported = parseTermImport(validationResult.data.text);
+    const existing = validationResult.data.mode === 'replace' ? [] : parseTerms(list.termsJson);
+    const terms = normalizeTerms([...existing, ...imported]);
+
+    const [updated] = await db
+      .update(vocabularyLists)
+      .set({ termsJson: JSON.stringify(terms), updatedAt: new Date() })
+      .where(eq(vocabularyLists.id, id))
+      .returning();
+
+    return NextResponse.json({
+      list: toVocabularyListResponse(updated),
+      imported: imported.length,
+      added: terms.length - existing.length,
+    });
+  } catch (error) {
+    console.error('Error importing vocabulary terms:', error);
+    return NextResponse.json(
+      { error: 'Failed to import vocabulary terms' },
+      { status: 500 }
+    );
+  }
+}
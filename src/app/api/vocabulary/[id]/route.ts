@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, vocabularyLists } from '@/lib/db';
+import { VOCABULARY_SCOPES, normalizeTerms, toVocabularyListResponse } from '@/lib/vocabulary';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+const updateListSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long').optional(),
+  description: z.string().max(1000, 'Description too long').optional().nullable(),
+  scope: z.enum(VOCABULARY_SCOPES).optional(),
+  scopeValue: z.string().trim().min(1, 'Case number or court is required').max(255, 'Case number or court too long').optional(),
+  terms: z.array(z.string().max(200, 'Term too long')).optional(),
+});
+
+/**
+ * GET /api/vocabulary/[id]
+ * Get a vocabulary list with its terms
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const list = await db.query.vocabularyLists.findFirst({
+      where: eq(vocabularyLists.id, id),
+    });
+
+    if (!list) {
+      return NextResponse.json(
+        { error: 'Vocabulary list not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ list: toVocabularyListResponse(list) });
+  } catch (error) {
+    console.error('Error fetching vocabulary list:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vocabulary list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/vocabulary/[id]
+ * Update a list's details or replace its terms
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = updateListSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.query.vocabularyLists.findFirst({
+      where: eq(vocabularyLists.id, id),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Vocabulary list not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, description, scope, scopeValue, terms } = validationResult.data;
+    const updateData: Partial<typeof vocabularyLists.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description || null;
+    if (scope !== undefined) updateData.scope = scope;
+    if (scopeValue !== undefined) updateData.scopeValue = scopeValue;
+    if (terms !== undefined) updateData.termsJson = JSON.stringify(normalizeTerms(terms));
+
+    const [updated] = await db
+      .update(vocabularyLists)
+      .set(updateData)
+      .where(eq(vocabularyLists.id, id))
+      .returning();
+
+    return NextResponse.json({ list: toVocabularyListResponse(updated) });
+  } catch (error) {
+    console.error('Error updating vocabulary list:', error);
+    return NextResponse.json(
+      { error: 'Failed to update vocabulary list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vocabulary/[id]
+ * Delete a vocabulary list
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const deleted = await db
+      .delete(vocabularyLists)
+      .where(eq(vocabularyLists.id, id))
+      .returning({ id: vocabularyLists.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Vocabulary list not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting vocabulary list:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete vocabulary list' },
+      { status: 500 }
+    );
+  }
+}
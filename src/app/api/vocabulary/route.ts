@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, vocabularyLists } from '@/lib/db';
+import {
+  VOCABULARY_SCOPES,
+  getVocabularyListsForRecording,
+  normalizeTerms,
+  toVocabularyListResponse,
+} from '@/lib/vocabulary';
+import { v4 as uuidv4 } from 'uuid';
+import { asc } from 'drizzle-orm';
+import { z } from 'zod';
+
+const createListSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long'),
+  description: z.string().max(1000, 'Description too long').optional().nullable(),
+  scope: z.enum(VOCABULARY_SCOPES),
+  scopeValue: z.string().trim().min(1, 'Case number or court is required').max(255, 'Case number or court too long'),
+  terms: z.array(z.string().max(200, 'Term too long')).optional(),
+});
+
+/**
+ * GET /api/vocabulary
+ * List vocabulary lists. With `caseNumber` and/or `courtName`, only the lists
+ * that apply to a recording with those details.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const caseNumber = request.nextUrl.searchParams.get('caseNumber');
+    const courtName = request.nextUrl.searchParams.get('courtName');
+
+    const lists = caseNumber || courtName
+      ? await getVocabularyListsForRecording({ caseNumber, courtName })
+      : await db.query.vocabularyLists.findMany({
+        orderBy: [asc(vocabularyLists.scope), asc(vocabularyLists.scopeValue), asc(vocabularyLists.name)],
+      });
+
+    return NextResponse.json({ lists: lists.map(toVocabularyListResponse) });
+  } catch (error) {
+    console.error('Error fetching vocabulary lists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vocabulary lists' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vocabulary
+ * Create a vocabulary list for a case number or court
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = createListSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e: z.ZodIssue) => e.message).join(', ');
+      return NextResponse.json(
+        { error: `Validation failed: ${errors}` },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, scope, scopeValue, terms } = validationResult.data;
+    const now = new Date();
+
+    const [list] = await db.insert(vocabularyLists).values({
+      id: uuidv4(),
+      name,
+      description: description || null,
+      scope,
+      scopeValue,
+      termsJson: JSON.stringify(normalizeTerms(terms ?? [])),
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+
+    return NextResponse.json({ list: toVocabularyListResponse(list) });
+  } catch (error) {
+    console.error('Error creating vocabulary list:', error);
+    return NextResponse.json(
+      { error: 'Failed to create vocabulary list' },
+      { status: 500 }
+    );
+  }
+}
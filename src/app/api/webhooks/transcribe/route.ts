@@ -1,40 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, recordings, transcripts, utterances } from '@/lib/db';
-import { eq } from 'drizzle-orm';
-import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
-
-const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
-
-/**
- * Verify webhook signature from Case.dev
- */
-function verifyWebhookSignature(payload: string, signature: string | null): boolean {
-  // If no webhook secret is configured, skip verification (development mode)
-  if (!WEBHOOK_SECRET) {
-    console.warn('WEBHOOK_SECRET not configured - skipping signature verification');
-    return true;
-  }
-  
-  if (!signature) {
-    return false;
-  }
-  
-  const expectedSignature = crypto
-    .createHmac('sha256', WEBHOOK_SECRET)
-    .update(payload)
-    .digest('hex');
-  
-  // Use timing-safe comparison to prevent timing attacks
-  try {
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
-  } catch {
-    return false;
-  }
-}
+import { recordWebhookDelivery, processWebhookDelivery } from '@/lib/webhook-deliveries';
+import { verifyWebhookRequest } from '@/lib/webhook-signature';
 
 /**
  * POST /api/webhooks/transcribe
@@ -44,131 +10,53 @@ export async function POST(request: NextRequest) {
   try {
     // Get raw body for signature verification
     const rawBody = await request.text();
-    const signature = request.headers.get('x-casedev-signature') || request.headers.get('x-webhook-signature');
     
-    // Verify webhook signature
-    if (!verifyWebhookSignature(rawBody, signature)) {
-      console.error('Invalid webhook signature');
+    // Verify webhook signature, timestamp and nonce
+    const verification = await verifyWebhookRequest(request, rawBody);
+    if (!verification.valid) {
+      console.error('Invalid webhook signature:', verification.reason);
       return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
     }
     
     const body = JSON.parse(rawBody);
-    const {
-      id: jobId,
-      status,
-      text,
-      utterances: transcriptUtterances,
-      chapters,
-      confidence,
-      audio_duration,
-      summary, // AI-generated summary when summarization is enabled
-      error,
-    } = body;
+    const { id: jobId, status } = body;
 
     console.log('Transcription webhook received:', { jobId, status });
 
-    // Find recording by transcription job ID
-    const recording = await db.query.recordings.findFirst({
-      where: eq(recordings.transcriptionJobId, jobId),
-    });
-
-    if (!recording) {
-      console.error('Recording not found for transcription job:', jobId);
-      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    if (!jobId || !status) {
+      return NextResponse.json({ error: 'Missing job ID or status' }, { status: 400 });
     }
 
-    if (status === 'completed') {
-      const now = new Date();
-
-      // Create transcript record with summary and confidence
-      const transcriptId = uuidv4();
-      await db.insert(transcripts).values({
-        id: transcriptId,
-        recordingId: recording.id,
-        fullText: text || '',
-        confidence: confidence,
-        language: 'en',
-        summary: summary || null, // Store AI-generated summary
-        chaptersJson: chapters ? JSON.stringify(chapters) : null,
-        createdAt: now,
-      });
-
-      // Log accuracy metrics for monitoring
-      console.log('Transcription accuracy metrics:', {
-        recordingId: recording.id,
-        confidence: confidence,
-        confidencePercent: confidence ? `${(confidence * 100).toFixed(1)}%` : 'N/A',
-        utteranceCount: transcriptUtterances?.length || 0,
-        hasSummary: !!summary,
-        hasChapters: !!chapters,
-      });
+    // Log the delivery; redeliveries of the same job and event reuse the row
+    const delivery = await recordWebhookDelivery({
+      source: 'transcribe',
+      externalJobId: jobId,
+      event: status,
+      payloadJson: rawBody,
+    });
 
-      // Create utterance records
-      if (transcriptUtterances && transcriptUtterances.length > 0) {
-        const utteranceRecords = transcriptUtterances.map(
-          (u: { speaker: string; text: string; start: number; end: number }, index: number) => ({
-            id: uuidv4(),
-            transcriptId,
-            recordingId: recording.id,
-            speaker: u.speaker,
-            text: u.text,
-            startMs: u.start,
-            endMs: u.end,
-            sequenceIndex: index,
-          })
-        );
+    const result = await processWebhookDelivery(delivery.id);
 
-        // Insert in batches to avoid SQLite limits
-        const batchSize = 100;
-        for (let i = 0; i < utteranceRecords.length; i += batchSize) {
-          const batch = utteranceRecords.slice(i, i + batchSize);
-          await db.insert(utterances).values(batch);
-        }
-      }
+    if (result.outcome === 'duplicate') {
+      console.log('Duplicate transcribe webhook ignored:', { jobId, status, deliveryCount: delivery.deliveryCount });
+      return NextResponse.json({ received: true, duplicate: true });
+    }
 
-      // Calculate duration from audio_duration or from utterances
-      let durationInSeconds: number | null = null;
-      
-      // Try audio_duration first - it could be in seconds or milliseconds
-      if (audio_duration) {
-        // If value is > 10000, it's likely in milliseconds
-        if (audio_duration > 10000) {
-          durationInSeconds = Math.round(audio_duration / 1000);
-        } else {
-          // Otherwise assume it's already in seconds
-          durationInSeconds = Math.round(audio_duration);
-        }
-      }
-      
-      // Fallback: calculate from last utterance end time
-      if (!durationInSeconds && transcriptUtterances && transcriptUtterances.length > 0) {
-        const lastUtterance = transcriptUtterances[transcriptUtterances.length - 1];
-        // Utterance end times are in milliseconds
-        durationInSeconds = Math.round(lastUtterance.end / 1000);
-      }
+    if (result.outcome === 'ignored') {
+      console.log('Ignoring transcription webhook for cancelled job:', { jobId, status });
+      return NextResponse.json({ received: true, ignored: true });
+    }
 
-      // Update recording status
-      await db
-        .update(recordings)
-        .set({
-          status: 'completed',
-          durationSeconds: (durationInSeconds && durationInSeconds > 0) 
-            ? durationInSeconds 
-            : recording.durationSeconds,
-          updatedAt: now,
-        })
-        .where(eq(recordings.id, recording.id));
+    if (result.outcome === 'recording_not_found') {
+      console.error('Recording not found for transcribe job:', jobId);
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
 
-      console.log('Transcription completed for recording:', recording.id);
-    } else if (status === 'error') {
-      await db
-        .update(recordings)
-        .set({
-          status: 'failed',
-          errorMessage: error || 'Transcription failed',
-          updatedAt: new Date(),
-        })
-        .where(eq(recordings.id, recording.id));
+    if (result.outcome !== 'processed') {
+      return NextResponse.json(
+        { error: 'Webhook processing failed' },
+        { status: 500 }
+      );
     }
 
     return NextResponse.json({ received: true });
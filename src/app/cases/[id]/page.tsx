@@ -0,0 +1,766 @@
+'use client';
+
+import { use, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  CaseFormFields,
+  toCaseRequestBody,
+  type CaseCounsel,
+  type CaseFormValue,
+  type CaseParty,
+} from '@/components/case-form-fields';
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  Clock,
+  FileDown,
+  FileText,
+  Layers,
+  Link2,
+  Loader2,
+  Pencil,
+  Trash2,
+  Unlink,
+  Upload,
+} from 'lucide-react';
+
+interface CaseDetails {
+  id: string;
+  caseNumber: string;
+  caption: string | null;
+  courtName: string | null;
+  judge: string | null;
+  parties: CaseParty[];
+  counsel: CaseCounsel[];
+  settings: TranscriptionSettings | null;
+}
+
+interface CaseRecording {
+  id: string;
+  filename: string;
+  recordingDate: string | null;
+  status: string;
+  durationSeconds: number | null;
+  estimatedPages: number;
+  createdAt: string;
+}
+
+interface CaseTotals {
+  recordings: number;
+  durationSeconds: number;
+  estimatedPages: number;
+  statusCounts: Record<string, number>;
+}
+
+interface ProceedingSummary {
+  id: string;
+  title: string;
+  recordingCount: number;
+}
+
+interface UnlinkedRecording {
+  id: string;
+  filename: string;
+  caseId: string | null;
+  caseNumber: string | null;
+  recordingDate: string | null;
+}
+
+type ExportFormat = 'docx' | 'pdf' | 'txt' | 'json';
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  docx: 'Word',
+  pdf: 'PDF',
+  txt: 'Plain text',
+  json: 'JSON',
+};
+
+const SELECT_CLASS =
+  'flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs disabled:cursor-not-allowed disabled:opacity-50';
+
+async function fetchCase(id: string): Promise<{ case: CaseDetails; recordings: CaseRecording[]; totals: CaseTotals }> {
+  const response = await fetch(`/api/cases/${id}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch case');
+  }
+  return response.json();
+}
+
+async function fetchRecordings(): Promise<{ recordings: UnlinkedRecording[] }> {
+  const response = await fetch('/api/recordings');
+  if (!response.ok) {
+    throw new Error('Failed to fetch recordings');
+  }
+  return response.json();
+}
+
+async function fetchProceedings(caseId: string): Promise<{ proceedings: ProceedingSummary[] }> {
+  const response = await fetch(`/api/proceedings?caseId=${encodeURIComponent(caseId)}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch proceedings');
+  }
+  return response.json();
+}
+
+async function sendJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Request failed');
+  }
+  return response.json();
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null || seconds === undefined || seconds <= 0) return '—';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+function formatStatus(status: string): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function toFormValue(caseDetails: CaseDetails): CaseFormValue {
+  return {
+    caseNumber: caseDetails.caseNumber,
+    caption: caseDetails.caption ?? '',
+    courtName: caseDetails.courtName ?? '',
+    judge: caseDetails.judge ?? '',
+    parties: caseDetails.parties,
+    counsel: caseDetails.counsel,
+    settings: caseDetails.settings,
+  };
+}
+
+export default function CasePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [editOpen, setEditOpen] = useState(false);
+  const [editForm, setEditForm] = useState<CaseFormValue | null>(null);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [addOpen, setAddOpen] = useState(false);
+  const [addSelection, setAddSelection] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx');
+  const [isExporting, setIsExporting] = useState(false);
+  const [proceedingOpen, setProceedingOpen] = useState(false);
+  const [proceedingTitle, setProceedingTitle] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['case', id],
+    queryFn: () => fetchCase(id),
+  });
+
+  const { data: allRecordings } = useQuery({
+    queryKey: ['recordings'],
+    queryFn: fetchRecordings,
+    enabled: addOpen,
+  });
+
+  const { data: proceedingsData } = useQuery({
+    queryKey: ['proceedings', id],
+    queryFn: () => fetchProceedings(id),
+  });
+
+  const invalidateCase = () => {
+    queryClient.invalidateQueries({ queryKey: ['case', id] });
+    queryClient.invalidateQueries({ queryKey: ['cases'] });
+    queryClient.invalidateQueries({ queryKey: ['recordings'] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (form: CaseFormValue) => sendJson(`/api/cases/${id}`, 'PATCH', toCaseRequestBody(form)),
+    onSuccess: () => {
+      invalidateCase();
+      setEditOpen(false);
+      toast.success('Case updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update case', { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendJson(`/api/cases/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['recordings'] });
+      toast.success('Case deleted');
+      router.push('/cases');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete case', { description: error.message });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ recordingIds, caseId }: { recordingIds: string[]; caseId: string | null }) => {
+      for (const recordingId of recordingIds) {
+        await sendJson(`/api/recordings/${recordingId}`, 'PATCH', { caseId });
+      }
+    },
+    onSuccess: (_, { recordingIds, caseId }) => {
+      invalidateCase();
+      setAddOpen(false);
+      setAddSelection([]);
+      setSelectedIds(ids => ids.filter(i => !recordingIds.includes(i)));
+      const count = `${recordingIds.length} recording${recordingIds.length === 1 ? '' : 's'}`;
+      toast.success(caseId ? `Added ${count}` : `Removed ${count} from the case`);
+    },
+    onError: (error: Error) => {
+      invalidateCase();
+      toast.error('Failed to update recordings', { description: error.message });
+    },
+  });
+
+  const createProceedingMutation = useMutation({
+    mutationFn: (body: { title: string; recordingIds: string[] }) =>
+      sendJson<{ proceeding: ProceedingSummary }>('/api/proceedings', 'POST', body),
+    onSuccess: ({ proceeding }) => {
+      queryClient.invalidateQueries({ queryKey: ['proceedings'] });
+      setProceedingOpen(false);
+      router.push(`/proceedings/${proceeding.id}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create proceeding', { description: error.message });
+    },
+  });
+
+  const handleProceedingClick = () => {
+    if (!data) return;
+    const first = data.recordings.find(r => selectedIds.includes(r.id));
+    setProceedingTitle(first?.recordingDate ? `Hearing of ${first.recordingDate}` : 'Hearing');
+    setProceedingOpen(true);
+  };
+
+  const handleEditClick = () => {
+    if (!data) return;
+    setEditForm(toFormValue(data.case));
+    setEditOpen(true);
+  };
+
+  const toggleSelected = (recordingId: string) => {
+    setSelectedIds(ids => ids.includes(recordingId) ? ids.filter(i => i !== recordingId) : [...ids, recordingId]);
+  };
+
+  const handleExport = async () => {
+    if (!data) return;
+    setIsExporting(true);
+    try {
+      const exportParams = new URLSearchParams({ format: exportFormat });
+      if (selectedIds.length > 0) exportParams.set('recordingIds', selectedIds.join(','));
+
+      const response = await fetch(`/api/cases/${id}/export?${exportParams}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${data.case.caseNumber.replace(/[^a-zA-Z0-9-]/g, '_')}-transcripts.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      const skipped = Number(response.headers.get('X-Skipped-Count') ?? 0);
+      toast.success(`Exported ${response.headers.get('X-Exported-Count')} transcripts`, {
+        description: skipped > 0 ? `${skipped} recording${skipped === 1 ? ' has' : 's have'} no transcript yet` : undefined,
+      });
+    } catch (error) {
+      toast.error('Export failed', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-32" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-destructive">
+          Failed to load case
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { case: caseDetails, recordings, totals } = data;
+  const candidates = (allRecordings?.recordings ?? []).filter(r => r.caseId !== id);
+  const allSelected = recordings.length > 0 && selectedIds.length === recordings.length;
+  const caseProceedings = proceedingsData?.proceedings ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/cases" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Cases
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">{caseDetails.caseNumber}</h1>
+          {caseDetails.caption && (
+            <p className="text-muted-foreground">{caseDetails.caption}</p>
+          )}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" asChild>
+            <Link href={`/upload?case=${id}`}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload Recording
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={handleEditClick}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button variant="outline" onClick={() => setDeleteOpen(true)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Court</div>
+              <div className="font-medium">{caseDetails.courtName || '—'}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Judge</div>
+              <div className="font-medium">{caseDetails.judge || '—'}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Parties</div>
+              {caseDetails.parties.length === 0 ? (
+                <div>—</div>
+              ) : (
+                <ul className="space-y-1">
+                  {caseDetails.parties.map((party, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{party.name}</span>
+                      {party.role && <span className="text-muted-foreground"> · {party.role}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <div className="text-muted-foreground">Counsel</div>
+              {caseDetails.counsel.length === 0 ? (
+                <div>—</div>
+              ) : (
+                <ul className="space-y-1">
+                  {caseDetails.counsel.map((counsel, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{counsel.name}</span>
+                      {counsel.firm && <span className="text-muted-foreground">, {counsel.firm}</span>}
+                      {counsel.represents && (
+                        <span className="text-muted-foreground"> · for {counsel.represents}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {caseDetails.settings && (
+              <p className="text-xs text-muted-foreground">
+                New uploads to this case use its default transcription settings.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Totals</CardTitle>
+            <CardDescription>
+              {totals.recordings} recording{totals.recordings === 1 ? '' : 's'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <div className="text-sm text-muted-foreground">Hours recorded</div>
+                <div className="text-2xl font-semibold">{(totals.durationSeconds / 3600).toFixed(1)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Transcript pages (est.)</div>
+                <div className="text-2xl font-semibold">{totals.estimatedPages}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Transcribed</div>
+                <div className="text-2xl font-semibold">
+                  {totals.statusCounts.completed ?? 0} / {totals.recordings}
+                </div>
+              </div>
+            </div>
+            {Object.keys(totals.statusCounts).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(totals.statusCounts).map(([status, count]) => (
+                  <Badge key={status} variant={status === 'failed' ? 'destructive' : 'outline'}>
+                    {formatStatus(status)}: {count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Recordings</CardTitle>
+              <CardDescription>In the order they were recorded</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setAddOpen(true)}>
+                <Link2 className="h-4 w-4 mr-1" />
+                Add Recordings
+              </Button>
+              {selectedIds.length > 1 && (
+                <Button variant="outline" size="sm" onClick={handleProceedingClick}>
+                  <Layers className="h-4 w-4 mr-1" />
+                  Stitch
+                </Button>
+              )}
+              {selectedIds.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => linkMutation.mutate({ recordingIds: selectedIds, caseId: null })}
+                  disabled={linkMutation.isPending}
+                >
+                  <Unlink className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className={SELECT_CLASS}
+                aria-label="Export format"
+              >
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                  <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                onClick={handleExport}
+                disabled={isExporting || recordings.length === 0}
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <FileDown className="h-4 w-4 mr-1" />
+                )}
+                {selectedIds.length > 0 ? `Export ${selectedIds.length}` : 'Export All'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {recordings.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No recordings in this case yet</p>
+              <p className="text-sm mt-1">Upload a hearing or add existing recordings.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? [] : recordings.map(r => r.id))}
+                      aria-label="Select all recordings"
+                    />
+                  </TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Recording</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Pages (est.)</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recordings.map(recording => (
+                  <TableRow key={recording.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(recording.id)}
+                        onChange={() => toggleSelected(recording.id)}
+                        aria-label={`Select ${recording.filename}`}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {recording.recordingDate || (
+                        <span className="text-muted-foreground">Undated</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/recording/${recording.id}`} className="font-medium hover:underline">
+                        {recording.filename}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        {formatDuration(recording.durationSeconds)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {recording.estimatedPages > 0 ? recording.estimatedPages : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={recording.status === 'failed' ? 'destructive' : recording.status === 'completed' ? 'default' : 'outline'}>
+                        {formatStatus(recording.status)}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {caseProceedings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Proceedings</CardTitle>
+            <CardDescription>Hearings recorded over several files, played and exported as one</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {caseProceedings.map(proceeding => (
+              <Link
+                key={proceeding.id}
+                href={`/proceedings/${proceeding.id}`}
+                className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-muted/50"
+              >
+                <span className="flex items-center gap-2 font-medium">
+                  <Layers className="h-4 w-4 text-muted-foreground" />
+                  {proceeding.title}
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  {proceeding.recordingCount} file{proceeding.recordingCount === 1 ? '' : 's'}
+                </span>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* New Proceeding Dialog */}
+      <Dialog open={proceedingOpen} onOpenChange={setProceedingOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Stitch into Proceeding</DialogTitle>
+            <DialogDescription>
+              The {selectedIds.length} selected recordings become one proceeding with a continuous
+              timeline, in the order listed. The order can be changed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label htmlFor="proceedingTitle" className="text-sm font-medium">Title</label>
+            <Input
+              id="proceedingTitle"
+              value={proceedingTitle}
+              onChange={(e) => setProceedingTitle(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProceedingOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createProceedingMutation.mutate({
+                title: proceedingTitle,
+                recordingIds: recordings.filter(r => selectedIds.includes(r.id)).map(r => r.id),
+              })}
+              disabled={!proceedingTitle.trim() || createProceedingMutation.isPending}
+            >
+              {createProceedingMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Proceeding
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Case Dialog */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Case</DialogTitle>
+            <DialogDescription>
+              A new case number or court is copied to the case&apos;s recordings.
+            </DialogDescription>
+          </DialogHeader>
+          {editForm && (
+            <CaseFormFields
+              value={editForm}
+              onChange={setEditForm}
+              disabled={updateMutation.isPending}
+              idPrefix="edit-case"
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editForm && updateMutation.mutate(editForm)}
+              disabled={!editForm?.caseNumber.trim() || updateMutation.isPending}
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Recordings Dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Recordings</DialogTitle>
+            <DialogDescription>
+              Selected recordings take this case&apos;s number and court.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {!allRecordings ? (
+              <Skeleton className="h-24" />
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every recording is already in this case.</p>
+            ) : (
+              candidates.map(recording => (
+                <label key={recording.id} className="flex items-start gap-2 p-2 rounded-md hover:bg-muted/50 text-sm">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={addSelection.includes(recording.id)}
+                    onChange={() => setAddSelection(ids =>
+                      ids.includes(recording.id) ? ids.filter(i => i !== recording.id) : [...ids, recording.id]
+                    )}
+                  />
+                  <span className="min-w-0">
+                    <span className="block font-medium truncate">{recording.filename}</span>
+                    <span className="block text-muted-foreground">
+                      {[recording.recordingDate, recording.caseNumber && `Case ${recording.caseNumber}`]
+                        .filter(Boolean)
+                        .join(' · ') || 'No case'}
+                    </span>
+                  </span>
+                </label>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => linkMutation.mutate({ recordingIds: addSelection, caseId: id })}
+              disabled={addSelection.length === 0 || linkMutation.isPending}
+            >
+              {linkMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add {addSelection.length > 0 ? addSelection.length : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Case</DialogTitle>
+            <DialogDescription>
+              Delete case {caseDetails.caseNumber}? Its {totals.recordings} recording{totals.recordings === 1 ? '' : 's'} and
+              their transcripts are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteOpen(false)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  CaseFormFields,
+  EMPTY_CASE_FORM,
+  toCaseRequestBody,
+  type CaseFormValue,
+} from '@/components/case-form-fields';
+import { toast } from 'sonner';
+import { Briefcase, Plus, Loader2 } from 'lucide-react';
+
+interface CaseSummary {
+  id: string;
+  caseNumber: string;
+  caption: string | null;
+  courtName: string | null;
+  judge: string | null;
+  recordingCount: number;
+  durationSeconds: number;
+  updatedAt: string;
+}
+
+async function fetchCases(): Promise<{ cases: CaseSummary[] }> {
+  const response = await fetch('/api/cases');
+  if (!response.ok) {
+    throw new Error('Failed to fetch cases');
+  }
+  return response.json();
+}
+
+async function createCase(form: CaseFormValue): Promise<{ case: CaseSummary; linkedRecordings: number }> {
+  const response = await fetch('/api/cases', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(toCaseRequestBody(form)),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create case');
+  }
+  return response.json();
+}
+
+function formatHours(seconds: number): string {
+  if (seconds <= 0) return '—';
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+export default function CasesPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newCase, setNewCase] = useState<CaseFormValue>(EMPTY_CASE_FORM);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['cases'],
+    queryFn: fetchCases,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCase,
+    onSuccess: ({ case: created, linkedRecordings }) => {
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['recordings'] });
+      setCreateOpen(false);
+      setNewCase(EMPTY_CASE_FORM);
+      toast.success(`Created case ${created.caseNumber}`, {
+        description: linkedRecordings > 0
+          ? `${linkedRecordings} existing recording${linkedRecordings === 1 ? '' : 's'} linked`
+          : undefined,
+      });
+      router.push(`/cases/${created.id}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create case', { description: error.message });
+    },
+  });
+
+  const cases = data?.cases ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Cases</h1>
+          <p className="text-muted-foreground">
+            Matters with their parties, counsel and recorded hearings
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Case
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64" />
+      ) : error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-destructive">
+            Failed to load cases
+          </CardContent>
+        </Card>
+      ) : cases.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Briefcase className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No cases yet</p>
+            <p className="text-sm mt-1">
+              Create a case to group its hearings. Recordings with the same case number are linked automatically.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Case</TableHead>
+                  <TableHead>Court</TableHead>
+                  <TableHead>Judge</TableHead>
+                  <TableHead className="text-right">Recordings</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cases.map(caseSummary => (
+                  <TableRow key={caseSummary.id}>
+                    <TableCell>
+                      <Link href={`/cases/${caseSummary.id}`} className="hover:underline">
+                        <div className="font-medium">{caseSummary.caseNumber}</div>
+                        {caseSummary.caption && (
+                          <div className="text-sm text-muted-foreground">{caseSummary.caption}</div>
+                        )}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{caseSummary.courtName || '—'}</TableCell>
+                    <TableCell className="text-muted-foreground">{caseSummary.judge || '—'}</TableCell>
+                    <TableCell className="text-right">{caseSummary.recordingCount}</TableCell>
+                    <TableCell className="text-right">{formatHours(caseSummary.durationSeconds)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* New Case Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Case</DialogTitle>
+            <DialogDescription>
+              Recordings already uploaded with this case number are added to the case.
+            </DialogDescription>
+          </DialogHeader>
+          <CaseFormFields
+            value={newCase}
+            onChange={setNewCase}
+            disabled={createMutation.isPending}
+            idPrefix="new-case"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(newCase)}
+              disabled={!newCase.caseNumber.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Case
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import Link from "next/link";
 import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
 import { QueryProvider } from "@/components/providers/query-provider";
@@ -58,6 +59,15 @@ export default function RootLayout({
                     <a href="/upload" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
                       Upload
                     </a>
+                    <Link href="/cases" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+                      Cases
+                    </Link>
+                    <Link href="/search" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+                      Search
+                    </Link>
+                    <Link href="/vocabulary" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+                      Vocabulary
+                    </Link>
                   </nav>
                 </div>
               </div>
@@ -29,6 +29,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { TranscriptionSettingsFields } from '@/components/transcription-settings-fields';
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
 import { formatDistanceToNow } from 'date-fns';
 import Link from 'next/link';
 import { toast } from 'sonner';
@@ -43,7 +45,9 @@ import {
   LayoutGrid,
   MoreHorizontal,
   Eye,
-  Trash2
+  Trash2,
+  Ban,
+  RotateCcw
 } from 'lucide-react';
 
 interface Recording {
@@ -53,6 +57,7 @@ interface Recording {
   fileSizeBytes: number;
   durationSeconds: number | null;
   status: string;
+  caseId: string | null;
   caseNumber: string | null;
   courtName: string | null;
   recordingDate: string | null;
@@ -67,24 +72,6 @@ async function fetchRecordings(): Promise<{ recordings: Recording[] }> {
   return response.json();
 }
 
-// Sync transcription status for recordings that are still processing
-async function syncProcessingRecordings(recordings: Recording[]): Promise<void> {
-  const processingRecordings = recordings.filter(
-    r => r.status === 'transcribing' || r.status === 'converting'
-  );
-  
-  // Sync each processing recording in parallel
-  await Promise.all(
-    processingRecordings.map(async (recording) => {
-      try {
-        await fetch(`/api/recordings/${recording.id}/process`);
-      } catch (e) {
-        console.error(`Failed to sync recording ${recording.id}:`, e);
-      }
-    })
-  );
-}
-
 async function deleteRecording(id: string): Promise<void> {
   const response = await fetch(`/api/recordings/${id}`, {
     method: 'DELETE',
@@ -95,6 +82,45 @@ async function deleteRecording(id: string): Promise<void> {
   }
 }
 
+async function cancelProcessing(id: string): Promise<void> {
+  const response = await fetch(`/api/recordings/${id}/cancel`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to cancel processing');
+  }
+}
+
+async function fetchSettings(id: string): Promise<{ settings: TranscriptionSettings }> {
+  const response = await fetch(`/api/recordings/${id}/settings`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch transcription settings');
+  }
+  return response.json();
+}
+
+async function restartProcessing({ id, settings }: { id: string; settings: TranscriptionSettings }): Promise<void> {
+  const response = await fetch(`/api/recordings/${id}/process`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ settings }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to restart processing');
+  }
+}
+
+function isProcessing(recording: Recording): boolean {
+  return recording.status === 'converting' || recording.status === 'transcribing';
+}
+
+function canRestart(recording: Recording): boolean {
+  // 'uploaded' covers chunked uploads whose processing never started
+  return recording.status === 'cancelled' || recording.status === 'failed' || recording.status === 'uploaded';
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -117,10 +143,12 @@ function formatDuration(seconds: number | null): string {
 function StatusBadge({ status }: { status: string }) {
   const variants: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode }> = {
     uploading: { variant: 'secondary', icon: <Loader2 className="h-3 w-3 animate-spin" /> },
+    uploaded: { variant: 'outline', icon: <CheckCircle className="h-3 w-3" /> },
     converting: { variant: 'secondary', icon: <Loader2 className="h-3 w-3 animate-spin" /> },
     transcribing: { variant: 'secondary', icon: <Loader2 className="h-3 w-3 animate-spin" /> },
     completed: { variant: 'default', icon: <CheckCircle className="h-3 w-3" /> },
     failed: { variant: 'destructive', icon: <AlertCircle className="h-3 w-3" /> },
+    cancelled: { variant: 'outline', icon: <Ban className="h-3 w-3" /> },
   };
 
   const { variant, icon } = variants[status] || { variant: 'outline' as const, icon: null };
@@ -133,7 +161,33 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
-function RecordingCard({ recording, onDelete }: { recording: Recording; onDelete: (recording: Recording) => void }) {
+interface RecordingActions {
+  onDelete: (recording: Recording) => void;
+  onCancel: (recording: Recording) => void;
+  onRestart: (recording: Recording) => void;
+}
+
+// Cancel / restart items shared by the list and card menus
+function ProcessingMenuItems({ recording, onCancel, onRestart }: { recording: Recording } & Omit<RecordingActions, 'onDelete'>) {
+  return (
+    <>
+      {isProcessing(recording) && (
+        <DropdownMenuItem onClick={() => onCancel(recording)}>
+          <Ban className="h-4 w-4 mr-2" />
+          Cancel Processing
+        </DropdownMenuItem>
+      )}
+      {canRestart(recording) && (
+        <DropdownMenuItem onClick={() => onRestart(recording)}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restart Processing
+        </DropdownMenuItem>
+      )}
+    </>
+  );
+}
+
+function RecordingCard({ recording, onDelete, onCancel, onRestart }: { recording: Recording } & RecordingActions) {
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardContent className="p-4">
@@ -162,6 +216,7 @@ function RecordingCard({ recording, onDelete }: { recording: Recording; onDelete
                   View Details
                 </DropdownMenuItem>
               </Link>
+              <ProcessingMenuItems recording={recording} onCancel={onCancel} onRestart={onRestart} />
               <DropdownMenuItem 
                 className="text-destructive focus:text-destructive"
                 onClick={() => onDelete(recording)}
@@ -207,20 +262,15 @@ export default function DashboardPage() {
   const [viewMode, setViewMode] = useState<'list' | 'card'>('list');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [recordingToDelete, setRecordingToDelete] = useState<Recording | null>(null);
+  const [recordingToRestart, setRecordingToRestart] = useState<Recording | null>(null);
+  const [restartSettings, setRestartSettings] = useState<TranscriptionSettings | null>(null);
   
   const queryClient = useQueryClient();
   
   const { data, isLoading, error } = useQuery({
     queryKey: ['recordings'],
-    queryFn: async () => {
-      const result = await fetchRecordings();
-      // Sync any processing recordings with Case.dev to check for completion
-      // This handles the case where webhooks can't reach localhost
-      await syncProcessingRecordings(result.recordings);
-      // Refetch to get updated statuses after sync
-      const updatedResult = await fetchRecordings();
-      return updatedResult;
-    },
+    // The server polls Case.dev for in-flight jobs; this only refreshes the list
+    queryFn: fetchRecordings,
     refetchInterval: 5000, // Poll every 5 seconds for status updates
   });
 
@@ -244,6 +294,57 @@ export default function DashboardPage() {
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: cancelProcessing,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recordings'] });
+      toast.success('Processing cancelled');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to cancel processing', {
+        description: error.message,
+      });
+    },
+  });
+
+  const restartMutation = useMutation({
+    mutationFn: restartProcessing,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recordings'] });
+      toast.success('Processing restarted');
+      setRecordingToRestart(null);
+      setRestartSettings(null);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to restart processing', {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleCancelClick = (recording: Recording) => {
+    cancelMutation.mutate(recording.id);
+  };
+
+  const handleRestartClick = async (recording: Recording) => {
+    // Review the transcription settings before processing again
+    try {
+      const { settings } = await fetchSettings(recording.id);
+      setRestartSettings(settings);
+      setRecordingToRestart(recording);
+    } catch (error) {
+      toast.error('Failed to load transcription settings', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const confirmRestart = () => {
+    if (recordingToRestart && restartSettings) {
+      restartMutation.mutate({ id: recordingToRestart.id, settings: restartSettings });
+    }
+  };
+
   const handleDeleteClick = (recording: Recording) => {
     setRecordingToDelete(recording);
     setDeleteDialogOpen(true);
@@ -365,7 +466,13 @@ export default function DashboardPage() {
                       <TableCell>
                         {recording.caseNumber ? (
                           <div>
-                            <div className="font-medium">{recording.caseNumber}</div>
+                            {recording.caseId ? (
+                              <Link href={`/cases/${recording.caseId}`} className="font-medium hover:underline">
+                                {recording.caseNumber}
+                              </Link>
+                            ) : (
+                              <div className="font-medium">{recording.caseNumber}</div>
+                            )}
                             {recording.courtName && (
                               <div className="text-sm text-muted-foreground">{recording.courtName}</div>
                             )}
@@ -401,6 +508,11 @@ export default function DashboardPage() {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
+                              <ProcessingMenuItems
+                                recording={recording}
+                                onCancel={handleCancelClick}
+                                onRestart={handleRestartClick}
+                              />
                               <DropdownMenuItem 
                                 className="text-destructive focus:text-destructive"
                                 onClick={() => handleDeleteClick(recording)}
@@ -425,6 +537,8 @@ export default function DashboardPage() {
                     key={recording.id} 
                     recording={recording} 
                     onDelete={handleDeleteClick}
+                    onCancel={handleCancelClick}
+                    onRestart={handleRestartClick}
                   />
                 ))}
               </div>
@@ -469,6 +583,54 @@ export default function DashboardPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Restart Processing Dialog */}
+      <Dialog
+        open={!!recordingToRestart}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRecordingToRestart(null);
+            setRestartSettings(null);
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Restart Processing</DialogTitle>
+            <DialogDescription>
+              Review the transcription settings for &quot;{recordingToRestart?.filename}&quot; before processing it again.
+            </DialogDescription>
+          </DialogHeader>
+          {recordingToRestart && restartSettings && (
+            <TranscriptionSettingsFields
+              key={recordingToRestart.id}
+              value={restartSettings}
+              onChange={setRestartSettings}
+              disabled={restartMutation.isPending}
+              idPrefix="restart"
+            />
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRecordingToRestart(null)}
+              disabled={restartMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={confirmRestart} disabled={restartMutation.isPending}>
+              {restartMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Restarting...
+                </>
+              ) : (
+                'Restart Processing'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
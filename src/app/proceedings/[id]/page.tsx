@@ -0,0 +1,516 @@
+'use client';
+
+import { use, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  Clock,
+  Download,
+  FileAudio,
+  FileJson,
+  FileText,
+  Loader2,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  Trash2,
+  Volume2,
+  X,
+} from 'lucide-react';
+
+interface Proceeding {
+  id: string;
+  title: string;
+  caseId: string | null;
+}
+
+interface Segment {
+  recordingId: string;
+  filename: string;
+  recordingDate: string | null;
+  status: string;
+  offsetMs: number;
+  durationMs: number;
+  audioUrl: string | null;
+  transcribed: boolean;
+}
+
+interface ProceedingUtterance {
+  id: string;
+  recordingId: string;
+  segmentIndex: number;
+  speaker: string;
+  speakerLabel: string | null;
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+interface ProceedingData {
+  proceeding: Proceeding;
+  durationMs: number;
+  segments: Segment[];
+  utterances: ProceedingUtterance[];
+}
+
+const EXPORT_FORMATS = [
+  { format: 'docx', label: 'Word Document' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'txt', label: 'Plain Text' },
+] as const;
+
+async function fetchProceeding(id: string): Promise<ProceedingData> {
+  const response = await fetch(`/api/proceedings/${id}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch proceeding');
+  }
+  return response.json();
+}
+
+async function sendJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Request failed');
+  }
+  return response.json();
+}
+
+function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Index of the file playing at `ms` on the combined timeline
+ */
+function findSegmentIndex(segments: Segment[], ms: number): number {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (ms >= segments[i].offsetMs) return i;
+  }
+  return 0;
+}
+
+export default function ProceedingPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  // One audio element per file; the next file is preloaded so playback runs on
+  const audioRefs = useRef<Array<HTMLAudioElement | null>>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['proceeding', id],
+    queryFn: () => fetchProceeding(id),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (recordingIds: string[]) => sendJson(`/api/proceedings/${id}`, 'PATCH', { recordingIds }),
+    onSuccess: () => {
+      audioRefs.current[activeIndex]?.pause();
+      setActiveIndex(0);
+      setCurrentTimeMs(0);
+      queryClient.invalidateQueries({ queryKey: ['proceeding', id] });
+      queryClient.invalidateQueries({ queryKey: ['proceedings'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update files', { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sendJson(`/api/proceedings/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['proceedings'] });
+      toast.success('Proceeding deleted');
+      router.push(data?.proceeding.caseId ? `/cases/${data.proceeding.caseId}` : '/');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete proceeding', { description: error.message });
+    },
+  });
+
+  const segments = data?.segments ?? [];
+
+  const seekTo = (ms: number) => {
+    if (segments.length === 0) return;
+    const index = findSegmentIndex(segments, ms);
+    const wasPlaying = isPlaying;
+
+    if (index !== activeIndex) {
+      audioRefs.current[activeIndex]?.pause();
+      setActiveIndex(index);
+    }
+
+    const audio = audioRefs.current[index];
+    if (audio) {
+      audio.currentTime = Math.max(0, ms - segments[index].offsetMs) / 1000;
+      if (wasPlaying) audio.play();
+    }
+    setCurrentTimeMs(ms);
+  };
+
+  const togglePlayPause = () => {
+    const audio = audioRefs.current[activeIndex];
+    if (!audio) return;
+    if (audio.paused) audio.play();
+    else audio.pause();
+  };
+
+  // Carry on with the next file where this one ends
+  const handleEnded = (index: number) => {
+    const next = audioRefs.current[index + 1];
+    if (!next) {
+      setIsPlaying(false);
+      return;
+    }
+    setActiveIndex(index + 1);
+    next.currentTime = 0;
+    next.play();
+  };
+
+  const moveSegment = (index: number, direction: -1 | 1) => {
+    const ids = segments.map(s => s.recordingId);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-48" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-destructive">
+          Failed to load proceeding
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { proceeding, durationMs, utterances } = data;
+  const activeSegment = segments[activeIndex];
+
+  return (
+    <div className="space-y-6 pb-24">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href={proceeding.caseId ? `/cases/${proceeding.caseId}` : '/'}>
+            <Button variant="ghost" size="icon">
+              <ChevronLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">{proceeding.title}</h1>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span>{segments.length} file{segments.length === 1 ? '' : 's'}</span>
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {formatTimestamp(durationMs)}
+              </span>
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a href={`/api/proceedings/${id}/export?format=${format}`} download>
+                    <FileText className="h-4 w-4 mr-2" />
+                    {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem asChild>
+                <a href={`/api/proceedings/${id}/export?format=json`} download>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  JSON
+                </a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setDeleteOpen(true)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Continuous player */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Volume2 className="h-5 w-5" />
+              Audio Player
+            </CardTitle>
+            {activeSegment && (
+              <CardDescription>
+                File {activeIndex + 1} of {segments.length}: {activeSegment.filename}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {segments.map((segment, index) => segment.audioUrl && (
+              <audio
+                key={segment.recordingId}
+                ref={(element) => { audioRefs.current[index] = element; }}
+                src={segment.audioUrl}
+                preload={index === activeIndex || index === activeIndex + 1 ? 'auto' : 'metadata'}
+                onTimeUpdate={(e) => {
+                  if (index === activeIndex) setCurrentTimeMs(segment.offsetMs + e.currentTarget.currentTime * 1000);
+                }}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => index === activeIndex && setIsPlaying(false)}
+                onEnded={() => handleEnded(index)}
+              />
+            ))}
+
+            <div className="space-y-2">
+              <div
+                className="relative h-2 bg-muted rounded-full cursor-pointer overflow-hidden"
+                onClick={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  seekTo(((e.clientX - rect.left) / rect.width) * durationMs);
+                }}
+              >
+                <div
+                  className="h-full bg-black transition-all"
+                  style={{ width: `${durationMs > 0 ? (currentTimeMs / durationMs) * 100 : 0}%` }}
+                />
+                {/* File boundaries */}
+                {durationMs > 0 && segments.slice(1).map(segment => (
+                  <div
+                    key={segment.recordingId}
+                    className="absolute top-0 h-full w-0.5 bg-background"
+                    style={{ left: `${(segment.offsetMs / durationMs) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{formatTimestamp(currentTimeMs)}</span>
+                <span>{formatTimestamp(durationMs)}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-center gap-4">
+              <Button variant="outline" size="icon" onClick={() => seekTo(Math.max(0, currentTimeMs - 10000))}>
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button size="lg" onClick={togglePlayPause} disabled={!activeSegment?.audioUrl}>
+                {isPlaying ? (
+                  <Pause className="h-6 w-6" />
+                ) : (
+                  <Play className="h-6 w-6 ml-1" />
+                )}
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => seekTo(Math.min(durationMs, currentTimeMs + 10000))}>
+                <SkipForward className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Files in order */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Files</CardTitle>
+            <CardDescription>Played and exported in this order</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {segments.map((segment, index) => (
+              <div
+                key={segment.recordingId}
+                className={`flex items-center gap-3 p-2 rounded-md ${index === activeIndex ? 'bg-muted' : ''}`}
+              >
+                <FileAudio className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <Link href={`/recording/${segment.recordingId}`} className="font-medium truncate block hover:underline">
+                    {segment.filename}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    Starts at {formatTimestamp(segment.offsetMs)} · {formatTimestamp(segment.durationMs)}
+                    {segment.recordingDate && ` · ${segment.recordingDate}`}
+                  </div>
+                </div>
+                {!segment.transcribed && (
+                  <Badge variant="outline" className="shrink-0">
+                    {segment.status === 'completed' ? 'No transcript' : segment.status}
+                  </Badge>
+                )}
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveSegment(index, -1)}
+                    disabled={index === 0 || reorderMutation.isPending}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveSegment(index, 1)}
+                    disabled={index === segments.length - 1 || reorderMutation.isPending}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => reorderMutation.mutate(
+                      segments.filter(s => s.recordingId !== segment.recordingId).map(s => s.recordingId)
+                    )}
+                    disabled={segments.length === 1 || reorderMutation.isPending}
+                    aria-label="Remove from proceeding"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Combined transcript */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Transcript</CardTitle>
+          <CardDescription>Timestamps run on across files</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {utterances.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              None of the files has been transcribed yet.
+            </p>
+          ) : (
+            <ScrollArea className="h-[600px] pr-4">
+              <div className="space-y-3">
+                {segments.map((segment, segmentIndex) => (
+                  <div key={segment.recordingId} className="space-y-3">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
+                      <div className="h-px flex-1 bg-border" />
+                      File {segmentIndex + 1}: {segment.filename} · {formatTimestamp(segment.offsetMs)}
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    {!segment.transcribed && (
+                      <p className="text-sm text-muted-foreground text-center">Not transcribed yet</p>
+                    )}
+                    {utterances.filter(u => u.segmentIndex === segmentIndex).map((utterance, lineIndex) => {
+                      const isActive = currentTimeMs >= utterance.startMs && currentTimeMs < utterance.endMs;
+                      return (
+                        <div
+                          key={`${utterance.id}-${lineIndex}`}
+                          className={`p-2 rounded-md cursor-pointer transition-colors ${isActive ? 'bg-muted' : 'hover:bg-muted/50'}`}
+                          onClick={() => seekTo(utterance.startMs)}
+                        >
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                            <span className="font-mono">{formatTimestamp(utterance.startMs)}</span>
+                            <span className="font-semibold text-foreground">{utterance.speakerLabel}</span>
+                          </div>
+                          <p className="text-sm">{utterance.text}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Proceeding</DialogTitle>
+            <DialogDescription>
+              Delete &quot;{proceeding.title}&quot;? Its {segments.length} recording{segments.length === 1 ? '' : 's'} and
+              their transcripts are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteOpen(false)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
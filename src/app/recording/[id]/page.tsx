@@ -44,8 +44,25 @@ import {
   MoreVertical,
   Undo2,
   Trash2,
+  History,
+  FileJson,
+  Activity,
+  Languages,
+  RefreshCw,
+  Loader2,
+  Layers,
 } from 'lucide-react';
 import Link from 'next/link';
+import { alignWordsToText, getPlaybackCharIndex, type AlignedWord, type WordTiming } from '@/lib/word-timing';
+import {
+  LANGUAGE_TAG_STYLES,
+  getLanguageLabel,
+  isForeignLanguage,
+  withLanguageTag,
+  type LanguageTagStyle,
+} from '@/lib/languages';
+import { TranscriptionSettingsFields } from '@/components/transcription-settings-fields';
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
 
 interface Utterance {
   id: string;
@@ -55,6 +72,7 @@ interface Utterance {
   startMs: number;
   endMs: number;
   sequenceIndex: number;
+  language: string | null;
 }
 
 interface Recording {
@@ -64,22 +82,81 @@ interface Recording {
   fileSizeBytes: number;
   durationSeconds: number | null;
   status: string;
+  caseId: string | null;
   caseNumber: string | null;
   courtName: string | null;
   recordingDate: string | null;
+  proceedingId: string | null;
+  proceedingPosition: number | null;
   convertedAudioUrl: string | null;
+  channelCount: number | null;
+  // Read from the file's headers after upload (null for FTR)
+  sampleRate: number | null;
+  codec: string | null;
   createdAt: string;
 }
 
+interface RecordingChannel {
+  channelIndex: number;
+  speakerId: string;
+  audioUrl: string;
+  status: string;
+}
+
 interface RecordingData {
   recording: Recording;
   transcript: {
     id: string;
+    version: number;
     fullText: string;
     confidence: number | null;
+    language: string | null;
   } | null;
   utterances: Utterance[];
   speakerLabels: Array<{ speakerId: string; label: string }>;
+  utteranceEdits: UtteranceEdit[];
+  channels: RecordingChannel[];
+}
+
+interface TranscriptVersion {
+  id: string;
+  version: number;
+  isActive: boolean;
+  confidence: number | null;
+  utteranceCount: number;
+  createdAt: string;
+  // Passage this version re-transcribed, if it was spliced from a range
+  range: { id: string; startMs: number; endMs: number } | null;
+}
+
+interface RangeTranscription {
+  id: string;
+  status: 'pending' | 'transcribing' | 'completed' | 'failed';
+  startMs: number;
+  endMs: number;
+  channel: number | null;
+  replacedUtteranceCount: number | null;
+  insertedUtteranceCount: number | null;
+  errorMessage: string | null;
+  baseVersion: number | null;
+  resultVersion: number | null;
+  createdAt: string;
+}
+
+// Passage chosen for re-transcription, with the settings to start from
+interface RangeTarget {
+  startMs: number;
+  endMs: number;
+  settings: TranscriptionSettings;
+}
+
+interface StatusEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actor: string;
+  reason: string | null;
+  createdAt: string;
 }
 
 interface SearchResult {
@@ -90,7 +167,19 @@ interface SearchResult {
   startMs: number;
   endMs: number;
   sequenceIndex: number;
-  highlights: Array<{ start: number; end: number }>;
+  language: string | null;
+  highlights: Array<{ start: number; end: number; term: string; startMs: number | null; endMs: number | null }>;
+  matchStartMs: number;
+  context: {
+    before: SearchContextUtterance[];
+    after: SearchContextUtterance[];
+  };
+}
+
+type SearchContextUtterance = Pick<SearchResult, 'id' | 'speaker' | 'speakerLabel' | 'text' | 'startMs' | 'endMs'>;
+
+interface UtteranceWord extends WordTiming {
+  utteranceId: string;
 }
 
 // Text segment with speaker attribution (for partial text changes)
@@ -109,6 +198,15 @@ interface UtteranceEdit {
   deletedSegmentIndices?: number[]; // Track which segments have been deleted
 }
 
+// Segment whose text is being corrected
+interface TextEditTarget {
+  utteranceId: string;
+  segmentIndex: number;
+  text: string;
+}
+
+type EditSaveState = 'idle' | 'saving' | 'saved' | 'error';
+
 // Selection state for text highlighting
 interface TextSelection {
   utteranceId: string;
@@ -118,6 +216,13 @@ interface TextSelection {
   position: { x: number; y: number };
 }
 
+// Selection spanning several utterances
+interface PassageSelection {
+  startUtteranceId: string;
+  endUtteranceId: string;
+  position: { x: number; y: number };
+}
+
 async function fetchRecording(id: string): Promise<RecordingData> {
   const response = await fetch(`/api/recordings/${id}`);
   if (!response.ok) {
@@ -129,7 +234,88 @@ async function fetchRecording(id: string): Promise<RecordingData> {
 async function searchTranscript(id: string, query: string): Promise<{ results: SearchResult[] }> {
   const response = await fetch(`/api/recordings/${id}/search?q=${encodeURIComponent(query)}`);
   if (!response.ok) {
-    throw new Error('Search failed');
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || 'Search failed');
+  }
+  return response.json();
+}
+
+async function fetchWordTimings(id: string): Promise<{ transcriptId: string | null; words: UtteranceWord[] }> {
+  const response = await fetch(`/api/recordings/${id}/words`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch word timings');
+  }
+  return response.json();
+}
+
+async function fetchTranscriptVersions(id: string): Promise<{ versions: TranscriptVersion[] }> {
+  const response = await fetch(`/api/recordings/${id}/transcription/versions`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch transcript versions');
+  }
+  return response.json();
+}
+
+async function fetchStatusHistory(id: string): Promise<{ events: StatusEvent[] }> {
+  const response = await fetch(`/api/recordings/${id}/status-history`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch status history');
+  }
+  return response.json();
+}
+
+async function fetchRangeTranscriptions(id: string): Promise<{ ranges: RangeTranscription[] }> {
+  const response = await fetch(`/api/recordings/${id}/transcription/ranges`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch re-transcribed passages');
+  }
+  return response.json();
+}
+
+async function fetchSettings(id: string): Promise<{ settings: TranscriptionSettings }> {
+  const response = await fetch(`/api/recordings/${id}/settings`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch transcription settings');
+  }
+  return response.json();
+}
+
+async function startRangeTranscription(
+  id: string,
+  range: { startMs: number; endMs: number; settings: TranscriptionSettings }
+): Promise<{ range: RangeTranscription }> {
+  const response = await fetch(`/api/recordings/${id}/transcription/ranges`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(range),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to start re-transcription');
+  }
+  return response.json();
+}
+
+async function activateTranscriptVersion(id: string, version: number) {
+  const response = await fetch(`/api/recordings/${id}/transcription/versions`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ version }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to switch transcript version');
+  }
+  return response.json();
+}
+
+async function saveUtteranceEdits(recordingId: string, edits: UtteranceEdit[]) {
+  const response = await fetch(`/api/recordings/${recordingId}/utterances`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ edits }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to save edits');
   }
   return response.json();
 }
@@ -158,6 +344,16 @@ function formatTimestamp(ms: number): string {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
+// Parse "m:ss" or "h:mm:ss" (seconds may have a fraction) into ms; null if invalid
+function parseTimestamp(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.every(part => /^\d+(\.\d+)?$/.test(part))) return null;
+
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return Math.round(seconds * 1000);
+}
+
 function formatDuration(seconds: number | null | undefined): string {
   if (seconds === null || seconds === undefined || seconds <= 0) return '—';
   const hours = Math.floor(seconds / 3600);
@@ -381,6 +577,7 @@ function SelectionPopover({
   getSpeakerLabel,
   speakerColorMap,
   currentSpeaker,
+  onRetranscribe,
 }: {
   selection: TextSelection;
   existingSpeakers: string[];
@@ -390,6 +587,7 @@ function SelectionPopover({
   getSpeakerLabel: (speaker: string, label: string | null) => string;
   speakerColorMap: Record<string, string>;
   currentSpeaker: string;
+  onRetranscribe?: () => void;
 }) {
   const [isCreatingNew, setIsCreatingNew] = useState(false);
   const [newSpeakerName, setNewSpeakerName] = useState('');
@@ -498,6 +696,21 @@ function SelectionPopover({
             <UserPlus className="h-3 w-3" />
             New Speaker
           </Button>
+
+          {onRetranscribe && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onRetranscribe();
+                onClose();
+              }}
+              className="w-full h-7 text-xs gap-1 mt-1"
+            >
+              <RefreshCw className="h-3 w-3" />
+              Re-transcribe Passage
+            </Button>
+          )}
         </>
       ) : (
         <div className="space-y-2">
@@ -536,6 +749,72 @@ function SelectionPopover({
   );
 }
 
+// Floating popover for a selection spanning several utterances
+function PassageSelectionPopover({
+  selection,
+  onRetranscribe,
+  onClose,
+}: {
+  selection: PassageSelection;
+  onRetranscribe: () => void;
+  onClose: () => void;
+}) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const style: React.CSSProperties = {
+    position: 'fixed',
+    left: Math.min(Math.max(10, selection.position.x), window.innerWidth - 240),
+    top: Math.min(selection.position.y + 10, window.innerHeight - 80),
+    zIndex: 100,
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      style={style}
+      className="bg-background border rounded-lg shadow-xl p-2 flex items-center gap-1 animate-in fade-in-0 zoom-in-95"
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          onRetranscribe();
+          onClose();
+        }}
+        className="h-7 text-xs gap-1"
+      >
+        <RefreshCw className="h-3 w-3" />
+        Re-transcribe Passage
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
 // Segmented text display component - shows text with different speaker attributions
 function SegmentedText({
   segments,
@@ -543,6 +822,7 @@ function SegmentedText({
   utteranceEndMs,
   currentTimeMs,
   isActive,
+  alignedWords,
   searchHighlights,
   speakerColorMap,
   getSpeakerLabel,
@@ -552,6 +832,7 @@ function SegmentedText({
   utteranceEndMs: number;
   currentTimeMs: number;
   isActive: boolean;
+  alignedWords?: AlignedWord[];
   searchHighlights?: Array<{ start: number; end: number }>;
   speakerColorMap: Record<string, string>;
   getSpeakerLabel: (speaker: string, label: string | null) => string;
@@ -563,7 +844,9 @@ function SegmentedText({
     ? Math.min(1, Math.max(0, (currentTimeMs - utteranceStartMs) / utteranceDuration))
     : 0;
   
-  const currentCharIndex = Math.floor(progress * totalChars);
+  // Use the word actually playing when word timings are available, otherwise estimate
+  const wordCharIndex = isActive && alignedWords ? getPlaybackCharIndex(alignedWords, currentTimeMs) : null;
+  const currentCharIndex = wordCharIndex ?? Math.floor(progress * totalChars);
   
   return (
     <>
@@ -1036,8 +1319,25 @@ function DocumentPreview({
 }
 
 // Generic Export Dialog Component
+const LANGUAGE_TAG_STYLE_LABELS: Record<LanguageTagStyle, string> = {
+  language: 'Tag with the language, e.g. [Spanish]',
+  interpreter: 'Mark as (Through the interpreter)',
+  none: 'No tags',
+};
+
+// Marks an utterance spoken in another language than the transcript
+function LanguageBadge({ language }: { language: string }) {
+  return (
+    <Badge variant="outline" className="text-xs py-0 gap-1">
+      <Languages className="h-3 w-3" />
+      {getLanguageLabel(language)}
+    </Badge>
+  );
+}
+
 function ExportDialog({ 
   recording, 
+  transcriptLanguage,
   utterances,
   utteranceEdits,
   getSpeakerLabel,
@@ -1046,6 +1346,7 @@ function ExportDialog({
   formatIcon: FormatIcon,
 }: { 
   recording: Recording;
+  transcriptLanguage: string | null;
   utterances: Utterance[];
   utteranceEdits: UtteranceEdit[];
   getSpeakerLabel: (speaker: string, label: string | null) => string;
@@ -1057,6 +1358,8 @@ function ExportDialog({
   const [isExporting, setIsExporting] = useState(false);
   const [title, setTitle] = useState('OFFICIAL TRANSCRIPT');
   const [subtitle, setSubtitle] = useState('Court Recording Transcription');
+  const [languageTagStyle, setLanguageTagStyle] = useState<LanguageTagStyle>('language');
+  const hasForeignLanguage = utterances.some(u => isForeignLanguage(u.language, transcriptLanguage));
 
   // Process utterances with edits and merge adjacent same-speaker segments
   const processedSegments = useMemo(() => {
@@ -1066,6 +1369,7 @@ function ExportDialog({
       text: string;
       startMs: number;
       endMs: number;
+      language: string | null;
     }> = [];
 
     for (const utterance of utterances) {
@@ -1080,6 +1384,7 @@ function ExportDialog({
             text: segment.text,
             startMs: utterance.startMs,
             endMs: utterance.endMs,
+            language: utterance.language,
           });
         }
       } else {
@@ -1090,15 +1395,16 @@ function ExportDialog({
           text: utterance.text,
           startMs: utterance.startMs,
           endMs: utterance.endMs,
+          language: utterance.language,
         });
       }
     }
 
-    // Merge adjacent segments with same speaker
+    // Merge adjacent segments with same speaker (and language, so each keeps its tag)
     const merged: typeof allSegments = [];
     for (const segment of allSegments) {
       const last = merged[merged.length - 1];
-      if (last && last.speaker === segment.speaker) {
+      if (last && last.speaker === segment.speaker && last.language === segment.language) {
         merged[merged.length - 1] = {
           ...last,
           text: last.text + ' ' + segment.text,
@@ -1109,8 +1415,11 @@ function ExportDialog({
       }
     }
     
-    return merged;
-  }, [utterances, utteranceEdits]);
+    return merged.map(segment => ({
+      ...segment,
+      text: withLanguageTag(segment.text, segment.language, transcriptLanguage, languageTagStyle),
+    }));
+  }, [utterances, utteranceEdits, transcriptLanguage, languageTagStyle]);
 
   const editCount = utteranceEdits.length;
 
@@ -1121,6 +1430,7 @@ function ExportDialog({
         format: format,
         title: title,
         subtitle: subtitle,
+        languageTags: languageTagStyle,
       });
       const response = await fetch(`/api/recordings/${recording.id}/export?${params}`);
       if (!response.ok) throw new Error('Export failed');
@@ -1207,6 +1517,26 @@ function ExportDialog({
           </div>
         </div>
 
+        {hasForeignLanguage && (
+          <div className="grid gap-1.5">
+            <label htmlFor={`${format}-language-tags`} className="text-sm font-medium">
+              Other-Language Testimony
+            </label>
+            <select
+              id={`${format}-language-tags`}
+              value={languageTagStyle}
+              onChange={(e) => setLanguageTagStyle(e.target.value as LanguageTagStyle)}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs sm:w-72"
+            >
+              {LANGUAGE_TAG_STYLES.map(style => (
+                <option key={style} value={style}>
+                  {LANGUAGE_TAG_STYLE_LABELS[style]}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Document Preview */}
         <DocumentPreview
           recording={recording}
@@ -1237,6 +1567,185 @@ function ExportDialog({
   );
 }
 
+// Edit Text Dialog - corrects the ASR text of a segment
+function EditTextDialog({
+  target,
+  onSave,
+  onClose,
+}: {
+  target: TextEditTarget | null;
+  onSave: (target: TextEditTarget, newText: string) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState(target?.text || '');
+  const [prevTarget, setPrevTarget] = useState(target);
+
+  // Reset the draft when a different segment is opened
+  if (target !== prevTarget) {
+    setPrevTarget(target);
+    setText(target?.text || '');
+  }
+
+  const handleSave = () => {
+    if (!target) return;
+    if (!text.trim()) {
+      toast.error('Text cannot be empty. Delete the segment instead.');
+      return;
+    }
+    onSave(target, text);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Text</DialogTitle>
+          <DialogDescription>
+            Correct the transcribed text. The original ASR output is kept and can be restored with Revert.
+          </DialogDescription>
+        </DialogHeader>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          className="w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+          autoFocus
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Re-transcribe Range Dialog - sends one passage back to the Voice API with its own settings
+function RetranscribeRangeDialog({
+  recordingId,
+  target,
+  onStarted,
+  onClose,
+}: {
+  recordingId: string;
+  target: RangeTarget | null;
+  onStarted: () => void;
+  onClose: () => void;
+}) {
+  const [startText, setStartText] = useState('');
+  const [endText, setEndText] = useState('');
+  const [settings, setSettings] = useState<TranscriptionSettings | null>(null);
+  const [prevTarget, setPrevTarget] = useState<RangeTarget | null>(null);
+
+  // Reset the form when a different passage is chosen
+  if (target !== prevTarget) {
+    setPrevTarget(target);
+    if (target) {
+      setStartText(formatTimestamp(target.startMs));
+      // Round the end up so the last utterance stays inside the range
+      setEndText(formatTimestamp(Math.ceil(target.endMs / 1000) * 1000));
+      setSettings(target.settings);
+    }
+  }
+
+  const startMutation = useMutation({
+    mutationFn: (range: { startMs: number; endMs: number; settings: TranscriptionSettings }) =>
+      startRangeTranscription(recordingId, range),
+    onSuccess: () => {
+      toast.success('Passage sent for re-transcription', {
+        description: 'A new transcript version is created when it finishes.',
+      });
+      onStarted();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to re-transcribe passage', {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!settings) return;
+    const startMs = parseTimestamp(startText);
+    const endMs = parseTimestamp(endText);
+    if (startMs === null || endMs === null) {
+      toast.error('Enter times as m:ss or h:mm:ss');
+      return;
+    }
+    if (endMs <= startMs) {
+      toast.error('The end time must be after the start time');
+      return;
+    }
+    startMutation.mutate({ startMs, endMs, settings });
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Re-transcribe Passage</DialogTitle>
+          <DialogDescription>
+            Only this part of the recording is transcribed again. The range is widened to whole segments, and the
+            new segments replace them in a new transcript version; the current version stays in the history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="range-start" className="text-sm font-medium">
+              Start
+            </label>
+            <Input
+              id="range-start"
+              value={startText}
+              onChange={(e) => setStartText(e.target.value)}
+              placeholder="m:ss"
+              disabled={startMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="range-end" className="text-sm font-medium">
+              End
+            </label>
+            <Input
+              id="range-end"
+              value={endText}
+              onChange={(e) => setEndText(e.target.value)}
+              placeholder="m:ss"
+              disabled={startMutation.isPending}
+            />
+          </div>
+        </div>
+        {target && settings && (
+          <TranscriptionSettingsFields
+            key={`${target.startMs}-${target.endMs}`}
+            value={settings}
+            onChange={setSettings}
+            disabled={startMutation.isPending}
+            idPrefix="range"
+          />
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={startMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={startMutation.isPending}>
+            {startMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Re-transcribe'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Floating Playback Bar Component
 function FloatingPlaybackBar({
   isPlaying,
@@ -1322,6 +1831,61 @@ function FloatingPlaybackBar({
   );
 }
 
+function formatStatus(status: string): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+// Status history of the recording, newest first
+function ProcessingTimeline({ events }: { events: StatusEvent[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Processing Timeline
+        </CardTitle>
+        <CardDescription>
+          Every status change of this recording, with who made it and why
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-4">
+            {[...events].reverse().map(event => (
+              <li key={event.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                    event.toStatus === 'failed' ? 'bg-destructive' : 'bg-primary'
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {event.fromStatus && (
+                    <>
+                      <Badge variant="outline">{formatStatus(event.fromStatus)}</Badge>
+                      <span className="text-muted-foreground">→</span>
+                    </>
+                  )}
+                  <Badge variant={event.toStatus === 'failed' ? 'destructive' : 'secondary'}>
+                    {formatStatus(event.toStatus)}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(event.createdAt).toLocaleString()} · {event.actor}
+                  </span>
+                </div>
+                {event.reason && (
+                  <p className="text-sm text-muted-foreground mt-1">{event.reason}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function RecordingPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const [currentTimeMs, setCurrentTimeMs] = useState(0);
@@ -1334,6 +1898,19 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
   const [userScrolledRecently, setUserScrolledRecently] = useState(false);
   const [utteranceEdits, setUtteranceEdits] = useState<UtteranceEdit[]>([]);
   const [textSelection, setTextSelection] = useState<TextSelection | null>(null);
+  const [textEditTarget, setTextEditTarget] = useState<TextEditTarget | null>(null);
+  const [passageSelection, setPassageSelection] = useState<PassageSelection | null>(null);
+  const [rangeTarget, setRangeTarget] = useState<RangeTarget | null>(null);
+  const [editSaveState, setEditSaveState] = useState<EditSaveState>('idle');
+  // Channel playing in the player (null = mixed audio)
+  const [selectedChannel, setSelectedChannel] = useState<number | null>(null);
+  // Position to restore after switching the audio source
+  const resumePlaybackRef = useRef<{ timeMs: number; play: boolean } | null>(null);
+  // Time from the ?t= link, until its segment has been scrolled into view
+  const linkedTimeRef = useRef<number | null>(null);
+  // Transcript version whose edits are loaded (undefined until the first load)
+  const hydratedTranscriptIdRef = useRef<string | null | undefined>(undefined);
+  const lastSavedEditsRef = useRef<string>('[]');
   const audioRef = useRef<HTMLAudioElement>(null);
   const activeUtteranceRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -1346,6 +1923,123 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
     queryFn: () => fetchRecording(id),
   });
 
+  const queryClient = useQueryClient();
+
+  const { data: wordsData } = useQuery({
+    queryKey: ['recording-words', id, data?.transcript?.id],
+    queryFn: () => fetchWordTimings(id),
+    enabled: !!data?.transcript,
+  });
+
+  // Word timings located in each utterance's original text
+  const alignedWordsByUtterance = useMemo(() => {
+    const aligned = new Map<string, AlignedWord[]>();
+    if (!data || !wordsData || wordsData.transcriptId !== data.transcript?.id) return aligned;
+
+    const grouped = new Map<string, UtteranceWord[]>();
+    for (const word of wordsData.words) {
+      const list = grouped.get(word.utteranceId) || [];
+      list.push(word);
+      grouped.set(word.utteranceId, list);
+    }
+    for (const utterance of data.utterances) {
+      const utteranceWords = grouped.get(utterance.id);
+      if (utteranceWords) {
+        aligned.set(utterance.id, alignWordsToText(utterance.text, utteranceWords));
+      }
+    }
+    return aligned;
+  }, [data, wordsData]);
+
+  const { data: versionsData } = useQuery({
+    queryKey: ['transcript-versions', id],
+    queryFn: () => fetchTranscriptVersions(id),
+    enabled: !!data?.transcript,
+  });
+
+  const { data: rangesData } = useQuery({
+    queryKey: ['transcript-ranges', id],
+    queryFn: () => fetchRangeTranscriptions(id),
+    enabled: !!data?.transcript,
+    // Poll while a passage is being re-transcribed
+    refetchInterval: (query) =>
+      query.state.data?.ranges.some(r => r.status === 'pending' || r.status === 'transcribing') ? 5000 : false,
+  });
+
+  const activeRange = rangesData?.ranges.find(r => r.status === 'pending' || r.status === 'transcribing') ?? null;
+  const latestRange = rangesData?.ranges[0] ?? null;
+  const activeRangeIdRef = useRef<string | null>(null);
+
+  // Reload the transcript once a passage has been spliced in
+  useEffect(() => {
+    const watchedId = activeRangeIdRef.current;
+    activeRangeIdRef.current = activeRange?.id ?? null;
+    if (!watchedId || activeRange?.id === watchedId) return;
+
+    const finished = rangesData?.ranges.find(r => r.id === watchedId);
+    if (finished?.status === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['recording', id] });
+      queryClient.invalidateQueries({ queryKey: ['transcript-versions', id] });
+      toast.success(`Passage re-transcribed as version ${finished.resultVersion}`);
+    } else if (finished?.status === 'failed') {
+      toast.error('Passage re-transcription failed', {
+        description: finished.errorMessage ?? undefined,
+      });
+    }
+  }, [activeRange, rangesData, queryClient, id]);
+
+  const { data: statusHistory } = useQuery({
+    queryKey: ['recording-status-history', id, data?.recording.status],
+    queryFn: () => fetchStatusHistory(id),
+    enabled: !!data,
+  });
+
+  const activateVersionMutation = useMutation({
+    mutationFn: (version: number) => activateTranscriptVersion(id, version),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['recording', id] });
+      queryClient.invalidateQueries({ queryKey: ['transcript-versions', id] });
+      toast.success(`Switched to version ${result.activeVersion}`);
+    },
+    onError: () => {
+      toast.error('Failed to switch transcript version');
+    },
+  });
+
+  // Load saved edits when the recording (or its active version) arrives
+  useEffect(() => {
+    if (!data) return;
+    const transcriptId = data.transcript?.id ?? null;
+    if (hydratedTranscriptIdRef.current === transcriptId) return;
+    hydratedTranscriptIdRef.current = transcriptId;
+    const savedEdits = data.utteranceEdits || [];
+    lastSavedEditsRef.current = JSON.stringify(savedEdits);
+    setUtteranceEdits(savedEdits);
+  }, [data]);
+
+  // Persist edits to the server shortly after they change
+  useEffect(() => {
+    if (hydratedTranscriptIdRef.current === undefined) return;
+    const serialized = JSON.stringify(utteranceEdits);
+    if (serialized === lastSavedEditsRef.current) return;
+
+    const timeout = setTimeout(async () => {
+      setEditSaveState('saving');
+      try {
+        await saveUtteranceEdits(id, utteranceEdits);
+        lastSavedEditsRef.current = serialized;
+        setEditSaveState('saved');
+      } catch {
+        setEditSaveState('error');
+        toast.error('Failed to save edits', {
+          description: 'Your changes are kept on this page and will be retried on the next edit.',
+        });
+      }
+    }, 800);
+
+    return () => clearTimeout(timeout);
+  }, [id, utteranceEdits]);
+
   // Handle text selection in transcript
   useEffect(() => {
     const handleMouseUp = (e: MouseEvent) => {
@@ -1362,18 +2056,20 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
       if (selectedText.length < 3) return;
 
       const range = selection.getRangeAt(0);
-      const container = range.commonAncestorContainer;
-      
+
       // Walk up to find the utterance element
-      let utteranceElement: HTMLElement | null = null;
-      let current: Node | null = container;
-      while (current && current !== transcriptRef.current) {
-        if (current instanceof HTMLElement && current.id?.startsWith('utterance-')) {
-          utteranceElement = current;
-          break;
+      const findUtteranceElement = (node: Node | null): HTMLElement | null => {
+        let current = node;
+        while (current && current !== transcriptRef.current) {
+          if (current instanceof HTMLElement && current.id?.startsWith('utterance-')) {
+            return current;
+          }
+          current = current.parentNode;
         }
-        current = current.parentNode;
-      }
+        return null;
+      };
+
+      const utteranceElement = findUtteranceElement(range.commonAncestorContainer);
 
       if (utteranceElement) {
         const utteranceId = utteranceElement.id.replace('utterance-', '');
@@ -1400,6 +2096,21 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
             });
           }
         }
+      } else {
+        // A selection across utterances can only be re-transcribed as a passage
+        const startElement = findUtteranceElement(range.startContainer);
+        const endElement = findUtteranceElement(range.endContainer);
+        if (startElement && endElement) {
+          const rect = range.getBoundingClientRect();
+          setPassageSelection({
+            startUtteranceId: startElement.id.replace('utterance-', ''),
+            endUtteranceId: endElement.id.replace('utterance-', ''),
+            position: {
+              x: rect.left + rect.width / 2 - 100,
+              y: rect.bottom,
+            },
+          });
+        }
       }
     };
 
@@ -1495,6 +2206,14 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
       if (audio.duration && !isNaN(audio.duration) && isFinite(audio.duration)) {
         setAudioDurationMs(audio.duration * 1000);
       }
+
+      // Continue from the same point after switching channels
+      const resume = resumePlaybackRef.current;
+      if (resume) {
+        resumePlaybackRef.current = null;
+        audio.currentTime = resume.timeMs / 1000;
+        if (resume.play) audio.play();
+      }
     };
 
     const handleDurationChange = () => {
@@ -1548,6 +2267,27 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
     };
   }, [data?.recording.convertedAudioUrl]);
 
+  // Linked time (/recording/<id>?t=<ms>, e.g. from search results): start
+  // playback there and bring its segment into view once the transcript loads
+  useEffect(() => {
+    const linkedMs = Number(new URLSearchParams(window.location.search).get('t'));
+    if (!Number.isFinite(linkedMs) || linkedMs <= 0) return;
+    linkedTimeRef.current = linkedMs;
+    resumePlaybackRef.current = { timeMs: linkedMs, play: false };
+    setCurrentTimeMs(linkedMs);
+  }, []);
+
+  useEffect(() => {
+    if (linkedTimeRef.current === null || !activeUtteranceRef.current) return;
+    linkedTimeRef.current = null;
+    activeUtteranceRef.current.scrollIntoView({ block: 'center' });
+  }, [data, currentTimeMs]);
+
+  const handleChannelChange = useCallback((channelIndex: number | null) => {
+    resumePlaybackRef.current = { timeMs: currentTimeMs, play: isPlaying };
+    setSelectedChannel(channelIndex);
+  }, [currentTimeMs, isPlaying]);
+
   const togglePlayPause = useCallback(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -1580,7 +2320,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
       setSearchResults(results.results);
       if (results.results.length === 0) toast.info('No results found');
     } catch (error) {
-      toast.error('Search failed');
+      toast.error(error instanceof Error ? error.message : 'Search failed');
     } finally {
       setIsSearching(false);
     }
@@ -1689,7 +2429,8 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
       
       // Only add edit if segments differ from original
       const isModified = mergedSegments.length > 1 || 
-        mergedSegments[0]?.speaker !== utterance.speaker;
+        mergedSegments[0]?.speaker !== utterance.speaker ||
+        mergedSegments[0]?.text !== utterance.text;
       
       if (isModified) {
         return [...filtered, { utteranceId, segments: mergedSegments }];
@@ -1710,10 +2451,15 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
     if (!utterance) return;
 
     setUtteranceEdits(prev => {
+      const existingEdit = prev.find(e => e.utteranceId === utteranceId);
       const filtered = prev.filter(e => e.utteranceId !== utteranceId);
+      // Keep any text corrections already made to this utterance
+      const text = existingEdit && existingEdit.segments.length > 0
+        ? existingEdit.segments.map(s => s.text).join('')
+        : utterance.text;
       
-      // If changing back to original speaker, just remove the edit
-      if (newSpeaker === utterance.speaker) {
+      // If changing back to original speaker and text, just remove the edit
+      if (newSpeaker === utterance.speaker && text === utterance.text) {
         return filtered;
       }
       
@@ -1721,16 +2467,66 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
       return [...filtered, {
         utteranceId,
         segments: [{
-          text: utterance.text,
+          text,
           speaker: newSpeaker,
           speakerLabel: newLabel,
           startCharIndex: 0,
-          endCharIndex: utterance.text.length,
+          endCharIndex: text.length,
         }],
       }];
     });
   }, [data]);
 
+  // Handle text correction for one segment of an utterance
+  const handleTextChange = useCallback((
+    utteranceId: string,
+    segmentIndex: number,
+    newText: string
+  ) => {
+    if (!data) return;
+    
+    const utterance = data.utterances.find(u => u.id === utteranceId);
+    if (!utterance) return;
+
+    setUtteranceEdits(prev => {
+      const existingEdit = prev.find(e => e.utteranceId === utteranceId);
+      const currentSegments = existingEdit && existingEdit.segments.length > 0
+        ? existingEdit.segments
+        : [{
+            text: utterance.text,
+            speaker: utterance.speaker,
+            speakerLabel: utterance.speakerLabel,
+            startCharIndex: 0,
+            endCharIndex: utterance.text.length,
+          }];
+
+      // Replace the text and recalculate char indices
+      let charIndex = 0;
+      const newSegments = currentSegments.map((seg, i) => {
+        const text = i === segmentIndex ? newText : seg.text;
+        const newSeg = {
+          ...seg,
+          text,
+          startCharIndex: charIndex,
+          endCharIndex: charIndex + text.length,
+        };
+        charIndex += text.length;
+        return newSeg;
+      });
+
+      const filtered = prev.filter(e => e.utteranceId !== utteranceId);
+      const isModified = newSegments.length > 1 ||
+        newSegments[0].speaker !== utterance.speaker ||
+        newSegments[0].text !== utterance.text;
+
+      if (isModified) {
+        return [...filtered, { utteranceId, segments: newSegments }];
+      }
+      return filtered;
+    });
+    toast.success('Text updated');
+  }, [data]);
+
   // Get segments for an utterance (considering edits)
   const getUtteranceSegments = useCallback((utterance: Utterance): TextSegment[] => {
     const edit = utteranceEdits.find(e => e.utteranceId === utterance.id);
@@ -1821,6 +2617,30 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
   const { recording, utterances } = data;
   const displayUtterances = searchResults || utterances;
   const editCount = utteranceEdits.length;
+  // One run per recording at a time, so only a finished recording can re-transcribe a passage
+  const canRetranscribe = recording.status === 'completed' && !!data.transcript && !activeRange;
+
+  // Review the transcription settings before re-transcribing a passage
+  const openRangeDialog = async (startMs: number, endMs: number) => {
+    try {
+      const { settings } = await fetchSettings(id);
+      setRangeTarget({ startMs, endMs, settings });
+    } catch (error) {
+      toast.error('Failed to load transcription settings', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // Passage covered by the utterances a selection starts and ends in
+  const openRangeDialogForUtterances = (startUtteranceId: string, endUtteranceId: string) => {
+    const selected = utterances.filter(u => u.id === startUtteranceId || u.id === endUtteranceId);
+    if (selected.length === 0) return;
+    openRangeDialog(
+      Math.min(...selected.map(u => u.startMs)),
+      Math.max(...selected.map(u => u.endMs))
+    );
+  };
 
   return (
     <div className="space-y-6 pb-24">
@@ -1835,7 +2655,21 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
           <div>
             <h1 className="text-2xl font-bold tracking-tight">{recording.filename}</h1>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
-              {recording.caseNumber && <span>Case: {recording.caseNumber}</span>}
+              {recording.caseNumber && (
+                recording.caseId ? (
+                  <Link href={`/cases/${recording.caseId}`} className="hover:underline">
+                    Case: {recording.caseNumber}
+                  </Link>
+                ) : (
+                  <span>Case: {recording.caseNumber}</span>
+                )
+              )}
+              {recording.proceedingId && (
+                <Link href={`/proceedings/${recording.proceedingId}`} className="flex items-center gap-1 hover:underline">
+                  <Layers className="h-4 w-4" />
+                  Part {(recording.proceedingPosition ?? 0) + 1} of a proceeding
+                </Link>
+              )}
               {recording.courtName && <span>{recording.courtName}</span>}
               {recording.durationSeconds !== null && recording.durationSeconds > 0 && (
                 <span className="flex items-center gap-1">
@@ -1843,17 +2677,67 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                   {formatDuration(recording.durationSeconds)}
                 </span>
               )}
+              {recording.codec && recording.sampleRate && (
+                <Badge variant="outline" className="font-mono text-xs">
+                  {recording.codec} · {recording.sampleRate / 1000} kHz
+                  {recording.channelCount && ` · ${recording.channelCount} ch`}
+                </Badge>
+              )}
               {data.transcript?.confidence && (
                 <Badge variant="outline">
                   {(data.transcript.confidence * 100).toFixed(1)}% accuracy
                 </Badge>
               )}
+              {data.transcript?.language && (
+                <Badge variant="outline" className="gap-1">
+                  <Languages className="h-3 w-3" />
+                  {getLanguageLabel(data.transcript.language)}
+                </Badge>
+              )}
+              {data.transcript && versionsData && versionsData.versions.length > 1 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 gap-1">
+                      <History className="h-3 w-3" />
+                      Version {data.transcript.version} of {versionsData.versions.length}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {versionsData.versions.map(v => (
+                      <DropdownMenuItem
+                        key={v.id}
+                        disabled={v.isActive || activateVersionMutation.isPending}
+                        onClick={() => activateVersionMutation.mutate(v.version)}
+                      >
+                        <span className="font-medium mr-2">v{v.version}</span>
+                        <span className="text-muted-foreground text-xs">
+                          {new Date(v.createdAt).toLocaleString()} • {v.utteranceCount} segments
+                          {v.confidence !== null && ` • ${(v.confidence * 100).toFixed(1)}%`}
+                          {v.range && ` • passage ${formatTimestamp(v.range.startMs)}–${formatTimestamp(v.range.endMs)}`}
+                        </span>
+                        {v.isActive && (
+                          <Badge variant="secondary" className="ml-2 text-xs py-0">active</Badge>
+                        )}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               {editCount > 0 && (
                 <Badge variant="secondary" className="gap-1">
                   <Edit className="h-3 w-3" />
                   {editCount} edit{editCount !== 1 ? 's' : ''}
                 </Badge>
               )}
+              {editSaveState === 'saving' && (
+                <span className="text-xs">Saving edits...</span>
+              )}
+              {editSaveState === 'saved' && (
+                <span className="text-xs">All edits saved</span>
+              )}
+              {editSaveState === 'error' && (
+                <span className="text-xs text-destructive">Edits not saved</span>
+              )}
             </div>
           </div>
         </div>
@@ -1881,6 +2765,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
             <DropdownMenuContent>
               <ExportDialog 
                 recording={recording} 
+                transcriptLanguage={data.transcript?.language ?? null}
                 utterances={utterances}
                 utteranceEdits={utteranceEdits}
                 getSpeakerLabel={getSpeakerLabel}
@@ -1890,6 +2775,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
               />
               <ExportDialog 
                 recording={recording} 
+                transcriptLanguage={data.transcript?.language ?? null}
                 utterances={utterances}
                 utteranceEdits={utteranceEdits}
                 getSpeakerLabel={getSpeakerLabel}
@@ -1899,6 +2785,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
               />
               <ExportDialog 
                 recording={recording} 
+                transcriptLanguage={data.transcript?.language ?? null}
                 utterances={utterances}
                 utteranceEdits={utteranceEdits}
                 getSpeakerLabel={getSpeakerLabel}
@@ -1906,6 +2793,12 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                 formatLabel="Text (.txt)"
                 formatIcon={FileText}
               />
+              <DropdownMenuItem asChild>
+                <a href={`/api/recordings/${recording.id}/export?format=json`} download>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  JSON with word times
+                </a>
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -1925,9 +2818,39 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
               <>
                 <audio
                   ref={audioRef}
-                  src={recording.convertedAudioUrl}
+                  src={
+                    data.channels.find(c => c.channelIndex === selectedChannel)?.audioUrl
+                      ?? recording.convertedAudioUrl
+                  }
                   preload="metadata"
                 />
+
+                {data.channels.length > 1 ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Channel:</span>
+                    <Button
+                      variant={selectedChannel === null ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => handleChannelChange(null)}
+                    >
+                      Mixed
+                    </Button>
+                    {data.channels.map(channel => (
+                      <Button
+                        key={channel.channelIndex}
+                        variant={selectedChannel === channel.channelIndex ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => handleChannelChange(channel.channelIndex)}
+                      >
+                        {getSpeakerLabel(channel.speakerId, null)}
+                      </Button>
+                    ))}
+                  </div>
+                ) : recording.channelCount && recording.channelCount > 1 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Recorded on {recording.channelCount} channels, mixed down for transcription.
+                  </p>
+                ) : null}
                 
                 <div className="space-y-2">
                   <div 
@@ -1999,13 +2922,15 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
               Search Transcript
             </CardTitle>
             <CardDescription>
-              Find specific words or phrases in the transcript
+              Find words or phrases in the transcript. Supports AND, OR, NOT,
+              wildcards (suppress*), fuzzy names (Kowalski~) and speaker:, after:
+              and before: filters (after:00:30:00)
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex gap-2">
               <Input
-                placeholder='Search for "objection", "sustained", etc.'
+                placeholder='"motion to suppress" OR objection speaker:Judge'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
@@ -2037,7 +2962,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                       key={result.id}
                       className="w-full text-left p-2 rounded-md hover:bg-muted/50 transition-colors border border-transparent hover:border-primary/20"
                       onClick={() => {
-                        seekTo(result.startMs);
+                        seekTo(result.matchStartMs ?? result.startMs);
                         const element = document.getElementById(`utterance-${result.id}`);
                         if (element) {
                           element.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -2046,11 +2971,16 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                     >
                       <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
                         <span className="font-medium text-primary">#{index + 1}</span>
-                        <span>{formatTimestamp(result.startMs)}</span>
+                        <span>{formatTimestamp(result.matchStartMs ?? result.startMs)}</span>
                         <Badge variant="outline" className="text-xs py-0">
                           {getSpeakerLabel(result.speaker, result.speakerLabel)}
                         </Badge>
                       </div>
+                      {result.context.before.length > 0 && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">
+                          {result.context.before[result.context.before.length - 1].text}
+                        </p>
+                      )}
                       <p className="text-sm line-clamp-2">
                         {result.text.substring(0, 100)}{result.text.length > 100 ? '...' : ''}
                       </p>
@@ -2068,10 +2998,36 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
         <CardHeader>
           <CardTitle>Transcript</CardTitle>
           <CardDescription>
-            Click on any segment to jump to that point. <strong>Highlight text</strong> to change speaker for just that portion, or use the <Users className="h-3 w-3 inline" /> button to change the entire segment.
+            Click on any segment to jump to that point. <strong>Highlight text</strong> to change speaker for just that portion, or use the <Users className="h-3 w-3 inline" /> button to change the entire segment. Select across segments to re-transcribe a passage.
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {activeRange && (
+            <div className="mb-4 flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              <span>
+                Re-transcribing {formatTimestamp(activeRange.startMs)}–{formatTimestamp(activeRange.endMs)}
+                {activeRange.channel !== null && ` on channel ${activeRange.channel}`}.
+                The new segments appear as a new version when it finishes.
+              </span>
+            </div>
+          )}
+          {!activeRange && latestRange?.status === 'failed' && (
+            <div className="mb-4 flex items-center justify-between gap-2 rounded-md border border-destructive/50 px-3 py-2 text-sm">
+              <span className="text-destructive">
+                Re-transcribing {formatTimestamp(latestRange.startMs)}–{formatTimestamp(latestRange.endMs)} failed
+                {latestRange.errorMessage && `: ${latestRange.errorMessage}`}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!canRetranscribe}
+                onClick={() => openRangeDialog(latestRange.startMs, latestRange.endMs)}
+              >
+                Try Again
+              </Button>
+            </div>
+          )}
           <ScrollArea className="h-[500px] pr-4" ref={scrollAreaRef}>
             <div ref={transcriptRef}>
               {displayUtterances.length === 0 ? (
@@ -2085,6 +3041,10 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                     const isActive = currentTimeMs >= utterance.startMs && currentTimeMs < utterance.endMs;
                     const segments = getUtteranceSegments(utterance);
                     const hasEdit = utteranceEdits.some(e => e.utteranceId === utterance.id);
+                    // Word timings only line up while the text matches the ASR output
+                    const alignedWords = segments.map(s => s.text).join('') === utterance.text
+                      ? alignedWordsByUtterance.get(utterance.id)
+                      : undefined;
                     const searchHighlights = searchResults && 'highlights' in utterance 
                       ? (utterance as SearchResult).highlights 
                       : undefined;
@@ -2120,7 +3080,11 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                           }
                           
                           // Check if we're back to original
-                          if (mergedSegments.length === 1 && mergedSegments[0].speaker === utterance.speaker) {
+                          if (
+                            mergedSegments.length === 1 &&
+                            mergedSegments[0].speaker === utterance.speaker &&
+                            mergedSegments[0].text === utterance.text
+                          ) {
                             return prev.filter(e => e.utteranceId !== utterance.id);
                           }
                           
@@ -2185,7 +3149,10 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                             const progress = isActive 
                               ? Math.min(1, Math.max(0, (currentTimeMs - utterance.startMs) / utteranceDuration))
                               : 0;
-                            const currentCharIndex = Math.floor(progress * totalChars);
+                            const wordCharIndex = isActive && alignedWords
+                              ? getPlaybackCharIndex(alignedWords, currentTimeMs)
+                              : null;
+                            const currentCharIndex = wordCharIndex ?? Math.floor(progress * totalChars);
                             const isSegmentActive = isActive && currentCharIndex >= segmentStartChar && currentCharIndex < segmentEndChar;
                             
                             // Word-by-word highlighting for this segment
@@ -2252,6 +3219,9 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                                     <span className="text-xs text-muted-foreground">
                                       {formatTimestamp(utterance.startMs)}
                                     </span>
+                                    {isForeignLanguage(utterance.language, data.transcript?.language) && (
+                                      <LanguageBadge language={utterance.language} />
+                                    )}
                                     {segIndex === 0 && hasEdit && (
                                       <Badge variant="outline" className="text-xs py-0 text-primary">
                                         edited
@@ -2266,6 +3236,23 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                                       </Button>
                                     </DropdownMenuTrigger>
                                     <DropdownMenuContent align="end">
+                                      <DropdownMenuItem
+                                        onClick={() => setTextEditTarget({
+                                          utteranceId: utterance.id,
+                                          segmentIndex: segIndex,
+                                          text: segment.text,
+                                        })}
+                                      >
+                                        <Edit className="h-4 w-4 mr-2" />
+                                        Edit Text
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        disabled={!canRetranscribe}
+                                        onClick={() => openRangeDialog(utterance.startMs, utterance.endMs)}
+                                      >
+                                        <RefreshCw className="h-4 w-4 mr-2" />
+                                        Re-transcribe Passage
+                                      </DropdownMenuItem>
                                       {segIndex === 0 && (
                                         <DropdownMenuItem onClick={handleRevertUtterance}>
                                           <Undo2 className="h-4 w-4 mr-2" />
@@ -2413,6 +3400,9 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                             <span className="text-xs text-muted-foreground">
                               {formatTimestamp(utterance.startMs)}
                             </span>
+                            {isForeignLanguage(utterance.language, data.transcript?.language) && (
+                              <LanguageBadge language={utterance.language} />
+                            )}
                             {hasEdit && (
                               <Badge variant="outline" className="text-xs py-0 text-primary">
                                 edited
@@ -2427,6 +3417,23 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => setTextEditTarget({
+                                  utteranceId: utterance.id,
+                                  segmentIndex: 0,
+                                  text: primarySpeaker.text,
+                                })}
+                              >
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit Text
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                disabled={!canRetranscribe}
+                                onClick={() => openRangeDialog(utterance.startMs, utterance.endMs)}
+                              >
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Re-transcribe Passage
+                              </DropdownMenuItem>
                               {hasEdit && (
                                 <DropdownMenuItem onClick={handleRevertUtterance}>
                                   <Undo2 className="h-4 w-4 mr-2" />
@@ -2450,6 +3457,7 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
                             utteranceEndMs={utterance.endMs}
                             currentTimeMs={currentTimeMs}
                             isActive={isActive}
+                            alignedWords={alignedWords}
                             searchHighlights={searchHighlights}
                             speakerColorMap={speakerColorMap}
                             getSpeakerLabel={getSpeakerLabel}
@@ -2465,6 +3473,9 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
         </CardContent>
       </Card>
 
+      {/* Processing Timeline */}
+      <ProcessingTimeline events={statusHistory?.events ?? []} />
+
       {/* Text Selection Popover */}
       {textSelection && (
         <SelectionPopover
@@ -2487,9 +3498,42 @@ export default function RecordingPage({ params }: { params: Promise<{ id: string
           getSpeakerLabel={getSpeakerLabel}
           speakerColorMap={speakerColorMap}
           currentSpeaker={getSelectedUtteranceSpeaker()}
+          onRetranscribe={canRetranscribe
+            ? () => openRangeDialogForUtterances(textSelection.utteranceId, textSelection.utteranceId)
+            : undefined}
         />
       )}
 
+      {/* Passage Selection Popover */}
+      {passageSelection && canRetranscribe && (
+        <PassageSelectionPopover
+          selection={passageSelection}
+          onRetranscribe={() => openRangeDialogForUtterances(
+            passageSelection.startUtteranceId,
+            passageSelection.endUtteranceId
+          )}
+          onClose={() => {
+            setPassageSelection(null);
+            window.getSelection()?.removeAllRanges();
+          }}
+        />
+      )}
+
+      {/* Re-transcribe Passage Dialog */}
+      <RetranscribeRangeDialog
+        recordingId={id}
+        target={rangeTarget}
+        onStarted={() => queryClient.invalidateQueries({ queryKey: ['transcript-ranges', id] })}
+        onClose={() => setRangeTarget(null)}
+      />
+
+      {/* Text Correction Dialog */}
+      <EditTextDialog
+        target={textEditTarget}
+        onSave={(target, newText) => handleTextChange(target.utteranceId, target.segmentIndex, newText)}
+        onClose={() => setTextEditTarget(null)}
+      />
+
       {/* Floating Playback Bar */}
       <FloatingPlaybackBar
         isPlaying={isPlaying}
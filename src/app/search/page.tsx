@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Search, ChevronLeft, ChevronRight, Sparkles } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+// Recording statuses (see recording-status.ts)
+const STATUS_OPTIONS = ['completed', 'transcribing', 'converting', 'uploaded', 'uploading', 'failed', 'cancelled'];
+
+const SELECT_CLASS = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs';
+
+type SearchMode = 'keyword' | 'semantic';
+
+interface SearchFilters {
+  mode: SearchMode;
+  q: string;
+  caseNumber: string;
+  court: string;
+  from: string;
+  to: string;
+  speaker: string;
+  status: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = {
+  mode: 'keyword',
+  q: '',
+  caseNumber: '',
+  court: '',
+  from: '',
+  to: '',
+  speaker: '',
+  status: '',
+};
+
+interface SearchResult {
+  utteranceId: string;
+  recordingId: string;
+  filename: string;
+  caseNumber: string | null;
+  courtName: string | null;
+  recordingDate: string | null;
+  status: string;
+  speaker: string;
+  speakerName: string | null;
+  startMs: number;
+  endMs: number;
+  rank: number;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+}
+
+// A passage returned by semantic search, mapped back to its utterances
+interface PassageResult {
+  recordingId: string;
+  transcriptId: string;
+  filename: string;
+  caseNumber: string | null;
+  courtName: string | null;
+  recordingDate: string | null;
+  status: string;
+  score: number;
+  startMs: number;
+  endMs: number;
+  utterances: Array<{
+    id: string;
+    speaker: string;
+    speakerName: string | null;
+    text: string;
+    startMs: number;
+    endMs: number;
+  }>;
+}
+
+type SearchResponse = {
+  query: string;
+  total: number;
+  limit: number;
+  offset: number;
+} & (
+  | { mode: 'keyword'; results: SearchResult[] }
+  | { mode: 'semantic'; results: PassageResult[] }
+);
+
+async function searchTranscripts(filters: SearchFilters, offset: number): Promise<SearchResponse> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  params.set('limit', String(PAGE_SIZE));
+  params.set('offset', String(offset));
+
+  const response = await fetch(`/api/search?${params}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Search failed');
+  }
+  return response.json();
+}
+
+function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Snippet text with its matched words marked
+ */
+function Snippet({ text, highlights }: { text: string; highlights: SearchResult['highlights'] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [index, highlight] of highlights.entries()) {
+    if (highlight.start > position) parts.push(text.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 rounded-sm px-0.5">
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  }
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <p className="text-sm">{parts}</p>;
+}
+
+/**
+ * Case details shown above each result
+ */
+function ResultSource({ result }: { result: Pick<SearchResult, 'filename' | 'caseNumber' | 'recordingDate' | 'courtName'> }) {
+  return (
+    <>
+      <span className="font-medium text-foreground">{result.filename}</span>
+      {result.caseNumber && <span>{result.caseNumber}</span>}
+      {result.recordingDate && <span>{result.recordingDate}</span>}
+      {result.courtName && <span>{result.courtName}</span>}
+    </>
+  );
+}
+
+export default function SearchPage() {
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [submitted, setSubmitted] = useState<SearchFilters | null>(null);
+  const [offset, setOffset] = useState(0);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['search', submitted, offset],
+    queryFn: () => searchTranscripts(submitted!, offset),
+    enabled: !!submitted,
+  });
+
+  const handleSearch = () => {
+    if (!filters.q.trim()) return;
+    setSubmitted(filters);
+    setOffset(0);
+  };
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const total = data?.total ?? 0;
+  const resultCount = data?.results.length ?? 0;
+  const isSemantic = submitted?.mode === 'semantic';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+        <p className="text-muted-foreground">
+          {filters.mode === 'keyword' ? (
+            <>
+              Find words and phrases across all transcripts. Use &quot;quotes&quot; for exact phrases,
+              <code className="mx-1">or</code> for alternatives and <code className="mx-1">-word</code> to exclude.
+            </>
+          ) : (
+            'Ask a question and find the passages that answer it, even when they use different words.'
+          )}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex gap-2">
+            <div className="flex rounded-md border p-0.5 shrink-0">
+              <Button
+                variant={filters.mode === 'keyword' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => updateFilter('mode', 'keyword')}
+              >
+                Keyword
+              </Button>
+              <Button
+                variant={filters.mode === 'semantic' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => updateFilter('mode', 'semantic')}
+              >
+                <Sparkles className="h-4 w-4 mr-1" />
+                Semantic
+              </Button>
+            </div>
+            <Input
+              placeholder={filters.mode === 'keyword'
+                ? 'e.g. "motion to suppress" or objection -overruled'
+                : 'e.g. When did the witness discuss the contract?'}
+              value={filters.q}
+              onChange={(e) => updateFilter('q', e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            />
+            <Button onClick={handleSearch} disabled={!filters.q.trim() || isFetching}>
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+            <div className="space-y-1">
+              <label htmlFor="search-case" className="text-xs font-medium text-muted-foreground">Case Number</label>
+              <Input
+                id="search-case"
+                value={filters.caseNumber}
+                onChange={(e) => updateFilter('caseNumber', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="search-court" className="text-xs font-medium text-muted-foreground">Court</label>
+              <Input
+                id="search-court"
+                value={filters.court}
+                onChange={(e) => updateFilter('court', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="search-speaker" className="text-xs font-medium text-muted-foreground">Speaker</label>
+              <Input
+                id="search-speaker"
+                placeholder="e.g. Judge"
+                value={filters.speaker}
+                onChange={(e) => updateFilter('speaker', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="search-from" className="text-xs font-medium text-muted-foreground">From</label>
+              <Input
+                id="search-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="search-to" className="text-xs font-medium text-muted-foreground">To</label>
+              <Input
+                id="search-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="search-status" className="text-xs font-medium text-muted-foreground">Status</label>
+              <select
+                id="search-status"
+                className={SELECT_CLASS}
+                value={filters.status}
+                onChange={(e) => updateFilter('status', e.target.value)}
+              >
+                <option value="">Any</option>
+                {STATUS_OPTIONS.map(status => (
+                  <option key={status} value={status}>
+                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!submitted ? null : isFetching && !data ? (
+        <Skeleton className="h-64" />
+      ) : error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-destructive">
+            {(error as Error).message}
+          </CardContent>
+        </Card>
+      ) : !data || resultCount === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No matches for &quot;{submitted.q}&quot;</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {isSemantic
+                ? `${total} passage${total === 1 ? '' : 's'}`
+                : `${total} match${total === 1 ? '' : 'es'}`}
+              {total > PAGE_SIZE && ` · ${offset + 1}–${offset + resultCount}`}
+            </span>
+            {!isSemantic && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={offset === 0 || isFetching}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + resultCount >= total || isFetching}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+          {data.mode === 'semantic' && data.results.map(passage => (
+            <Card key={`${passage.transcriptId}-${passage.startMs}`}>
+              <CardContent className="py-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <ResultSource result={passage} />
+                  <span className="font-mono">
+                    {formatTimestamp(passage.startMs)}–{formatTimestamp(passage.endMs)}
+                  </span>
+                </div>
+                <div className="space-y-1">
+                  {passage.utterances.map(utterance => (
+                    <Link
+                      key={utterance.id}
+                      href={`/recording/${passage.recordingId}?t=${utterance.startMs}`}
+                      className="flex gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted/50 transition-colors"
+                    >
+                      <span className="font-mono text-xs text-muted-foreground pt-0.5 shrink-0">
+                        {formatTimestamp(utterance.startMs)}
+                      </span>
+                      <span>
+                        <span className="font-medium">{utterance.speakerName || `Speaker ${utterance.speaker}`}:</span>{' '}
+                        {utterance.text}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {data.mode === 'keyword' && data.results.map(result => (
+            <Link
+              key={result.utteranceId}
+              href={`/recording/${result.recordingId}?t=${result.startMs}`}
+              className="block"
+            >
+              <Card className="hover:border-primary/40 transition-colors">
+                <CardContent className="py-4 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <ResultSource result={result} />
+                    <span className="font-mono">{formatTimestamp(result.startMs)}</span>
+                    <Badge variant="outline" className="text-xs py-0">
+                      {result.speakerName || `Speaker ${result.speaker}`}
+                    </Badge>
+                  </div>
+                  <Snippet text={result.snippet} highlights={result.highlights} />
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
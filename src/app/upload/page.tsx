@@ -1,60 +1,173 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useDropzone, FileRejection } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
-import { Upload, FileAudio, X, Loader2, CheckCircle } from 'lucide-react';
+import {
+  Upload,
+  FileAudio,
+  X,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  RotateCcw,
+  Pencil,
+  ExternalLink,
+} from 'lucide-react';
+import { TranscriptionSettingsFields } from '@/components/transcription-settings-fields';
+import { DEFAULT_TRANSCRIPTION_SETTINGS, type TranscriptionSettings } from '@/lib/transcription-settings';
+import {
+  uploadRecording,
+  startRecordingProcessing,
+  getPendingUpload,
+  listPendingUploads,
+  type PendingUpload,
+} from '@/lib/upload-client';
 
 const ACCEPTED_FORMATS = {
   'audio/*': ['.ftr', '.mp3', '.wav', '.m4a', '.flac', '.ogg', '.aac'],
   'video/*': ['.mp4', '.webm', '.mov'],
 };
 
-// Maximum file size: 500MB (industry standard for audio/video uploads)
-const MAX_FILE_SIZE = 500 * 1024 * 1024;
-const MAX_FILE_SIZE_MB = 500;
+// Maximum file size: 20GB (uploaded in resumable parts, enough for a full-day FTR session)
+const MAX_FILE_SIZE = 20 * 1024 * 1024 * 1024;
+const MAX_FILE_SIZE_GB = 20;
 
-type UploadStatus = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
+// Files uploaded at the same time
+const MAX_CONCURRENT_UPLOADS = 2;
+
+type QueueItemStatus = 'queued' | 'uploading' | 'processing' | 'complete' | 'error';
+
+// Per-file metadata; empty fields fall back to the shared details
+interface FileDetails {
+  caseNumber: string;
+  courtName: string;
+  recordingDate: string;
+}
+
+interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  progress: number;
+  partInfo: { partNumber: number; partCount: number; finalizing: boolean } | null;
+  recordingId: string | null;
+  processingStarted: boolean;
+  error: string | null;
+  resumable: boolean; // An unfinished upload of this file exists
+  details: FileDetails;
+  editing: boolean;
+}
+
+const EMPTY_DETAILS: FileDetails = { caseNumber: '', courtName: '', recordingDate: '' };
+
+// Case the upload was started from (/upload?case=<id>)
+interface UploadCase {
+  id: string;
+  caseNumber: string;
+  caption: string | null;
+  courtName: string | null;
+  settings: TranscriptionSettings | null;
+}
+
+function isFTRFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.ftr');
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
 
 export default function UploadPage() {
   const router = useRouter();
-  const [file, setFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [status, setStatus] = useState<UploadStatus>('idle');
-  const [recordingId, setRecordingId] = useState<string | null>(null);
-  
-  // Form fields
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+
+  // Shared form fields (apply to every file without its own details)
   const [caseNumber, setCaseNumber] = useState('');
   const [courtName, setCourtName] = useState('');
   const [recordingDate, setRecordingDate] = useState('');
+  const [preserveChannels, setPreserveChannels] = useState(false);
+  const [channelLabels, setChannelLabels] = useState('');
+  const [settings, setSettings] = useState<TranscriptionSettings>(DEFAULT_TRANSCRIPTION_SETTINGS);
+  const [uploadCase, setUploadCase] = useState<UploadCase | null>(null);
+
+  const hasFTR = queue.some(item => isFTRFile(item.file));
+  const activeCount = queue.filter(item => item.status === 'uploading' || item.status === 'processing').length;
+  const isFinished = queue.length > 0 && queue.every(item => item.status === 'complete' || item.status === 'error');
+  const completedCount = queue.filter(item => item.status === 'complete').length;
+
+  useEffect(() => {
+    setPendingUploads(listPendingUploads());
+
+    // Prefill the shared details and settings from the case (recordings join it by case number)
+    const caseId = new URLSearchParams(window.location.search).get('case');
+    if (!caseId) return;
+    fetch(`/api/cases/${caseId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { case: UploadCase } | null) => {
+        if (!data) return;
+        setUploadCase(data.case);
+        setCaseNumber(data.case.caseNumber);
+        setCourtName(data.case.courtName ?? '');
+        if (data.case.settings) setSettings(data.case.settings);
+      })
+      .catch(error => console.error('Failed to load case:', error));
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setQueue(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      setFile(acceptedFiles[0]);
-      setStatus('idle');
-      setUploadProgress(0);
-    }
+    if (acceptedFiles.length === 0) return;
+
+    setQueue(current => [
+      ...current,
+      ...acceptedFiles
+        // Skip files that are already queued
+        .filter(file => !current.some(item =>
+          item.file.name === file.name &&
+          item.file.size === file.size &&
+          item.file.lastModified === file.lastModified
+        ))
+        .map(file => ({
+          id: crypto.randomUUID(),
+          file,
+          status: 'queued' as const,
+          progress: 0,
+          partInfo: null,
+          recordingId: null,
+          processingStarted: false,
+          error: null,
+          resumable: !!getPendingUpload(file),
+          details: { ...EMPTY_DETAILS },
+          editing: false,
+        })),
+    ]);
   }, []);
 
   const onDropRejected = useCallback((fileRejections: FileRejection[]) => {
-    const rejection = fileRejections[0];
-    if (rejection) {
+    for (const rejection of fileRejections) {
       const error = rejection.errors[0];
       if (error?.code === 'file-too-large') {
-        toast.error('File too large', {
-          description: `Maximum file size is ${MAX_FILE_SIZE_MB}MB. Your file is ${(rejection.file.size / (1024 * 1024)).toFixed(1)}MB.`,
+        toast.error(`${rejection.file.name} is too large`, {
+          description: `Maximum file size is ${MAX_FILE_SIZE_GB}GB. This file is ${(rejection.file.size / (1024 * 1024 * 1024)).toFixed(1)}GB.`,
         });
       } else if (error?.code === 'file-invalid-type') {
-        toast.error('Invalid file type', {
+        toast.error(`${rejection.file.name} has an invalid file type`, {
           description: 'Please upload a supported audio or video file (FTR, MP3, WAV, M4A, FLAC, MP4, WebM).',
         });
       } else {
-        toast.error('File rejected', {
+        toast.error(`${rejection.file.name} was rejected`, {
           description: error?.message || 'Please try a different file.',
         });
       }
@@ -65,117 +178,116 @@ export default function UploadPage() {
     onDrop,
     onDropRejected,
     accept: ACCEPTED_FORMATS,
-    maxFiles: 1,
     maxSize: MAX_FILE_SIZE,
-    multiple: false,
+    multiple: true,
+    // Finished batches are reset with "Upload More"
+    disabled: isRunning,
   });
 
-  const handleUpload = async () => {
-    if (!file) return;
+  const uploadItem = useCallback(async (item: QueueItem) => {
+    const isFTR = isFTRFile(item.file);
 
     try {
-      setStatus('uploading');
-      setUploadProgress(0);
-
-      // Step 1: Create recording and get upload URL
-      const createResponse = await fetch('/api/recordings', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          filename: file.name,
-          fileSizeBytes: file.size,
-          caseNumber: caseNumber || null,
-          courtName: courtName || null,
-          recordingDate: recordingDate || null,
-        }),
+      // Step 1: Upload in parts (resuming an unfinished upload of the same file)
+      const recordingId = await uploadRecording(
+        item.file,
+        {
+          caseNumber: item.details.caseNumber || caseNumber || null,
+          courtName: item.details.courtName || courtName || null,
+          recordingDate: item.details.recordingDate || recordingDate || null,
+          preserveChannels: isFTR && preserveChannels,
+          channelLabels: isFTR && preserveChannels
+            ? channelLabels.split(',').map(l => l.trim())
+            : undefined,
+          settings,
+        },
+        (progress) => updateItem(item.id, {
+          progress: Math.round((progress.uploadedBytes / progress.totalBytes) * 100),
+          partInfo: { partNumber: progress.partNumber, partCount: progress.partCount, finalizing: progress.finalizing },
+        })
+      );
+
+      // Step 2: Trigger processing (a failure here is not fatal - it can be restarted)
+      updateItem(item.id, { status: 'processing', recordingId, progress: 100, resumable: false });
+      const processingStarted = await startRecordingProcessing(recordingId, settings);
+
+      updateItem(item.id, { status: 'complete', processingStarted });
+    } catch (error) {
+      console.error('Upload error:', item.file.name, error);
+      updateItem(item.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed',
+        // Uploaded parts are kept, so a retry resumes
+        resumable: !!getPendingUpload(item.file),
       });
+    } finally {
+      setPendingUploads(listPendingUploads());
+    }
+  }, [caseNumber, courtName, recordingDate, preserveChannels, channelLabels, settings, updateItem]);
 
-      if (!createResponse.ok) {
-        const errorData = await createResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to create recording');
-      }
+  // Start queued files while there is capacity
+  useEffect(() => {
+    if (!isRunning) return;
 
-      const { recording, uploadUrl } = await createResponse.json();
-      setRecordingId(recording.id);
-
-      // Step 2: Upload file to presigned URL (or simulate for dev)
-      if (uploadUrl) {
-        // Real upload to S3
-        const xhr = new XMLHttpRequest();
-        
-        await new Promise<void>((resolve, reject) => {
-          xhr.upload.addEventListener('progress', (event) => {
-            if (event.lengthComputable) {
-              const progress = Math.round((event.loaded / event.total) * 100);
-              setUploadProgress(progress);
-            }
-          });
-
-          xhr.addEventListener('load', () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              resolve();
-            } else {
-              reject(new Error(`Upload failed: ${xhr.status}`));
-            }
-          });
-
-          xhr.addEventListener('error', () => reject(new Error('Upload failed')));
-
-          xhr.open('PUT', uploadUrl);
-          xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
-          xhr.send(file);
-        });
-      } else {
-        // Simulate upload progress for development
-        for (let i = 0; i <= 100; i += 10) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-          setUploadProgress(i);
-        }
-      }
+    const toStart = queue
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - activeCount));
+    if (toStart.length === 0) return;
 
-      // Step 3: Trigger processing
-      setStatus('processing');
-      
-      const processResponse = await fetch(`/api/recordings/${recording.id}/process`, {
-        method: 'POST',
-      });
+    setQueue(current => current.map(item =>
+      toStart.some(started => started.id === item.id)
+        ? { ...item, status: 'uploading', error: null, editing: false }
+        : item
+    ));
+    toStart.forEach(item => uploadItem(item));
+  }, [queue, isRunning, activeCount, uploadItem]);
 
-      if (!processResponse.ok) {
-        const error = await processResponse.json();
-        console.warn('Processing may not have started:', error);
-        // Don't fail - the recording is created, processing can be retried
-      }
+  useEffect(() => {
+    if (!isRunning || !isFinished) return;
 
-      setStatus('complete');
-      toast.success('Recording uploaded successfully!', {
+    const failedCount = queue.length - completedCount;
+    if (failedCount === 0) {
+      toast.success(`${completedCount} recording${completedCount === 1 ? '' : 's'} uploaded`, {
         description: 'Transcription will begin shortly.',
       });
-
-      // Redirect to dashboard after a short delay
-      setTimeout(() => {
-        router.push('/');
-      }, 2000);
-
-    } catch (error) {
-      console.error('Upload error:', error);
-      setStatus('error');
-      toast.error('Upload failed', {
-        description: error instanceof Error ? error.message : 'Please try again',
+    } else {
+      toast.error(`${failedCount} of ${queue.length} uploads failed`, {
+        description: 'Retry the failed files below.',
       });
     }
+  }, [isRunning, isFinished, completedCount, queue.length]);
+
+  const handleUploadAll = () => {
+    if (queue.length === 0) return;
+    setIsRunning(true);
+  };
+
+  const retryItem = (id: string) => {
+    updateItem(id, { status: 'queued', error: null, progress: 0, partInfo: null });
+    setIsRunning(true);
   };
 
-  const clearFile = () => {
-    setFile(null);
-    setStatus('idle');
-    setUploadProgress(0);
-    setRecordingId(null);
+  const removeItem = (id: string) => {
+    setQueue(current => current.filter(item => item.id !== id));
   };
 
+  const updateItemDetails = (id: string, changes: Partial<FileDetails>) => {
+    setQueue(current => current.map(item =>
+      item.id === id ? { ...item, details: { ...item.details, ...changes } } : item
+    ));
+  };
+
+  const clearQueue = () => {
+    setQueue([]);
+    setIsRunning(false);
+  };
+
+  const formLocked = isRunning && !isFinished;
+
   return (
-    <div className="max-w-2xl mx-auto space-y-6">
+    <div className="max-w-3xl mx-auto space-y-6">
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Upload Recording</h1>
+        <h1 className="text-3xl font-bold tracking-tight">Upload Recordings</h1>
         <p className="text-muted-foreground">
           Upload FTR court recordings or standard audio files for transcription
         </p>
@@ -183,90 +295,202 @@ export default function UploadPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Select File</CardTitle>
+          <CardTitle>Select Files</CardTitle>
           <CardDescription>
-            Supported formats: FTR, MP3, WAV, M4A, FLAC, MP4, WebM
+            Supported formats: FTR, MP3, WAV, M4A, FLAC, MP4, WebM. Drop a whole day of hearings at once.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {!file ? (
-            <div
-              {...getRootProps()}
-              className={`
-                border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
-                transition-colors
-                ${isDragActive 
-                  ? 'border-primary bg-primary/5' 
-                  : 'border-muted-foreground/25 hover:border-primary/50'
-                }
-              `}
-            >
-              <input {...getInputProps()} />
-              <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              {isDragActive ? (
-                <p className="text-lg font-medium">Drop the file here...</p>
-              ) : (
-                <>
-                  <p className="text-lg font-medium mb-1">
-                    Drag & drop a recording here
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    or click to browse files
+          <div
+            {...getRootProps()}
+            className={`
+              border-2 border-dashed rounded-lg p-8 text-center cursor-pointer
+              transition-colors
+              ${isDragActive
+                ? 'border-primary bg-primary/5'
+                : 'border-muted-foreground/25 hover:border-primary/50'
+              }
+              ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}
+            `}
+          >
+            <input {...getInputProps()} />
+            <Upload className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+            {isDragActive ? (
+              <p className="text-lg font-medium">Drop the files here...</p>
+            ) : (
+              <>
+                <p className="text-lg font-medium mb-1">
+                  Drag & drop recordings here
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  or click to browse files
+                </p>
+              </>
+            )}
+            {pendingUploads.length > 0 && (
+              <div className="mt-6 text-sm text-muted-foreground space-y-1">
+                <p className="font-medium text-foreground">Unfinished uploads</p>
+                {pendingUploads.map(upload => (
+                  <p key={upload.recordingId}>
+                    {upload.filename} — select the same file to resume
                   </p>
-                </>
-              )}
-            </div>
-          ) : (
-            <div className="border rounded-lg p-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="h-10 w-10 rounded bg-muted flex items-center justify-center">
-                    <FileAudio className="h-5 w-5 text-muted-foreground" />
-                  </div>
-                  <div>
-                    <div className="font-medium">{file.name}</div>
-                    <div className="text-sm text-muted-foreground">
-                      {(file.size / (1024 * 1024)).toFixed(2)} MB
-                    </div>
-                  </div>
-                </div>
-                {status === 'idle' && (
-                  <Button variant="ghost" size="icon" onClick={clearFile}>
-                    <X className="h-4 w-4" />
-                  </Button>
-                )}
-                {status === 'complete' && (
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                )}
+                ))}
               </div>
+            )}
+          </div>
 
-              {(status === 'uploading' || status === 'processing') && (
-                <div className="mt-4 space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>
-                      {status === 'uploading' ? 'Uploading...' : 'Processing...'}
-                    </span>
-                    <span>{uploadProgress}%</span>
+          {queue.length > 0 && (
+            <div className="space-y-3">
+              {queue.map(item => (
+                <div key={item.id} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="h-10 w-10 rounded bg-muted flex items-center justify-center shrink-0">
+                        <FileAudio className="h-5 w-5 text-muted-foreground" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{item.file.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {formatFileSize(item.file.size)}
+                          {(item.details.caseNumber || item.details.courtName || item.details.recordingDate) && (
+                            <> • Own details</>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {item.status === 'queued' && !formLocked && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit details for this file"
+                            onClick={() => updateItem(item.id, { editing: !item.editing })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Remove" onClick={() => removeItem(item.id)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {item.status === 'queued' && formLocked && (
+                        <span className="text-sm text-muted-foreground">Queued</span>
+                      )}
+                      {(item.status === 'uploading' || item.status === 'processing') && (
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                      )}
+                      {item.status === 'complete' && (
+                        <CheckCircle className="h-5 w-5 text-green-500" />
+                      )}
+                      {item.status === 'error' && (
+                        <>
+                          <AlertCircle className="h-5 w-5 text-destructive" />
+                          <Button variant="outline" size="sm" onClick={() => retryItem(item.id)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Remove" onClick={() => removeItem(item.id)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
-                  <Progress value={status === 'processing' ? 100 : uploadProgress} />
-                  {status === 'processing' && (
-                    <p className="text-sm text-muted-foreground flex items-center gap-2">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Starting transcription pipeline...
+
+                  {item.resumable && (item.status === 'queued' || item.status === 'error') && (
+                    <p className="mt-3 text-sm text-muted-foreground flex items-center gap-2">
+                      <RotateCcw className="h-4 w-4" />
+                      An unfinished upload of this file was found. Uploading resumes where it stopped.
                     </p>
                   )}
+
+                  {item.editing && item.status === 'queued' && (
+                    <div className="mt-4 grid gap-3 sm:grid-cols-3">
+                      <Input
+                        placeholder={caseNumber || 'Case number'}
+                        value={item.details.caseNumber}
+                        onChange={(e) => updateItemDetails(item.id, { caseNumber: e.target.value })}
+                      />
+                      <Input
+                        placeholder={courtName || 'Court name'}
+                        value={item.details.courtName}
+                        onChange={(e) => updateItemDetails(item.id, { courtName: e.target.value })}
+                      />
+                      <Input
+                        type="date"
+                        value={item.details.recordingDate}
+                        onChange={(e) => updateItemDetails(item.id, { recordingDate: e.target.value })}
+                      />
+                    </div>
+                  )}
+
+                  {(item.status === 'uploading' || item.status === 'processing') && (
+                    <div className="mt-4 space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>
+                          {item.status === 'uploading'
+                            ? item.partInfo?.finalizing ? 'Finishing upload...' : 'Uploading...'
+                            : 'Starting transcription...'}
+                        </span>
+                        <span>{item.progress}%</span>
+                      </div>
+                      <Progress value={item.status === 'processing' ? 100 : item.progress} />
+                      {item.status === 'uploading' && item.partInfo && !item.partInfo.finalizing && (
+                        <p className="text-xs text-muted-foreground">
+                          Part {item.partInfo.partNumber} of {item.partInfo.partCount}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {item.status === 'error' && item.error && (
+                    <p className="mt-3 text-sm text-destructive">{item.error}</p>
+                  )}
                 </div>
-              )}
+              ))}
             </div>
           )}
         </CardContent>
       </Card>
 
+      {isFinished && isRunning && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload Summary</CardTitle>
+            <CardDescription>
+              {completedCount} of {queue.length} recording{queue.length === 1 ? '' : 's'} uploaded
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {queue.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">{item.file.name}</span>
+                {item.status === 'complete' && item.recordingId ? (
+                  <Link
+                    href={`/recording/${item.recordingId}`}
+                    className="flex items-center gap-1 text-primary hover:underline shrink-0"
+                  >
+                    {item.processingStarted ? 'View recording' : 'View recording (processing not started)'}
+                    <ExternalLink className="h-3 w-3" />
+                  </Link>
+                ) : (
+                  <span className="text-destructive shrink-0">Failed</span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Recording Details</CardTitle>
           <CardDescription>
-            Optional metadata to help organize your transcripts
+            {uploadCase
+              ? `Uploading to case ${uploadCase.caseNumber}${uploadCase.caption ? ` (${uploadCase.caption})` : ''}. `
+              : 'Optional metadata shared by all files. '}
+            Use the pencil next to a file to give it its own details.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -280,7 +504,7 @@ export default function UploadPage() {
                 placeholder="e.g., 2024-CV-12345"
                 value={caseNumber}
                 onChange={(e) => setCaseNumber(e.target.value)}
-                disabled={status !== 'idle'}
+                disabled={formLocked}
               />
             </div>
             <div className="space-y-2">
@@ -292,7 +516,7 @@ export default function UploadPage() {
                 placeholder="e.g., Superior Court of California"
                 value={courtName}
                 onChange={(e) => setCourtName(e.target.value)}
-                disabled={status !== 'idle'}
+                disabled={formLocked}
               />
             </div>
           </div>
@@ -305,29 +529,84 @@ export default function UploadPage() {
               type="date"
               value={recordingDate}
               onChange={(e) => setRecordingDate(e.target.value)}
-              disabled={status !== 'idle'}
+              disabled={formLocked}
             />
           </div>
+          {hasFTR && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={preserveChannels}
+                  onChange={(e) => setPreserveChannels(e.target.checked)}
+                  disabled={formLocked}
+                  className="h-4 w-4"
+                />
+                Transcribe each microphone channel separately (FTR files)
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Speakers are identified by the channel they were recorded on instead of by voice.
+              </p>
+              {preserveChannels && (
+                <Input
+                  id="channelLabels"
+                  placeholder="Channel labels in order, e.g. Judge, Witness, Plaintiff Counsel, Defense Counsel"
+                  value={channelLabels}
+                  onChange={(e) => setChannelLabels(e.target.value)}
+                  disabled={formLocked}
+                />
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transcription Settings</CardTitle>
+          <CardDescription>
+            Applied to every file in this upload. They can be changed later before re-processing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TranscriptionSettingsFields
+            // Remount once the case's defaults are loaded
+            key={uploadCase?.id ?? 'default'}
+            value={settings}
+            onChange={setSettings}
+            disabled={formLocked}
+          />
         </CardContent>
       </Card>
 
       <div className="flex justify-end gap-4">
-        <Button variant="outline" onClick={() => router.push('/')}>
-          Cancel
-        </Button>
-        <Button
-          onClick={handleUpload}
-          disabled={!file || status !== 'idle'}
-        >
-          {status === 'uploading' && (
-            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-          )}
-          {status === 'idle' && 'Upload & Transcribe'}
-          {status === 'uploading' && 'Uploading...'}
-          {status === 'processing' && 'Processing...'}
-          {status === 'complete' && 'Complete!'}
-          {status === 'error' && 'Try Again'}
-        </Button>
+        {isFinished && isRunning ? (
+          <>
+            <Button variant="outline" onClick={clearQueue}>
+              Upload More
+            </Button>
+            <Button onClick={() => router.push('/')}>
+              Go to Dashboard
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" onClick={() => router.push('/')}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUploadAll}
+              disabled={queue.length === 0 || formLocked}
+            >
+              {formLocked && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {formLocked
+                ? `Uploading... (${completedCount} of ${queue.length} done)`
+                : `Upload & Transcribe${queue.length > 1 ? ` ${queue.length} Files` : ''}`}
+            </Button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,463 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { BookText, Plus, Upload, Trash2, X, Loader2, Gavel, Building2 } from 'lucide-react';
+
+type VocabularyScope = 'case' | 'court';
+
+interface VocabularyList {
+  id: string;
+  name: string;
+  description: string | null;
+  scope: VocabularyScope;
+  scopeValue: string;
+  terms: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface NewListForm {
+  name: string;
+  scope: VocabularyScope;
+  scopeValue: string;
+  description: string;
+}
+
+const EMPTY_LIST_FORM: NewListForm = { name: '', scope: 'case', scopeValue: '', description: '' };
+
+const TEXTAREA_CLASS =
+  'flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground disabled:cursor-not-allowed disabled:opacity-50';
+
+const SELECT_CLASS =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs disabled:cursor-not-allowed disabled:opacity-50';
+
+async function fetchLists(): Promise<{ lists: VocabularyList[] }> {
+  const response = await fetch('/api/vocabulary');
+  if (!response.ok) {
+    throw new Error('Failed to fetch vocabulary lists');
+  }
+  return response.json();
+}
+
+async function sendJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Request failed');
+  }
+  return response.json();
+}
+
+function ScopeBadge({ list }: { list: Pick<VocabularyList, 'scope' | 'scopeValue'> }) {
+  return (
+    <Badge variant="outline" className="gap-1 max-w-full">
+      {list.scope === 'case' ? <Gavel className="h-3 w-3" /> : <Building2 className="h-3 w-3" />}
+      <span className="truncate">{list.scope === 'case' ? 'Case' : 'Court'}: {list.scopeValue}</span>
+    </Badge>
+  );
+}
+
+export default function VocabularyPage() {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newList, setNewList] = useState<NewListForm>(EMPTY_LIST_FORM);
+  const [newTerm, setNewTerm] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importMode, setImportMode] = useState<'append' | 'replace'>('append');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['vocabulary-lists'],
+    queryFn: fetchLists,
+  });
+
+  const lists = data?.lists ?? [];
+  const selected = lists.find(l => l.id === selectedId) ?? lists[0] ?? null;
+
+  const createMutation = useMutation({
+    mutationFn: (form: NewListForm) =>
+      sendJson<{ list: VocabularyList }>('/api/vocabulary', 'POST', {
+        ...form,
+        description: form.description || null,
+      }),
+    onSuccess: ({ list }) => {
+      queryClient.invalidateQueries({ queryKey: ['vocabulary-lists'] });
+      setSelectedId(list.id);
+      setCreateOpen(false);
+      setNewList(EMPTY_LIST_FORM);
+      toast.success(`Created "${list.name}"`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create list', { description: error.message });
+    },
+  });
+
+  const updateTermsMutation = useMutation({
+    mutationFn: ({ id, terms }: { id: string; terms: string[] }) =>
+      sendJson<{ list: VocabularyList }>(`/api/vocabulary/${id}`, 'PATCH', { terms }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vocabulary-lists'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update terms', { description: error.message });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: ({ id, text, mode }: { id: string; text: string; mode: 'append' | 'replace' }) =>
+      sendJson<{ list: VocabularyList; imported: number; added: number }>(
+        `/api/vocabulary/${id}/import`,
+        'POST',
+        { text, mode }
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['vocabulary-lists'] });
+      setImportOpen(false);
+      setImportText('');
+      toast.success(`Imported ${result.imported} term${result.imported === 1 ? '' : 's'}`, {
+        description: `${result.list.terms.length} terms in the list`,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Import failed', { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/vocabulary/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vocabulary-lists'] });
+      setSelectedId(null);
+      setDeleteOpen(false);
+      toast.success('Vocabulary list deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete list', { description: error.message });
+    },
+  });
+
+  const addTerm = () => {
+    const term = newTerm.trim();
+    if (!selected || !term) return;
+    if (selected.terms.some(t => t.toLowerCase() === term.toLowerCase())) {
+      toast.info(`"${term}" is already in the list`);
+      return;
+    }
+    updateTermsMutation.mutate({ id: selected.id, terms: [...selected.terms, term] });
+    setNewTerm('');
+  };
+
+  const removeTerm = (term: string) => {
+    if (!selected) return;
+    updateTermsMutation.mutate({ id: selected.id, terms: selected.terms.filter(t => t !== term) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Vocabulary</h1>
+          <p className="text-muted-foreground">
+            Names and terms boosted when transcribing recordings for a case or court
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New List
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Skeleton className="h-64" />
+          <Skeleton className="h-64 lg:col-span-2" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-destructive">
+            Failed to load vocabulary lists
+          </CardContent>
+        </Card>
+      ) : lists.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <BookText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No vocabulary lists yet</p>
+            <p className="text-sm mt-1">
+              Create a list for a case number or court and add party, witness and place names.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardTitle>Lists</CardTitle>
+              <CardDescription>{lists.length} list{lists.length === 1 ? '' : 's'}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {lists.map(list => (
+                <button
+                  key={list.id}
+                  className={`w-full text-left p-2 rounded-md transition-colors space-y-1 ${
+                    selected?.id === list.id ? 'bg-muted' : 'hover:bg-muted/50'
+                  }`}
+                  onClick={() => setSelectedId(list.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{list.name}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {list.terms.length} term{list.terms.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <ScopeBadge list={list} />
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <CardTitle>{selected.name}</CardTitle>
+                    <ScopeBadge list={selected} />
+                    {selected.description && (
+                      <CardDescription>{selected.description}</CardDescription>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      Import
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setDeleteOpen(true)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Add a name or term, e.g. Okonkwo"
+                    value={newTerm}
+                    onChange={(e) => setNewTerm(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addTerm()}
+                    disabled={updateTermsMutation.isPending}
+                  />
+                  <Button onClick={addTerm} disabled={!newTerm.trim() || updateTermsMutation.isPending}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                {selected.terms.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No terms yet. Add them one by one or import a witness list.
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {selected.terms.map(term => (
+                      <Badge key={term} variant="secondary" className="gap-1 pr-1">
+                        {term}
+                        <button
+                          className="rounded-sm hover:bg-muted-foreground/20 p-0.5"
+                          onClick={() => removeTerm(term)}
+                          disabled={updateTermsMutation.isPending}
+                          aria-label={`Remove ${term}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Merged with the built-in legal vocabulary when a matching recording is transcribed.
+                  Changes apply to the next transcription.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {/* New List Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Vocabulary List</DialogTitle>
+            <DialogDescription>
+              Recordings with a matching case number or court get this list&apos;s terms boosted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="listName" className="text-sm font-medium">Name</label>
+              <Input
+                id="listName"
+                placeholder="e.g., State v. Brown witnesses"
+                value={newList.name}
+                onChange={(e) => setNewList({ ...newList, name: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <label htmlFor="listScope" className="text-sm font-medium">Applies to</label>
+                <select
+                  id="listScope"
+                  value={newList.scope}
+                  onChange={(e) => setNewList({ ...newList, scope: e.target.value as VocabularyScope })}
+                  className={SELECT_CLASS}
+                >
+                  <option value="case">Case number</option>
+                  <option value="court">Court</option>
+                </select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <label htmlFor="listScopeValue" className="text-sm font-medium">
+                  {newList.scope === 'case' ? 'Case Number' : 'Court Name'}
+                </label>
+                <Input
+                  id="listScopeValue"
+                  placeholder={newList.scope === 'case' ? 'e.g., 2024-CV-12345' : 'e.g., Superior Court of California'}
+                  value={newList.scopeValue}
+                  onChange={(e) => setNewList({ ...newList, scopeValue: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="listDescription" className="text-sm font-medium">Description</label>
+              <Input
+                id="listDescription"
+                placeholder="Optional"
+                value={newList.description}
+                onChange={(e) => setNewList({ ...newList, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(newList)}
+              disabled={!newList.name.trim() || !newList.scopeValue.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create List
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Terms</DialogTitle>
+            <DialogDescription>
+              Paste a witness list (one name per line) or CSV. For a CSV with a &quot;name&quot; or
+              &quot;term&quot; column only that column is imported; otherwise every cell is.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <textarea
+              className={TEXTAREA_CLASS}
+              rows={10}
+              placeholder={'1. Dr. Jane Roe (expert)\n2. Robert Brown\n3. Officer Luis Alvarez'}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <div className="flex gap-6 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="importMode"
+                  checked={importMode === 'append'}
+                  onChange={() => setImportMode('append')}
+                />
+                Add to existing terms
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="importMode"
+                  checked={importMode === 'replace'}
+                  onChange={() => setImportMode('replace')}
+                />
+                Replace existing terms
+              </label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selected && importMutation.mutate({ id: selected.id, text: importText, mode: importMode })}
+              disabled={!importText.trim() || importMutation.isPending}
+            >
+              {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Vocabulary List</DialogTitle>
+            <DialogDescription>
+              Delete &quot;{selected?.name}&quot; and its {selected?.terms.length ?? 0} terms?
+              Existing transcripts are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteOpen(false)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => selected && deleteMutation.mutate(selected.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { TranscriptionSettingsFields } from '@/components/transcription-settings-fields';
+import { DEFAULT_TRANSCRIPTION_SETTINGS, type TranscriptionSettings } from '@/lib/transcription-settings';
+import { Plus, X } from 'lucide-react';
+
+export interface CaseParty {
+  name: string;
+  role: string;
+}
+
+export interface CaseCounsel {
+  name: string;
+  firm: string;
+  represents: string;
+}
+
+export interface CaseFormValue {
+  caseNumber: string;
+  caption: string;
+  courtName: string;
+  judge: string;
+  parties: CaseParty[];
+  counsel: CaseCounsel[];
+  settings: TranscriptionSettings | null;
+}
+
+export const EMPTY_CASE_FORM: CaseFormValue = {
+  caseNumber: '',
+  caption: '',
+  courtName: '',
+  judge: '',
+  parties: [],
+  counsel: [],
+  settings: null,
+};
+
+/**
+ * Request body for POST /api/cases and PATCH /api/cases/[id] (rows left blank are dropped)
+ */
+export function toCaseRequestBody(value: CaseFormValue) {
+  return {
+    caseNumber: value.caseNumber.trim(),
+    caption: value.caption.trim() || null,
+    courtName: value.courtName.trim() || null,
+    judge: value.judge.trim() || null,
+    parties: value.parties.filter(p => p.name.trim()),
+    counsel: value.counsel.filter(c => c.name.trim()),
+    settings: value.settings,
+  };
+}
+
+interface CaseFormFieldsProps {
+  value: CaseFormValue;
+  onChange: (value: CaseFormValue) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * Form fields for a case's details, parties, counsel and default settings
+ * (new case and edit case dialogs)
+ */
+export function CaseFormFields({
+  value,
+  onChange,
+  disabled,
+  idPrefix = 'case',
+}: CaseFormFieldsProps) {
+  const updateParty = (index: number, party: CaseParty) =>
+    onChange({ ...value, parties: value.parties.map((p, i) => (i === index ? party : p)) });
+
+  const updateCounsel = (index: number, counsel: CaseCounsel) =>
+    onChange({ ...value, counsel: value.counsel.map((c, i) => (i === index ? counsel : c)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-number`} className="text-sm font-medium">Case Number</label>
+          <Input
+            id={`${idPrefix}-number`}
+            placeholder="e.g., 2024-CV-12345"
+            value={value.caseNumber}
+            onChange={(e) => onChange({ ...value, caseNumber: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-caption`} className="text-sm font-medium">Caption</label>
+          <Input
+            id={`${idPrefix}-caption`}
+            placeholder="e.g., State v. Brown"
+            value={value.caption}
+            onChange={(e) => onChange({ ...value, caption: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-court`} className="text-sm font-medium">Court</label>
+          <Input
+            id={`${idPrefix}-court`}
+            placeholder="e.g., Superior Court of California"
+            value={value.courtName}
+            onChange={(e) => onChange({ ...value, courtName: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-judge`} className="text-sm font-medium">Judge</label>
+          <Input
+            id={`${idPrefix}-judge`}
+            placeholder="e.g., Hon. Maria Lopez"
+            value={value.judge}
+            onChange={(e) => onChange({ ...value, judge: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Parties</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, parties: [...value.parties, { name: '', role: '' }] })}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Party
+          </Button>
+        </div>
+        {value.parties.map((party, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="Name"
+              value={party.name}
+              onChange={(e) => updateParty(index, { ...party, name: e.target.value })}
+              disabled={disabled}
+            />
+            <Input
+              placeholder="Role, e.g. Defendant"
+              value={party.role}
+              onChange={(e) => updateParty(index, { ...party, role: e.target.value })}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...value, parties: value.parties.filter((_, i) => i !== index) })}
+              disabled={disabled}
+              aria-label="Remove party"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Counsel</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, counsel: [...value.counsel, { name: '', firm: '', represents: '' }] })}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Counsel
+          </Button>
+        </div>
+        {value.counsel.map((counsel, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="Name"
+              value={counsel.name}
+              onChange={(e) => updateCounsel(index, { ...counsel, name: e.target.value })}
+              disabled={disabled}
+            />
+            <Input
+              placeholder="Firm or office"
+              value={counsel.firm}
+              onChange={(e) => updateCounsel(index, { ...counsel, firm: e.target.value })}
+              disabled={disabled}
+            />
+            <Input
+              placeholder="Represents"
+              value={counsel.represents}
+              onChange={(e) => updateCounsel(index, { ...counsel, represents: e.target.value })}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...value, counsel: value.counsel.filter((_, i) => i !== index) })}
+              disabled={disabled}
+              aria-label="Remove counsel"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={value.settings !== null}
+            onChange={(e) => onChange({
+              ...value,
+              settings: e.target.checked ? { ...DEFAULT_TRANSCRIPTION_SETTINGS } : null,
+            })}
+            disabled={disabled}
+          />
+          Default transcription settings for new uploads
+        </label>
+        {value.settings && (
+          <TranscriptionSettingsFields
+            value={value.settings}
+            onChange={(settings) => onChange({ ...value, settings })}
+            disabled={disabled}
+            idPrefix={`${idPrefix}-settings`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
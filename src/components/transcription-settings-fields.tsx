@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  MAX_SPEAKERS_EXPECTED,
+  TRANSCRIPTION_LANGUAGES,
+  parseBoostWords,
+  type TranscriptionSettings,
+} from '@/lib/transcription-settings';
+
+// Select value for language detection (not a language code)
+const AUTO_DETECT = 'auto';
+
+interface TranscriptionSettingsFieldsProps {
+  value: TranscriptionSettings;
+  onChange: (value: TranscriptionSettings) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+/**
+ * Form fields for a recording's transcription settings (upload page and re-process dialog)
+ */
+export function TranscriptionSettingsFields({
+  value,
+  onChange,
+  disabled,
+  idPrefix = 'settings',
+}: TranscriptionSettingsFieldsProps) {
+  // Keep the raw text so separators can be typed
+  const [boostText, setBoostText] = useState(value.extraWordBoost.join(', '));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-language`} className="text-sm font-medium">
+            Language
+          </label>
+          <select
+            id={`${idPrefix}-language`}
+            value={value.languageDetection ? AUTO_DETECT : (value.languageCode ?? '')}
+            onChange={(e) => onChange({
+              ...value,
+              languageDetection: e.target.value === AUTO_DETECT,
+              languageCode: e.target.value === AUTO_DETECT ? null : (e.target.value || null),
+            })}
+            disabled={disabled}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <option value="">Default (English)</option>
+            <option value={AUTO_DETECT}>Detect automatically</option>
+            {TRANSCRIPTION_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>
+                {language.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-speakers`} className="text-sm font-medium">
+            Expected Speakers
+          </label>
+          <Input
+            id={`${idPrefix}-speakers`}
+            type="number"
+            min={1}
+            max={MAX_SPEAKERS_EXPECTED}
+            placeholder="Detect automatically"
+            value={value.speakersExpected ?? ''}
+            onChange={(e) => {
+              const count = parseInt(e.target.value, 10);
+              onChange({
+                ...value,
+                speakersExpected: Number.isNaN(count) ? null : Math.min(Math.max(count, 1), MAX_SPEAKERS_EXPECTED),
+              });
+            }}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-boost`} className="text-sm font-medium">
+          Extra Vocabulary
+        </label>
+        <Input
+          id={`${idPrefix}-boost`}
+          placeholder="Names and terms in this matter, e.g. Okonkwo, voir dire, Exhibit 14"
+          value={boostText}
+          onChange={(e) => {
+            setBoostText(e.target.value);
+            onChange({ ...value, extraWordBoost: parseBoostWords(e.target.value) });
+          }}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          Comma-separated. Boosted in addition to the built-in legal vocabulary.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={value.autoChapters}
+            onChange={(e) => onChange({ ...value, autoChapters: e.target.checked })}
+            disabled={disabled}
+            className="h-4 w-4"
+          />
+          Detect chapters
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={value.summarization}
+            onChange={(e) => onChange({ ...value, summarization: e.target.checked })}
+            disabled={disabled}
+            className="h-4 w-4"
+          />
+          Generate summary
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.JOB_WORKER_ENABLED === 'false') return;
+
+  const { startPipelineWorker } = await import('@/lib/pipeline');
+  startPipelineWorker();
+
+  // Picks up finished Case.dev jobs when webhooks cannot reach this server
+  const { startJobPoller } = await import('@/lib/job-poller');
+  startJobPoller();
+}
@@ -0,0 +1,278 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TranscriptionJobResponse } from '@/lib/casedev';
+import type { Recording } from '@/lib/db/schema';
+import { utterances, words } from '@/lib/db';
+import {
+  getTranscriptionDurationSeconds,
+  getUtteranceWords,
+  ingestChannelTranscriptionResults,
+  ingestTranscriptionResult,
+} from '@/lib/ingest-transcription';
+import { createTranscriptVersion } from '@/lib/transcripts';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { queueTranscriptIndexing } from '@/lib/transcript-index';
+
+// Stand-in for the transaction: records inserted rows by table
+const store = vi.hoisted(() => ({
+  inserted: new Map<unknown, Array<Record<string, unknown>>>(),
+  existingTranscript: undefined as unknown,
+  lockedStatus: 'transcribing',
+}));
+
+vi.mock('@/lib/db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/db')>();
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({ for: async () => [{ status: store.lockedStatus }] }),
+      }),
+    }),
+    query: {
+      transcripts: { findFirst: async () => store.existingTranscript },
+    },
+    insert: (table: unknown) => ({
+      values: async (rows: Array<Record<string, unknown>>) => {
+        store.inserted.set(table, [...(store.inserted.get(table) ?? []), ...rows]);
+      },
+    }),
+  };
+  return {
+    ...actual,
+    db: { transaction: async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx) },
+  };
+});
+
+vi.mock('@/lib/transcripts', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/transcripts')>(),
+  createTranscriptVersion: vi.fn(async (values: Record<string, unknown>) => ({ ...values, version: 1, isActive: true })),
+}));
+
+vi.mock('@/lib/transcript-index', () => ({
+  queueTranscriptIndexing: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/lib/recording-status', () => ({
+  transitionRecordingStatus: vi.fn(async () => ({ success: true })),
+}));
+
+function loadFixture(name: string): TranscriptionJobResponse {
+  return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+}
+
+function makeRecording(overrides: Partial<Recording> = {}): Recording {
+  return {
+    id: 'rec-1',
+    filename: 'hearing.m4a',
+    originalFormat: 'm4a',
+    status: 'transcribing',
+    durationMs: null,
+    durationSeconds: null,
+    transcriptionSettingsJson: JSON.stringify({ languageCode: 'en_us' }),
+    ...overrides,
+  } as Recording;
+}
+
+function insertedRows(table: unknown): Array<Record<string, unknown>> {
+  return store.inserted.get(table) ?? [];
+}
+
+beforeEach(() => {
+  store.inserted.clear();
+  store.existingTranscript = undefined;
+  store.lockedStatus = 'transcribing';
+  vi.clearAllMocks();
+  // Ingestion logs accuracy metrics for monitoring; keep test output clean
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('getTranscriptionDurationSeconds', () => {
+  it('reads audio_duration in seconds', () => {
+    expect(getTranscriptionDurationSeconds(loadFixture('transcription-completed'))).toBe(18);
+  });
+
+  it('reads a large audio_duration as milliseconds', () => {
+    expect(getTranscriptionDurationSeconds(loadFixture('transcription-top-level-words'))).toBe(125);
+  });
+
+  it('falls back to the end of the last utterance', () => {
+    expect(getTranscriptionDurationSeconds(loadFixture('transcription-channel-1'))).toBe(16);
+  });
+
+  it('returns null without a duration or utterances', () => {
+    expect(getTranscriptionDurationSeconds(loadFixture('transcription-processing'))).toBeNull();
+  });
+});
+
+describe('getUtteranceWords', () => {
+  it('uses the words nested in each utterance', () => {
+    const result = loadFixture('transcription-completed');
+    const grouped = getUtteranceWords(result);
+
+    expect(grouped).toHaveLength(result.utterances!.length);
+    grouped.forEach((group, index) => expect(group).toEqual(result.utterances![index].words));
+  });
+
+  it('assigns transcript-level words to utterances by start time', () => {
+    const result = loadFixture('transcription-top-level-words');
+    const grouped = getUtteranceWords(result);
+
+    expect(grouped.map(group => group.map(w => w.text).join(' ')))
+      .toEqual(result.utterances!.map(u => u.text));
+    expect(grouped.flat()).toHaveLength(result.words!.length);
+  });
+
+  it('returns empty groups when there are no word timings', () => {
+    const result = loadFixture('transcription-top-level-words');
+    delete result.words;
+
+    expect(getUtteranceWords(result)).toEqual([[], [], [], []]);
+  });
+});
+
+describe('ingestTranscriptionResult', () => {
+  it('stores the transcript, its utterances and words in one transaction', async () => {
+    const result = loadFixture('transcription-completed');
+    const outcome = await ingestTranscriptionResult(makeRecording(), result);
+
+    expect(outcome).toMatchObject({ created: true, utteranceCount: 4, wordCount: 33, durationSeconds: 18 });
+    expect(createTranscriptVersion).toHaveBeenCalledWith(expect.objectContaining({
+      recordingId: 'rec-1',
+      transcriptionJobId: 'tr_5c1e9a7b2f04',
+      fullText: result.text,
+      confidence: 0.942,
+      language: 'en_us',
+      summary: result.summary,
+      chaptersJson: JSON.stringify(result.chapters),
+    }), expect.anything());
+
+    const storedUtterances = insertedRows(utterances);
+    expect(storedUtterances.map(u => [u.speaker, u.startMs, u.endMs, u.confidence, u.sequenceIndex])).toEqual([
+      ['A', 240, 4380, 0.968, 0],
+      ['B', 5010, 8120, 0.931, 1],
+      ['A', 8900, 11260, 0.955, 2],
+      ['C', 11800, 14950, 0.912, 3],
+    ]);
+    expect(storedUtterances.every(u => u.channel === null && u.language === 'en_us')).toBe(true);
+
+    const storedWords = insertedRows(words);
+    expect(storedWords).toHaveLength(33);
+    expect(storedWords[0]).toMatchObject({
+      utteranceId: storedUtterances[0].id,
+      text: 'Please',
+      startMs: 240,
+      speaker: 'A',
+      wordIndex: 0,
+    });
+
+    expect(transitionRecordingStatus).toHaveBeenCalledWith('rec-1', 'completed', expect.objectContaining({
+      values: { durationSeconds: 18 },
+    }), expect.anything());
+    expect(queueTranscriptIndexing).toHaveBeenCalledWith('rec-1', outcome.transcript.id, expect.anything());
+  });
+
+  it('keeps a probed duration', async () => {
+    await ingestTranscriptionResult(
+      makeRecording({ durationMs: 18_912, durationSeconds: 19 }),
+      loadFixture('transcription-completed')
+    );
+
+    expect(transitionRecordingStatus).toHaveBeenCalledWith('rec-1', 'completed', expect.objectContaining({
+      values: { durationSeconds: 19 },
+    }), expect.anything());
+  });
+
+  it('stores null confidence for utterances without one', async () => {
+    await ingestTranscriptionResult(makeRecording(), loadFixture('transcription-top-level-words'));
+
+    expect(insertedRows(utterances).map(u => u.confidence)).toEqual([null, null, null, null]);
+    expect(insertedRows(words).map(w => w.speaker)).toEqual(
+      loadFixture('transcription-top-level-words').words!.map(w => w.speaker)
+    );
+    // No detected language: the requested one applies
+    expect(insertedRows(utterances).every(u => u.language === 'en_us')).toBe(true);
+  });
+
+  it('does nothing when the job was already ingested', async () => {
+    store.existingTranscript = { id: 'transcript-0', transcriptionJobId: 'tr_5c1e9a7b2f04' };
+
+    const outcome = await ingestTranscriptionResult(makeRecording(), loadFixture('transcription-completed'));
+
+    expect(outcome).toMatchObject({ created: false, utteranceCount: 0, wordCount: 0 });
+    expect(createTranscriptVersion).not.toHaveBeenCalled();
+    expect(store.inserted.size).toBe(0);
+    expect(transitionRecordingStatus).not.toHaveBeenCalled();
+  });
+
+  it('rejects a transcription that is not complete', async () => {
+    await expect(ingestTranscriptionResult(makeRecording(), loadFixture('transcription-processing')))
+      .rejects.toThrow('Transcription tr_e4b0917c5a3d is not complete (status: processing)');
+    expect(store.inserted.size).toBe(0);
+  });
+
+  it('rejects a cancelled recording', async () => {
+    store.lockedStatus = 'cancelled';
+
+    await expect(ingestTranscriptionResult(makeRecording(), loadFixture('transcription-completed')))
+      .rejects.toThrow('Recording processing was cancelled');
+    expect(createTranscriptVersion).not.toHaveBeenCalled();
+  });
+
+  it('fails when the recording cannot be completed', async () => {
+    vi.mocked(transitionRecordingStatus).mockResolvedValueOnce({
+      success: false,
+      error: 'Cannot change status from uploading to completed',
+    });
+
+    await expect(ingestTranscriptionResult(makeRecording(), loadFixture('transcription-completed')))
+      .rejects.toThrow('Cannot change status from uploading to completed');
+  });
+});
+
+describe('ingestChannelTranscriptionResults', () => {
+  const channelResults = () => [
+    { channelIndex: 0, result: loadFixture('transcription-channel-1') },
+    { channelIndex: 1, result: loadFixture('transcription-channel-2') },
+  ];
+
+  it('interleaves the channels by start time under their channel speakers', async () => {
+    const outcome = await ingestChannelTranscriptionResults(makeRecording({ preserveChannels: true }), channelResults());
+
+    expect(outcome).toMatchObject({ created: true, utteranceCount: 5, durationSeconds: 31 });
+    expect(insertedRows(utterances).map(u => [u.speaker, u.channel, u.startMs, u.language, u.sequenceIndex])).toEqual([
+      ['CH1', 0, 2000, 'en', 0],
+      ['CH2', 1, 5600, 'es', 1],
+      ['CH2', 1, 8900, 'es', 2],
+      ['CH2', 1, 10500, 'en', 3],
+      ['CH1', 0, 12100, 'en', 4],
+    ]);
+
+    // Words take their channel's speaker, not the per-channel diarization label
+    const storedWords = insertedRows(words);
+    expect(storedWords.length).toBe(outcome.wordCount);
+    expect(new Set(storedWords.map(w => w.speaker))).toEqual(new Set(['CH1', 'CH2']));
+  });
+
+  it('stores the merged set under one job key with weighted confidence', async () => {
+    await ingestChannelTranscriptionResults(makeRecording({ preserveChannels: true }), channelResults());
+
+    const [[values]] = vi.mocked(createTranscriptVersion).mock.calls;
+    expect(values.transcriptionJobId).toBe('channels:tr_ch1_0b7d42e1,tr_ch2_9a1c53f8');
+    expect(values.confidence).toBeCloseTo((0.94 * 2 + 0.85 * 3) / 5);
+    expect(values.fullText).toBe(
+      'Mr. Alvarez, do you understand the charges? Señor Alvarez, ¿entiende los cargos? ' +
+      'Sí, los entiendo. He understands the charges. Thank you. Let the record reflect the answer.'
+    );
+    expect(values.summary).toBeNull();
+    expect(values.language).toBe('en');
+  });
+
+  it('rejects the set if any channel is not complete', async () => {
+    await expect(ingestChannelTranscriptionResults(makeRecording({ preserveChannels: true }), [
+      ...channelResults(),
+      { channelIndex: 2, result: loadFixture('transcription-processing') },
+    ])).rejects.toThrow('is not complete');
+    expect(store.inserted.size).toBe(0);
+  });
+});
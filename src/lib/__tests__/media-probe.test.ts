@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from 'vitest';
+import { probeMedia, type MediaReader } from '@/lib/media-probe';
+
+// Not called here; the real client warns about a missing API key on import
+vi.mock('@/lib/casedev', () => ({ casedev: {} }));
+
+function bufferReader(data: Buffer): MediaReader {
+  return {
+    size: data.length,
+    read: async (offset, length) => data.subarray(offset, offset + length),
+  };
+}
+
+function uint32LE(value: number): Buffer {
+  const data = Buffer.alloc(4);
+  data.writeUInt32LE(value);
+  return data;
+}
+
+function uint32BE(value: number): Buffer {
+  const data = Buffer.alloc(4);
+  data.writeUInt32BE(value);
+  return data;
+}
+
+// ============ FILE BUILDERS ============
+
+function makeWav(params: { channels: number; sampleRate: number; bitsPerSample: number; dataBytes: number; declaredBytes?: number }): Buffer {
+  const blockAlign = (params.channels * params.bitsPerSample) / 8;
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(1, 0); // PCM
+  fmt.writeUInt16LE(params.channels, 2);
+  fmt.writeUInt32LE(params.sampleRate, 4);
+  fmt.writeUInt32LE(params.sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(params.bitsPerSample, 14);
+
+  return Buffer.concat([
+    Buffer.from('RIFF'), uint32LE(36 + params.dataBytes), Buffer.from('WAVE'),
+    Buffer.from('fmt '), uint32LE(16), fmt,
+    Buffer.from('data'), uint32LE(params.declaredBytes ?? params.dataBytes), Buffer.alloc(params.dataBytes),
+  ]);
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames
+function makeMp3(frameCount: number): Buffer {
+  const frame = Buffer.alloc(417);
+  frame.writeUInt32BE(0xfffb9000);
+  const id3 = Buffer.concat([Buffer.from('ID3'), Buffer.from([4, 0, 0, 0, 0, 0, 20]), Buffer.alloc(20)]);
+  return Buffer.concat([id3, ...Array.from({ length: frameCount }, () => frame)]);
+}
+
+function makeFlac(sampleRate: number, channels: number, totalSamples: number): Buffer {
+  const info = Buffer.alloc(34);
+  info[10] = sampleRate >> 12;
+  info[11] = (sampleRate >> 4) & 0xff;
+  info[12] = ((sampleRate & 0xf) << 4) | ((channels - 1) << 1);
+  info.writeUInt32BE(totalSamples, 14);
+  return Buffer.concat([Buffer.from('fLaC'), Buffer.from([0x80, 0, 0, 34]), info]);
+}
+
+function box(type: string, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  return Buffer.concat([uint32BE(8 + body.length), Buffer.from(type, 'latin1'), body]);
+}
+
+function makeM4a(params: { channels: number; sampleRate: number; timescale: number; duration: number }): Buffer {
+  const mdhd = Buffer.alloc(24);
+  mdhd.writeUInt32BE(params.timescale, 12);
+  mdhd.writeUInt32BE(params.duration, 16);
+
+  const hdlr = Buffer.alloc(24);
+  hdlr.write('soun', 8, 'latin1');
+
+  const sampleEntry = Buffer.alloc(28);
+  sampleEntry.writeUInt16BE(1, 6); // Data reference index
+  sampleEntry.writeUInt16BE(params.channels, 16);
+  sampleEntry.writeUInt16BE(16, 18);
+  sampleEntry.writeUInt32BE(params.sampleRate * 65536, 24);
+
+  const stsd = box('stsd', Buffer.alloc(4), uint32BE(1), box('mp4a', sampleEntry));
+  const trak = box('trak', box('mdia', box('mdhd', mdhd), box('hdlr', hdlr), box('minf', box('stbl', stsd))));
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('M4A '), uint32BE(0), Buffer.from('isomM4A ')),
+    box('mdat', Buffer.alloc(64)),
+    box('moov', trak),
+  ]);
+}
+
+function oggPage(headerType: number, granule: bigint, sequence: number, packet: Buffer): Buffer {
+  const header = Buffer.alloc(27);
+  header.write('OggS', 0, 'latin1');
+  header[5] = headerType;
+  header.writeBigInt64LE(granule, 6);
+  header.writeUInt32LE(0x1234, 14);
+  header.writeUInt32LE(sequence, 18);
+  header[26] = packet.length > 0 ? 1 : 0;
+  return Buffer.concat([header, Buffer.from(packet.length > 0 ? [packet.length] : []), packet]);
+}
+
+function makeOpus(seconds: number, preSkip: number): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(44100, 12);
+
+  return Buffer.concat([
+    oggPage(2, BigInt(0), 0, head),
+    oggPage(0, BigInt(-1), 1, Buffer.alloc(100)),
+    oggPage(4, BigInt(seconds * 48000 + preSkip), 2, Buffer.alloc(0)),
+  ]);
+}
+
+// ============ TESTS ============
+
+describe('probeMedia', () => {
+  it('reads a PCM WAV file', async () => {
+    const wav = makeWav({ channels: 2, sampleRate: 44100, bitsPerSample: 16, dataBytes: 176_400 });
+
+    expect(await probeMedia('wav', bufferReader(wav))).toEqual({
+      success: true,
+      info: { container: 'wav', codec: 'pcm_s16le', durationMs: 1000, sampleRate: 44100, channelCount: 2 },
+    });
+  });
+
+  it('takes the rest of the file as audio when a WAV data size was never filled in', async () => {
+    const wav = makeWav({ channels: 1, sampleRate: 8000, bitsPerSample: 8, dataBytes: 4000, declaredBytes: 0 });
+
+    expect(await probeMedia('wav', bufferReader(wav))).toMatchObject({
+      success: true,
+      info: { codec: 'pcm_u8', durationMs: 500, channelCount: 1 },
+    });
+  });
+
+  it('rejects a truncated WAV file', async () => {
+    const wav = makeWav({ channels: 2, sampleRate: 44100, bitsPerSample: 16, dataBytes: 1000, declaredBytes: 176_400 });
+
+    expect(await probeMedia('wav', bufferReader(wav))).toEqual({
+      success: false,
+      error: 'Not a readable WAV file: WAV audio data is truncated (1000 of 176400 bytes present)',
+    });
+  });
+
+  it('reads a constant-bitrate MP3 file after its ID3 tag', async () => {
+    expect(await probeMedia('mp3', bufferReader(makeMp3(100)))).toEqual({
+      success: true,
+      info: { container: 'mp3', codec: 'mp3', durationMs: 2606, sampleRate: 44100, channelCount: 2 },
+    });
+  });
+
+  it('reads a FLAC file', async () => {
+    expect(await probeMedia('flac', bufferReader(makeFlac(16000, 1, 160_000)))).toEqual({
+      success: true,
+      info: { container: 'flac', codec: 'flac', durationMs: 10_000, sampleRate: 16000, channelCount: 1 },
+    });
+  });
+
+  it('reads an M4A file with its moov box after the audio', async () => {
+    const m4a = makeM4a({ channels: 2, sampleRate: 48000, timescale: 48000, duration: 96_000 });
+
+    expect(await probeMedia('m4a', bufferReader(m4a))).toEqual({
+      success: true,
+      info: { container: 'mp4', codec: 'aac', durationMs: 2000, sampleRate: 48000, channelCount: 2 },
+    });
+  });
+
+  it('rejects an M4A file without a moov box', async () => {
+    const m4a = Buffer.concat([box('ftyp', Buffer.from('M4A '), uint32BE(0)), box('mdat', Buffer.alloc(64))]);
+
+    expect(await probeMedia('m4a', bufferReader(m4a))).toEqual({
+      success: false,
+      error: 'Not a readable M4A file: MP4 file has no moov box (the upload may be incomplete)',
+    });
+  });
+
+  it('reads an Opus file, measuring it from the last page without the pre-skip', async () => {
+    expect(await probeMedia('ogg', bufferReader(makeOpus(3, 312)))).toEqual({
+      success: true,
+      info: { container: 'ogg', codec: 'opus', durationMs: 3000, sampleRate: 44100, channelCount: 2 },
+    });
+  });
+
+  it('parses by content, so a mislabelled file passes', async () => {
+    expect(await probeMedia('mp3', bufferReader(makeFlac(44100, 2, 44_100)))).toMatchObject({
+      success: true,
+      info: { container: 'flac', durationMs: 1000 },
+    });
+  });
+
+  it('rejects an empty or unreadable file', async () => {
+    expect(await probeMedia('mp3', bufferReader(Buffer.alloc(0))))
+      .toEqual({ success: false, error: 'The uploaded file is empty' });
+    expect(await probeMedia('mp3', bufferReader(Buffer.from('not audio at all'))))
+      .toEqual({ success: false, error: 'Not a readable MP3 file: No MPEG audio frames found' });
+  });
+
+  it('skips formats it does not probe', async () => {
+    expect(await probeMedia('ftr', bufferReader(Buffer.from('anything')))).toEqual({ success: true, info: null });
+  });
+});
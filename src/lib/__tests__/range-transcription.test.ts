@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { snapRangeToUtterances } from '@/lib/range-transcription';
+
+// Not called here; the real client warns about a missing API key on import
+vi.mock('@/lib/casedev', () => ({ casedev: {} }));
+
+const utteranceList = [
+  { startMs: 0, endMs: 4000 },
+  { startMs: 4500, endMs: 9000 },
+  // Crosstalk: overlaps both neighbours
+  { startMs: 8500, endMs: 12000 },
+  { startMs: 11000, endMs: 15000 },
+  { startMs: 20000, endMs: 24000 },
+];
+
+describe('snapRangeToUtterances', () => {
+  it('widens a range to the utterances it cuts', () => {
+    expect(snapRangeToUtterances(utteranceList, 1000, 3000)).toEqual({ startMs: 0, endMs: 4000 });
+    expect(snapRangeToUtterances(utteranceList, 3000, 4200)).toEqual({ startMs: 0, endMs: 4200 });
+  });
+
+  it('keeps widening while overlapping speech pulls in more utterances', () => {
+    expect(snapRangeToUtterances(utteranceList, 5000, 6000)).toEqual({ startMs: 4500, endMs: 15000 });
+  });
+
+  it('leaves a range on utterance boundaries unchanged', () => {
+    expect(snapRangeToUtterances(utteranceList, 20000, 24000)).toEqual({ startMs: 20000, endMs: 24000 });
+  });
+
+  it('does not pull in utterances that only touch the range', () => {
+    expect(snapRangeToUtterances(utteranceList, 15000, 20000)).toEqual({ startMs: 15000, endMs: 20000 });
+  });
+
+  it('leaves a range in silence unchanged', () => {
+    expect(snapRangeToUtterances(utteranceList, 16000, 18000)).toEqual({ startMs: 16000, endMs: 18000 });
+  });
+});
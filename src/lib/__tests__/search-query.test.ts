@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { matchUtterance, parseQueryTime, parseSearchQuery } from '@/lib/search-query';
+
+/**
+ * Match `text` against a query and return the highlighted text, or null if
+ * the utterance does not match
+ */
+function highlighted(
+  query: string,
+  text: string,
+  utterance: { speaker?: string; speakerName?: string | null; startMs?: number } = {}
+): string[] | null {
+  const parsed = parseSearchQuery(query);
+  if (!parsed.success) throw new Error(parsed.error);
+
+  const highlights = matchUtterance(
+    parsed.query,
+    { text, speaker: utterance.speaker ?? 'A', startMs: utterance.startMs ?? 0 },
+    utterance.speakerName ?? null
+  );
+  return highlights && highlights.map(h => text.slice(h.start, h.end));
+}
+
+describe('parseQueryTime', () => {
+  it('reads hours, minutes and seconds', () => {
+    expect(parseQueryTime('1:15:00')).toBe(4_500_000);
+    expect(parseQueryTime('30:00')).toBe(1_800_000);
+    expect(parseQueryTime('90')).toBe(90_000);
+    expect(parseQueryTime('0:01.5')).toBe(1500);
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseQueryTime('1:75')).toBeNull();
+    expect(parseQueryTime('1:2:3:4')).toBeNull();
+    expect(parseQueryTime('noon')).toBeNull();
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('collects filters apart from the search terms', () => {
+    const parsed = parseSearchQuery('objection speaker:"Defense Attorney" speaker:B after:10:00 before:1:00:00');
+
+    expect(parsed).toMatchObject({
+      success: true,
+      query: { speakers: ['Defense Attorney', 'B'], afterMs: 600_000, beforeMs: 3_600_000 },
+    });
+  });
+
+  it('accepts a query with only filters', () => {
+    expect(parseSearchQuery('speaker:Judge')).toMatchObject({ success: true, query: { expression: null } });
+  });
+
+  it('reports malformed queries', () => {
+    expect(parseSearchQuery('"motion to')).toEqual({ success: false, error: 'Unclosed quote' });
+    expect(parseSearchQuery('objection speaker:')).toEqual({ success: false, error: 'Missing value for speaker:' });
+    expect(parseSearchQuery('after:noon')).toEqual({
+      success: false,
+      error: 'Invalid time "noon" (use hh:mm:ss, mm:ss or seconds)',
+    });
+    expect(parseSearchQuery('(objection OR sidebar')).toEqual({ success: false, error: 'Unclosed "("' });
+    expect(parseSearchQuery('objection )')).toEqual({ success: false, error: 'Unexpected ")"' });
+    expect(parseSearchQuery('OR sidebar')).toEqual({ success: false, error: 'OR needs a term on both sides' });
+    expect(parseSearchQuery('objection NOT')).toEqual({ success: false, error: 'NOT needs a term after it' });
+    expect(parseSearchQuery('  ')).toEqual({ success: false, error: 'Query has no search terms or filters' });
+  });
+});
+
+describe('matchUtterance', () => {
+  it('requires every word, matched whole and case-insensitively', () => {
+    expect(highlighted('objection sustained', 'Objection. Sustained.')).toEqual(['Objection', 'Sustained']);
+    expect(highlighted('objection sustained', 'Objection, Your Honor.')).toBeNull();
+    expect(highlighted('object', 'Objection.')).toBeNull();
+  });
+
+  it('matches possessives by their word', () => {
+    expect(highlighted('defendant', "The defendant's car.")).toEqual(["defendant's"]);
+  });
+
+  it('combines terms with OR, NOT and parentheses', () => {
+    expect(highlighted('objection OR sidebar', 'Can we have a sidebar?')).toEqual(['sidebar']);
+    expect(highlighted('objection -overruled', 'Objection. Overruled.')).toBeNull();
+    expect(highlighted('objection NOT overruled', 'Objection. Sustained.')).toEqual(['Objection']);
+    expect(highlighted('(objection OR sidebar) AND honor', 'Sidebar, Your Honor?')).toEqual(['Sidebar', 'Honor']);
+    expect(highlighted('(objection OR sidebar) AND honor', 'Sidebar, please.')).toBeNull();
+  });
+
+  it('matches a quoted phrase as consecutive words', () => {
+    expect(highlighted('"motion to suppress"', 'We filed a motion to suppress.')).toEqual(['motion to suppress']);
+    expect(highlighted('"motion to suppress"', 'The motion is to suppress.')).toBeNull();
+  });
+
+  it('matches wildcards', () => {
+    expect(highlighted('suppress*', 'Suppression of evidence.')).toEqual(['Suppression']);
+    expect(highlighted('wom?n', 'The woman and the women.')).toEqual(['woman', 'women']);
+    expect(highlighted('wom?n', 'The womn.')).toBeNull();
+  });
+
+  it('matches fuzzy terms within their edit distance', () => {
+    expect(highlighted('Kowalski~', 'Mr. Kowalsky testified.')).toEqual(['Kowalsky']);
+    expect(highlighted('Kowalski~', 'Mr. Kovalsky testified.')).toBeNull();
+    expect(highlighted('Kowalski~2', 'Mr. Kovalsky testified.')).toEqual(['Kovalsky']);
+    expect(highlighted('Kowalski~9', 'Mr. Kovalskyy testified.')).toBeNull();
+  });
+
+  it('filters by speaker ID or name', () => {
+    expect(highlighted('speaker:B', 'Yes.', { speaker: 'B' })).toEqual([]);
+    expect(highlighted('speaker:judge', 'Yes.', { speaker: 'A', speakerName: 'Judge Martinez' })).toEqual([]);
+    expect(highlighted('speaker:B speaker:judge', 'Yes.', { speaker: 'C', speakerName: 'Witness' })).toBeNull();
+  });
+
+  it('filters by start time, including after: and excluding before:', () => {
+    expect(highlighted('yes after:1:00', 'Yes.', { startMs: 60_000 })).toEqual(['Yes']);
+    expect(highlighted('yes after:1:00', 'Yes.', { startMs: 59_999 })).toBeNull();
+    expect(highlighted('yes before:1:00', 'Yes.', { startMs: 60_000 })).toBeNull();
+  });
+
+  it('returns each highlighted span once, in text order', () => {
+    expect(highlighted('honor OR hon*', 'Your Honor, honestly.')).toEqual(['Honor', 'honestly']);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_WORD_BOOST_TERMS, mergeWordBoost } from '@/lib/transcription-settings';
+
+describe('mergeWordBoost', () => {
+  it('keeps the first spelling of a term and collapses whitespace', () => {
+    expect(mergeWordBoost(
+      ['  Alvarez ', 'voir   dire'],
+      ['alvarez', 'Voir Dire', 'Miranda']
+    )).toEqual(['Alvarez', 'voir dire', 'Miranda']);
+  });
+
+  it('drops empty terms and phrases longer than six words', () => {
+    expect(mergeWordBoost(['', '   ', 'one two three four five six', 'one two three four five six seven']))
+      .toEqual(['one two three four five six']);
+  });
+
+  it('stops at the API limit, keeping the earlier lists', () => {
+    const specific = ['Alvarez', 'Ocampo'];
+    const filler = Array.from({ length: MAX_WORD_BOOST_TERMS }, (_, index) => `term ${index}`);
+
+    const merged = mergeWordBoost(specific, filler);
+
+    expect(merged).toHaveLength(MAX_WORD_BOOST_TERMS);
+    expect(merged.slice(0, 3)).toEqual(['Alvarez', 'Ocampo', 'term 0']);
+  });
+});
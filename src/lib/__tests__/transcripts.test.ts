@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Utterance } from '@/lib/db/schema';
+import { diffTranscriptVersions, type VersionDiffEntry } from '@/lib/transcripts';
+
+function makeUtterances(texts: string[], prefix: string): Utterance[] {
+  return texts.map((text, index) => ({
+    id: `${prefix}-${index}`,
+    text,
+    speaker: 'A',
+    startMs: index * 1000,
+    endMs: index * 1000 + 900,
+  }) as Utterance);
+}
+
+function summarize(entries: VersionDiffEntry[]): string[] {
+  return entries.map(entry => {
+    if (entry.type === 'unchanged') return `= ${entry.from.text}`;
+    if (entry.type === 'removed') return `- ${entry.from.text}`;
+    return `+ ${entry.to.text}`;
+  });
+}
+
+describe('diffTranscriptVersions', () => {
+  it('shows a changed utterance as a removed and added pair', () => {
+    const diff = diffTranscriptVersions(
+      makeUtterances(['All rise.', 'Please be seated.', 'Call the first case.'], 'v1'),
+      makeUtterances(['All rise.', 'Please be seated now.', 'Call the first case.'], 'v2')
+    );
+
+    expect(summarize(diff)).toEqual([
+      '= All rise.',
+      '- Please be seated.',
+      '+ Please be seated now.',
+      '= Call the first case.',
+    ]);
+  });
+
+  it('ignores case and punctuation when aligning', () => {
+    const from = makeUtterances(['Objection, Your Honor!'], 'v1');
+    const to = makeUtterances(['objection your honor'], 'v2');
+
+    expect(diffTranscriptVersions(from, to)).toEqual([{ type: 'unchanged', from: from[0], to: to[0] }]);
+  });
+
+  it('reports inserted and dropped utterances', () => {
+    const diff = diffTranscriptVersions(
+      makeUtterances(['One.', 'Two.', 'Three.'], 'v1'),
+      makeUtterances(['Zero.', 'One.', 'Three.', 'Four.'], 'v2')
+    );
+
+    expect(summarize(diff)).toEqual(['+ Zero.', '= One.', '- Two.', '= Three.', '+ Four.']);
+  });
+
+  it('handles an empty version', () => {
+    const to = makeUtterances(['First.', 'Second.'], 'v2');
+
+    expect(summarize(diffTranscriptVersions([], to))).toEqual(['+ First.', '+ Second.']);
+    expect(summarize(diffTranscriptVersions(to, []))).toEqual(['- First.', '- Second.']);
+  });
+
+  it('aligns transcripts longer than one window', () => {
+    const texts = Array.from({ length: 2500 }, (_, index) => `Utterance ${index}.`);
+    const changed = texts.map((text, index) => (index % 100 === 50 ? `Corrected ${index}.` : text));
+
+    const lines = summarize(diffTranscriptVersions(makeUtterances(texts, 'v1'), makeUtterances(changed, 'v2')));
+
+    expect(lines.filter(line => line.startsWith('='))).toHaveLength(2475);
+    expect(lines.filter(line => line.startsWith('-')))
+      .toEqual(texts.filter((_, index) => index % 100 === 50).map(text => `- ${text}`));
+    expect(lines.filter(line => line.startsWith('+'))).toHaveLength(25);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseTermImport } from '@/lib/vocabulary';
+
+describe('parseTermImport', () => {
+  it('reads a pasted list one term per line, without bullets, numbers or notes', () => {
+    expect(parseTermImport([
+      '- Maria Alvarez',
+      '2. Dr. Ocampo (expert witness)',
+      '',
+      '• Ocampo Pharmacy',
+      'maria alvarez',
+    ].join('\n'))).toEqual(['Maria Alvarez', 'Dr. Ocampo', 'Ocampo Pharmacy']);
+  });
+
+  it('takes the term column of a CSV with a recognised header', () => {
+    expect(parseTermImport([
+      'Role,Name,Phone',
+      'Witness,"Alvarez, Maria",555-0100',
+      'Defendant,Juan Ocampo,555-0101',
+    ].join('\r\n'))).toEqual(['Alvarez, Maria', 'Juan Ocampo']);
+  });
+
+  it('takes every cell of a CSV without a recognised header', () => {
+    expect(parseTermImport('Alvarez,Ocampo\nfentanyl,"Elm ""Old"" Street"'))
+      .toEqual(['Alvarez', 'Ocampo', 'fentanyl', 'Elm "Old" Street']);
+  });
+
+  it('splits on tabs when the text has them', () => {
+    expect(parseTermImport('name\tnotes\nAlvarez\tlate, twice')).toEqual(['Alvarez']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(parseTermImport(' \n\n ')).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  getWebhookSecrets,
+  signWebhookPayload,
+  verifyWebhookRequest,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@/lib/webhook-signature';
+
+// An in-memory nonce table: the insert returns nothing for a nonce it has seen
+const usedNonces = vi.hoisted(() => new Set<string>());
+
+vi.mock('@/lib/db', () => ({
+  webhookNonces: { nonce: 'nonce', createdAt: 'created_at' },
+  db: {
+    delete: () => ({ where: async () => undefined }),
+    insert: () => ({
+      values: ({ nonce }: { nonce: string }) => ({
+        onConflictDoNothing: () => ({
+          returning: async () => {
+            if (usedNonces.has(nonce)) return [];
+            usedNonces.add(nonce);
+            return [{ nonce }];
+          },
+        }),
+      }),
+    }),
+  },
+}));
+
+const body = JSON.stringify({ event: 'transcription.completed', id: 'tr_123' });
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function makeRequest(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/webhooks/casedev', { method: 'POST', headers, body });
+}
+
+function signedRequest(params: { secret: string; timestamp?: number; rawBody?: string }): NextRequest {
+  const timestamp = params.timestamp ?? now();
+  return makeRequest({
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(params.rawBody ?? body, timestamp, params.secret),
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  });
+}
+
+beforeEach(() => {
+  usedNonces.clear();
+  vi.stubEnv('WEBHOOK_SECRET', 'whsec_new, whsec_old');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getWebhookSecrets', () => {
+  it('lists the comma-separated secrets, current first', () => {
+    expect(getWebhookSecrets()).toEqual(['whsec_new', 'whsec_old']);
+
+    vi.stubEnv('WEBHOOK_SECRET', '');
+    expect(getWebhookSecrets()).toEqual([]);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  it('accepts a delivery signed with the current secret', async () => {
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new' }), body)).toEqual({ valid: true });
+  });
+
+  it('accepts a delivery signed with a rotated-out secret that is still listed', async () => {
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_old' }), body)).toEqual({ valid: true });
+  });
+
+  it('accepts a prefixed, upper-case signature', async () => {
+    const timestamp = now();
+    const request = makeRequest({
+      [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(body, timestamp, 'whsec_new').toUpperCase()}`,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    });
+
+    expect(await verifyWebhookRequest(request, body)).toEqual({ valid: true });
+  });
+
+  it('rejects a tampered body or an unknown secret', async () => {
+    const tampered = body.replace('tr_123', 'tr_999');
+
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new' }), tampered))
+      .toEqual({ valid: false, reason: 'Signature mismatch' });
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_other' }), body))
+      .toEqual({ valid: false, reason: 'Signature mismatch' });
+  });
+
+  it('rejects a timestamp outside the tolerance window', async () => {
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new', timestamp: now() - 301 }), body))
+      .toEqual({ valid: false, reason: 'Timestamp outside the 300s tolerance window' });
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new', timestamp: now() + 301 }), body))
+      .toEqual({ valid: false, reason: 'Timestamp outside the 300s tolerance window' });
+  });
+
+  it('rejects a replayed delivery', async () => {
+    const timestamp = now();
+
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new', timestamp }), body))
+      .toEqual({ valid: true });
+    expect(await verifyWebhookRequest(signedRequest({ secret: 'whsec_new', timestamp }), body))
+      .toEqual({ valid: false, reason: 'Replayed delivery' });
+  });
+
+  it('rejects a delivery with missing or malformed headers', async () => {
+    const signature = signWebhookPayload(body, now(), 'whsec_new');
+
+    expect(await verifyWebhookRequest(makeRequest({ [WEBHOOK_TIMESTAMP_HEADER]: String(now()) }), body))
+      .toEqual({ valid: false, reason: 'Missing signature' });
+    expect(await verifyWebhookRequest(makeRequest({ [WEBHOOK_SIGNATURE_HEADER]: signature }), body))
+      .toEqual({ valid: false, reason: 'Missing timestamp' });
+    expect(await verifyWebhookRequest(
+      makeRequest({ [WEBHOOK_SIGNATURE_HEADER]: signature, [WEBHOOK_TIMESTAMP_HEADER]: 'yesterday' }),
+      body
+    )).toEqual({ valid: false, reason: 'Invalid timestamp' });
+  });
+
+  it('rejects unsigned deliveries in production unless they are allowed', async () => {
+    vi.stubEnv('WEBHOOK_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(await verifyWebhookRequest(makeRequest({}), body))
+      .toEqual({ valid: false, reason: 'WEBHOOK_SECRET not configured' });
+
+    vi.stubEnv('WEBHOOK_ALLOW_UNSIGNED', 'true');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await verifyWebhookRequest(makeRequest({}), body)).toEqual({ valid: true });
+    expect(warn).toHaveBeenCalledWith('WEBHOOK_SECRET not configured - skipping signature verification');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Admin API Authentication
+ *
+ * Admin endpoints require `Authorization: Bearer <ADMIN_API_KEY>`.
+ * Without a configured key they are open in development and closed in production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+/**
+ * Returns an error response if the request is not authorized, otherwise null
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  if (!ADMIN_API_KEY) {
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { error: 'Admin API is disabled (ADMIN_API_KEY not configured)' },
+        { status: 403 }
+      );
+    }
+    console.warn('ADMIN_API_KEY not configured - allowing admin request (development mode)');
+    return null;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  // Use timing-safe comparison to prevent timing attacks
+  const expected = Buffer.from(ADMIN_API_KEY);
+  const provided = Buffer.from(token);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
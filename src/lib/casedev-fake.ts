@@ -0,0 +1,615 @@
+/**
+ * In-process Case.dev stand-in
+ *
+ * Selected with CASEDEV_PROVIDER=fake. Keeps vaults, uploaded files and jobs in
+ * memory (file bytes on local disk), completes convert and transcription jobs
+ * after a short delay with canned results, and fires signed webhooks at the
+ * URLs the app registered - so the whole pipeline runs without network access.
+ */
+
+import type {
+  CaseDevProvider,
+  ConvertJobResponse,
+  TranscriptionJobResponse,
+  TranscriptionWord,
+  CreateTranscriptionParams,
+  VaultResponse,
+  UploadUrlResponse,
+  MultipartUploadResponse,
+  UploadPartUrlResponse,
+  VaultObjectResponse,
+  VaultObjectListResponse,
+  IngestResponse,
+  ObjectTextResponse,
+  SearchResponse,
+} from '@/lib/casedev';
+import {
+  getWebhookSecrets,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@/lib/webhook-signature';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// How long fake jobs take to finish
+const FAKE_JOB_DELAY_MS = Number(process.env.CASEDEV_FAKE_DELAY_MS) || 2000;
+
+// Set CASEDEV_FAKE_FAIL=transcribe (or convert) to make jobs of that kind fail
+const FAKE_FAIL = process.env.CASEDEV_FAKE_FAIL || '';
+
+const FAKE_CHANNEL_COUNT = 3;
+
+export const FAKE_STORAGE_DIR = path.join(os.tmpdir(), 'casedev-fake');
+
+interface FakeObject {
+  id: string;
+  vaultId: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  createdAt: string;
+  ingested?: boolean; // Text objects are searchable once ingested
+}
+
+// A multipart upload; its object is created when the upload is completed
+interface FakeMultipartUpload {
+  uploadId: string;
+  object: FakeObject;
+  parts: Map<number, { etag: string; sizeBytes: number; checksumSha256: string }>;
+  checksums: Map<number, string>; // Base64 SHA-256 the part URL was signed for
+}
+
+interface FakeState {
+  vaults: Map<string, VaultResponse>;
+  objects: Map<string, FakeObject>;
+  multipartUploads: Map<string, FakeMultipartUpload>;
+  convertJobs: Map<string, ConvertJobResponse>;
+  transcriptionJobs: Map<string, TranscriptionJobResponse>;
+  cancelledJobIds: Set<string>;
+}
+
+// Kept on globalThis so state survives module reloads in development
+const globalForFake = globalThis as unknown as { __casedevFake?: FakeState };
+
+function getState(): FakeState {
+  if (!globalForFake.__casedevFake) {
+    globalForFake.__casedevFake = {
+      vaults: new Map(),
+      objects: new Map(),
+      multipartUploads: new Map(),
+      convertJobs: new Map(),
+      transcriptionJobs: new Map(),
+      cancelledJobIds: new Set(),
+    };
+  }
+  return globalForFake.__casedevFake;
+}
+
+/**
+ * Local URL serving an uploaded object (GET) or accepting its upload (PUT)
+ */
+export function getFakeObjectUrl(objectId: string): string {
+  return `${APP_URL}/api/dev/casedev/objects/${objectId}`;
+}
+
+export function getFakeObject(objectId: string): FakeObject | undefined {
+  return getState().objects.get(objectId);
+}
+
+export function getFakeObjectPath(objectId: string): string {
+  // Object IDs are UUIDs we generated; strip anything else to stay inside the storage dir
+  return path.join(FAKE_STORAGE_DIR, objectId.replace(/[^a-zA-Z0-9-]/g, ''));
+}
+
+/**
+ * Store uploaded bytes for an object created by `getUploadUrl`
+ */
+export async function saveFakeUpload(objectId: string, data: Buffer): Promise<boolean> {
+  const object = getState().objects.get(objectId);
+  if (!object) return false;
+
+  await fs.mkdir(FAKE_STORAGE_DIR, { recursive: true });
+  await fs.writeFile(getFakeObjectPath(objectId), data);
+  object.sizeBytes = data.length;
+  return true;
+}
+
+function getFakePartPath(uploadId: string, partNumber: number): string {
+  return path.join(FAKE_STORAGE_DIR, 'multipart', uploadId.replace(/[^a-zA-Z0-9-]/g, ''), String(partNumber));
+}
+
+/**
+ * Store one part of a multipart upload, checking it against the checksum its
+ * URL was signed for. Returns the part's ETag, or an error.
+ */
+export async function saveFakeUploadPart(
+  uploadId: string,
+  partNumber: number,
+  data: Buffer,
+  checksumSha256: string | null
+): Promise<{ etag: string } | { error: string; status: number }> {
+  const upload = getState().multipartUploads.get(uploadId);
+  if (!upload) return { error: 'Upload not found', status: 404 };
+
+  const expected = upload.checksums.get(partNumber);
+  const actual = crypto.createHash('sha256').update(data).digest('base64');
+  if (expected && (checksumSha256 !== expected || actual !== expected)) {
+    return { error: 'Part checksum does not match', status: 400 };
+  }
+
+  await fs.mkdir(path.dirname(getFakePartPath(uploadId, partNumber)), { recursive: true });
+  await fs.writeFile(getFakePartPath(uploadId, partNumber), data);
+
+  const etag = `"${crypto.createHash('md5').update(data).digest('hex')}"`;
+  upload.parts.set(partNumber, { etag, sizeBytes: data.length, checksumSha256: actual });
+  return { etag };
+}
+
+// ============ CANNED RESULTS ============
+
+const CANNED_UTTERANCES: Array<{ speaker: string; text: string }> = [
+  { speaker: 'A', text: 'We are on the record in case number 2024-CV-01234. Counsel, please state your appearances.' },
+  { speaker: 'B', text: 'Good morning, Your Honor. Jane Doe for the plaintiff.' },
+  { speaker: 'C', text: 'Good morning. John Smith for the defendant.' },
+  { speaker: 'A', text: 'Thank you. Ms. Doe, you may call your first witness.' },
+  { speaker: 'B', text: 'The plaintiff calls Robert Brown.' },
+  { speaker: 'A', text: 'Please raise your right hand. Do you swear to tell the truth, the whole truth, and nothing but the truth?' },
+  { speaker: 'D', text: 'I do.' },
+  { speaker: 'B', text: 'Mr. Brown, where were you on the evening of March third?' },
+  { speaker: 'D', text: 'I was at the intersection of Main and Fifth, waiting to cross.' },
+  { speaker: 'C', text: 'Objection, Your Honor. Relevance.' },
+  { speaker: 'A', text: 'Overruled. The witness may answer.' },
+  { speaker: 'D', text: 'I saw the blue sedan run the red light.' },
+];
+
+const WORD_MS = 320;
+const UTTERANCE_GAP_MS = 600;
+
+function buildCannedTranscription(jobId: string, params: CreateTranscriptionParams): TranscriptionJobResponse {
+  let cursor = 0;
+
+  const allUtterances = CANNED_UTTERANCES.map((u, utteranceIndex) => {
+    const words: TranscriptionWord[] = u.text.split(' ').map((text, wordIndex) => {
+      const start = cursor + wordIndex * WORD_MS;
+      return {
+        text,
+        start,
+        end: start + WORD_MS - 40,
+        // Deterministic spread so confidence-based features have something to show
+        confidence: 0.8 + ((utteranceIndex * 7 + wordIndex * 3) % 20) / 100,
+        speaker: u.speaker,
+      };
+    });
+
+    const start = cursor;
+    const end = words[words.length - 1].end;
+    cursor = end + UTTERANCE_GAP_MS;
+
+    return {
+      speaker: u.speaker,
+      text: u.text,
+      start,
+      end,
+      confidence: words.reduce((sum, w) => sum + (w.confidence ?? 0), 0) / words.length,
+      words,
+    };
+  });
+
+  // A clipped request gets the utterances inside the clip, timed from its start
+  const clipStart = params.audio_start_from ?? 0;
+  const clipEnd = params.audio_end_at ?? Infinity;
+  const utterances = allUtterances
+    .filter(u => u.end > clipStart && u.start < clipEnd)
+    .map(u => ({
+      ...u,
+      start: u.start - clipStart,
+      end: u.end - clipStart,
+      words: u.words.map(w => ({ ...w, start: w.start - clipStart, end: w.end - clipStart })),
+    }));
+
+  return {
+    id: jobId,
+    status: 'completed',
+    audio_url: params.audio_url,
+    audio_duration: Math.ceil((Math.min(cursor, clipEnd) - clipStart) / 1000),
+    confidence: utterances.length > 0
+      ? utterances.reduce((sum, u) => sum + u.confidence, 0) / utterances.length
+      : undefined,
+    // The canned proceedings are in English whatever was requested
+    language_code: params.language_detection ? 'en' : (params.language_code ?? 'en'),
+    ...(params.language_detection && { language_confidence: 0.97 }),
+    text: utterances.map(u => u.text).join(' '),
+    utterances,
+    summary: 'Opening of proceedings, appearances of counsel and direct examination of the first witness.',
+  };
+}
+
+// ============ WEBHOOKS ============
+
+async function sendWebhook(url: string | undefined, payload: Record<string, unknown>): Promise<void> {
+  if (!url) return;
+
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const [secret] = getWebhookSecrets();
+  if (secret) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    headers[WEBHOOK_TIMESTAMP_HEADER] = String(timestamp);
+    headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, timestamp, secret);
+  }
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body });
+    console.log(`[CaseDevFake] Webhook ${url} -> ${response.status}`);
+  } catch (error) {
+    console.error(`[CaseDevFake] Webhook ${url} failed:`, error);
+  }
+}
+
+function later(task: () => Promise<void>): void {
+  setTimeout(() => {
+    task().catch(error => console.error('[CaseDevFake] Background task failed:', error));
+  }, FAKE_JOB_DELAY_MS);
+}
+
+// Lines per chunk of an ingested text object
+const FAKE_CHUNK_LINES = 6;
+
+function chunkFakeText(text: string): string[] {
+  const lines = text.split('\n').filter(line => line.trim());
+  const chunks: string[] = [];
+  for (let i = 0; i < lines.length; i += FAKE_CHUNK_LINES) {
+    chunks.push(lines.slice(i, i + FAKE_CHUNK_LINES).join('\n'));
+  }
+  return chunks;
+}
+
+/**
+ * Stand-in for vector similarity: the share of the query's words that appear
+ * in the chunk, crudely stemmed to their first five letters
+ */
+function scoreFakeChunk(query: string, chunkText: string): number {
+  const stem = (word: string) => word.toLowerCase().slice(0, 5);
+  const queryWords = [...new Set(query.split(/\W+/).filter(w => w.length > 3).map(stem))];
+  if (queryWords.length === 0) return 0;
+
+  const chunkWords = new Set(chunkText.split(/\W+/).map(stem));
+  return queryWords.filter(w => chunkWords.has(w)).length / queryWords.length;
+}
+
+function notFound(kind: string, id: string): Error {
+  return new Error(`${kind} not found: ${id} (404)`);
+}
+
+// ============ PROVIDER ============
+
+export class FakeCaseDevProvider implements CaseDevProvider {
+  // ============ CONVERT API ============
+
+  async convertFTR(
+    sourceUrl: string,
+    webhookUrl?: string,
+    options?: { preserve_channels?: boolean; output_format?: string }
+  ): Promise<ConvertJobResponse> {
+    const state = getState();
+    const job: ConvertJobResponse = {
+      id: `fake-convert-${crypto.randomUUID()}`,
+      status: 'processing',
+      source_url: sourceUrl,
+    };
+    state.convertJobs.set(job.id, job);
+
+    later(async () => {
+      if (state.cancelledJobIds.has(job.id)) return;
+
+      const failed = FAKE_FAIL === 'convert';
+      // No real conversion: the outputs point back at the source file
+      const completed: ConvertJobResponse = failed
+        ? { ...job, status: 'failed', error: 'Simulated conversion failure' }
+        : {
+            ...job,
+            status: 'completed',
+            output_url: sourceUrl,
+            output_urls: options?.preserve_channels
+              ? Array.from({ length: FAKE_CHANNEL_COUNT }, () => sourceUrl)
+              : undefined,
+            metadata: { duration_seconds: 60, channels: FAKE_CHANNEL_COUNT },
+          };
+      state.convertJobs.set(job.id, completed);
+
+      await sendWebhook(webhookUrl, {
+        job_id: completed.id,
+        status: completed.status,
+        output_url: completed.output_url,
+        output_urls: completed.output_urls,
+        metadata: completed.metadata,
+        error: completed.error,
+      });
+    });
+
+    return job;
+  }
+
+  async getConvertJob(jobId: string): Promise<ConvertJobResponse> {
+    const job = getState().convertJobs.get(jobId);
+    if (!job) throw notFound('Convert job', jobId);
+    return job;
+  }
+
+  async cancelConvertJob(jobId: string): Promise<void> {
+    if (!getState().convertJobs.has(jobId)) throw notFound('Convert job', jobId);
+    getState().cancelledJobIds.add(jobId);
+  }
+
+  // ============ VOICE API ============
+
+  async createTranscription(params: CreateTranscriptionParams): Promise<TranscriptionJobResponse> {
+    const state = getState();
+    const job: TranscriptionJobResponse = {
+      id: `fake-transcript-${crypto.randomUUID()}`,
+      status: 'queued',
+      audio_url: params.audio_url,
+    };
+    state.transcriptionJobs.set(job.id, job);
+
+    later(async () => {
+      if (state.cancelledJobIds.has(job.id)) return;
+
+      const completed: TranscriptionJobResponse = FAKE_FAIL === 'transcribe'
+        ? { ...job, status: 'error', error: 'Simulated transcription failure' }
+        : buildCannedTranscription(job.id, params);
+      state.transcriptionJobs.set(job.id, completed);
+
+      await sendWebhook(params.webhook_url, {
+        id: completed.id,
+        status: completed.status,
+        error: completed.error,
+      });
+    });
+
+    return job;
+  }
+
+  async getTranscription(jobId: string): Promise<TranscriptionJobResponse> {
+    const job = getState().transcriptionJobs.get(jobId);
+    if (!job) throw notFound('Transcription job', jobId);
+    return job;
+  }
+
+  async cancelTranscription(jobId: string): Promise<void> {
+    if (!getState().transcriptionJobs.has(jobId)) throw notFound('Transcription job', jobId);
+    getState().cancelledJobIds.add(jobId);
+  }
+
+  // ============ VAULTS API ============
+
+  async createVault(params: { name: string; description?: string; enableGraph?: boolean }): Promise<VaultResponse> {
+    const vault: VaultResponse = {
+      id: `fake-vault-${crypto.randomUUID()}`,
+      name: params.name,
+      description: params.description,
+      filesBucket: 'fake-files',
+      vectorBucket: 'fake-vectors',
+      indexName: 'fake-index',
+      region: 'local',
+      createdAt: new Date().toISOString(),
+    };
+    getState().vaults.set(vault.id, vault);
+    return vault;
+  }
+
+  async listVaults(): Promise<{ vaults: VaultResponse[]; total: number }> {
+    const vaults = [...getState().vaults.values()];
+    return { vaults, total: vaults.length };
+  }
+
+  async getUploadUrl(
+    vaultId: string,
+    params: { filename: string; contentType: string; metadata?: Record<string, unknown>; auto_index?: boolean }
+  ): Promise<UploadUrlResponse> {
+    const objectId = crypto.randomUUID();
+    getState().objects.set(objectId, {
+      id: objectId,
+      vaultId,
+      filename: params.filename,
+      contentType: params.contentType,
+      sizeBytes: 0,
+      createdAt: new Date().toISOString(),
+    });
+
+    return {
+      objectId,
+      uploadUrl: getFakeObjectUrl(objectId),
+      expiresIn: 3600,
+      instructions: {
+        method: 'PUT',
+        headers: { 'Content-Type': params.contentType },
+      },
+    };
+  }
+
+  async createMultipartUpload(
+    vaultId: string,
+    params: { filename: string; contentType: string; metadata?: Record<string, unknown>; auto_index?: boolean }
+  ): Promise<MultipartUploadResponse> {
+    const upload: FakeMultipartUpload = {
+      uploadId: `fake-multipart-${crypto.randomUUID()}`,
+      object: {
+        id: crypto.randomUUID(),
+        vaultId,
+        filename: params.filename,
+        contentType: params.contentType,
+        sizeBytes: 0,
+        createdAt: new Date().toISOString(),
+      },
+      parts: new Map(),
+      checksums: new Map(),
+    };
+    getState().multipartUploads.set(upload.uploadId, upload);
+    return { objectId: upload.object.id, uploadId: upload.uploadId };
+  }
+
+  async getUploadPartUrl(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; partNumber: number; checksumSha256?: string }
+  ): Promise<UploadPartUrlResponse> {
+    const upload = getState().multipartUploads.get(params.uploadId);
+    if (!upload || upload.object.id !== objectId) throw notFound('Upload', params.uploadId);
+
+    if (params.checksumSha256) {
+      upload.checksums.set(params.partNumber, params.checksumSha256);
+    } else {
+      upload.checksums.delete(params.partNumber);
+    }
+
+    return {
+      uploadUrl: `${APP_URL}/api/dev/casedev/multipart/${upload.uploadId}/parts/${params.partNumber}`,
+      expiresIn: 3600,
+      instructions: {
+        method: 'PUT',
+        headers: params.checksumSha256 ? { 'x-amz-checksum-sha256': params.checksumSha256 } : {},
+      },
+    };
+  }
+
+  async completeMultipartUpload(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; parts: Array<{ partNumber: number; etag: string; checksumSha256?: string }> }
+  ): Promise<void> {
+    const state = getState();
+    const upload = state.multipartUploads.get(params.uploadId);
+    if (!upload || upload.object.id !== objectId) throw notFound('Upload', params.uploadId);
+
+    const pieces: Buffer[] = [];
+    for (const { partNumber, etag, checksumSha256 } of [...params.parts].sort((a, b) => a.partNumber - b.partNumber)) {
+      const part = upload.parts.get(partNumber);
+      if (part?.etag !== etag) {
+        throw new Error(`Part ${partNumber} is missing or its ETag does not match (400)`);
+      }
+      if (checksumSha256 && part.checksumSha256 !== checksumSha256) {
+        throw new Error(`Part ${partNumber} checksum does not match (400)`);
+      }
+      pieces.push(await fs.readFile(getFakePartPath(upload.uploadId, partNumber)));
+    }
+
+    const data = Buffer.concat(pieces);
+    await fs.writeFile(getFakeObjectPath(objectId), data);
+    state.objects.set(objectId, { ...upload.object, sizeBytes: data.length });
+
+    state.multipartUploads.delete(upload.uploadId);
+    await fs.rm(path.dirname(getFakePartPath(upload.uploadId, 1)), { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(vaultId: string, objectId: string, uploadId: string): Promise<void> {
+    const state = getState();
+    if (!state.multipartUploads.delete(uploadId)) throw notFound('Upload', uploadId);
+    await fs.rm(path.dirname(getFakePartPath(uploadId, 1)), { recursive: true, force: true });
+  }
+
+  async ingestFile(vaultId: string, objectId: string): Promise<IngestResponse> {
+    const object = getState().objects.get(objectId);
+    if (!object) throw notFound('Object', objectId);
+    object.ingested = object.contentType.startsWith('text/');
+    return {
+      objectId,
+      workflowId: `fake-workflow-${crypto.randomUUID()}`,
+      status: 'completed',
+      message: object.ingested
+        ? 'Text indexed for keyword-overlap search'
+        : 'Ingestion of non-text files is a no-op in the Case.dev stand-in',
+    };
+  }
+
+  async searchVault(
+    vaultId: string,
+    params: { query: string; method?: 'hybrid' | 'fast' | 'global' | 'local'; topK?: number }
+  ): Promise<SearchResponse> {
+    const ingested = [...getState().objects.values()].filter(o => o.vaultId === vaultId && o.ingested);
+
+    const chunks: SearchResponse['chunks'] = [];
+    for (const object of ingested) {
+      const text = await fs.readFile(getFakeObjectPath(object.id), 'utf8').catch(() => '');
+      for (const [chunkIndex, chunkText] of chunkFakeText(text).entries()) {
+        const score = scoreFakeChunk(params.query, chunkText);
+        if (score > 0) {
+          chunks.push({
+            text: chunkText,
+            object_id: object.id,
+            chunk_index: chunkIndex,
+            hybridScore: score,
+            vectorScore: score,
+            bm25Score: score,
+          });
+        }
+      }
+    }
+
+    chunks.sort((a, b) => b.hybridScore - a.hybridScore);
+    const top = chunks.slice(0, params.topK ?? 10);
+    const sourceIds = [...new Set(top.map(c => c.object_id))];
+
+    return {
+      method: params.method || 'hybrid',
+      query: params.query,
+      chunks: top,
+      sources: sourceIds.map(id => ({ id, filename: getState().objects.get(id)!.filename })),
+    };
+  }
+
+  async getObject(vaultId: string, objectId: string): Promise<VaultObjectResponse> {
+    const object = getState().objects.get(objectId);
+    if (!object) throw notFound('Object', objectId);
+
+    return {
+      id: object.id,
+      filename: object.filename,
+      contentType: object.contentType,
+      sizeBytes: object.sizeBytes,
+      downloadUrl: getFakeObjectUrl(objectId),
+      expiresIn: 3600,
+      ingestionStatus: 'completed',
+    };
+  }
+
+  async getObjectText(vaultId: string, objectId: string): Promise<ObjectTextResponse> {
+    const object = getState().objects.get(objectId);
+    if (!object) throw notFound('Object', objectId);
+    const text = object.contentType.startsWith('text/')
+      ? await fs.readFile(getFakeObjectPath(objectId), 'utf8').catch(() => '')
+      : '';
+    return { objectId, filename: object.filename, text, textLength: text.length };
+  }
+
+  async listObjects(
+    vaultId: string,
+    params: { limit?: number; offset?: number } = {}
+  ): Promise<VaultObjectListResponse> {
+    const all = [...getState().objects.values()].filter(o => o.vaultId === vaultId);
+    const offset = params.offset ?? 0;
+    const objects = all
+      .slice(offset, params.limit === undefined ? undefined : offset + params.limit)
+      .map(o => ({
+        id: o.id,
+        filename: o.filename,
+        contentType: o.contentType,
+        sizeBytes: o.sizeBytes,
+        createdAt: o.createdAt,
+      }));
+    return { objects, total: all.length };
+  }
+
+  async deleteObject(vaultId: string, objectId: string): Promise<void> {
+    const object = getState().objects.get(objectId);
+    if (!object || object.vaultId !== vaultId) throw notFound('Object', objectId);
+
+    getState().objects.delete(objectId);
+    await fs.rm(getFakeObjectPath(objectId), { force: true });
+  }
+}
@@ -1,10 +1,17 @@
 /**
  * Case.dev API Client
  * Handles interactions with Convert, Voice, and Vaults APIs
+ *
+ * The app talks to a `CaseDevProvider`. `CASEDEV_PROVIDER=fake` swaps the
+ * HTTP client for an in-process stand-in (see casedev-fake.ts) so the
+ * pipeline can run offline.
  */
 
+import { FakeCaseDevProvider } from '@/lib/casedev-fake';
+
 const CASEDEV_API_KEY = process.env.CASEDEV_API_KEY;
-const CASEDEV_BASE_URL = 'https://api.case.dev';
+const CASEDEV_BASE_URL = process.env.CASEDEV_BASE_URL || 'https://api.case.dev';
+const CASEDEV_PROVIDER = process.env.CASEDEV_PROVIDER || 'casedev';
 
 interface ConvertJobResponse {
   id: string;
@@ -23,12 +30,22 @@ interface ConvertJobResponse {
   error?: string;
 }
 
+interface TranscriptionWord {
+  text: string;
+  start: number; // milliseconds
+  end: number;
+  confidence?: number;
+  speaker?: string | null;
+}
+
 interface TranscriptionJobResponse {
   id: string;
   status: 'queued' | 'processing' | 'completed' | 'error';
   audio_url: string;
   audio_duration?: number;
   confidence?: number; // Overall transcription confidence (0-1)
+  language_code?: string; // Requested or detected language
+  language_confidence?: number; // Detection confidence (0-1) when language_detection was on
   text?: string;
   utterances?: Array<{
     speaker: string;
@@ -36,7 +53,10 @@ interface TranscriptionJobResponse {
     start: number; // milliseconds
     end: number;
     confidence?: number; // Per-utterance confidence when available
+    language_code?: string; // Per-utterance language when the speakers switch languages
+    words?: TranscriptionWord[];
   }>;
+  words?: TranscriptionWord[]; // Word-level timings for the whole transcript
   chapters?: Array<{
     headline: string;
     summary: string;
@@ -47,6 +67,20 @@ interface TranscriptionJobResponse {
   error?: string;
 }
 
+interface CreateTranscriptionParams {
+  audio_url: string;
+  audio_start_from?: number; // Transcribe only from this offset (ms); result times are relative to it
+  audio_end_at?: number; // ...up to this offset (ms)
+  speaker_labels?: boolean;
+  speakers_expected?: number;
+  language_code?: string;
+  language_detection?: boolean; // Detect the spoken language instead of using language_code
+  auto_chapters?: boolean;
+  webhook_url?: string;
+  word_boost?: string[];
+  summarization?: boolean;
+}
+
 interface VaultResponse {
   id: string;
   name: string;
@@ -68,6 +102,20 @@ interface UploadUrlResponse {
   };
 }
 
+interface MultipartUploadResponse {
+  objectId: string;
+  uploadId: string;
+}
+
+interface UploadPartUrlResponse {
+  uploadUrl: string;
+  expiresIn: number;
+  instructions: {
+    method: string;
+    headers: Record<string, string>;
+  };
+}
+
 interface SearchResult {
   text: string;
   object_id: string;
@@ -88,7 +136,111 @@ interface SearchResponse {
   }>;
 }
 
-class CaseDevClient {
+interface VaultObjectResponse {
+  id: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  downloadUrl: string;
+  expiresIn: number;
+  ingestionStatus: string;
+}
+
+interface VaultObjectSummary {
+  id: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+interface VaultObjectListResponse {
+  objects: VaultObjectSummary[];
+  total: number;
+}
+
+interface IngestResponse {
+  objectId: string;
+  workflowId: string;
+  status: string;
+  message: string;
+}
+
+interface ObjectTextResponse {
+  objectId: string;
+  filename: string;
+  text: string;
+  textLength: number;
+}
+
+/**
+ * Operations the app needs from Case.dev (Convert, Voice and Vaults)
+ */
+interface CaseDevProvider {
+  // Convert
+  convertFTR(
+    sourceUrl: string,
+    webhookUrl?: string,
+    options?: { preserve_channels?: boolean; output_format?: string }
+  ): Promise<ConvertJobResponse>;
+  getConvertJob(jobId: string): Promise<ConvertJobResponse>;
+  cancelConvertJob(jobId: string): Promise<void>;
+
+  // Voice
+  createTranscription(params: CreateTranscriptionParams): Promise<TranscriptionJobResponse>;
+  getTranscription(jobId: string): Promise<TranscriptionJobResponse>;
+  cancelTranscription(jobId: string): Promise<void>;
+
+  // Vaults
+  createVault(params: { name: string; description?: string; enableGraph?: boolean }): Promise<VaultResponse>;
+  listVaults(): Promise<{ vaults: VaultResponse[]; total: number }>;
+  getUploadUrl(
+    vaultId: string,
+    params: {
+      filename: string;
+      contentType: string;
+      metadata?: Record<string, unknown>;
+      auto_index?: boolean;
+    }
+  ): Promise<UploadUrlResponse>;
+  // Multipart uploads: parts go straight to storage through presigned part URLs
+  createMultipartUpload(
+    vaultId: string,
+    params: {
+      filename: string;
+      contentType: string;
+      metadata?: Record<string, unknown>;
+      auto_index?: boolean;
+    }
+  ): Promise<MultipartUploadResponse>;
+  getUploadPartUrl(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; partNumber: number; checksumSha256?: string }
+  ): Promise<UploadPartUrlResponse>;
+  completeMultipartUpload(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; parts: Array<{ partNumber: number; etag: string; checksumSha256?: string }> }
+  ): Promise<void>;
+  abortMultipartUpload(vaultId: string, objectId: string, uploadId: string): Promise<void>;
+  ingestFile(vaultId: string, objectId: string): Promise<IngestResponse>;
+  searchVault(
+    vaultId: string,
+    params: {
+      query: string;
+      method?: 'hybrid' | 'fast' | 'global' | 'local';
+      topK?: number;
+      filters?: Record<string, unknown>;
+    }
+  ): Promise<SearchResponse>;
+  getObject(vaultId: string, objectId: string): Promise<VaultObjectResponse>;
+  getObjectText(vaultId: string, objectId: string): Promise<ObjectTextResponse>;
+  listObjects(vaultId: string, params?: { limit?: number; offset?: number }): Promise<VaultObjectListResponse>;
+  deleteObject(vaultId: string, objectId: string): Promise<void>;
+}
+
+class CaseDevClient implements CaseDevProvider {
   private apiKey: string;
   private baseUrl: string;
 
@@ -176,20 +328,21 @@ class CaseDevClient {
     return this.request<ConvertJobResponse>(`/convert/v1/jobs/${jobId}`);
   }
 
+  /**
+   * Cancel a conversion job that has not finished
+   */
+  async cancelConvertJob(jobId: string): Promise<void> {
+    await this.request(`/convert/v1/jobs/${jobId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // ============ VOICE API ============
 
   /**
    * Create transcription job
    */
-  async createTranscription(params: {
-    audio_url: string;
-    speaker_labels?: boolean;
-    language_code?: string;
-    auto_chapters?: boolean;
-    webhook_url?: string;
-    word_boost?: string[];
-    summarization?: boolean;
-  }): Promise<TranscriptionJobResponse> {
+  async createTranscription(params: CreateTranscriptionParams): Promise<TranscriptionJobResponse> {
     return this.request<TranscriptionJobResponse>('/voice/transcription', {
       method: 'POST',
       body: JSON.stringify(params),
@@ -203,6 +356,15 @@ class CaseDevClient {
     return this.request<TranscriptionJobResponse>(`/voice/transcription/${jobId}`);
   }
 
+  /**
+   * Cancel a transcription job that has not finished
+   */
+  async cancelTranscription(jobId: string): Promise<void> {
+    await this.request(`/voice/transcription/${jobId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // ============ VAULTS API ============
 
   /**
@@ -244,15 +406,67 @@ class CaseDevClient {
     });
   }
 
+  /**
+   * Start a multipart upload; the object exists once it is completed
+   */
+  async createMultipartUpload(
+    vaultId: string,
+    params: {
+      filename: string;
+      contentType: string;
+      metadata?: Record<string, unknown>;
+      auto_index?: boolean;
+    }
+  ): Promise<MultipartUploadResponse> {
+    return this.request<MultipartUploadResponse>(`/vault/${vaultId}/multipart`, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Presigned URL for one part of a multipart upload. With `checksumSha256`
+   * (base64), storage rejects a part whose bytes do not match.
+   */
+  async getUploadPartUrl(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; partNumber: number; checksumSha256?: string }
+  ): Promise<UploadPartUrlResponse> {
+    return this.request<UploadPartUrlResponse>(`/vault/${vaultId}/multipart/${objectId}/parts`, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Assemble the uploaded parts into the object. With a part's `checksumSha256`
+   * (base64), storage refuses to complete if the stored part does not match.
+   */
+  async completeMultipartUpload(
+    vaultId: string,
+    objectId: string,
+    params: { uploadId: string; parts: Array<{ partNumber: number; etag: string; checksumSha256?: string }> }
+  ): Promise<void> {
+    await this.request(`/vault/${vaultId}/multipart/${objectId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Abandon a multipart upload and discard its parts
+   */
+  async abortMultipartUpload(vaultId: string, objectId: string, uploadId: string): Promise<void> {
+    await this.request(`/vault/${vaultId}/multipart/${objectId}?uploadId=${encodeURIComponent(uploadId)}`, {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * Trigger ingestion for an uploaded file
    */
-  async ingestFile(vaultId: string, objectId: string): Promise<{
-    objectId: string;
-    workflowId: string;
-    status: string;
-    message: string;
-  }> {
+  async ingestFile(vaultId: string, objectId: string): Promise<IngestResponse> {
     return this.request(`/vault/${vaultId}/ingest/${objectId}`, {
       method: 'POST',
     });
@@ -279,40 +493,72 @@ class CaseDevClient {
   /**
    * Get object details including download URL
    */
-  async getObject(vaultId: string, objectId: string): Promise<{
-    id: string;
-    filename: string;
-    contentType: string;
-    sizeBytes: number;
-    downloadUrl: string;
-    expiresIn: number;
-    ingestionStatus: string;
-  }> {
+  async getObject(vaultId: string, objectId: string): Promise<VaultObjectResponse> {
     return this.request(`/vault/${vaultId}/objects/${objectId}`);
   }
 
   /**
    * Get extracted text from an object
    */
-  async getObjectText(vaultId: string, objectId: string): Promise<{
-    objectId: string;
-    filename: string;
-    text: string;
-    textLength: number;
-  }> {
+  async getObjectText(vaultId: string, objectId: string): Promise<ObjectTextResponse> {
     return this.request(`/vault/${vaultId}/objects/${objectId}/text`);
   }
+
+  /**
+   * List the objects stored in a vault, one page at a time (`total` counts all of them)
+   */
+  async listObjects(
+    vaultId: string,
+    params: { limit?: number; offset?: number } = {}
+  ): Promise<VaultObjectListResponse> {
+    const query = new URLSearchParams();
+    if (params.limit !== undefined) query.set('limit', String(params.limit));
+    if (params.offset !== undefined) query.set('offset', String(params.offset));
+    const search = query.toString();
+    return this.request(`/vault/${vaultId}/objects${search ? `?${search}` : ''}`);
+  }
+
+  /**
+   * Permanently delete an object from a vault
+   */
+  async deleteObject(vaultId: string, objectId: string): Promise<void> {
+    await this.request(`/vault/${vaultId}/objects/${objectId}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
+function createProvider(): CaseDevProvider {
+  if (CASEDEV_PROVIDER === 'fake') {
+    console.warn('CASEDEV_PROVIDER=fake - using the in-process Case.dev stand-in');
+    return new FakeCaseDevProvider();
+  }
+  return new CaseDevClient();
 }
 
 // Export singleton instance
-export const casedev = new CaseDevClient();
+export const casedev: CaseDevProvider = createProvider();
+
+export const isFakeCaseDev = CASEDEV_PROVIDER === 'fake';
+
+export { CaseDevClient };
 
 // Export types
 export type {
+  CaseDevProvider,
   ConvertJobResponse,
   TranscriptionJobResponse,
+  TranscriptionWord,
+  CreateTranscriptionParams,
   VaultResponse,
   UploadUrlResponse,
+  MultipartUploadResponse,
+  UploadPartUrlResponse,
+  VaultObjectResponse,
+  VaultObjectSummary,
+  VaultObjectListResponse,
+  IngestResponse,
+  ObjectTextResponse,
   SearchResult,
   SearchResponse,
 };
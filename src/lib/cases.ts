@@ -0,0 +1,320 @@
+/**
+ * Cases
+ *
+ * A case groups the recordings of one matter and holds what they share: the
+ * caption, court, judge, parties and counsel, and default transcription
+ * settings for new uploads. Recordings link to a case by `caseId`; their
+ * `caseNumber` and `courtName` columns follow the case, so vocabulary lists
+ * and exports keyed on the case number keep working. Recordings uploaded
+ * before the case was created are linked by matching case number.
+ */
+
+import { db, cases, recordings, transcripts, utterances, type DbExecutor } from '@/lib/db';
+import type { Case, Recording } from '@/lib/db/schema';
+import {
+  exportRecordingTranscript,
+  type ExportFormat,
+  type ExportOptions,
+} from '@/lib/transcript-export';
+import { createZip } from '@/lib/zip';
+import {
+  parseRecordingSettings,
+  transcriptionSettingsSchema,
+  type TranscriptionSettings,
+} from '@/lib/transcription-settings';
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Page estimate for totals: a court transcript page holds 25 lines of about 60 characters
+const LINES_PER_PAGE = 25;
+const CHARS_PER_LINE = 60;
+
+export const MAX_CASE_PARTIES = 100;
+
+const partySchema = z.object({
+  name: z.string().trim().min(1, 'Party name is required').max(255, 'Party name too long'),
+  role: z.string().trim().max(100, 'Party role too long').optional().default(''),
+});
+
+const counselSchema = z.object({
+  name: z.string().trim().min(1, 'Counsel name is required').max(255, 'Counsel name too long'),
+  firm: z.string().trim().max(255, 'Firm name too long').optional().default(''),
+  represents: z.string().trim().max(255, 'Represented party too long').optional().default(''),
+});
+
+export type CaseParty = z.infer<typeof partySchema>;
+export type CaseCounsel = z.infer<typeof counselSchema>;
+
+export const createCaseSchema = z.object({
+  caseNumber: z.string().trim().min(1, 'Case number is required').max(100, 'Case number too long'),
+  caption: z.string().trim().max(500, 'Caption too long').optional().nullable(),
+  courtName: z.string().trim().max(255, 'Court name too long').optional().nullable(),
+  judge: z.string().trim().max(255, 'Judge name too long').optional().nullable(),
+  parties: z.array(partySchema).max(MAX_CASE_PARTIES, `At most ${MAX_CASE_PARTIES} parties`).optional(),
+  counsel: z.array(counselSchema).max(MAX_CASE_PARTIES, `At most ${MAX_CASE_PARTIES} counsel`).optional(),
+  // Defaults for recordings uploaded to the case; null clears them
+  settings: transcriptionSettingsSchema.optional().nullable(),
+});
+
+export const updateCaseSchema = createCaseSchema.partial();
+
+export interface CaseResponse {
+  id: string;
+  caseNumber: string;
+  caption: string | null;
+  courtName: string | null;
+  judge: string | null;
+  parties: CaseParty[];
+  counsel: CaseCounsel[];
+  settings: TranscriptionSettings | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function parseList<T>(json: string, schema: z.ZodType<T>): T[] {
+  try {
+    const items = JSON.parse(json);
+    if (!Array.isArray(items)) return [];
+    return items.flatMap(item => {
+      const parsed = schema.safeParse(item);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function toCaseResponse(caseRecord: Case): CaseResponse {
+  return {
+    id: caseRecord.id,
+    caseNumber: caseRecord.caseNumber,
+    caption: caseRecord.caption,
+    courtName: caseRecord.courtName,
+    judge: caseRecord.judge,
+    parties: parseList(caseRecord.partiesJson, partySchema),
+    counsel: parseList(caseRecord.counselJson, counselSchema),
+    settings: caseRecord.settingsJson ? parseRecordingSettings(caseRecord.settingsJson) : null,
+    createdAt: caseRecord.createdAt,
+    updatedAt: caseRecord.updatedAt,
+  };
+}
+
+/**
+ * Find a case by its number (ignoring case and surrounding whitespace)
+ */
+export async function findCaseByNumber(
+  caseNumber: string,
+  executor: DbExecutor = db
+): Promise<Case | undefined> {
+  const [found] = await executor
+    .select()
+    .from(cases)
+    .where(sql`lower(${cases.caseNumber}) = lower(${caseNumber.trim()})`)
+    .limit(1);
+  return found;
+}
+
+// ============ RECORDING LINKS ============
+
+/**
+ * Link recordings that carry the case's number but no case yet
+ */
+export async function linkRecordingsByCaseNumber(
+  caseRecord: Case,
+  executor: DbExecutor = db
+): Promise<number> {
+  const linked = await executor
+    .update(recordings)
+    .set({ caseId: caseRecord.id, updatedAt: new Date() })
+    .where(and(
+      isNull(recordings.caseId),
+      sql`lower(trim(${recordings.caseNumber})) = lower(${caseRecord.caseNumber})`
+    ))
+    .returning({ id: recordings.id });
+
+  await syncCaseRecordings(caseRecord, executor);
+  return linked.length;
+}
+
+/**
+ * Copy the case number and court onto the case's recordings. A case without
+ * a court leaves the recordings' courts alone.
+ */
+export async function syncCaseRecordings(
+  caseRecord: Case,
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor
+    .update(recordings)
+    .set({
+      caseNumber: caseRecord.caseNumber,
+      courtName: caseRecord.courtName ?? sql`${recordings.courtName}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(recordings.caseId, caseRecord.id));
+}
+
+/**
+ * Case metadata for a recording linked to `caseRecord` (the recording keeps
+ * its own court if the case has none)
+ */
+export function getCaseRecordingValues(
+  caseRecord: Case
+): Pick<Recording, 'caseId' | 'caseNumber'> & Partial<Pick<Recording, 'courtName'>> {
+  return {
+    caseId: caseRecord.id,
+    caseNumber: caseRecord.caseNumber,
+    ...(caseRecord.courtName && { courtName: caseRecord.courtName }),
+  };
+}
+
+// ============ CASE RECORDINGS ============
+
+export interface CaseRecordingSummary {
+  id: string;
+  filename: string;
+  recordingDate: string | null;
+  status: string;
+  durationSeconds: number | null;
+  estimatedPages: number;
+  createdAt: Date;
+}
+
+export interface CaseTotals {
+  recordings: number;
+  durationSeconds: number;
+  estimatedPages: number;
+  statusCounts: Record<string, number>;
+}
+
+/**
+ * The case's recordings in the order they were recorded (undated ones last,
+ * by upload time)
+ */
+export async function getCaseRecordings(caseId: string): Promise<Recording[]> {
+  return db.query.recordings.findMany({
+    where: eq(recordings.caseId, caseId),
+    orderBy: [sql`${recordings.recordingDate} asc nulls last`, asc(recordings.createdAt)],
+  });
+}
+
+/**
+ * Estimated transcript pages per recording, from the active transcript's text
+ */
+export async function estimateTranscriptPages(recordingIds: string[]): Promise<Map<string, number>> {
+  if (recordingIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      recordingId: transcripts.recordingId,
+      lines: sql<number>`sum(ceil(length(${utterances.text})::numeric / ${CHARS_PER_LINE}) + 1)`.mapWith(Number),
+    })
+    .from(utterances)
+    .innerJoin(transcripts, eq(utterances.transcriptId, transcripts.id))
+    .where(and(inArray(transcripts.recordingId, recordingIds), eq(transcripts.isActive, true)))
+    .groupBy(transcripts.recordingId);
+
+  return new Map(rows.map(row => [row.recordingId, Math.ceil(row.lines / LINES_PER_PAGE)]));
+}
+
+/**
+ * Chronological recordings of a case with page estimates, and their totals
+ */
+export async function getCaseRecordingSummaries(
+  caseId: string
+): Promise<{ recordings: CaseRecordingSummary[]; totals: CaseTotals }> {
+  const caseRecordings = await getCaseRecordings(caseId);
+  const pages = await estimateTranscriptPages(caseRecordings.map(r => r.id));
+
+  const summaries = caseRecordings.map(recording => ({
+    id: recording.id,
+    filename: recording.filename,
+    recordingDate: recording.recordingDate,
+    status: recording.status,
+    durationSeconds: recording.durationSeconds,
+    estimatedPages: pages.get(recording.id) ?? 0,
+    createdAt: recording.createdAt,
+  }));
+
+  const statusCounts: Record<string, number> = {};
+  for (const summary of summaries) {
+    statusCounts[summary.status] = (statusCounts[summary.status] ?? 0) + 1;
+  }
+
+  return {
+    recordings: summaries,
+    totals: {
+      recordings: summaries.length,
+      durationSeconds: summaries.reduce((sum, s) => sum + (s.durationSeconds ?? 0), 0),
+      estimatedPages: summaries.reduce((sum, s) => sum + s.estimatedPages, 0),
+      statusCounts,
+    },
+  };
+}
+
+/**
+ * Number of recordings and total duration for each case, for the case list
+ */
+export async function getCaseRecordingCounts(): Promise<Map<string, { recordings: number; durationSeconds: number }>> {
+  const rows = await db
+    .select({
+      caseId: recordings.caseId,
+      recordings: sql<number>`count(*)`.mapWith(Number),
+      durationSeconds: sql<number>`coalesce(sum(${recordings.durationSeconds}), 0)`.mapWith(Number),
+    })
+    .from(recordings)
+    .where(sql`${recordings.caseId} is not null`)
+    .groupBy(recordings.caseId);
+
+  return new Map(rows.map(row => [row.caseId as string, {
+    recordings: row.recordings,
+    durationSeconds: row.durationSeconds,
+  }]));
+}
+
+// ============ BULK EXPORT ============
+
+export interface CaseExport {
+  filename: string;
+  data: Buffer;
+  exported: number;
+  skipped: number;
+}
+
+/**
+ * Export the transcripts of the given case recordings (all of them by
+ * default) into one ZIP archive, numbered in chronological order.
+ * Recordings without a transcript are skipped; null if none has one.
+ */
+export async function exportCaseTranscripts(
+  caseRecord: Case,
+  format: ExportFormat,
+  options: ExportOptions,
+  recordingIds?: string[]
+): Promise<CaseExport | null> {
+  const selected = (await getCaseRecordings(caseRecord.id))
+    .filter(recording => !recordingIds || recordingIds.includes(recording.id));
+
+  const entries = [];
+  for (const recording of selected) {
+    const exported = await exportRecordingTranscript(recording, format, options);
+    if (!exported) continue;
+
+    const position = String(entries.length + 1).padStart(2, '0');
+    const datePrefix = recording.recordingDate ? `${recording.recordingDate}-` : '';
+    entries.push({
+      name: `${position}-${datePrefix}${exported.filename}`,
+      data: exported.data,
+      modifiedAt: recording.updatedAt,
+    });
+  }
+
+  if (entries.length === 0) return null;
+
+  return {
+    filename: `${caseRecord.caseNumber.replace(/[^a-zA-Z0-9-]/g, '_')}-transcripts.zip`,
+    data: createZip(entries),
+    exported: entries.length,
+    skipped: selected.length - entries.length,
+  };
+}
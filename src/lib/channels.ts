@@ -0,0 +1,129 @@
+/**
+ * Recording Channels
+ *
+ * FTR recordings keep each courtroom microphone (judge, witness, counsel…) on
+ * its own channel. When a recording is set to preserve channels, each channel
+ * is transcribed separately and its utterances are attributed to a per-channel
+ * speaker ("CH1", "CH2", …) that can be labeled like any other speaker.
+ */
+
+import { db, recordingChannels, speakerLabels, type DbExecutor } from '@/lib/db';
+import type { RecordingChannel } from '@/lib/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MAX_CHANNELS = 16;
+
+/**
+ * Speaker ID used for utterances from a channel (0-based index)
+ */
+export function getChannelSpeakerId(channelIndex: number): string {
+  return `CH${channelIndex + 1}`;
+}
+
+/**
+ * Get the channels of a recording in channel order
+ */
+export async function getRecordingChannels(
+  recordingId: string,
+  executor: DbExecutor = db
+): Promise<RecordingChannel[]> {
+  return executor.query.recordingChannels.findMany({
+    where: eq(recordingChannels.recordingId, recordingId),
+    orderBy: [asc(recordingChannels.channelIndex)],
+  });
+}
+
+/**
+ * Find the channel a transcription job was submitted for
+ */
+export async function findChannelByTranscriptionJob(
+  transcriptionJobId: string,
+  executor: DbExecutor = db
+): Promise<RecordingChannel | undefined> {
+  return executor.query.recordingChannels.findFirst({
+    where: eq(recordingChannels.transcriptionJobId, transcriptionJobId),
+  });
+}
+
+/**
+ * Replace a recording's channels with the Convert API's per-channel outputs
+ */
+export async function replaceRecordingChannels(
+  recordingId: string,
+  audioUrls: string[],
+  executor: DbExecutor = db
+): Promise<RecordingChannel[]> {
+  const now = new Date();
+
+  await executor.delete(recordingChannels).where(eq(recordingChannels.recordingId, recordingId));
+
+  return executor.insert(recordingChannels).values(
+    audioUrls.slice(0, MAX_CHANNELS).map((audioUrl, channelIndex) => ({
+      id: uuidv4(),
+      recordingId,
+      channelIndex,
+      audioUrl,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    }))
+  ).returning();
+}
+
+/**
+ * Update a channel's transcription state
+ */
+export async function updateChannelTranscription(
+  recordingId: string,
+  channelIndex: number,
+  values: { transcriptionJobId?: string; status: 'transcribing' | 'transcribed' },
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor
+    .update(recordingChannels)
+    .set({ ...values, updatedAt: new Date() })
+    .where(and(
+      eq(recordingChannels.recordingId, recordingId),
+      eq(recordingChannels.channelIndex, channelIndex)
+    ));
+}
+
+/**
+ * Store speaker labels for channel speakers, e.g. ['Judge', 'Witness', 'Counsel']
+ */
+export async function saveChannelLabels(
+  recordingId: string,
+  labels: string[],
+  executor: DbExecutor = db
+): Promise<void> {
+  const now = new Date();
+  const entries = labels
+    .slice(0, MAX_CHANNELS)
+    .map((label, channelIndex) => ({ label: label.trim(), speakerId: getChannelSpeakerId(channelIndex) }))
+    .filter(entry => entry.label);
+
+  for (const entry of entries) {
+    const existing = await executor.query.speakerLabels.findFirst({
+      where: and(
+        eq(speakerLabels.recordingId, recordingId),
+        eq(speakerLabels.speakerId, entry.speakerId)
+      ),
+    });
+
+    if (existing) {
+      await executor
+        .update(speakerLabels)
+        .set({ label: entry.label })
+        .where(eq(speakerLabels.id, existing.id));
+    } else {
+      await executor.insert(speakerLabels).values({
+        id: uuidv4(),
+        recordingId,
+        speakerId: entry.speakerId,
+        label: entry.label,
+        createdAt: now,
+      });
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Chunked Uploads
+ *
+ * Large recordings are uploaded in fixed-size parts so a dropped connection
+ * only costs the part in flight. Creating the recording starts a multipart
+ * upload in the Case.dev vault; the browser asks for a presigned URL per part
+ * and sends the part straight to storage, which checks it against the SHA-256
+ * the URL was signed for. The app never handles the bytes. The `upload_parts`
+ * table records the digest each URL was signed for and, once the part
+ * arrives, the ETag storage returned, so an upload can be resumed by
+ * recording ID. A part reported with any other digest is refused.
+ *
+ * Finalizing checks that every part is present, the total size matches the
+ * declared file size and the upload checksum matches, then queues a
+ * 'finalize' job. The job completes the multipart upload (storage checks each
+ * part against its signed digest again), checks the assembled file's size,
+ * reads its media headers from the vault (see media-probe.ts) and marks the
+ * recording 'uploaded'; a file of the wrong size or whose headers cannot be
+ * read fails the recording.
+ *
+ * The upload checksum is the SHA-256 of the concatenated binary part digests,
+ * so the browser can compute it part by part without hashing the whole file.
+ *
+ * Browsers read each part's ETag from the storage response, so the storage
+ * bucket's CORS rules must expose the ETag header.
+ */
+
+import { db, recordings, uploadParts } from '@/lib/db';
+import type { Job, Recording, UploadPart } from '@/lib/db/schema';
+import { casedev } from '@/lib/casedev';
+import { enqueueJob, findActiveJob } from '@/lib/jobs';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { probeRecordingUpload } from '@/lib/media-probe';
+import { and, asc, eq, isNotNull } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+
+// 8 MB parts: small enough to retry cheaply, large enough to keep request counts sane
+// (and above the 5 MB minimum storage allows for every part but the last)
+export const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+// Largest file accepted for a chunked upload (a full-day multi-channel FTR session)
+export const MAX_CHUNKED_UPLOAD_BYTES = 20 * 1024 * 1024 * 1024;
+
+export type FinalizeUploadResult =
+  | { success: true; job: Job }
+  | { success: false; error: string };
+
+export type PartUploadUrlResult =
+  | { success: true; uploadUrl: string; headers: Record<string, string>; expiresIn: number }
+  | { success: false; error: string };
+
+export function getPartCount(fileSizeBytes: number, partSize: number): number {
+  return Math.ceil(fileSizeBytes / partSize);
+}
+
+function toBase64Digest(hexDigest: string): string {
+  return Buffer.from(hexDigest, 'hex').toString('base64');
+}
+
+/**
+ * Size the given part must have: the part size, except for a shorter last part
+ */
+export function getExpectedPartSize(recording: Recording, partNumber: number): number {
+  const partSize = recording.uploadPartSize!;
+  const partCount = getPartCount(recording.fileSizeBytes, partSize);
+  return partNumber < partCount
+    ? partSize
+    : recording.fileSizeBytes - partSize * (partCount - 1);
+}
+
+/**
+ * Upload checksum from the part digests, in part order
+ */
+export function computeUploadChecksum(partDigests: string[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const digest of partDigests) {
+    hash.update(Buffer.from(digest, 'hex'));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Parts received so far, in part order (not those only given an upload URL)
+ */
+export async function getUploadParts(recordingId: string): Promise<UploadPart[]> {
+  return db.query.uploadParts.findMany({
+    where: and(eq(uploadParts.recordingId, recordingId), isNotNull(uploadParts.etag)),
+    orderBy: [asc(uploadParts.partNumber)],
+  });
+}
+
+/**
+ * Why the recording cannot take parts right now, if it cannot
+ */
+async function getPartRejection(recording: Recording, partNumber: number): Promise<string | null> {
+  if (!recording.uploadPartSize) {
+    return 'Recording was not created for a chunked upload';
+  }
+  if (recording.status !== 'uploading' || !recording.uploadId || await findActiveJob(recording.id)) {
+    return 'Upload has already been finalized';
+  }
+
+  const partCount = getPartCount(recording.fileSizeBytes, recording.uploadPartSize);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount) {
+    return `Part number must be between 1 and ${partCount}`;
+  }
+  return null;
+}
+
+/**
+ * Presigned URL for uploading one part straight to storage. Storage rejects
+ * the part unless its bytes match the given hex SHA-256, which is recorded so
+ * the part can only be reported with that digest. Signing a part again
+ * replaces it.
+ */
+export async function getPartUploadUrl(
+  recording: Recording,
+  partNumber: number,
+  sha256: string
+): Promise<PartUploadUrlResult> {
+  const rejection = await getPartRejection(recording, partNumber);
+  if (rejection) {
+    return { success: false, error: rejection };
+  }
+
+  const digest = sha256.toLowerCase();
+  const response = await casedev.getUploadPartUrl(recording.vaultId!, recording.vaultObjectId!, {
+    uploadId: recording.uploadId!,
+    partNumber,
+    checksumSha256: toBase64Digest(digest),
+  });
+
+  const sizeBytes = getExpectedPartSize(recording, partNumber);
+  await db
+    .insert(uploadParts)
+    .values({
+      id: uuidv4(),
+      recordingId: recording.id,
+      partNumber,
+      sizeBytes,
+      sha256: digest,
+      etag: null,
+      createdAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [uploadParts.recordingId, uploadParts.partNumber],
+      set: { sizeBytes, sha256: digest, etag: null, createdAt: new Date() },
+    });
+
+  return {
+    success: true,
+    uploadUrl: response.uploadUrl,
+    headers: response.instructions?.headers ?? {},
+    expiresIn: response.expiresIn,
+  };
+}
+
+/**
+ * Record a part that storage accepted. Its digest must be the one its upload
+ * URL was signed for. Returns an error message if the part is rejected.
+ */
+export async function recordUploadPart(
+  recording: Recording,
+  partNumber: number,
+  params: { etag: string; sha256: string; sizeBytes: number }
+): Promise<{ part?: UploadPart; error?: string }> {
+  const rejection = await getPartRejection(recording, partNumber);
+  if (rejection) {
+    return { error: rejection };
+  }
+
+  const expectedSize = getExpectedPartSize(recording, partNumber);
+  if (params.sizeBytes !== expectedSize) {
+    return { error: `Part ${partNumber} must be ${expectedSize} bytes, got ${params.sizeBytes}` };
+  }
+
+  const signed = await db.query.uploadParts.findFirst({
+    where: and(eq(uploadParts.recordingId, recording.id), eq(uploadParts.partNumber, partNumber)),
+  });
+  if (!signed) {
+    return { error: `Part ${partNumber} has no upload URL` };
+  }
+  if (signed.sha256 !== params.sha256.toLowerCase()) {
+    return { error: `Checksum for part ${partNumber} does not match the one its upload URL was signed for` };
+  }
+
+  const [part] = await db
+    .update(uploadParts)
+    .set({ etag: params.etag, createdAt: new Date() })
+    .where(eq(uploadParts.id, signed.id))
+    .returning();
+
+  return { part };
+}
+
+/**
+ * Check the recorded parts and queue the job that completes the upload.
+ * Finalizing again while that job is queued returns the same job.
+ */
+export async function finalizeUpload(
+  recording: Recording,
+  checksum: string
+): Promise<FinalizeUploadResult> {
+  if (!recording.uploadPartSize) {
+    return { success: false, error: 'Recording was not created for a chunked upload' };
+  }
+  if (recording.status !== 'uploading' || !recording.uploadId) {
+    return { success: false, error: 'Upload has already been finalized' };
+  }
+
+  const activeJob = await findActiveJob(recording.id);
+  if (activeJob) {
+    return { success: true, job: activeJob };
+  }
+
+  const partCount = getPartCount(recording.fileSizeBytes, recording.uploadPartSize);
+  const parts = await getUploadParts(recording.id);
+
+  const missing: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!parts.some(p => p.partNumber === partNumber)) missing.push(partNumber);
+  }
+  if (missing.length > 0) {
+    return { success: false, error: `Missing ${missing.length} part(s): ${missing.slice(0, 10).join(', ')}` };
+  }
+
+  const totalSize = parts.reduce((sum, p) => sum + p.sizeBytes, 0);
+  if (totalSize !== recording.fileSizeBytes) {
+    return { success: false, error: `Uploaded ${totalSize} bytes, expected ${recording.fileSizeBytes}` };
+  }
+
+  if (computeUploadChecksum(parts.map(p => p.sha256)) !== checksum.toLowerCase()) {
+    return { success: false, error: 'Upload checksum does not match' };
+  }
+
+  const job = await enqueueJob({ recordingId: recording.id, type: 'finalize' });
+  return { success: true, job };
+}
+
+/**
+ * Complete the multipart upload, probe the assembled file and mark the
+ * recording 'uploaded' (run by the 'finalize' job). Safe to retry: an upload
+ * already completed is not completed again.
+ */
+export async function completeChunkedUpload(recording: Recording): Promise<void> {
+  // Deleted or cancelled while the job was queued
+  if (recording.status !== 'uploading') return;
+
+  const parts = await getUploadParts(recording.id);
+
+  if (recording.uploadId) {
+    await casedev.completeMultipartUpload(recording.vaultId!, recording.vaultObjectId!, {
+      uploadId: recording.uploadId,
+      parts: parts.map(p => ({
+        partNumber: p.partNumber,
+        etag: p.etag!,
+        checksumSha256: toBase64Digest(p.sha256),
+      })),
+    });
+
+    [recording] = await db
+      .update(recordings)
+      .set({ uploadId: null, updatedAt: new Date() })
+      .where(eq(recordings.id, recording.id))
+      .returning();
+  }
+
+  const object = await casedev.getObject(recording.vaultId!, recording.vaultObjectId!);
+  if (object.sizeBytes !== recording.fileSizeBytes) {
+    await transitionRecordingStatus(recording.id, 'failed', {
+      actor: 'pipeline',
+      reason: `Upload rejected: assembled file is ${object.sizeBytes} bytes, expected ${recording.fileSizeBytes}`,
+      from: ['uploading'],
+    });
+    await db.delete(uploadParts).where(eq(uploadParts.recordingId, recording.id));
+    return;
+  }
+
+  // A file that cannot be read fails the recording there; the parts arrived intact,
+  // so uploading them again would not help
+  const probe = await probeRecordingUpload(recording, 'pipeline');
+  if (!probe.success) {
+    await db.delete(uploadParts).where(eq(uploadParts.recordingId, recording.id));
+    return;
+  }
+
+  await transitionRecordingStatus(recording.id, 'uploaded', {
+    actor: 'pipeline',
+    reason: `Chunked upload of ${parts.length} part(s) finalized`,
+    from: ['uploading'],
+  });
+
+  await db.delete(uploadParts).where(eq(uploadParts.recordingId, recording.id));
+
+  console.log(`Chunked upload finalized for recording ${recording.id} (${parts.length} parts, ${recording.fileSizeBytes} bytes)`);
+}
+
+/**
+ * Abandon an unfinished multipart upload so storage drops its parts (when the
+ * recording is deleted). Best effort: storage expires abandoned uploads too.
+ */
+export async function abortChunkedUpload(recording: Recording): Promise<void> {
+  if (!recording.uploadId || !recording.vaultId || !recording.vaultObjectId) return;
+
+  try {
+    await casedev.abortMultipartUpload(recording.vaultId, recording.vaultObjectId, recording.uploadId);
+  } catch (error) {
+    console.warn(`Could not abort the chunked upload of recording ${recording.id}:`, error);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Converted Audio
+ *
+ * The Convert API returns presigned output URLs that expire after an hour.
+ * The first transcription of a converted FTR recording copies the converted
+ * audio (or each channel's audio) into the recording's vault, and everything
+ * after that - retries, re-transcribing a passage - asks the vault for a fresh
+ * download URL instead of reusing the Convert API's URL.
+ */
+
+import { db, recordingChannels, recordings, type DbExecutor } from '@/lib/db';
+import type { Recording } from '@/lib/db/schema';
+import { casedev } from '@/lib/casedev';
+import { getContentType } from '@/lib/media-types';
+import { queueVaultDeletions } from '@/lib/vault-cleanup';
+import { and, eq, isNotNull } from 'drizzle-orm';
+
+/**
+ * Vault copy of the converted audio, or of one channel's audio
+ */
+async function getStoredObjectId(recordingId: string, channelIndex: number | null): Promise<string | null> {
+  if (channelIndex === null) {
+    const recording = await db.query.recordings.findFirst({
+      where: eq(recordings.id, recordingId),
+      columns: { convertedObjectId: true },
+    });
+    return recording?.convertedObjectId ?? null;
+  }
+
+  const channel = await db.query.recordingChannels.findFirst({
+    where: and(
+      eq(recordingChannels.recordingId, recordingId),
+      eq(recordingChannels.channelIndex, channelIndex)
+    ),
+    columns: { objectId: true },
+  });
+  return channel?.objectId ?? null;
+}
+
+/**
+ * Stream a Convert API output into the recording's vault and remember the object
+ */
+async function copyToVault(recording: Recording, sourceUrl: string, channelIndex: number | null): Promise<string> {
+  const source = await fetch(sourceUrl);
+  if (!source.ok || !source.body) {
+    throw new Error(`Downloading converted audio failed: ${source.status} ${source.statusText}`);
+  }
+
+  const baseName = recording.filename.replace(/\.[^.]+$/, '');
+  const uploadResponse = await casedev.getUploadUrl(recording.vaultId!, {
+    filename: channelIndex === null ? `${baseName}.m4a` : `${baseName}.ch${channelIndex + 1}.m4a`,
+    contentType: getContentType('m4a'),
+    auto_index: false,
+    metadata: {
+      recording_id: recording.id,
+      converted_from: recording.vaultObjectId,
+      channel: channelIndex === null ? null : channelIndex + 1,
+    },
+  });
+
+  const contentLength = source.headers.get('content-length');
+  const response = await fetch(uploadResponse.uploadUrl, {
+    method: 'PUT',
+    headers: {
+      ...uploadResponse.instructions?.headers,
+      ...(contentLength && { 'Content-Length': contentLength }),
+    },
+    body: source.body,
+    // Required by Node's fetch for streamed request bodies
+    duplex: 'half',
+  } as RequestInit);
+
+  if (!response.ok) {
+    throw new Error(`Vault upload failed: ${response.status} ${response.statusText}`);
+  }
+
+  if (channelIndex === null) {
+    await db
+      .update(recordings)
+      .set({ convertedObjectId: uploadResponse.objectId, updatedAt: new Date() })
+      .where(eq(recordings.id, recording.id));
+  } else {
+    await db
+      .update(recordingChannels)
+      .set({ objectId: uploadResponse.objectId, updatedAt: new Date() })
+      .where(and(
+        eq(recordingChannels.recordingId, recording.id),
+        eq(recordingChannels.channelIndex, channelIndex)
+      ));
+  }
+
+  return uploadResponse.objectId;
+}
+
+/**
+ * Copy converted audio into the vault (unless an earlier attempt already did)
+ * and return a fresh download URL for the copy
+ */
+export async function storeConvertedAudio(
+  recording: Recording,
+  sourceUrl: string,
+  channelIndex: number | null = null
+): Promise<string> {
+  if (!recording.vaultId) {
+    throw new Error('Recording has no vault');
+  }
+
+  const objectId = await getStoredObjectId(recording.id, channelIndex)
+    ?? await copyToVault(recording, sourceUrl, channelIndex);
+
+  const objectInfo = await casedev.getObject(recording.vaultId, objectId);
+  return objectInfo.downloadUrl;
+}
+
+/**
+ * Fresh download URL for the converted audio, or for one channel's audio
+ */
+export async function getConvertedAudioUrl(
+  recording: Recording,
+  channelIndex: number | null = null
+): Promise<string> {
+  const objectId = recording.vaultId ? await getStoredObjectId(recording.id, channelIndex) : null;
+  if (!objectId) {
+    throw new Error(
+      channelIndex === null
+        ? 'Converted audio is not stored in the vault; process the recording again'
+        : `Audio of channel ${channelIndex + 1} is not stored in the vault; process the recording again`
+    );
+  }
+
+  const objectInfo = await casedev.getObject(recording.vaultId!, objectId);
+  return objectInfo.downloadUrl;
+}
+
+/**
+ * Vault copies of a recording's channel audio
+ */
+export async function getChannelObjectIds(recordingId: string, executor: DbExecutor = db): Promise<string[]> {
+  const channels = await executor.query.recordingChannels.findMany({
+    where: and(eq(recordingChannels.recordingId, recordingId), isNotNull(recordingChannels.objectId)),
+    columns: { objectId: true },
+  });
+  return channels.map(c => c.objectId!);
+}
+
+/**
+ * A new conversion replaces the stored copies: queue the old ones for deletion
+ */
+export async function discardConvertedAudio(recording: Recording, executor: DbExecutor = db): Promise<void> {
+  if (!recording.vaultId) return;
+
+  const objectIds = [
+    ...(recording.convertedObjectId ? [recording.convertedObjectId] : []),
+    ...await getChannelObjectIds(recording.id, executor),
+  ];
+  if (objectIds.length === 0) return;
+
+  await queueVaultDeletions(recording.vaultId, objectIds, { recordingId: recording.id, reason: 'superseded' }, executor);
+  await executor
+    .update(recordings)
+    .set({ convertedObjectId: null, updatedAt: new Date() })
+    .where(eq(recordings.id, recording.id));
+}
@@ -40,3 +40,7 @@ export const db = new Proxy({} as ReturnType<typeof drizzle<typeof schema>>, {
 
 // Export schema for use in queries
 export * from './schema';
+
+// The database or an open transaction, for helpers that can run inside either
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | Transaction;
@@ -1,13 +1,20 @@
-import { pgTable, text, integer, real, timestamp, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, bigint, real, boolean, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // Recordings table - tracks uploaded court recordings
 export const recordings = pgTable('recordings', {
   id: text('id').primaryKey(),
   filename: text('filename').notNull(),
   originalFormat: text('original_format').notNull(), // 'ftr', 'mp3', 'wav', etc.
-  fileSizeBytes: integer('file_size_bytes').notNull(),
+  fileSizeBytes: bigint('file_size_bytes', { mode: 'number' }).notNull(), // bigint: full-day FTR sessions exceed 2 GB
   durationSeconds: integer('duration_seconds'),
   
+  // Read from the file's headers after upload (media-probe.ts); null for FTR and WebM
+  durationMs: integer('duration_ms'),
+  sampleRate: integer('sample_rate'),
+  codec: text('codec'), // e.g. 'pcm_s16le', 'mp3', 'aac'
+  probedAt: timestamp('probed_at'),
+  
   // Case.dev references
   vaultId: text('vault_id'),
   vaultObjectId: text('vault_object_id'), // Original file
@@ -15,44 +22,162 @@ export const recordings = pgTable('recordings', {
   convertedAudioUrl: text('converted_audio_url'), // URL to play converted audio
   convertJobId: text('convert_job_id'),
   transcriptionJobId: text('transcription_job_id'),
+  settingsJson: text('settings_json'), // Transcription settings chosen for this recording (see transcription-settings.ts)
+  transcriptionSettingsJson: text('transcription_settings_json'), // Settings sent with the current transcription job
   
-  // Status tracking
-  // 'uploading' | 'converting' | 'transcribing' | 'completed' | 'failed'
+  // Status tracking - only changed through recording-status.ts
+  // 'uploading' | 'uploaded' | 'converting' | 'transcribing' | 'completed' | 'failed' | 'cancelled'
   status: text('status').notNull().default('uploading'),
   errorMessage: text('error_message'),
   
-  // Metadata
+  // Chunked uploads: part size in bytes (null for a single direct upload to the vault)
+  uploadPartSize: integer('upload_part_size'),
+  uploadId: text('upload_id'), // Vault multipart upload, until it is completed
+  
+  // Metadata (case number and court follow the linked case, see cases.ts)
+  caseId: text('case_id').references(() => cases.id, { onDelete: 'set null' }),
   caseNumber: text('case_number'),
   courtName: text('court_name'),
+  // Hearings split over several files are stitched into one proceeding, in position order
+  proceedingId: text('proceeding_id').references(() => proceedings.id, { onDelete: 'set null' }),
+  proceedingPosition: integer('proceeding_position'),
   recordingDate: text('recording_date'),
   
   // Channels info (for multi-channel FTR recordings)
   channelCount: integer('channel_count'),
+  preserveChannels: boolean('preserve_channels').notNull().default(false), // Transcribe each channel separately
   
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => [
   index('recordings_status_idx').on(table.status),
   index('recordings_case_number_idx').on(table.caseNumber),
+  index('recordings_case_id_idx').on(table.caseId),
+  index('recordings_proceeding_id_idx').on(table.proceedingId),
   index('recordings_created_at_idx').on(table.createdAt),
 ]);
 
+// Cases - a matter whose hearings are recorded; groups its recordings
+export const cases = pgTable('cases', {
+  id: text('id').primaryKey(),
+  caseNumber: text('case_number').notNull(),
+  caption: text('caption'), // e.g. "State v. Brown"
+  courtName: text('court_name'),
+  judge: text('judge'),
+  partiesJson: text('parties_json').notNull().default('[]'), // JSON array of { name, role }
+  counselJson: text('counsel_json').notNull().default('[]'), // JSON array of { name, firm, represents }
+  settingsJson: text('settings_json'), // Default transcription settings for new recordings
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('cases_case_number_idx').on(sql`lower(${table.caseNumber})`),
+]);
+
+// Proceedings - one hearing recorded as several files, played and exported as one
+export const proceedings = pgTable('proceedings', {
+  id: text('id').primaryKey(),
+  title: text('title').notNull(),
+  caseId: text('case_id').references(() => cases.id, { onDelete: 'set null' }),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('proceedings_case_id_idx').on(table.caseId),
+]);
+
+// Recording channels - separate microphone channels of a multi-channel FTR recording
+export const recordingChannels = pgTable('recording_channels', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  channelIndex: integer('channel_index').notNull(), // 0-based, in Convert API output order
+  audioUrl: text('audio_url').notNull(), // Convert API output URL (expires after an hour)
+  objectId: text('object_id'), // Copy of the channel's audio in the recording's vault
+  
+  transcriptionJobId: text('transcription_job_id'),
+  // 'pending' | 'transcribing' | 'transcribed'
+  status: text('status').notNull().default('pending'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('recording_channels_recording_channel_idx').on(table.recordingId, table.channelIndex),
+  index('recording_channels_job_id_idx').on(table.transcriptionJobId),
+]);
+
+// Upload parts - parts of a chunked upload stored in the vault's multipart upload, until it is completed
+export const uploadParts = pgTable('upload_parts', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  partNumber: integer('part_number').notNull(), // 1-based
+  sizeBytes: integer('size_bytes').notNull(),
+  sha256: text('sha256').notNull(), // Hex digest the part's upload URL was signed for; storage checks the part against it
+  etag: text('etag'), // Returned by storage once the part arrives; needed to complete the upload
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('upload_parts_recording_part_idx').on(table.recordingId, table.partNumber),
+]);
+
+// Vocabulary lists - case- or court-specific terms boosted when transcribing matching recordings
+export const vocabularyLists = pgTable('vocabulary_lists', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  
+  // 'case' (matches recordings.caseNumber) | 'court' (matches recordings.courtName)
+  scope: text('scope').notNull(),
+  scopeValue: text('scope_value').notNull(),
+  
+  termsJson: text('terms_json').notNull().default('[]'), // JSON array of terms
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('vocabulary_lists_scope_idx').on(table.scope, table.scopeValue),
+]);
+
+// Recording status events - history of status transitions (see recording-status.ts)
+export const recordingStatusEvents = pgTable('recording_status_events', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  fromStatus: text('from_status'), // Null for the initial status
+  toStatus: text('to_status').notNull(),
+  actor: text('actor').notNull(), // 'user' | 'admin' | 'pipeline' | 'webhook' | 'poller'
+  reason: text('reason'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('recording_status_events_recording_id_idx').on(table.recordingId, table.createdAt),
+]);
+
 // Transcripts table - stores transcription results
 export const transcripts = pgTable('transcripts', {
   id: text('id').primaryKey(),
   recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
   
+  // Versioning - every transcription run is kept, one version is active
+  version: integer('version').notNull().default(1),
+  isActive: boolean('is_active').notNull().default(true),
+  transcriptionJobId: text('transcription_job_id'),
+  settingsJson: text('settings_json'), // JSON string of the settings used for this run
+  
   fullText: text('full_text').notNull(),
   confidence: real('confidence'),
-  language: text('language').default('en'),
+  language: text('language').default('en'), // Requested or detected language (Voice API code)
   
   // Summary/chapters if enabled
   summary: text('summary'),
   chaptersJson: text('chapters_json'), // JSON string of chapters
   
+  // Plain-text copy in the recording's vault for semantic search (transcript-index.ts)
+  vaultObjectId: text('vault_object_id'),
+  indexedAt: timestamp('indexed_at'), // When vault ingestion was started
+  
   createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => [
   index('transcripts_recording_id_idx').on(table.recordingId),
+  uniqueIndex('transcripts_recording_version_idx').on(table.recordingId, table.version),
+  uniqueIndex('transcripts_job_id_idx').on(table.transcriptionJobId),
+  index('transcripts_vault_object_id_idx').on(table.vaultObjectId),
 ]);
 
 // Utterances table - individual speaker segments with timestamps
@@ -67,6 +192,9 @@ export const utterances = pgTable('utterances', {
   
   startMs: integer('start_ms').notNull(), // Milliseconds from start
   endMs: integer('end_ms').notNull(),
+  confidence: real('confidence'), // ASR confidence (0-1) when provided
+  channel: integer('channel'), // Source channel (0-based) for multi-channel transcripts
+  language: text('language'), // Spoken language (Voice API code); null on rows stored before languages were tracked
   
   // For search indexing and ordering
   sequenceIndex: integer('sequence_index').notNull(),
@@ -75,6 +203,83 @@ export const utterances = pgTable('utterances', {
   index('utterances_transcript_id_idx').on(table.transcriptId),
   index('utterances_speaker_idx').on(table.speaker),
   index('utterances_sequence_idx').on(table.recordingId, table.sequenceIndex),
+  // Full-text search across recordings (transcript-search.ts); queries must use the same expression.
+  // English stemming plus the unstemmed words, so testimony in other languages is found too
+  index('utterances_text_search_idx').using(
+    'gin',
+    sql`(to_tsvector('english', ${table.text}) || to_tsvector('simple', ${table.text}))`
+  ),
+]);
+
+// Words table - word-level timings from the Voice API
+export const words = pgTable('words', {
+  id: text('id').primaryKey(),
+  transcriptId: text('transcript_id').notNull().references(() => transcripts.id, { onDelete: 'cascade' }),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  utteranceId: text('utterance_id').notNull().references(() => utterances.id, { onDelete: 'cascade' }),
+  
+  text: text('text').notNull(),
+  startMs: integer('start_ms').notNull(),
+  endMs: integer('end_ms').notNull(),
+  confidence: real('confidence'),
+  speaker: text('speaker'),
+  
+  wordIndex: integer('word_index').notNull(), // Position within the utterance
+}, (table) => [
+  index('words_utterance_id_idx').on(table.utteranceId, table.wordIndex),
+  index('words_transcript_start_idx').on(table.transcriptId, table.startMs),
+]);
+
+// Utterance edits - proofreading corrections layered over the raw ASR utterances
+// The utterance row keeps the original ASR text; the edit holds the corrected version
+export const utteranceEdits = pgTable('utterance_edits', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  transcriptId: text('transcript_id').notNull().references(() => transcripts.id, { onDelete: 'cascade' }),
+  utteranceId: text('utterance_id').notNull().references(() => utterances.id, { onDelete: 'cascade' }),
+  
+  originalText: text('original_text').notNull(), // Raw ASR output for this utterance
+  correctedText: text('corrected_text').notNull(), // Joined text of the edited segments
+  segmentsJson: text('segments_json').notNull(), // JSON string of segments (speaker splits)
+  isDeleted: boolean('is_deleted').notNull().default(false),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('utterance_edits_recording_id_idx').on(table.recordingId),
+  index('utterance_edits_transcript_id_idx').on(table.transcriptId),
+  uniqueIndex('utterance_edits_utterance_id_idx').on(table.utteranceId),
+]);
+
+// Range transcriptions - one passage re-transcribed and spliced into a new transcript version
+export const rangeTranscriptions = pgTable('range_transcriptions', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  baseTranscriptId: text('base_transcript_id').notNull().references(() => transcripts.id, { onDelete: 'cascade' }),
+  resultTranscriptId: text('result_transcript_id').references(() => transcripts.id, { onDelete: 'set null' }),
+  
+  // Passage in the recording, snapped to the utterances it overlaps
+  startMs: integer('start_ms').notNull(),
+  endMs: integer('end_ms').notNull(),
+  // For recordings transcribed per channel: the one channel re-transcribed (0-based)
+  channelIndex: integer('channel_index'),
+  
+  // 'pending' | 'transcribing' | 'completed' | 'failed'
+  status: text('status').notNull().default('pending'),
+  settingsJson: text('settings_json').notNull(), // JSON string of the settings chosen for this passage
+  transcriptionSettingsJson: text('transcription_settings_json'), // Settings sent with the Voice API job
+  transcriptionJobId: text('transcription_job_id'),
+  
+  replacedUtteranceCount: integer('replaced_utterance_count'),
+  insertedUtteranceCount: integer('inserted_utterance_count'),
+  errorMessage: text('error_message'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at'),
+}, (table) => [
+  index('range_transcriptions_recording_id_idx').on(table.recordingId, table.createdAt),
+  uniqueIndex('range_transcriptions_job_id_idx').on(table.transcriptionJobId),
 ]);
 
 // Speaker labels - user-defined speaker names per recording
@@ -100,12 +305,123 @@ export const searchHistory = pgTable('search_history', {
   index('search_history_created_at_idx').on(table.createdAt),
 ]);
 
+// Pipeline jobs - durable convert → transcribe → ingest steps with retries
+export const jobs = pgTable('jobs', {
+  id: text('id').primaryKey(),
+  recordingId: text('recording_id').notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  
+  // 'convert' | 'transcribe' | 'ingest' | 'index' | 'finalize'
+  type: text('type').notNull(),
+  // 'pending' | 'running' | 'waiting' | 'succeeded' | 'dead' | 'cancelled'
+  state: text('state').notNull().default('pending'),
+  
+  // Retry tracking
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  runAt: timestamp('run_at').notNull().defaultNow(), // Earliest time the worker may run this job
+  lockedAt: timestamp('locked_at'), // Set while a worker is running the job
+  lastError: text('last_error'),
+  
+  externalJobId: text('external_job_id'), // Case.dev convert or transcription job ID
+  payloadJson: text('payload_json'), // JSON string of step input
+  waitingSince: timestamp('waiting_since'), // Set when submitted to Case.dev; the stuck-job timeout counts from here
+  lastPolledAt: timestamp('last_polled_at'), // Last time the poller checked the Case.dev job
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at'),
+}, (table) => [
+  index('jobs_state_run_at_idx').on(table.state, table.runAt),
+  index('jobs_recording_id_idx').on(table.recordingId),
+  index('jobs_external_job_id_idx').on(table.externalJobId),
+]);
+
+// Webhook deliveries - log of Case.dev webhook calls, one row per job and event
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: text('id').primaryKey(),
+  source: text('source').notNull(), // 'convert' | 'transcribe'
+  externalJobId: text('external_job_id').notNull(), // Case.dev job ID
+  event: text('event').notNull(), // Job status reported by the webhook, e.g. 'completed'
+  
+  // 'received' | 'processed' | 'failed'
+  state: text('state').notNull().default('received'),
+  payloadJson: text('payload_json').notNull(), // Raw webhook body
+  lastError: text('last_error'),
+  
+  // Redelivery tracking
+  deliveryCount: integer('delivery_count').notNull().default(1),
+  processCount: integer('process_count').notNull().default(0),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastReceivedAt: timestamp('last_received_at').notNull().defaultNow(),
+  processedAt: timestamp('processed_at'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('webhook_deliveries_job_event_idx').on(table.source, table.externalJobId, table.event),
+  index('webhook_deliveries_state_idx').on(table.state),
+]);
+
+// Webhook nonces - signatures already accepted, kept for the replay window
+export const webhookNonces = pgTable('webhook_nonces', {
+  nonce: text('nonce').primaryKey(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('webhook_nonces_created_at_idx').on(table.createdAt),
+]);
+
+// Vault deletions - Case.dev vault objects to delete, retried until the vault confirms
+export const vaultDeletions = pgTable('vault_deletions', {
+  id: text('id').primaryKey(),
+  vaultId: text('vault_id').notNull(),
+  objectId: text('object_id').notNull(),
+  recordingId: text('recording_id'), // Recording the object belonged to (no FK: the recording is usually gone)
+  reason: text('reason').notNull(), // 'recording_deleted' | 'orphan' | 'superseded'
+  
+  // 'pending' | 'deleted' | 'dead'
+  state: text('state').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(8),
+  runAt: timestamp('run_at').notNull().defaultNow(), // Next attempt
+  lastError: text('last_error'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('vault_deletions_object_idx').on(table.vaultId, table.objectId),
+  index('vault_deletions_state_run_at_idx').on(table.state, table.runAt),
+]);
+
 // Types for TypeScript
 export type Recording = typeof recordings.$inferSelect;
 export type NewRecording = typeof recordings.$inferInsert;
+export type Case = typeof cases.$inferSelect;
+export type NewCase = typeof cases.$inferInsert;
+export type Proceeding = typeof proceedings.$inferSelect;
+export type NewProceeding = typeof proceedings.$inferInsert;
+export type RecordingChannel = typeof recordingChannels.$inferSelect;
+export type NewRecordingChannel = typeof recordingChannels.$inferInsert;
+export type UploadPart = typeof uploadParts.$inferSelect;
+export type NewUploadPart = typeof uploadParts.$inferInsert;
+export type VocabularyList = typeof vocabularyLists.$inferSelect;
+export type NewVocabularyList = typeof vocabularyLists.$inferInsert;
+export type RecordingStatusEvent = typeof recordingStatusEvents.$inferSelect;
+export type NewRecordingStatusEvent = typeof recordingStatusEvents.$inferInsert;
 export type Transcript = typeof transcripts.$inferSelect;
 export type NewTranscript = typeof transcripts.$inferInsert;
 export type Utterance = typeof utterances.$inferSelect;
 export type NewUtterance = typeof utterances.$inferInsert;
+export type Word = typeof words.$inferSelect;
+export type NewWord = typeof words.$inferInsert;
+export type UtteranceEditRecord = typeof utteranceEdits.$inferSelect;
+export type NewUtteranceEditRecord = typeof utteranceEdits.$inferInsert;
+export type RangeTranscription = typeof rangeTranscriptions.$inferSelect;
+export type NewRangeTranscription = typeof rangeTranscriptions.$inferInsert;
 export type SpeakerLabel = typeof speakerLabels.$inferSelect;
 export type NewSpeakerLabel = typeof speakerLabels.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type VaultDeletion = typeof vaultDeletions.$inferSelect;
+export type NewVaultDeletion = typeof vaultDeletions.$inferInsert;
@@ -0,0 +1,342 @@
+/**
+ * Transcript Ingestion
+ *
+ * Stores a completed Case.dev transcription as a new transcript version.
+ * Shared by the pipeline's ingest job and the status-check sync in
+ * `GET /api/recordings/[id]/process`, so both paths write identical data.
+ */
+
+import { db, recordings, transcripts, utterances, words } from '@/lib/db';
+import type { Recording, Transcript } from '@/lib/db/schema';
+import type { TranscriptionJobResponse, TranscriptionWord } from '@/lib/casedev';
+import { createTranscriptVersion, parseTranscriptionSettings } from '@/lib/transcripts';
+import { getChannelSpeakerId } from '@/lib/channels';
+import { queueTranscriptIndexing } from '@/lib/transcript-index';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { DEFAULT_TRANSCRIPT_LANGUAGE, getPrimaryLanguage } from '@/lib/languages';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+const UTTERANCE_BATCH_SIZE = 100;
+const WORD_BATCH_SIZE = 500;
+
+// A transcription normalized for storage (single result or merged channels)
+interface TranscriptInput {
+  transcriptionJobId: string;
+  fullText: string;
+  confidence: number | null;
+  language: string;
+  summary: string | null;
+  chaptersJson: string | null;
+  durationSeconds: number | null;
+  utterances: Array<{
+    speaker: string;
+    text: string;
+    start: number;
+    end: number;
+    confidence: number | null;
+    channel: number | null;
+    language: string;
+    words: TranscriptionWord[];
+  }>;
+}
+
+export interface IngestTranscriptionOutcome {
+  transcript: Transcript;
+  created: boolean; // false when this job had already been ingested
+  utteranceCount: number;
+  wordCount: number;
+  durationSeconds: number | null;
+}
+
+/**
+ * Recording duration from a transcription result, in seconds
+ */
+export function getTranscriptionDurationSeconds(result: TranscriptionJobResponse): number | null {
+  let durationInSeconds: number | null = null;
+
+  // Try audio_duration first - it could be in seconds or milliseconds
+  if (result.audio_duration) {
+    // If value is > 10000, it's likely in milliseconds
+    if (result.audio_duration > 10000) {
+      durationInSeconds = Math.round(result.audio_duration / 1000);
+    } else {
+      // Otherwise assume it's already in seconds
+      durationInSeconds = Math.round(result.audio_duration);
+    }
+  }
+
+  // Fallback: calculate from last utterance end time
+  if (!durationInSeconds && result.utterances && result.utterances.length > 0) {
+    const lastUtterance = result.utterances[result.utterances.length - 1];
+    // Utterance end times are in milliseconds
+    durationInSeconds = Math.round(lastUtterance.end / 1000);
+  }
+
+  return durationInSeconds && durationInSeconds > 0 ? durationInSeconds : null;
+}
+
+/**
+ * Word timings for each utterance. Uses the words nested in each utterance,
+ * or assigns the transcript-level word list to utterances by start time.
+ */
+export function getUtteranceWords(result: TranscriptionJobResponse): TranscriptionWord[][] {
+  const resultUtterances = result.utterances || [];
+
+  if (resultUtterances.some(u => u.words && u.words.length > 0)) {
+    return resultUtterances.map(u => u.words || []);
+  }
+
+  const grouped: TranscriptionWord[][] = resultUtterances.map(() => []);
+  let utteranceIndex = 0;
+  for (const word of result.words || []) {
+    while (
+      utteranceIndex < resultUtterances.length - 1 &&
+      word.start >= resultUtterances[utteranceIndex + 1].start
+    ) {
+      utteranceIndex++;
+    }
+    grouped[utteranceIndex]?.push(word);
+  }
+  return grouped;
+}
+
+/**
+ * Store a transcript in one transaction: the new active transcript version,
+ * its utterances and words, the recording's completed status and a job to
+ * index it for semantic search.
+ * Storing the same transcription job twice is a no-op.
+ */
+async function storeTranscript(
+  recording: Recording,
+  input: TranscriptInput
+): Promise<IngestTranscriptionOutcome> {
+  const outcome = await db.transaction(async (tx) => {
+    // Lock the recording so concurrent ingests (webhook and status check) run one after the other
+    const [locked] = await tx
+      .select({ status: recordings.status })
+      .from(recordings)
+      .where(eq(recordings.id, recording.id))
+      .for('update');
+
+    if (locked?.status === 'cancelled') {
+      throw new Error('Recording processing was cancelled');
+    }
+
+    const existingTranscript = await tx.query.transcripts.findFirst({
+      where: eq(transcripts.transcriptionJobId, input.transcriptionJobId),
+    });
+
+    if (existingTranscript) {
+      return {
+        transcript: existingTranscript,
+        created: false,
+        utteranceCount: 0,
+        wordCount: 0,
+        durationSeconds: null,
+      };
+    }
+
+    const now = new Date();
+
+    // Create a new active transcript version with summary and confidence
+    const transcript = await createTranscriptVersion({
+      id: uuidv4(),
+      recordingId: recording.id,
+      transcriptionJobId: input.transcriptionJobId,
+      settingsJson: recording.transcriptionSettingsJson,
+      fullText: input.fullText,
+      confidence: input.confidence,
+      language: input.language,
+      summary: input.summary,
+      chaptersJson: input.chaptersJson,
+      createdAt: now,
+    }, tx);
+
+    const utteranceRecords = input.utterances.map((u, index) => ({
+      id: uuidv4(),
+      transcriptId: transcript.id,
+      recordingId: recording.id,
+      speaker: u.speaker,
+      text: u.text,
+      startMs: u.start,
+      endMs: u.end,
+      confidence: u.confidence,
+      channel: u.channel,
+      language: u.language,
+      sequenceIndex: index,
+    }));
+
+    // Insert in batches to keep statements small
+    for (let i = 0; i < utteranceRecords.length; i += UTTERANCE_BATCH_SIZE) {
+      await tx.insert(utterances).values(utteranceRecords.slice(i, i + UTTERANCE_BATCH_SIZE));
+    }
+
+    const wordRecords = utteranceRecords.flatMap((u, index) =>
+      input.utterances[index].words.map((w, wordIndex) => ({
+        id: uuidv4(),
+        transcriptId: transcript.id,
+        recordingId: recording.id,
+        utteranceId: u.id,
+        text: w.text,
+        startMs: w.start,
+        endMs: w.end,
+        confidence: w.confidence ?? null,
+        speaker: u.channel !== null ? u.speaker : (w.speaker ?? u.speaker),
+        wordIndex,
+      }))
+    );
+
+    for (let i = 0; i < wordRecords.length; i += WORD_BATCH_SIZE) {
+      await tx.insert(words).values(wordRecords.slice(i, i + WORD_BATCH_SIZE));
+    }
+
+    await queueTranscriptIndexing(recording.id, transcript.id, tx);
+
+    const transition = await transitionRecordingStatus(recording.id, 'completed', {
+      actor: 'pipeline',
+      reason: `Transcript version ${transcript.version} stored`,
+      // A probed duration is exact; otherwise only update it if we got a valid value
+      values: {
+        durationSeconds: recording.durationMs !== null
+          ? recording.durationSeconds
+          : (input.durationSeconds ?? recording.durationSeconds),
+      },
+    }, tx);
+    if (!transition.success) {
+      throw new Error(transition.error);
+    }
+
+    return {
+      transcript,
+      created: true,
+      utteranceCount: utteranceRecords.length,
+      wordCount: wordRecords.length,
+      durationSeconds: input.durationSeconds,
+    };
+  });
+
+  if (outcome.created) {
+    // Log accuracy metrics for monitoring
+    console.log('Transcription accuracy metrics:', {
+      recordingId: recording.id,
+      confidence: input.confidence,
+      language: input.language,
+      confidencePercent: input.confidence ? `${(input.confidence * 100).toFixed(1)}%` : 'N/A',
+      utteranceCount: outcome.utteranceCount,
+      wordCount: outcome.wordCount,
+      hasSummary: !!input.summary,
+      hasChapters: !!input.chaptersJson,
+    });
+  } else {
+    console.log('Transcript already stored for job:', input.transcriptionJobId);
+  }
+
+  return outcome;
+}
+
+/**
+ * Language of a transcription: the one the API reports (detected or echoed),
+ * else the one requested, else the API default
+ */
+function getResultLanguage(recording: Recording, result: TranscriptionJobResponse): string {
+  return result.language_code
+    || parseTranscriptionSettings(recording.transcriptionSettingsJson)?.languageCode
+    || DEFAULT_TRANSCRIPT_LANGUAGE;
+}
+
+function assertCompleted(result: TranscriptionJobResponse): void {
+  if (result.status !== 'completed') {
+    throw new Error(`Transcription ${result.id} is not complete (status: ${result.status})`);
+  }
+}
+
+/**
+ * Store a completed transcription as the recording's new active transcript version
+ */
+export async function ingestTranscriptionResult(
+  recording: Recording,
+  result: TranscriptionJobResponse
+): Promise<IngestTranscriptionOutcome> {
+  assertCompleted(result);
+
+  const utteranceWords = getUtteranceWords(result);
+  const language = getResultLanguage(recording, result);
+
+  return storeTranscript(recording, {
+    transcriptionJobId: result.id,
+    fullText: result.text || '',
+    confidence: result.confidence ?? null,
+    language,
+    summary: result.summary || null,
+    chaptersJson: result.chapters ? JSON.stringify(result.chapters) : null,
+    durationSeconds: getTranscriptionDurationSeconds(result),
+    utterances: (result.utterances || []).map((u, index) => ({
+      speaker: u.speaker,
+      text: u.text,
+      start: u.start,
+      end: u.end,
+      confidence: u.confidence ?? null,
+      channel: null,
+      language: u.language_code || language,
+      words: utteranceWords[index],
+    })),
+  });
+}
+
+/**
+ * Merge per-channel transcriptions into one transcript version.
+ * Each utterance is attributed to its channel's speaker (CH1, CH2, …)
+ * and the utterances are interleaved by start time.
+ */
+export async function ingestChannelTranscriptionResults(
+  recording: Recording,
+  channelResults: Array<{ channelIndex: number; result: TranscriptionJobResponse }>
+): Promise<IngestTranscriptionOutcome> {
+  channelResults.forEach(c => assertCompleted(c.result));
+
+  const merged = channelResults
+    .flatMap(({ channelIndex, result }) => {
+      const utteranceWords = getUtteranceWords(result);
+      // Channels are transcribed separately, so an interpreter's channel can detect its own language
+      const language = getResultLanguage(recording, result);
+      return (result.utterances || []).map((u, index) => ({
+        speaker: getChannelSpeakerId(channelIndex),
+        text: u.text,
+        start: u.start,
+        end: u.end,
+        confidence: u.confidence ?? null,
+        channel: channelIndex,
+        language: u.language_code || language,
+        words: utteranceWords[index],
+      }));
+    })
+    .sort((a, b) => a.start - b.start || (a.channel - b.channel));
+
+  // Overall confidence weighted by each channel's utterance count
+  let weightedConfidence = 0;
+  let weight = 0;
+  for (const { result } of channelResults) {
+    if (result.confidence !== undefined && result.confidence !== null) {
+      const count = result.utterances?.length || 1;
+      weightedConfidence += result.confidence * count;
+      weight += count;
+    }
+  }
+
+  const durations = channelResults
+    .map(c => getTranscriptionDurationSeconds(c.result))
+    .filter((d): d is number => d !== null);
+
+  return storeTranscript(recording, {
+    // One key for the whole set of channel jobs, so re-ingesting the same set is a no-op
+    transcriptionJobId: `channels:${channelResults.map(c => c.result.id).join(',')}`,
+    fullText: merged.map(u => u.text).join(' '),
+    confidence: weight > 0 ? weightedConfidence / weight : null,
+    language: getPrimaryLanguage(merged.map(u => u.language)) ?? DEFAULT_TRANSCRIPT_LANGUAGE,
+    summary: null,
+    chaptersJson: null,
+    durationSeconds: durations.length > 0 ? Math.max(...durations) : null,
+    utterances: merged,
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * In-flight Job Poller
+ *
+ * Webhooks cannot reach a local or firewalled deployment, so the server also
+ * polls Case.dev for every convert or transcription job that is still in
+ * flight. A finished job is fed through the webhook delivery log exactly as
+ * if its webhook had arrived, so a late (or duplicate) real webhook is a
+ * no-op. Jobs that stay unfinished past a timeout are treated as failed and
+ * retried with backoff like any other failure.
+ */
+
+import { db, jobs, recordings } from '@/lib/db';
+import type { Job, Recording } from '@/lib/db/schema';
+import { casedev } from '@/lib/casedev';
+import { recordWebhookDelivery, processWebhookDelivery } from '@/lib/webhook-deliveries';
+import { handleJobFailure } from '@/lib/pipeline';
+import { ACTIVE_JOB_STATES } from '@/lib/jobs';
+import { transitionRecordingStatus, PROCESSING_STATUSES } from '@/lib/recording-status';
+import { and, asc, eq, inArray, isNotNull, notExists, sql } from 'drizzle-orm';
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 30_000;
+const POLL_BATCH_SIZE = 20;
+
+// Case.dev jobs still unfinished after this long are considered stuck
+const STUCK_JOB_TIMEOUT_MS = Number(process.env.JOB_STUCK_TIMEOUT_MS) || 2 * 60 * 60 * 1000;
+
+// Remote statuses that end a job
+const FINISHED_STATUSES = ['completed', 'failed', 'error'];
+
+type RemoteJobType = 'convert' | 'transcribe';
+
+// A Case.dev job to check: a waiting queue job, or a recording processed before the job queue existed
+interface PollTarget {
+  type: RemoteJobType;
+  externalJobId: string;
+  recordingId: string;
+  waitingSince: Date;
+  job?: Job;
+}
+
+export interface PollResult {
+  polled: number;
+  synced: number;
+  stuck: number;
+  errors: number;
+}
+
+async function getPollTargets(): Promise<PollTarget[]> {
+  const waitingJobs = await db.query.jobs.findMany({
+    where: and(
+      eq(jobs.state, 'waiting'),
+      inArray(jobs.type, ['convert', 'transcribe']),
+      isNotNull(jobs.externalJobId)
+    ),
+    // Least recently polled first, so every waiting job gets its turn
+    orderBy: [sql`${jobs.lastPolledAt} asc nulls first`, asc(jobs.waitingSince)],
+    limit: POLL_BATCH_SIZE,
+  });
+
+  const targets: PollTarget[] = waitingJobs.map(job => ({
+    type: job.type as RemoteJobType,
+    externalJobId: job.externalJobId!,
+    recordingId: job.recordingId,
+    // Jobs submitted before waitingSince existed fall back to when they were last updated
+    waitingSince: job.waitingSince ?? job.updatedAt,
+    job,
+  }));
+
+  // Recordings in flight without any queue job (submitted before the job queue existed)
+  const untracked: Recording[] = await db
+    .select()
+    .from(recordings)
+    .where(and(
+      inArray(recordings.status, PROCESSING_STATUSES),
+      notExists(
+        db.select({ id: jobs.id })
+          .from(jobs)
+          .where(and(eq(jobs.recordingId, recordings.id), inArray(jobs.state, ACTIVE_JOB_STATES)))
+      )
+    ))
+    .orderBy(asc(recordings.updatedAt))
+    .limit(POLL_BATCH_SIZE);
+
+  for (const recording of untracked) {
+    const type: RemoteJobType = recording.status === 'converting' ? 'convert' : 'transcribe';
+    const externalJobId = type === 'convert' ? recording.convertJobId : recording.transcriptionJobId;
+    if (!externalJobId) continue;
+
+    targets.push({
+      type,
+      externalJobId,
+      recordingId: recording.id,
+      waitingSince: recording.updatedAt,
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Fetch a job from Case.dev and shape its status like the matching webhook payload
+ */
+async function fetchRemoteStatus(target: PollTarget): Promise<{ status: string; payload: Record<string, unknown> }> {
+  if (target.type === 'convert') {
+    const job = await casedev.getConvertJob(target.externalJobId);
+    return {
+      status: job.status,
+      payload: {
+        job_id: job.id,
+        status: job.status,
+        output_url: job.output_url,
+        output_urls: job.output_urls,
+        metadata: job.metadata,
+        error: job.error,
+      },
+    };
+  }
+
+  const job = await casedev.getTranscription(target.externalJobId);
+  return {
+    status: job.status,
+    payload: { id: job.id, status: job.status, error: job.error },
+  };
+}
+
+/**
+ * Fail a job that has waited too long. Locks the job so a webhook that
+ * completes it at the same moment wins instead of being retried over.
+ */
+async function failStuckTarget(target: PollTarget, errorMessage: string): Promise<void> {
+  if (target.job) {
+    await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(jobs)
+        .where(eq(jobs.id, target.job!.id))
+        .for('update');
+
+      if (locked?.state === 'waiting') {
+        await handleJobFailure(locked, errorMessage, tx);
+      }
+    });
+    return;
+  }
+
+  // No job to retry - fail the recording directly
+  await transitionRecordingStatus(target.recordingId, 'failed', {
+    actor: 'poller',
+    reason: errorMessage,
+    from: PROCESSING_STATUSES,
+  });
+}
+
+/**
+ * Check one in-flight job. Returns 'synced' if it finished and was applied,
+ * 'stuck' if it timed out, otherwise 'pending'.
+ */
+async function pollTarget(target: PollTarget): Promise<'synced' | 'stuck' | 'pending'> {
+  if (target.job) {
+    // Moves the job to the back of the poll order; waitingSince is untouched
+    await db.update(jobs).set({ lastPolledAt: new Date() }).where(eq(jobs.id, target.job.id));
+  }
+
+  const waitedMs = Date.now() - target.waitingSince.getTime();
+  const timedOut = waitedMs > STUCK_JOB_TIMEOUT_MS;
+  const timeoutMessage =
+    `Case.dev ${target.type} job ${target.externalJobId} did not finish within ${Math.round(STUCK_JOB_TIMEOUT_MS / 60000)} minutes`;
+
+  let remote: Awaited<ReturnType<typeof fetchRemoteStatus>>;
+  try {
+    remote = await fetchRemoteStatus(target);
+  } catch (error) {
+    // Case.dev unreachable - still enforce the timeout so the job cannot hang forever
+    if (timedOut) {
+      await failStuckTarget(target, timeoutMessage);
+      return 'stuck';
+    }
+    throw error;
+  }
+
+  if (FINISHED_STATUSES.includes(remote.status)) {
+    // Same key as the webhook, so whichever arrives second is a duplicate
+    const delivery = await recordWebhookDelivery({
+      source: target.type,
+      externalJobId: target.externalJobId,
+      event: remote.status,
+      payloadJson: JSON.stringify(remote.payload),
+    });
+    const result = await processWebhookDelivery(delivery.id);
+
+    if (result.outcome === 'failed') {
+      throw new Error(result.error || 'Failed to apply polled result');
+    }
+    return result.outcome === 'processed' ? 'synced' : 'pending';
+  }
+
+  if (timedOut) {
+    await failStuckTarget(target, timeoutMessage);
+    return 'stuck';
+  }
+
+  return 'pending';
+}
+
+/**
+ * Poll Case.dev once for every in-flight job
+ */
+export async function pollInFlightJobs(): Promise<PollResult> {
+  const targets = await getPollTargets();
+  const result: PollResult = { polled: targets.length, synced: 0, stuck: 0, errors: 0 };
+
+  for (const target of targets) {
+    try {
+      const outcome = await pollTarget(target);
+      if (outcome === 'synced') {
+        result.synced++;
+        console.log(`[poller] Synced ${target.type} job ${target.externalJobId} for recording ${target.recordingId}`);
+      } else if (outcome === 'stuck') {
+        result.stuck++;
+        console.warn(`[poller] ${target.type} job ${target.externalJobId} timed out for recording ${target.recordingId}`);
+      }
+    } catch (error) {
+      result.errors++;
+      console.error(`[poller] Failed to poll ${target.type} job ${target.externalJobId}:`, error);
+    }
+  }
+
+  return result;
+}
+
+let pollerTimer: ReturnType<typeof setInterval> | null = null;
+let pollInProgress = false;
+
+/**
+ * Start the in-process poller loop (called from instrumentation on server start)
+ */
+export function startJobPoller(): void {
+  if (pollerTimer) return;
+
+  pollerTimer = setInterval(async () => {
+    if (pollInProgress) return;
+    pollInProgress = true;
+    try {
+      await pollInFlightJobs();
+    } catch (error) {
+      console.error('[poller] Poll tick failed:', error);
+    } finally {
+      pollInProgress = false;
+    }
+  }, POLL_INTERVAL_MS);
+
+  console.log(`[poller] Poller started (every ${POLL_INTERVAL_MS}ms)`);
+}
@@ -0,0 +1,313 @@
+/**
+ * Job Queue
+ *
+ * Durable, Postgres-backed queue for the processing pipeline.
+ * Each job is one step (convert, transcribe, ingest, index) for a recording,
+ * or the finalizing of its chunked upload (finalize):
+ *
+ *   pending → running → waiting (submitted to Case.dev) → succeeded
+ *                 ↘ pending (retry with exponential backoff) → … → dead
+ *
+ * Dead jobs stay in the table (dead-letter state) until requeued by an admin.
+ * Cancelling a recording moves its active jobs to 'cancelled', a final state
+ * the other transitions never leave.
+ */
+
+import { db, jobs, type DbExecutor } from '@/lib/db';
+import type { Job } from '@/lib/db/schema';
+import { and, eq, ne, inArray, lte, lt, asc, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const JOB_TYPES = ['convert', 'transcribe', 'ingest', 'index', 'finalize'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATES = ['pending', 'running', 'waiting', 'succeeded', 'dead', 'cancelled'] as const;
+export type JobState = (typeof JOB_STATES)[number];
+
+// States in which a job still has work left
+export const ACTIVE_JOB_STATES: JobState[] = ['pending', 'running', 'waiting'];
+
+const DEFAULT_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_DELAY_MS = Number(process.env.JOB_RETRY_BASE_MS) || 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Running jobs older than this are assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped, with ±20% jitter
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const exponential = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, RETRY_MAX_DELAY_MS);
+  const jitter = capped * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(capped + jitter);
+}
+
+export function parseJobPayload<T>(job: Job): T | null {
+  if (!job.payloadJson) return null;
+  try {
+    return JSON.parse(job.payloadJson) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(params: {
+  recordingId: string;
+  type: JobType;
+  payload?: Record<string, unknown>;
+  externalJobId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}, executor: DbExecutor = db): Promise<Job> {
+  const now = new Date();
+  const [job] = await executor.insert(jobs).values({
+    id: uuidv4(),
+    recordingId: params.recordingId,
+    type: params.type,
+    state: 'pending',
+    maxAttempts: params.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAt: params.runAt ?? now,
+    externalJobId: params.externalJobId ?? null,
+    payloadJson: params.payload ? JSON.stringify(params.payload) : null,
+    createdAt: now,
+    updatedAt: now,
+  }).returning();
+
+  return job;
+}
+
+/**
+ * Claim due jobs for this worker.
+ * Uses FOR UPDATE SKIP LOCKED so concurrent workers never run the same job.
+ */
+export async function claimDueJobs(limit: number, jobId?: string): Promise<Job[]> {
+  const now = new Date();
+
+  const dueJobs = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(and(
+      eq(jobs.state, 'pending'),
+      lte(jobs.runAt, now),
+      jobId ? eq(jobs.id, jobId) : undefined
+    ))
+    .orderBy(asc(jobs.runAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(jobs)
+    .set({
+      state: 'running',
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedAt: now,
+      updatedAt: now,
+    })
+    .where(inArray(jobs.id, dueJobs))
+    .returning();
+}
+
+/**
+ * Return jobs left in 'running' by a crashed worker to the queue
+ */
+export async function releaseStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_LOCK_MS);
+  const released = await db
+    .update(jobs)
+    .set({ state: 'pending', lockedAt: null, updatedAt: new Date() })
+    .where(and(eq(jobs.state, 'running'), lt(jobs.lockedAt, cutoff)))
+    .returning({ id: jobs.id });
+
+  return released.length;
+}
+
+/**
+ * Mark a job as submitted to Case.dev and waiting for a webhook or poll.
+ * Returns false if the job was cancelled while it was being submitted.
+ */
+export async function markJobWaiting(jobId: string, externalJobId: string): Promise<boolean> {
+  const now = new Date();
+  const updated = await db
+    .update(jobs)
+    .set({
+      state: 'waiting',
+      externalJobId,
+      lockedAt: null,
+      lastError: null,
+      waitingSince: now,
+      lastPolledAt: null,
+      updatedAt: now,
+    })
+    .where(and(eq(jobs.id, jobId), eq(jobs.state, 'running')))
+    .returning({ id: jobs.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Mark a job as finished
+ */
+export async function markJobSucceeded(jobId: string, executor: DbExecutor = db): Promise<void> {
+  const now = new Date();
+  await executor
+    .update(jobs)
+    .set({
+      state: 'succeeded',
+      lockedAt: null,
+      lastError: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(jobs.id, jobId), ne(jobs.state, 'cancelled')));
+}
+
+/**
+ * Cancel one job that still has work left
+ */
+export async function markJobCancelled(jobId: string): Promise<void> {
+  const now = new Date();
+  await db
+    .update(jobs)
+    .set({
+      state: 'cancelled',
+      lockedAt: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.state, ACTIVE_JOB_STATES)));
+}
+
+/**
+ * Record a failed attempt. The job is rescheduled with backoff,
+ * or moved to the dead-letter state once it has used all its attempts.
+ * Returns undefined if the job was cancelled in the meantime.
+ */
+export async function markJobFailed(
+  job: Job,
+  errorMessage: string,
+  executor: DbExecutor = db
+): Promise<Job | undefined> {
+  const now = new Date();
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  const [updated] = await executor
+    .update(jobs)
+    .set(exhausted
+      ? {
+          state: 'dead',
+          lockedAt: null,
+          lastError: errorMessage,
+          completedAt: now,
+          updatedAt: now,
+        }
+      : {
+          state: 'pending',
+          lockedAt: null,
+          lastError: errorMessage,
+          runAt: new Date(now.getTime() + getRetryDelayMs(job.attempts)),
+          updatedAt: now,
+        })
+    .where(and(eq(jobs.id, job.id), ne(jobs.state, 'cancelled')))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Find the waiting job for a Case.dev job ID
+ */
+export async function findWaitingJob(
+  type: JobType,
+  externalJobId: string,
+  executor: DbExecutor = db
+): Promise<Job | undefined> {
+  return executor.query.jobs.findFirst({
+    where: and(
+      eq(jobs.type, type),
+      eq(jobs.externalJobId, externalJobId),
+      eq(jobs.state, 'waiting')
+    ),
+  });
+}
+
+/**
+ * Find a processing job for a recording that still has work left
+ * (index jobs run alongside and do not count)
+ */
+export async function findActiveJob(recordingId: string): Promise<Job | undefined> {
+  return db.query.jobs.findFirst({
+    where: and(
+      eq(jobs.recordingId, recordingId),
+      inArray(jobs.state, ACTIVE_JOB_STATES),
+      ne(jobs.type, 'index')
+    ),
+  });
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export async function requeueJob(jobId: string): Promise<Job | undefined> {
+  const now = new Date();
+  const [requeued] = await db
+    .update(jobs)
+    .set({
+      state: 'pending',
+      attempts: 0,
+      runAt: now,
+      lockedAt: null,
+      completedAt: null,
+      updatedAt: now,
+    })
+    .where(and(eq(jobs.id, jobId), eq(jobs.state, 'dead')))
+    .returning();
+
+  return requeued;
+}
+
+/**
+ * Cancel every job of a recording that still has work left.
+ * Returns the cancelled jobs (with the Case.dev job IDs they were waiting on).
+ */
+export async function cancelActiveJobs(
+  recordingId: string,
+  executor: DbExecutor = db
+): Promise<Job[]> {
+  const now = new Date();
+  return executor
+    .update(jobs)
+    .set({
+      state: 'cancelled',
+      lockedAt: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(jobs.recordingId, recordingId),
+      inArray(jobs.state, ACTIVE_JOB_STATES)
+    ))
+    .returning();
+}
+
+/**
+ * Whether the job that submitted a Case.dev job was cancelled
+ */
+export async function isRemoteJobCancelled(
+  type: JobType,
+  externalJobId: string,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const cancelled = await executor.query.jobs.findFirst({
+    where: and(
+      eq(jobs.type, type),
+      eq(jobs.externalJobId, externalJobId),
+      eq(jobs.state, 'cancelled')
+    ),
+  });
+  return !!cancelled;
+}
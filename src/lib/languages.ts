@@ -0,0 +1,105 @@
+/**
+ * Transcript Languages
+ *
+ * Each transcript version stores the language it was transcribed in (chosen
+ * or detected), and each utterance the language it was spoken in. Utterances
+ * in another language than the transcript's (a witness testifying in Spanish
+ * at an English hearing) are tagged in the viewer and in exports. Safe to
+ * import from client code.
+ */
+
+import { TRANSCRIPTION_LANGUAGES } from '@/lib/transcription-settings';
+
+export const DEFAULT_TRANSCRIPT_LANGUAGE = 'en';
+
+// How exports mark utterances in another language
+export const LANGUAGE_TAG_STYLES = ['language', 'interpreter', 'none'] as const;
+export type LanguageTagStyle = (typeof LANGUAGE_TAG_STYLES)[number];
+
+export const INTERPRETER_TAG = '(Through the interpreter)';
+
+export function isLanguageTagStyle(value: string): value is LanguageTagStyle {
+  return (LANGUAGE_TAG_STYLES as readonly string[]).includes(value);
+}
+
+/**
+ * Language without its region ('en_us' -> 'en')
+ */
+export function getBaseLanguage(code: string): string {
+  return code.toLowerCase().split(/[_-]/)[0];
+}
+
+/**
+ * Display name for a Voice API language code, e.g. 'es' -> 'Spanish'
+ */
+export function getLanguageLabel(code: string): string {
+  const known = TRANSCRIPTION_LANGUAGES.find(l => l.code === code.toLowerCase());
+  if (known) return known.label;
+
+  // Detection can return languages the settings form does not offer
+  try {
+    const label = new Intl.DisplayNames(['en'], { type: 'language' }).of(code.replace('_', '-'));
+    if (label && label !== code) return label;
+  } catch {
+    // Not a valid language tag
+  }
+  return code.toUpperCase();
+}
+
+/**
+ * Whether an utterance was spoken in another language than its transcript
+ * (regional variants of the same language do not count)
+ */
+export function isForeignLanguage(
+  utteranceLanguage: string | null | undefined,
+  transcriptLanguage: string | null | undefined
+): utteranceLanguage is string {
+  if (!utteranceLanguage) return false;
+  return getBaseLanguage(utteranceLanguage) !== getBaseLanguage(transcriptLanguage || DEFAULT_TRANSCRIPT_LANGUAGE);
+}
+
+/**
+ * Tag for an utterance in an export, e.g. "[Spanish]" or "(Through the interpreter)".
+ * Null when the utterance is in the transcript's language.
+ */
+export function getLanguageTag(
+  utteranceLanguage: string | null | undefined,
+  transcriptLanguage: string | null | undefined,
+  style: LanguageTagStyle
+): string | null {
+  if (style === 'none' || !isForeignLanguage(utteranceLanguage, transcriptLanguage)) return null;
+  return style === 'interpreter' ? INTERPRETER_TAG : `[${getLanguageLabel(utteranceLanguage)}]`;
+}
+
+/**
+ * Utterance text with its language tag in front, if it needs one
+ */
+export function withLanguageTag(
+  text: string,
+  utteranceLanguage: string | null | undefined,
+  transcriptLanguage: string | null | undefined,
+  style: LanguageTagStyle
+): string {
+  const tag = getLanguageTag(utteranceLanguage, transcriptLanguage, style);
+  return tag ? `${tag} ${text}` : text;
+}
+
+/**
+ * Most common language among utterances, used as a multi-channel transcript's language
+ */
+export function getPrimaryLanguage(languages: Array<string | null>): string | null {
+  const counts = new Map<string, number>();
+  for (const language of languages) {
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+
+  let primary: string | null = null;
+  let best = 0;
+  for (const [language, total] of counts) {
+    if (total > best) {
+      primary = language;
+      best = total;
+    }
+  }
+  return primary;
+}
@@ -0,0 +1,668 @@
+/**
+ * Media Probing
+ *
+ * Reads the container and codec headers of an uploaded recording (WAV, MP3,
+ * M4A/MP4, FLAC, OGG) to get its exact duration, sample rate, channel count
+ * and codec. A file whose headers cannot be read is rejected before it is
+ * sent for transcription, so a corrupt or mislabelled upload never costs a
+ * transcription job.
+ *
+ * Only the bytes the headers need are read, from the vault with HTTP range
+ * requests: chunked uploads once their parts are assembled, direct uploads
+ * once the client reports them complete (and before processing starts, for
+ * clients that do not). A recording is probed until its headers have been
+ * read, so restarting a rejected upload is refused again. FTR recordings get
+ * their duration and channels from the Convert API instead, and WebM is not
+ * probed.
+ */
+
+import { db, recordings } from '@/lib/db';
+import type { NewRecording, Recording } from '@/lib/db/schema';
+import { casedev } from '@/lib/casedev';
+import { transitionRecordingStatus, type StatusActor } from '@/lib/recording-status';
+import { eq } from 'drizzle-orm';
+
+// Upload formats (by file extension) whose headers we read
+export const PROBED_FORMATS = ['wav', 'mp3', 'm4a', 'mp4', 'flac', 'ogg'] as const;
+
+export type MediaContainer = 'wav' | 'mp3' | 'mp4' | 'flac' | 'ogg';
+
+export interface MediaInfo {
+  container: MediaContainer;
+  codec: string; // ffmpeg-style name, e.g. 'pcm_s16le', 'mp3', 'aac', 'opus'
+  durationMs: number;
+  sampleRate: number;
+  channelCount: number;
+}
+
+export type ProbeResult =
+  | { success: true; info: MediaInfo | null } // null: format not probed
+  | { success: false; error: string };
+
+export type ProbeRecordingResult =
+  | { success: true; recording: Recording }
+  | { success: false; error: string };
+
+/**
+ * Random access to a file's bytes. `read` returns fewer bytes at the end of the file.
+ */
+export interface MediaReader {
+  size: number;
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+// Bytes read up front to recognise the format (and most headers)
+const HEAD_BYTES = 64 * 1024;
+
+// Largest MP4 'moov' box we read (sample tables of a full-day recording)
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+// Headers that do not parse; anything else thrown while probing (I/O, network) is not the file's fault
+class InvalidMediaError extends Error {}
+
+function invalid(message: string): never {
+  throw new InvalidMediaError(message);
+}
+
+export function isProbedFormat(format: string): boolean {
+  return (PROBED_FORMATS as readonly string[]).includes(format.toLowerCase());
+}
+
+// ============ READERS ============
+
+/**
+ * Reader over a download URL using HTTP range requests. Servers that ignore
+ * the range get their response read only as far as needed.
+ */
+export function createUrlReader(url: string, size: number): MediaReader {
+  return {
+    size,
+    async read(offset, length) {
+      const end = Math.min(offset + length, size);
+      if (end <= offset) return Buffer.alloc(0);
+
+      const response = await fetch(url, {
+        headers: { Range: `bytes=${offset}-${end - 1}` },
+      });
+
+      if (response.status === 206) {
+        return Buffer.from(await response.arrayBuffer());
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to download recording: ${response.status} ${response.statusText}`);
+      }
+
+      // Full body: skip to the offset and stop once we have the range
+      const chunks: Buffer[] = [];
+      let position = 0;
+      const reader = response.body.getReader();
+      try {
+        while (position < end) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const chunkStart = position;
+          position += value.length;
+          if (position > offset) {
+            chunks.push(Buffer.from(value.subarray(Math.max(0, offset - chunkStart), end - chunkStart)));
+          }
+        }
+      } finally {
+        await reader.cancel().catch(() => {});
+      }
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+async function readExactly(reader: MediaReader, offset: number, length: number, what: string): Promise<Buffer> {
+  const data = await reader.read(offset, length);
+  if (data.length < length) {
+    invalid(`File ends inside the ${what}`);
+  }
+  return data;
+}
+
+function ascii(data: Buffer, offset: number, length: number): string {
+  return data.toString('latin1', offset, offset + length);
+}
+
+// ============ WAV ============
+
+const WAV_FORMAT_CODECS: Record<number, string> = {
+  0x0002: 'adpcm_ms',
+  0x0006: 'pcm_alaw',
+  0x0007: 'pcm_mulaw',
+  0x0011: 'adpcm_ima_wav',
+  0x0055: 'mp3',
+};
+
+function getWavCodec(formatTag: number, bitsPerSample: number): string {
+  if (formatTag === 0x0001) return bitsPerSample === 8 ? 'pcm_u8' : `pcm_s${bitsPerSample}le`;
+  if (formatTag === 0x0003) return `pcm_f${bitsPerSample}le`;
+  return WAV_FORMAT_CODECS[formatTag] ?? `wav_0x${formatTag.toString(16).padStart(4, '0')}`;
+}
+
+async function probeWav(reader: MediaReader, head: Buffer): Promise<MediaInfo> {
+  // RF64 is WAV for files over 4 GB: the real sizes are in a ds64 chunk
+  const isRf64 = ascii(head, 0, 4) === 'RF64';
+  let ds64DataSize: number | null = null;
+  let format: { tag: number; channels: number; sampleRate: number; byteRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= reader.size) {
+    const header = await readExactly(reader, offset, 8, 'WAV chunk header');
+    const id = ascii(header, 0, 4);
+    const size = header.readUInt32LE(4);
+
+    if (id === 'ds64') {
+      const body = await readExactly(reader, offset + 8, 16, 'ds64 chunk');
+      ds64DataSize = Number(body.readBigUInt64LE(8));
+    } else if (id === 'fmt ') {
+      if (size < 16) invalid('WAV fmt chunk is too short');
+      const body = await readExactly(reader, offset + 8, Math.min(size, 40), 'WAV fmt chunk');
+      let tag = body.readUInt16LE(0);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first two bytes of the sub-format GUID
+      if (tag === 0xfffe && body.length >= 26) {
+        tag = body.readUInt16LE(24);
+      }
+      format = {
+        tag,
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        byteRate: body.readUInt32LE(8),
+        bitsPerSample: body.readUInt16LE(14),
+      };
+    } else if (id === 'data') {
+      if (!format) invalid('WAV data chunk comes before the fmt chunk');
+      if (format.channels === 0 || format.sampleRate === 0 || format.byteRate === 0) {
+        invalid('WAV fmt chunk is invalid');
+      }
+
+      const available = reader.size - offset - 8;
+      let dataSize = size;
+      if (isRf64 && size === 0xffffffff && ds64DataSize !== null) {
+        dataSize = ds64DataSize;
+      } else if (size === 0 || size === 0xffffffff) {
+        // Written by a recorder that never went back to fill in the size
+        dataSize = available;
+      }
+      if (dataSize > available) {
+        invalid(`WAV audio data is truncated (${available} of ${dataSize} bytes present)`);
+      }
+
+      return {
+        container: 'wav',
+        codec: getWavCodec(format.tag, format.bitsPerSample),
+        durationMs: Math.round((dataSize / format.byteRate) * 1000),
+        sampleRate: format.sampleRate,
+        channelCount: format.channels,
+      };
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  return invalid(format ? 'WAV file has no audio data' : 'WAV file has no fmt chunk');
+}
+
+// ============ MP3 ============
+
+const MP3_BITRATES_KBPS: Record<string, number[]> = {
+  'v1-l1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1-l2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1-l3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2-l1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2-l2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'v2-l3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+interface Mp3Frame {
+  version: number; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  layer: number; // 1, 2 or 3
+  bitrate: number; // bits per second
+  sampleRate: number;
+  channelCount: number;
+  samplesPerFrame: number;
+  frameLength: number;
+}
+
+function parseMp3FrameHeader(data: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > data.length) return null;
+  const header = data.readUInt32BE(offset);
+  if ((header >>> 21) !== 0x7ff) return null;
+
+  const version = (header >>> 19) & 3;
+  const layer = 4 - ((header >>> 17) & 3);
+  const bitrateIndex = (header >>> 12) & 0xf;
+  const sampleRateIndex = (header >>> 10) & 3;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const bitrate = MP3_BITRATES_KBPS[`${version === 3 ? 'v1' : 'v2'}-l${layer}`][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (header >>> 9) & 1;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 3 ? 576 : 1152;
+  const frameLength = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return {
+    version,
+    layer,
+    bitrate,
+    sampleRate,
+    channelCount: ((header >>> 6) & 3) === 3 ? 1 : 2,
+    samplesPerFrame,
+    frameLength,
+  };
+}
+
+/**
+ * Frame count from a Xing/Info (LAME) or VBRI header in the first frame, if present
+ */
+function getMp3FrameCount(data: Buffer, frameOffset: number, frame: Mp3Frame): number | null {
+  const sideInfoLength = frame.version === 3
+    ? (frame.channelCount === 1 ? 17 : 32)
+    : (frame.channelCount === 1 ? 9 : 17);
+  const xingOffset = frameOffset + 4 + sideInfoLength;
+  const tag = xingOffset + 12 <= data.length ? ascii(data, xingOffset, 4) : '';
+  if ((tag === 'Xing' || tag === 'Info') && (data.readUInt32BE(xingOffset + 4) & 1)) {
+    return data.readUInt32BE(xingOffset + 8);
+  }
+
+  const vbriOffset = frameOffset + 4 + 32;
+  if (vbriOffset + 18 <= data.length && ascii(data, vbriOffset, 4) === 'VBRI') {
+    return data.readUInt32BE(vbriOffset + 14);
+  }
+  return null;
+}
+
+async function probeMp3(reader: MediaReader, audioStart: number): Promise<MediaInfo> {
+  const data = await reader.read(audioStart, HEAD_BYTES);
+
+  // The first frame is the first sync word followed by another frame where its length says
+  for (let offset = 0; offset + 4 <= data.length; offset++) {
+    const frame = parseMp3FrameHeader(data, offset);
+    if (!frame) continue;
+
+    const nextOffset = offset + frame.frameLength;
+    const isLastFrame = audioStart + nextOffset >= reader.size;
+    if (!isLastFrame && !parseMp3FrameHeader(data, nextOffset)) continue;
+
+    let durationMs: number;
+    const frameCount = getMp3FrameCount(data, offset, frame);
+    if (frameCount) {
+      durationMs = (frameCount * frame.samplesPerFrame / frame.sampleRate) * 1000;
+    } else {
+      // Constant bitrate: the audio bytes say how long it is (minus a trailing ID3v1 tag)
+      const tail = reader.size >= 128 ? await reader.read(reader.size - 128, 3) : Buffer.alloc(0);
+      const audioEnd = ascii(tail, 0, 3) === 'TAG' ? reader.size - 128 : reader.size;
+      durationMs = ((audioEnd - audioStart - offset) * 8 / frame.bitrate) * 1000;
+    }
+
+    return {
+      container: 'mp3',
+      codec: `mp${frame.layer}`,
+      durationMs: Math.round(durationMs),
+      sampleRate: frame.sampleRate,
+      channelCount: frame.channelCount,
+    };
+  }
+
+  return invalid('No MPEG audio frames found');
+}
+
+// ============ MP4 / M4A ============
+
+const MP4_SAMPLE_ENTRY_CODECS: Record<string, string> = {
+  'mp4a': 'aac',
+  'alac': 'alac',
+  'Opus': 'opus',
+  'fLaC': 'flac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  'samr': 'amr_nb',
+  'sawb': 'amr_wb',
+  'ulaw': 'pcm_mulaw',
+  'alaw': 'pcm_alaw',
+  'sowt': 'pcm_s16le',
+  'twos': 'pcm_s16be',
+  'lpcm': 'pcm',
+};
+
+interface Mp4Box {
+  type: string;
+  start: number; // Content start
+  end: number;
+}
+
+/**
+ * Child boxes of a box held in memory
+ */
+function getMp4Children(data: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      invalid(`MP4 box '${ascii(data, offset + 4, 4)}' is malformed`);
+    }
+    boxes.push({ type: ascii(data, offset + 4, 4), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findMp4Box(data: Buffer, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let box: Mp4Box | null = parent;
+  for (const type of path) {
+    box = getMp4Children(data, box.start, box.end).find(child => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+/**
+ * Timescale and duration from an mvhd or mdhd box
+ */
+function readMp4Duration(data: Buffer, box: Mp4Box): { timescale: number; duration: number } {
+  const version = data.readUInt8(box.start);
+  return version === 1
+    ? { timescale: data.readUInt32BE(box.start + 20), duration: Number(data.readBigUInt64BE(box.start + 24)) }
+    : { timescale: data.readUInt32BE(box.start + 12), duration: data.readUInt32BE(box.start + 16) };
+}
+
+async function probeMp4(reader: MediaReader): Promise<MediaInfo> {
+  // Find the moov box among the top-level boxes (it may come after the audio data)
+  let moov: { offset: number; size: number; headerSize: number } | null = null;
+  let offset = 0;
+  while (offset + 8 <= reader.size) {
+    const header = await readExactly(reader, offset, Math.min(16, reader.size - offset), 'MP4 box header');
+    let size = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (size === 1) {
+      if (header.length < 16) invalid('MP4 box header is truncated');
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = reader.size - offset;
+    }
+    if (size < headerSize) invalid('MP4 box header is malformed');
+
+    if (ascii(header, 4, 4) === 'moov') {
+      moov = { offset, size, headerSize };
+      break;
+    }
+    offset += size;
+  }
+
+  if (!moov) invalid('MP4 file has no moov box (the upload may be incomplete)');
+  if (moov.offset + moov.size > reader.size) invalid('MP4 moov box is truncated');
+  if (moov.size > MAX_MOOV_BYTES) invalid('MP4 moov box is too large');
+
+  const data = await readExactly(reader, moov.offset, moov.size, 'MP4 moov box');
+  const root: Mp4Box = { type: 'moov', start: moov.headerSize, end: data.length };
+
+  for (const trak of getMp4Children(data, root.start, root.end).filter(box => box.type === 'trak')) {
+    const hdlr = findMp4Box(data, trak, ['mdia', 'hdlr']);
+    if (!hdlr || ascii(data, hdlr.start + 8, 4) !== 'soun') continue;
+
+    const mdhd = findMp4Box(data, trak, ['mdia', 'mdhd']);
+    const stsd = findMp4Box(data, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!mdhd || !stsd) invalid('MP4 audio track is missing its headers');
+
+    // First sample description: an AudioSampleEntry (QuickTime versions 1 and 2 extend it)
+    const entry = stsd.start + 8;
+    if (entry + 36 > stsd.end) invalid('MP4 audio sample description is too short');
+    const fourcc = ascii(data, entry + 4, 4);
+    const entryVersion = data.readUInt16BE(entry + 16);
+    let channelCount = data.readUInt16BE(entry + 24);
+    let sampleRate = data.readUInt32BE(entry + 32) >>> 16;
+    if (entryVersion === 2 && entry + 52 <= stsd.end) {
+      sampleRate = Math.round(data.readDoubleBE(entry + 40));
+      channelCount = data.readUInt32BE(entry + 48);
+    }
+
+    const track = readMp4Duration(data, mdhd);
+    let durationMs = track.timescale ? (track.duration / track.timescale) * 1000 : 0;
+    if (!durationMs) {
+      const mvhd = findMp4Box(data, root, ['mvhd']);
+      const movie = mvhd ? readMp4Duration(data, mvhd) : null;
+      durationMs = movie?.timescale ? (movie.duration / movie.timescale) * 1000 : 0;
+    }
+    if (!durationMs) {
+      invalid(findMp4Box(data, root, ['mvex'])
+        ? 'Fragmented MP4 files are not supported'
+        : 'MP4 file does not declare its duration');
+    }
+
+    // Rates above 65535 Hz do not fit the 16.16 field; the track timescale is the sample rate then
+    if (!sampleRate) sampleRate = track.timescale;
+    if (!channelCount || !sampleRate) invalid('MP4 audio sample description is invalid');
+
+    return {
+      container: 'mp4',
+      codec: MP4_SAMPLE_ENTRY_CODECS[fourcc] ?? fourcc.trim().toLowerCase(),
+      durationMs: Math.round(durationMs),
+      sampleRate,
+      channelCount,
+    };
+  }
+
+  return invalid('MP4 file has no audio track');
+}
+
+// ============ FLAC ============
+
+/**
+ * Stream info from a FLAC STREAMINFO block (34 bytes)
+ */
+function parseFlacStreamInfo(block: Buffer, offset: number): Omit<MediaInfo, 'container'> {
+  const sampleRate = (block[offset + 10] << 12) | (block[offset + 11] << 4) | (block[offset + 12] >> 4);
+  const channelCount = ((block[offset + 12] >> 1) & 7) + 1;
+  const totalSamples = (block[offset + 13] & 0xf) * 2 ** 32 + block.readUInt32BE(offset + 14);
+
+  if (!sampleRate) invalid('FLAC stream info is invalid');
+  if (!totalSamples) invalid('FLAC stream does not declare its length');
+
+  return {
+    codec: 'flac',
+    durationMs: Math.round((totalSamples / sampleRate) * 1000),
+    sampleRate,
+    channelCount,
+  };
+}
+
+async function probeFlac(reader: MediaReader, streamStart: number): Promise<MediaInfo> {
+  const header = await readExactly(reader, streamStart, 4 + 4 + 34, 'FLAC stream info');
+  if ((header[4] & 0x7f) !== 0) invalid('FLAC stream does not start with its stream info');
+  return { container: 'flac', ...parseFlacStreamInfo(header, 8) };
+}
+
+// ============ OGG ============
+
+// Opus timestamps always count 48 kHz samples, whatever the input rate was
+const OPUS_GRANULE_RATE = 48000;
+
+// Ogg pages are at most ~64 KB, so the last one starts within this many bytes of the end
+const OGG_TAIL_BYTES = 65307;
+
+async function probeOgg(reader: MediaReader, head: Buffer): Promise<MediaInfo> {
+  if (head.length < 28) invalid('File ends inside the first Ogg page');
+  const serial = head.readUInt32LE(14);
+  const packet = head.subarray(27 + head[26]);
+
+  let codec: string;
+  let sampleRate: number;
+  let channelCount: number;
+  let granuleRate: number;
+  let preSkip = 0;
+
+  if (packet.length >= 16 && ascii(packet, 0, 7) === '\x01vorbis') {
+    codec = 'vorbis';
+    channelCount = packet[11];
+    sampleRate = packet.readUInt32LE(12);
+    granuleRate = sampleRate;
+  } else if (packet.length >= 16 && ascii(packet, 0, 8) === 'OpusHead') {
+    codec = 'opus';
+    channelCount = packet[9];
+    preSkip = packet.readUInt16LE(10);
+    sampleRate = packet.readUInt32LE(12) || OPUS_GRANULE_RATE;
+    granuleRate = OPUS_GRANULE_RATE;
+  } else if (packet.length >= 51 && ascii(packet, 0, 5) === '\x7fFLAC') {
+    const info = parseFlacStreamInfo(packet, 17);
+    return { container: 'ogg', ...info };
+  } else {
+    return invalid('Unsupported Ogg codec (expected Vorbis, Opus or FLAC)');
+  }
+
+  if (!channelCount || !sampleRate) invalid('Ogg stream header is invalid');
+
+  // Duration: the granule position of the stream's last page
+  const tailStart = Math.max(0, reader.size - OGG_TAIL_BYTES);
+  const tail = await reader.read(tailStart, reader.size - tailStart);
+  let granule: number | null = null;
+  let offset = tail.lastIndexOf('OggS');
+  while (offset >= 0 && granule === null) {
+    const isPage = offset + 27 <= tail.length && tail[offset + 4] === 0 && tail.readUInt32LE(offset + 14) === serial;
+    // A granule position of -1 means no packet ends on the page
+    if (isPage && tail.readBigInt64LE(offset + 6) >= BigInt(0)) {
+      granule = Number(tail.readBigInt64LE(offset + 6));
+    }
+    offset = offset > 0 ? tail.lastIndexOf('OggS', offset - 1) : -1;
+  }
+  if (granule === null) invalid('Could not find the end of the Ogg stream (the upload may be incomplete)');
+
+  return {
+    container: 'ogg',
+    codec,
+    durationMs: Math.round((Math.max(0, granule - preSkip) / granuleRate) * 1000),
+    sampleRate,
+    channelCount,
+  };
+}
+
+// ============ PROBING ============
+
+/**
+ * Read a file's headers. `format` is the upload's file extension; the
+ * content decides how it is parsed, so a mislabelled but valid file passes.
+ */
+export async function probeMedia(format: string, reader: MediaReader): Promise<ProbeResult> {
+  if (!isProbedFormat(format)) {
+    return { success: true, info: null };
+  }
+  if (reader.size === 0) {
+    return { success: false, error: 'The uploaded file is empty' };
+  }
+
+  try {
+    const head = await reader.read(0, HEAD_BYTES);
+    const magic = ascii(head, 0, 4);
+
+    let info: MediaInfo;
+    if ((magic === 'RIFF' || magic === 'RF64') && ascii(head, 8, 4) === 'WAVE') {
+      info = await probeWav(reader, head);
+    } else if (magic === 'OggS') {
+      info = await probeOgg(reader, head);
+    } else if (ascii(head, 4, 4) === 'ftyp') {
+      info = await probeMp4(reader);
+    } else {
+      // FLAC and MP3 may start with an ID3v2 tag (size is a 28-bit synchsafe integer)
+      let start = 0;
+      if (ascii(head, 0, 3) === 'ID3' && head.length >= 10) {
+        start = 10 + ((head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9]) + (head[5] & 0x10 ? 10 : 0);
+      }
+      const marker = await reader.read(start, 4);
+      info = ascii(marker, 0, 4) === 'fLaC'
+        ? await probeFlac(reader, start)
+        : await probeMp3(reader, start);
+    }
+
+    if (info.durationMs <= 0) {
+      return { success: false, error: 'The file contains no audio' };
+    }
+    return { success: true, info };
+  } catch (error) {
+    if (error instanceof InvalidMediaError) {
+      return { success: false, error: `Not a readable ${format.toUpperCase()} file: ${error.message}` };
+    }
+    // A header field pointing past the bytes we read
+    if (error instanceof RangeError) {
+      return { success: false, error: `Not a readable ${format.toUpperCase()} file: its headers are malformed` };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Recording columns for what a probe found
+ */
+export function getMediaInfoValues(info: MediaInfo | null): Partial<NewRecording> {
+  if (!info) return {};
+  return {
+    durationMs: info.durationMs,
+    durationSeconds: Math.round(info.durationMs / 1000),
+    sampleRate: info.sampleRate,
+    channelCount: info.channelCount,
+    codec: info.codec,
+    probedAt: new Date(),
+  };
+}
+
+/**
+ * Probe an upload from the vault and store what was found. A file that cannot
+ * be read fails the recording (unless it is processing or completed, which
+ * keep their status) and is refused every time it is probed again.
+ * Recordings already probed (or in a format we do not probe) pass unchanged.
+ */
+export async function probeRecordingUpload(
+  recording: Recording,
+  actor: StatusActor
+): Promise<ProbeRecordingResult> {
+  if (recording.probedAt || !isProbedFormat(recording.originalFormat)) {
+    return { success: true, recording };
+  }
+  if (!recording.vaultId || !recording.vaultObjectId) {
+    return { success: false, error: 'Recording not uploaded to vault yet' };
+  }
+
+  const object = await casedev.getObject(recording.vaultId, recording.vaultObjectId);
+  const probe = await probeMedia(
+    recording.originalFormat,
+    createUrlReader(object.downloadUrl, object.sizeBytes || recording.fileSizeBytes)
+  );
+
+  if (!probe.success) {
+    await transitionRecordingStatus(recording.id, 'failed', {
+      actor,
+      reason: `Upload rejected: ${probe.error}`,
+      from: ['uploading', 'uploaded', 'failed'],
+    });
+    console.warn(`[probe] Rejected recording ${recording.id}: ${probe.error}`);
+    return { success: false, error: probe.error };
+  }
+
+  const [updated] = await db
+    .update(recordings)
+    .set({ ...getMediaInfoValues(probe.info), updatedAt: new Date() })
+    .where(eq(recordings.id, recording.id))
+    .returning();
+
+  return { success: true, recording: updated ?? recording };
+}
@@ -0,0 +1,16 @@
+/**
+ * Content types for the recording formats we accept, by file extension
+ */
+export function getContentType(extension: string): string {
+  const contentTypes: Record<string, string> = {
+    ftr: 'application/octet-stream',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    mp4: 'video/mp4',
+    webm: 'audio/webm',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac',
+  };
+  return contentTypes[extension] || 'application/octet-stream';
+}
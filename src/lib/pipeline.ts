@@ -0,0 +1,650 @@
+/**
+ * Processing Pipeline
+ *
+ * Moves each recording through convert → transcribe → ingest using the job
+ * queue in `jobs.ts`. Convert and transcribe jobs submit work to Case.dev and
+ * then wait for the webhook; the webhook routes call back into this module to
+ * complete the step and enqueue the next one. Every stored transcript version
+ * is then indexed for semantic search (`transcript-index.ts`).
+ */
+
+import { db, rangeTranscriptions, recordings, type DbExecutor } from '@/lib/db';
+import type { Job, Recording } from '@/lib/db/schema';
+import { casedev, type ConvertJobResponse } from '@/lib/casedev';
+import { buildTranscriptionParams, parseRecordingSettings } from '@/lib/transcription-settings';
+import { getVocabularyTerms } from '@/lib/vocabulary';
+import { snapshotTranscriptionSettings } from '@/lib/transcripts';
+import {
+  transitionRecordingStatus,
+  canTransition,
+  PROCESSING_STATUSES,
+  type RecordingStatus,
+} from '@/lib/recording-status';
+import { processVaultDeletions } from '@/lib/vault-cleanup';
+import { discardConvertedAudio, getConvertedAudioUrl, storeConvertedAudio } from '@/lib/converted-audio';
+import {
+  ACTIVE_RANGE_STATUSES,
+  failRangeTranscription,
+  findRangeTranscriptionByJob,
+  getRangeTranscriptionForJob,
+  markRangeTranscribing,
+  spliceRangeTranscription,
+  type RangeTranscriptionStatus,
+} from '@/lib/range-transcription';
+import { ingestTranscriptionResult, ingestChannelTranscriptionResults } from '@/lib/ingest-transcription';
+import { indexTranscript, type IndexJobPayload } from '@/lib/transcript-index';
+import { completeChunkedUpload } from '@/lib/chunked-upload';
+import {
+  findChannelByTranscriptionJob,
+  getRecordingChannels,
+  replaceRecordingChannels,
+  updateChannelTranscription,
+} from '@/lib/channels';
+import {
+  enqueueJob,
+  claimDueJobs,
+  releaseStaleJobs,
+  markJobWaiting,
+  markJobSucceeded,
+  markJobFailed,
+  markJobCancelled,
+  findWaitingJob,
+  cancelActiveJobs,
+  parseJobPayload,
+  type JobType,
+} from '@/lib/jobs';
+import { eq } from 'drizzle-orm';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+const WORKER_INTERVAL_MS = Number(process.env.JOB_WORKER_INTERVAL_MS) || 5000;
+const WORKER_BATCH_SIZE = 5;
+
+const STEP_LABELS: Record<JobType, string> = {
+  convert: 'Conversion',
+  transcribe: 'Transcription',
+  ingest: 'Transcript ingestion',
+  index: 'Transcript indexing',
+  finalize: 'Upload finalization',
+};
+
+// Statuses a submitted step moves the recording on from. A recording cancelled
+// (or completed) while its step was being submitted keeps its status.
+const SUBMITTABLE_STATUSES: RecordingStatus[] = ['uploading', 'uploaded', 'converting', 'transcribing', 'failed'];
+
+interface TranscribePayload {
+  audioUrl?: string;
+  channelIndex?: number; // Set when transcribing one channel of a multi-channel recording
+  rangeTranscriptionId?: string; // Set when re-transcribing one passage (range-transcription.ts)
+}
+
+// ============ STEP HANDLERS ============
+
+/**
+ * Submit an FTR recording to the Convert API
+ */
+async function runConvertJob(job: Job, recording: Recording): Promise<void> {
+  if (!recording.vaultId || !recording.vaultObjectId) {
+    throw new Error('Recording not uploaded to vault yet');
+  }
+
+  const objectInfo = await casedev.getObject(recording.vaultId, recording.vaultObjectId);
+
+  const convertJob = await casedev.convertFTR(
+    objectInfo.downloadUrl,
+    `${APP_URL}/api/webhooks/convert`,
+    { output_format: 'm4a', preserve_channels: recording.preserveChannels }
+  );
+
+  if (!(await markJobWaiting(job.id, convertJob.id))) {
+    await cancelRemoteJob('convert', convertJob.id);
+    return;
+  }
+
+  const transition = await transitionRecordingStatus(recording.id, 'converting', {
+    actor: 'pipeline',
+    reason: `Submitted Convert API job ${convertJob.id}`,
+    from: SUBMITTABLE_STATUSES,
+    values: { convertJobId: convertJob.id },
+  });
+
+  if (!transition.success) {
+    await dropSubmittedJob(job, convertJob.id, transition.error);
+  }
+}
+
+/**
+ * Submit audio to the Voice API with the recording's transcription settings and vocabulary
+ */
+async function runTranscribeJob(job: Job, recording: Recording): Promise<void> {
+  const payload = parseJobPayload<TranscribePayload>(job);
+  if (payload?.rangeTranscriptionId) {
+    await runRangeTranscribeJob(job, recording, payload.rangeTranscriptionId);
+    return;
+  }
+
+  let audioUrl: string;
+
+  if (payload?.audioUrl) {
+    // Converted FTR audio: transcribe from a vault copy, since the Convert API's URL expires
+    audioUrl = await storeConvertedAudio(recording, payload.audioUrl, payload.channelIndex ?? null);
+  } else {
+    // Non-FTR files are transcribed straight from the vault
+    if (!recording.vaultId || !recording.vaultObjectId) {
+      throw new Error('Recording not uploaded to vault yet');
+    }
+    const objectInfo = await casedev.getObject(recording.vaultId, recording.vaultObjectId);
+    audioUrl = objectInfo.downloadUrl;
+  }
+
+  const transcriptionParams = buildTranscriptionParams(
+    parseRecordingSettings(recording.settingsJson),
+    await getVocabularyTerms(recording)
+  );
+  const transcriptionJob = await casedev.createTranscription({
+    audio_url: audioUrl,
+    ...transcriptionParams,
+    webhook_url: `${APP_URL}/api/webhooks/transcribe`,
+  });
+
+  if (!(await markJobWaiting(job.id, transcriptionJob.id))) {
+    await cancelRemoteJob('transcribe', transcriptionJob.id);
+    return;
+  }
+
+  const channelIndex = payload?.channelIndex;
+
+  const transition = await transitionRecordingStatus(recording.id, 'transcribing', {
+    actor: 'pipeline',
+    reason: channelIndex === undefined
+      ? `Submitted Voice API job ${transcriptionJob.id}`
+      : `Submitted Voice API job ${transcriptionJob.id} for channel ${channelIndex + 1}`,
+    from: SUBMITTABLE_STATUSES,
+    values: {
+      ...(channelIndex === undefined && {
+        transcriptionJobId: transcriptionJob.id,
+        convertedAudioUrl: recording.convertedAudioUrl || audioUrl,
+      }),
+      transcriptionSettingsJson: JSON.stringify(snapshotTranscriptionSettings(transcriptionParams)),
+    },
+  });
+
+  if (!transition.success) {
+    await dropSubmittedJob(job, transcriptionJob.id, transition.error);
+    return;
+  }
+
+  if (channelIndex !== undefined) {
+    // Channel jobs are tracked on the channel; the recording keeps its mixdown URL
+    await updateChannelTranscription(recording.id, channelIndex, {
+      transcriptionJobId: transcriptionJob.id,
+      status: 'transcribing',
+    });
+  }
+}
+
+/**
+ * Submit one passage of a recording for re-transcription. The recording's
+ * status is left alone: its transcript stays usable while the passage runs.
+ */
+async function runRangeTranscribeJob(job: Job, recording: Recording, rangeId: string): Promise<void> {
+  const range = await db.query.rangeTranscriptions.findFirst({
+    where: eq(rangeTranscriptions.id, rangeId),
+  });
+  // Retries resubmit a passage that is already transcribing; finished passages are left alone
+  if (!range || !ACTIVE_RANGE_STATUSES.includes(range.status as RangeTranscriptionStatus)) {
+    await markJobSucceeded(job.id);
+    return;
+  }
+
+  // FTR recordings are transcribed from their converted audio (the passage's
+  // channel, for recordings transcribed per channel), other files from the vault
+  let audioUrl: string;
+  if (recording.originalFormat.toLowerCase() === 'ftr') {
+    audioUrl = await getConvertedAudioUrl(recording, range.channelIndex);
+  } else {
+    if (!recording.vaultId || !recording.vaultObjectId) {
+      throw new Error('Recording not uploaded to vault yet');
+    }
+    const objectInfo = await casedev.getObject(recording.vaultId, recording.vaultObjectId);
+    audioUrl = objectInfo.downloadUrl;
+  }
+
+  const transcriptionParams = buildTranscriptionParams(
+    parseRecordingSettings(range.settingsJson),
+    await getVocabularyTerms(recording)
+  );
+  const transcriptionJob = await casedev.createTranscription({
+    audio_url: audioUrl,
+    ...transcriptionParams,
+    audio_start_from: range.startMs,
+    audio_end_at: range.endMs,
+    webhook_url: `${APP_URL}/api/webhooks/transcribe`,
+  });
+
+  if (!(await markJobWaiting(job.id, transcriptionJob.id))) {
+    await cancelRemoteJob('transcribe', transcriptionJob.id);
+    return;
+  }
+
+  await markRangeTranscribing(
+    range.id,
+    transcriptionJob.id,
+    JSON.stringify(snapshotTranscriptionSettings(transcriptionParams))
+  );
+}
+
+/**
+ * Fetch a completed transcription and store it as a new transcript version
+ */
+async function runIngestJob(job: Job, recording: Recording): Promise<void> {
+  const transcriptionJobId = job.externalJobId || recording.transcriptionJobId;
+  if (!transcriptionJobId) {
+    throw new Error('No transcription job to ingest');
+  }
+
+  const range = await findRangeTranscriptionByJob(transcriptionJobId);
+  if (range) {
+    await spliceRangeTranscription(range.id, await casedev.getTranscription(transcriptionJobId));
+    await markJobSucceeded(job.id);
+    return;
+  }
+
+  const channel = await findChannelByTranscriptionJob(transcriptionJobId);
+
+  if (channel) {
+    // Multi-channel: store the transcript once every channel is transcribed
+    await updateChannelTranscription(recording.id, channel.channelIndex, { status: 'transcribed' });
+
+    const channels = await getRecordingChannels(recording.id);
+    if (channels.some(c => c.status !== 'transcribed' || !c.transcriptionJobId)) {
+      await markJobSucceeded(job.id);
+      console.log(`Channel ${channel.channelIndex + 1} transcribed, waiting for other channels:`, recording.id);
+      return;
+    }
+
+    const channelResults = await Promise.all(
+      channels.map(async c => ({
+        channelIndex: c.channelIndex,
+        result: await casedev.getTranscription(c.transcriptionJobId!),
+      }))
+    );
+    await ingestChannelTranscriptionResults(recording, channelResults);
+  } else {
+    const result = await casedev.getTranscription(transcriptionJobId);
+    await ingestTranscriptionResult(recording, result);
+  }
+
+  await markJobSucceeded(job.id);
+
+  console.log('Transcription completed for recording:', recording.id);
+}
+
+/**
+ * Upload the active transcript to the vault and ingest it for semantic search
+ */
+async function runIndexJob(job: Job, recording: Recording): Promise<void> {
+  const payload = parseJobPayload<IndexJobPayload>(job);
+  if (!payload?.transcriptId) {
+    throw new Error('No transcript to index');
+  }
+
+  await indexTranscript(recording, payload.transcriptId);
+  await markJobSucceeded(job.id);
+}
+
+/**
+ * Complete a chunked upload in the vault and mark the recording uploaded
+ */
+async function runFinalizeJob(job: Job, recording: Recording): Promise<void> {
+  await completeChunkedUpload(recording);
+  await markJobSucceeded(job.id);
+}
+
+/**
+ * Ask Case.dev to stop a job we no longer want. Best effort: results that
+ * arrive anyway are ignored because the job is cancelled locally.
+ */
+async function cancelRemoteJob(type: JobType, externalJobId: string): Promise<void> {
+  try {
+    if (type === 'convert') {
+      await casedev.cancelConvertJob(externalJobId);
+    } else if (type === 'transcribe') {
+      await casedev.cancelTranscription(externalJobId);
+    }
+  } catch (error) {
+    console.warn(`[pipeline] Could not cancel Case.dev ${type} job ${externalJobId}:`, error);
+  }
+}
+
+/**
+ * Cancel a step submitted to Case.dev whose recording can no longer move on
+ * (cancelled while the step was being submitted)
+ */
+async function dropSubmittedJob(job: Job, externalJobId: string, reason: string): Promise<void> {
+  console.warn(`[pipeline] Dropping ${job.type} job ${job.id}: ${reason}`);
+  await markJobCancelled(job.id);
+  await cancelRemoteJob(job.type as JobType, externalJobId);
+}
+
+// ============ RUNNER ============
+
+/**
+ * Record a failed attempt and fail the recording once the job is dead
+ */
+export async function handleJobFailure(
+  job: Job,
+  errorMessage: string,
+  executor: DbExecutor = db
+): Promise<Job> {
+  const updated = await markJobFailed(job, errorMessage, executor);
+
+  if (!updated) {
+    // Cancelled while running - nothing to retry
+    return job;
+  }
+
+  if (updated.state === 'dead') {
+    console.error(`[pipeline] ${job.type} job ${job.id} moved to dead-letter:`, errorMessage);
+
+    // Indexing only feeds semantic search; the transcript itself is stored
+    if (job.type === 'index') {
+      return updated;
+    }
+
+    // A failed passage leaves the recording and its transcript as they were
+    const range = await getRangeTranscriptionForJob(job, executor);
+    if (range) {
+      await failRangeTranscription(range.id, errorMessage, executor);
+      return updated;
+    }
+
+    await transitionRecordingStatus(job.recordingId, 'failed', {
+      actor: 'pipeline',
+      reason: `${STEP_LABELS[job.type as JobType] || job.type} failed after ${updated.attempts} attempts: ${errorMessage}`,
+    }, executor);
+  } else {
+    console.warn(
+      `[pipeline] ${job.type} job ${job.id} attempt ${updated.attempts}/${updated.maxAttempts} failed, retrying at ${updated.runAt.toISOString()}:`,
+      errorMessage
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Run one claimed job
+ */
+export async function runJob(job: Job): Promise<void> {
+  const recording = await db.query.recordings.findFirst({
+    where: eq(recordings.id, job.recordingId),
+  });
+
+  if (!recording) {
+    await markJobFailed({ ...job, attempts: job.maxAttempts }, 'Recording not found');
+    return;
+  }
+
+  try {
+    switch (job.type as JobType) {
+      case 'convert':
+        await runConvertJob(job, recording);
+        break;
+      case 'transcribe':
+        await runTranscribeJob(job, recording);
+        break;
+      case 'ingest':
+        await runIngestJob(job, recording);
+        break;
+      case 'index':
+        await runIndexJob(job, recording);
+        break;
+      case 'finalize':
+        await runFinalizeJob(job, recording);
+        break;
+      default:
+        throw new Error(`Unknown job type: ${job.type}`);
+    }
+  } catch (error) {
+    await handleJobFailure(job, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Run a specific job right away if it is due (used to keep API responses snappy)
+ */
+export async function runJobNow(jobId: string): Promise<void> {
+  const [job] = await claimDueJobs(1, jobId);
+  if (job) {
+    await runJob(job);
+  }
+}
+
+/**
+ * Run all jobs that are due. Returns the number of jobs run.
+ */
+export async function runDueJobs(): Promise<number> {
+  const released = await releaseStaleJobs();
+  if (released > 0) {
+    console.warn(`[pipeline] Released ${released} stale job(s)`);
+  }
+
+  const claimed = await claimDueJobs(WORKER_BATCH_SIZE);
+  for (const job of claimed) {
+    await runJob(job);
+  }
+  return claimed.length;
+}
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let tickInProgress = false;
+
+/**
+ * Start the in-process worker loop (called from instrumentation on server start)
+ */
+export function startPipelineWorker(): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(async () => {
+    if (tickInProgress) return;
+    tickInProgress = true;
+    try {
+      await runDueJobs();
+      await processVaultDeletions();
+    } catch (error) {
+      console.error('[pipeline] Worker tick failed:', error);
+    } finally {
+      tickInProgress = false;
+    }
+  }, WORKER_INTERVAL_MS);
+
+  console.log(`[pipeline] Worker started (every ${WORKER_INTERVAL_MS}ms)`);
+}
+
+// ============ ENTRY POINTS ============
+
+/**
+ * Start the pipeline for a recording: convert first for FTR, otherwise transcribe
+ */
+export async function startProcessing(recording: Recording): Promise<Job> {
+  const isFTR = recording.originalFormat.toLowerCase() === 'ftr';
+
+  const job = await db.transaction(async (tx) => {
+    // Show the recording as in progress right away (also clears a cancelled or failed state)
+    const transition = await transitionRecordingStatus(recording.id, isFTR ? 'converting' : 'transcribing', {
+      actor: 'user',
+      reason: 'Processing started',
+    }, tx);
+    if (!transition.success) {
+      throw new Error(transition.error);
+    }
+
+    return enqueueJob({
+      recordingId: recording.id,
+      type: isFTR ? 'convert' : 'transcribe',
+    }, tx);
+  });
+
+  await runJobNow(job.id);
+  return job;
+}
+
+/**
+ * Stop processing a recording: cancel its queued and in-flight jobs and mark
+ * it cancelled. Returns the cancelled jobs, or null if nothing was in progress.
+ */
+export async function cancelProcessing(recording: Recording): Promise<Job[] | null> {
+  const cancelledJobs = await db.transaction(tx => cancelRecordingJobs(recording.id, tx));
+
+  if (!cancelledJobs) return null;
+
+  await cancelRemoteJobs(cancelledJobs);
+
+  console.log(`[pipeline] Cancelled processing of recording ${recording.id} (${cancelledJobs.length} job(s))`);
+  return cancelledJobs;
+}
+
+/**
+ * The database half of `cancelProcessing`, in the caller's transaction. Once
+ * it commits, pass the returned jobs to `cancelRemoteJobs`.
+ */
+export async function cancelRecordingJobs(
+  recordingId: string,
+  tx: DbExecutor,
+  reason?: string
+): Promise<Job[] | null> {
+  // Lock the recording so a transcript being stored finishes first (or sees the cancellation)
+  const [locked] = await tx
+    .select({ status: recordings.status })
+    .from(recordings)
+    .where(eq(recordings.id, recordingId))
+    .for('update');
+
+  if (!locked || !canTransition(locked.status, 'cancelled')) {
+    return null;
+  }
+
+  const cancelled = await cancelActiveJobs(recordingId, tx);
+  const inProgress = PROCESSING_STATUSES.includes(locked.status as RecordingStatus);
+
+  if (cancelled.length === 0 && !inProgress) {
+    return null;
+  }
+
+  await transitionRecordingStatus(recordingId, 'cancelled', {
+    actor: 'user',
+    reason: reason ?? `Cancelled ${cancelled.length} job(s)`,
+  }, tx);
+
+  return cancelled;
+}
+
+/**
+ * Cancel the Case.dev jobs the given cancelled jobs were waiting on
+ */
+export async function cancelRemoteJobs(cancelledJobs: Job[]): Promise<void> {
+  for (const job of cancelledJobs) {
+    if (job.externalJobId && job.type !== 'ingest') {
+      await cancelRemoteJob(job.type as JobType, job.externalJobId);
+    }
+  }
+}
+
+/**
+ * Convert webhook: conversion finished, queue transcription of the output.
+ * Recordings that preserve channels get one transcription job per channel.
+ * Returns the queued jobs; run them with `runJobNow` once the caller's transaction commits.
+ */
+export async function onConversionCompleted(
+  recording: Recording,
+  convertJobId: string,
+  audioUrl: string,
+  metadata?: ConvertJobResponse['metadata'],
+  channelUrls: string[] = [],
+  executor: DbExecutor = db
+): Promise<Job[]> {
+  const waitingJob = await findWaitingJob('convert', convertJobId, executor);
+  if (waitingJob) {
+    await markJobSucceeded(waitingJob.id, executor);
+  }
+
+  // Copies of an earlier conversion's audio are replaced by this one's
+  await discardConvertedAudio(recording, executor);
+
+  // Update recording with converted file info
+  await executor
+    .update(recordings)
+    .set({
+      convertedAudioUrl: audioUrl,
+      durationSeconds: metadata?.duration_seconds,
+      channelCount: metadata?.channels ?? (channelUrls.length || undefined),
+      updatedAt: new Date(),
+    })
+    .where(eq(recordings.id, recording.id));
+
+  if (recording.preserveChannels && channelUrls.length > 1) {
+    const channels = await replaceRecordingChannels(recording.id, channelUrls, executor);
+    const channelJobs: Job[] = [];
+    for (const channel of channels) {
+      channelJobs.push(await enqueueJob({
+        recordingId: recording.id,
+        type: 'transcribe',
+        payload: { audioUrl: channel.audioUrl, channelIndex: channel.channelIndex },
+      }, executor));
+    }
+    return channelJobs;
+  }
+
+  const transcribeJob = await enqueueJob({
+    recordingId: recording.id,
+    type: 'transcribe',
+    payload: { audioUrl },
+  }, executor);
+  return [transcribeJob];
+}
+
+/**
+ * Transcribe webhook: transcription finished, queue ingestion of the result.
+ * Returns the queued job; run it with `runJobNow` once the caller's transaction commits.
+ */
+export async function onTranscriptionCompleted(
+  recording: Recording,
+  transcriptionJobId: string,
+  executor: DbExecutor = db
+): Promise<Job> {
+  const waitingJob = await findWaitingJob('transcribe', transcriptionJobId, executor);
+  if (waitingJob) {
+    await markJobSucceeded(waitingJob.id, executor);
+  }
+
+  return enqueueJob({
+    recordingId: recording.id,
+    type: 'ingest',
+    externalJobId: transcriptionJobId,
+  }, executor);
+}
+
+/**
+ * A Case.dev job reported failure: retry the step (resubmit) or dead-letter it
+ */
+export async function onRemoteJobFailed(
+  type: 'convert' | 'transcribe',
+  externalJobId: string,
+  recording: Recording,
+  errorMessage: string,
+  executor: DbExecutor = db
+): Promise<void> {
+  const waitingJob = await findWaitingJob(type, externalJobId, executor);
+
+  if (waitingJob) {
+    await handleJobFailure(waitingJob, errorMessage, executor);
+    return;
+  }
+
+  // No job to retry (started before the job queue existed) - fail directly
+  await transitionRecordingStatus(recording.id, 'failed', {
+    actor: 'webhook',
+    reason: errorMessage,
+  }, executor);
+}
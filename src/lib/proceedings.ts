@@ -0,0 +1,291 @@
+/**
+ * Proceedings
+ *
+ * Courtroom systems split one hearing into several files, and each file is
+ * uploaded and transcribed as its own recording with a timeline starting at
+ * 00:00. A proceeding puts such recordings in order and treats them as one:
+ * each file starts where the previous one ends, so the combined transcript
+ * has cumulative timestamps, playback runs on across files and exports
+ * number pages and lines continuously.
+ */
+
+import { db, recordings, transcripts, utterances, type DbExecutor } from '@/lib/db';
+import type { Proceeding, Recording } from '@/lib/db/schema';
+import { casedev } from '@/lib/casedev';
+import {
+  getExportContentType,
+  loadExportTranscript,
+  renderTranscriptDocument,
+  type ExportedTranscript,
+  type ExportFormat,
+  type ExportOptions,
+  type TranscriptDocumentInfo,
+} from '@/lib/transcript-export';
+import { withLanguageTag } from '@/lib/languages';
+import type { EditedTranscriptLine } from '@/lib/utterance-edits';
+import { and, asc, eq, inArray, max } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const MAX_PROCEEDING_RECORDINGS = 50;
+
+const recordingIdsSchema = z
+  .array(z.string().min(1, 'Recording ID is required'))
+  .min(1, 'At least one recording is required')
+  .max(MAX_PROCEEDING_RECORDINGS, `At most ${MAX_PROCEEDING_RECORDINGS} recordings`)
+  .refine(ids => new Set(ids).size === ids.length, 'A recording can only appear once');
+
+export const createProceedingSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(500, 'Title too long'),
+  // In playback order
+  recordingIds: recordingIdsSchema,
+});
+
+export const updateProceedingSchema = createProceedingSchema.partial();
+
+/**
+ * One file of a proceeding and where it falls on the combined timeline
+ */
+export interface ProceedingSegment {
+  recording: Recording;
+  offsetMs: number;
+  durationMs: number;
+}
+
+/**
+ * A transcript line on the combined timeline
+ */
+export type ProceedingLine = EditedTranscriptLine & {
+  recordingId: string;
+  segmentIndex: number;
+};
+
+// ============ MEMBERSHIP ============
+
+/**
+ * Check that recordings can form a proceeding: they all exist and none
+ * belongs to another proceeding
+ */
+export async function validateProceedingRecordings(
+  recordingIds: string[],
+  proceedingId: string | null
+): Promise<{ success: true; recordings: Recording[] } | { success: false; error: string }> {
+  const found = await db.query.recordings.findMany({
+    where: inArray(recordings.id, recordingIds),
+  });
+
+  const missing = recordingIds.filter(id => !found.some(r => r.id === id));
+  if (missing.length > 0) {
+    return { success: false, error: `Recording not found: ${missing.join(', ')}` };
+  }
+
+  const taken = found.find(r => r.proceedingId && r.proceedingId !== proceedingId);
+  if (taken) {
+    return { success: false, error: `${taken.filename} already belongs to another proceeding` };
+  }
+
+  const caseIds = new Set(found.map(r => r.caseId).filter(Boolean));
+  if (caseIds.size > 1) {
+    return { success: false, error: 'The recordings belong to different cases' };
+  }
+
+  return { success: true, recordings: recordingIds.map(id => found.find(r => r.id === id)!) };
+}
+
+/**
+ * Replace a proceeding's recordings, in the given order
+ */
+export async function setProceedingRecordings(
+  proceedingId: string,
+  recordingIds: string[],
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor
+    .update(recordings)
+    .set({ proceedingId: null, proceedingPosition: null, updatedAt: new Date() })
+    .where(eq(recordings.proceedingId, proceedingId));
+
+  for (const [position, recordingId] of recordingIds.entries()) {
+    await executor
+      .update(recordings)
+      .set({ proceedingId, proceedingPosition: position, updatedAt: new Date() })
+      .where(eq(recordings.id, recordingId));
+  }
+}
+
+/**
+ * The case a proceeding belongs to: its recordings' case, if they have one
+ */
+export function getProceedingCaseId(members: Recording[]): string | null {
+  return members.find(r => r.caseId)?.caseId ?? null;
+}
+
+// ============ TIMELINE ============
+
+/**
+ * Length of a recording: the probed duration, the converted duration, or the
+ * end of its last utterance when neither is known
+ */
+function getRecordingDurationMs(recording: Recording, lastUtteranceEndMs: number | null): number {
+  if (recording.durationMs !== null) return recording.durationMs;
+  if (recording.durationSeconds !== null) return recording.durationSeconds * 1000;
+  return lastUtteranceEndMs ?? 0;
+}
+
+/**
+ * A proceeding's recordings in order, each with its offset on the combined timeline
+ */
+export async function getProceedingSegments(proceedingId: string): Promise<ProceedingSegment[]> {
+  const members = await db.query.recordings.findMany({
+    where: eq(recordings.proceedingId, proceedingId),
+    orderBy: [asc(recordings.proceedingPosition), asc(recordings.createdAt)],
+  });
+  if (members.length === 0) return [];
+
+  const lastEnds = await db
+    .select({ recordingId: transcripts.recordingId, endMs: max(utterances.endMs) })
+    .from(utterances)
+    .innerJoin(transcripts, eq(utterances.transcriptId, transcripts.id))
+    .where(and(inArray(transcripts.recordingId, members.map(r => r.id)), eq(transcripts.isActive, true)))
+    .groupBy(transcripts.recordingId);
+  const lastEndMap = new Map(lastEnds.map(row => [row.recordingId, row.endMs]));
+
+  let offsetMs = 0;
+  return members.map(recording => {
+    const durationMs = getRecordingDurationMs(recording, lastEndMap.get(recording.id) ?? null);
+    const segment = { recording, offsetMs, durationMs };
+    offsetMs += durationMs;
+    return segment;
+  });
+}
+
+/**
+ * Fresh playback URL for a segment (presigned URLs expire after an hour)
+ */
+export async function getSegmentAudioUrl(recording: Recording): Promise<string | null> {
+  if (recording.vaultId && recording.vaultObjectId) {
+    try {
+      const objectInfo = await casedev.getObject(recording.vaultId, recording.vaultObjectId);
+      return objectInfo.downloadUrl;
+    } catch (e) {
+      console.error('Failed to get fresh audio URL:', e);
+    }
+  }
+  return recording.convertedAudioUrl;
+}
+
+/**
+ * The combined transcript: each recording's active transcript with edits
+ * applied, shifted by its offset. Speaker names are resolved per recording,
+ * since speaker IDs restart in every file. Recordings without a transcript
+ * are listed in `missing`.
+ */
+export async function getProceedingTranscript(
+  segments: ProceedingSegment[],
+  languageTagStyle?: ExportOptions['languageTagStyle']
+): Promise<{ lines: ProceedingLine[]; missing: string[] }> {
+  const lines: ProceedingLine[] = [];
+  const missing: string[] = [];
+
+  for (const [segmentIndex, segment] of segments.entries()) {
+    const source = await loadExportTranscript(segment.recording.id);
+    if (!source) {
+      missing.push(segment.recording.id);
+      continue;
+    }
+
+    for (const line of source.lines) {
+      lines.push({
+        ...line,
+        speakerLabel: source.labelMap[line.speaker] || line.speakerLabel || `Speaker ${line.speaker}`,
+        text: languageTagStyle
+          ? withLanguageTag(line.text, line.language, source.transcript.language, languageTagStyle)
+          : line.text,
+        startMs: line.startMs + segment.offsetMs,
+        endMs: line.endMs + segment.offsetMs,
+        recordingId: segment.recording.id,
+        segmentIndex,
+      });
+    }
+  }
+
+  return { lines, missing };
+}
+
+// ============ EXPORT ============
+
+/**
+ * Document header for a proceeding: its first recording's case details,
+ * the files it spans and its total length
+ */
+function getProceedingDocumentInfo(segments: ProceedingSegment[]): TranscriptDocumentInfo {
+  const first = segments[0].recording;
+  const last = segments[segments.length - 1].recording;
+  const totalMs = segments.reduce((sum, s) => sum + s.durationMs, 0);
+
+  return {
+    filename: segments.length === 1
+      ? first.filename
+      : `${first.filename} – ${last.filename} (${segments.length} files)`,
+    caseNumber: first.caseNumber,
+    courtName: first.courtName,
+    recordingDate: first.recordingDate,
+    durationSeconds: totalMs > 0 ? Math.round(totalMs / 1000) : null,
+  };
+}
+
+/**
+ * Export a proceeding as one document. Returns null if none of its
+ * recordings has a transcript.
+ */
+export async function exportProceedingTranscript(
+  proceeding: Proceeding,
+  segments: ProceedingSegment[],
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<ExportedTranscript | null> {
+  if (segments.length === 0) return null;
+
+  const { lines, missing } = await getProceedingTranscript(
+    segments,
+    format === 'json' ? undefined : options.languageTagStyle
+  );
+  if (missing.length === segments.length) return null;
+
+  let data: Buffer;
+  if (format === 'json') {
+    data = Buffer.from(JSON.stringify({
+      proceeding: {
+        id: proceeding.id,
+        title: proceeding.title,
+        durationMs: segments.reduce((sum, s) => sum + s.durationMs, 0),
+      },
+      recordings: segments.map(segment => ({
+        id: segment.recording.id,
+        filename: segment.recording.filename,
+        recordingDate: segment.recording.recordingDate,
+        offsetMs: segment.offsetMs,
+        durationMs: segment.durationMs,
+        transcribed: !missing.includes(segment.recording.id),
+      })),
+      utterances: lines.map(line => ({
+        id: line.id,
+        recordingId: line.recordingId,
+        speaker: line.speaker,
+        speakerName: line.speakerLabel,
+        text: line.text,
+        language: line.language,
+        startMs: line.startMs,
+        endMs: line.endMs,
+      })),
+    }, null, 2));
+  } else {
+    // Speaker names are already resolved per recording
+    data = await renderTranscriptDocument(getProceedingDocumentInfo(segments), lines, {}, format, options);
+  }
+
+  return {
+    filename: `${proceeding.title.replace(/[^a-zA-Z0-9-]/g, '_')}-transcript.${format}`,
+    contentType: getExportContentType(format),
+    data,
+  };
+}
@@ -0,0 +1,551 @@
+/**
+ * Range Re-transcription
+ *
+ * Re-runs the Voice API on one passage of a recording (crosstalk, a bad mic)
+ * instead of the whole file. The passage is widened to whole utterances,
+ * transcribed with its own settings, and the result is shifted back to
+ * recording time and spliced into a new transcript version in place of the
+ * utterances it covers. The version it was cut from stays in the transcript
+ * history, so the replaced utterances remain available there.
+ *
+ * Recordings transcribed per channel re-transcribe one channel's audio: the
+ * passage replaces only that channel's utterances, and its speakers all
+ * become the channel speaker. The channel is chosen by the caller or, by
+ * default, is the one speaking most in the passage.
+ *
+ * Jobs run through the regular queue as 'transcribe' and 'ingest' jobs; a
+ * transcribe job for a passage carries `rangeTranscriptionId` in its payload.
+ */
+
+import {
+  db,
+  rangeTranscriptions,
+  recordings,
+  transcripts,
+  utterances,
+  utteranceEdits,
+  words,
+  type DbExecutor,
+} from '@/lib/db';
+import type { Job, RangeTranscription, Recording, Transcript, Utterance } from '@/lib/db/schema';
+import type { TranscriptionJobResponse, TranscriptionWord } from '@/lib/casedev';
+import { createTranscriptVersion } from '@/lib/transcripts';
+import { getUtteranceWords } from '@/lib/ingest-transcription';
+import { MAX_CHANNELS, getChannelSpeakerId } from '@/lib/channels';
+import { queueTranscriptIndexing } from '@/lib/transcript-index';
+import { enqueueJob, parseJobPayload } from '@/lib/jobs';
+import { DEFAULT_TRANSCRIPT_LANGUAGE } from '@/lib/languages';
+import {
+  parseRecordingSettings,
+  transcriptionSettingsSchema,
+  type TranscriptionSettings,
+} from '@/lib/transcription-settings';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+export const RANGE_TRANSCRIPTION_STATUSES = ['pending', 'transcribing', 'completed', 'failed'] as const;
+export type RangeTranscriptionStatus = (typeof RANGE_TRANSCRIPTION_STATUSES)[number];
+
+// Statuses in which a passage is still being re-transcribed
+export const ACTIVE_RANGE_STATUSES: RangeTranscriptionStatus[] = ['pending', 'transcribing'];
+
+export const MIN_RANGE_MS = 1000;
+
+const UTTERANCE_BATCH_SIZE = 100;
+const WORD_BATCH_SIZE = 500;
+
+export const createRangeTranscriptionSchema = z.object({
+  startMs: z.number().int().min(0, 'Start time must not be negative'),
+  endMs: z.number().int().positive('End time must be positive'),
+  // 1-based channel to re-transcribe, for recordings transcribed per channel
+  channel: z.number().int().min(1, 'Channel must be at least 1').max(MAX_CHANNELS, `Channel must be at most ${MAX_CHANNELS}`).optional(),
+  settings: transcriptionSettingsSchema.optional(),
+}).refine(
+  range => range.endMs - range.startMs >= MIN_RANGE_MS,
+  `The range must be at least ${MIN_RANGE_MS / 1000} second long`
+);
+
+export interface RangeTranscriptionResponse {
+  id: string;
+  status: RangeTranscriptionStatus;
+  startMs: number;
+  endMs: number;
+  channel: number | null; // 1-based
+  settings: TranscriptionSettings;
+  baseTranscriptId: string;
+  resultTranscriptId: string | null;
+  replacedUtteranceCount: number | null;
+  insertedUtteranceCount: number | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export function toRangeTranscriptionResponse(range: RangeTranscription): RangeTranscriptionResponse {
+  return {
+    id: range.id,
+    status: range.status as RangeTranscriptionStatus,
+    startMs: range.startMs,
+    endMs: range.endMs,
+    channel: range.channelIndex === null ? null : range.channelIndex + 1,
+    settings: parseRecordingSettings(range.settingsJson),
+    baseTranscriptId: range.baseTranscriptId,
+    resultTranscriptId: range.resultTranscriptId,
+    replacedUtteranceCount: range.replacedUtteranceCount,
+    insertedUtteranceCount: range.insertedUtteranceCount,
+    errorMessage: range.errorMessage,
+    createdAt: range.createdAt,
+    completedAt: range.completedAt,
+  };
+}
+
+function overlaps(item: { startMs: number; endMs: number }, startMs: number, endMs: number): boolean {
+  return item.endMs > startMs && item.startMs < endMs;
+}
+
+/**
+ * Channel of a per-channel transcript that speaks most within a range
+ * (the lowest channel if none speaks there)
+ */
+function pickRangeChannel(
+  utteranceList: Array<Pick<Utterance, 'startMs' | 'endMs' | 'channel'>>,
+  startMs: number,
+  endMs: number
+): number {
+  const spokenMs = new Map<number, number>();
+  for (const u of utteranceList) {
+    if (u.channel === null) continue;
+    const overlap = Math.max(0, Math.min(u.endMs, endMs) - Math.max(u.startMs, startMs));
+    spokenMs.set(u.channel, (spokenMs.get(u.channel) ?? 0) + overlap);
+  }
+  return [...spokenMs.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+}
+
+/**
+ * Widen a range to whole utterances, so no utterance is cut in half
+ * (repeated because overlapping speech can pull in further utterances)
+ */
+export function snapRangeToUtterances(
+  utteranceList: Array<Pick<Utterance, 'startMs' | 'endMs'>>,
+  startMs: number,
+  endMs: number
+): { startMs: number; endMs: number } {
+  let range = { startMs, endMs };
+  for (;;) {
+    const covered = utteranceList.filter(u => overlaps(u, range.startMs, range.endMs));
+    const snapped = {
+      startMs: Math.min(range.startMs, ...covered.map(u => u.startMs)),
+      endMs: Math.max(range.endMs, ...covered.map(u => u.endMs)),
+    };
+    if (snapped.startMs === range.startMs && snapped.endMs === range.endMs) return range;
+    range = snapped;
+  }
+}
+
+// ============ QUERIES ============
+
+export async function listRangeTranscriptions(recordingId: string): Promise<RangeTranscription[]> {
+  return db.query.rangeTranscriptions.findMany({
+    where: eq(rangeTranscriptions.recordingId, recordingId),
+    orderBy: [desc(rangeTranscriptions.createdAt)],
+  });
+}
+
+export async function findRangeTranscriptionByJob(
+  transcriptionJobId: string,
+  executor: DbExecutor = db
+): Promise<RangeTranscription | undefined> {
+  return executor.query.rangeTranscriptions.findFirst({
+    where: eq(rangeTranscriptions.transcriptionJobId, transcriptionJobId),
+  });
+}
+
+/**
+ * The passage a queue job works on, if it is a range job
+ */
+export async function getRangeTranscriptionForJob(
+  job: Job,
+  executor: DbExecutor = db
+): Promise<RangeTranscription | undefined> {
+  const payload = parseJobPayload<{ rangeTranscriptionId?: string }>(job);
+  if (payload?.rangeTranscriptionId) {
+    return executor.query.rangeTranscriptions.findFirst({
+      where: eq(rangeTranscriptions.id, payload.rangeTranscriptionId),
+    });
+  }
+  return job.externalJobId ? findRangeTranscriptionByJob(job.externalJobId, executor) : undefined;
+}
+
+// ============ LIFECYCLE ============
+
+/**
+ * Queue re-transcription of a passage of the active transcript.
+ * Returns the queued job; run it with `runJobNow`.
+ */
+export async function createRangeTranscription(
+  recording: Recording,
+  transcript: Transcript,
+  params: { startMs: number; endMs: number; channelIndex?: number; settings: TranscriptionSettings }
+): Promise<{ range: RangeTranscription; job: Job }> {
+  const transcriptUtterances = await db.query.utterances.findMany({
+    where: eq(utterances.transcriptId, transcript.id),
+    columns: { startMs: true, endMs: true, channel: true },
+  });
+
+  // Per-channel transcripts are re-transcribed one channel at a time
+  const perChannel = transcriptUtterances.some(u => u.channel !== null);
+  const channelIndex = perChannel
+    ? params.channelIndex ?? pickRangeChannel(transcriptUtterances, params.startMs, params.endMs)
+    : null;
+  const snapped = snapRangeToUtterances(
+    channelIndex === null ? transcriptUtterances : transcriptUtterances.filter(u => u.channel === channelIndex),
+    params.startMs,
+    params.endMs
+  );
+
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const [range] = await tx.insert(rangeTranscriptions).values({
+      id: uuidv4(),
+      recordingId: recording.id,
+      baseTranscriptId: transcript.id,
+      startMs: snapped.startMs,
+      endMs: snapped.endMs,
+      channelIndex,
+      status: 'pending',
+      settingsJson: JSON.stringify(params.settings),
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+
+    const job = await enqueueJob({
+      recordingId: recording.id,
+      type: 'transcribe',
+      payload: { rangeTranscriptionId: range.id },
+    }, tx);
+
+    return { range, job };
+  });
+}
+
+/**
+ * Record the Voice API job a passage was submitted as
+ */
+export async function markRangeTranscribing(
+  rangeId: string,
+  transcriptionJobId: string,
+  transcriptionSettingsJson: string
+): Promise<void> {
+  await db
+    .update(rangeTranscriptions)
+    .set({ status: 'transcribing', transcriptionJobId, transcriptionSettingsJson, updatedAt: new Date() })
+    .where(eq(rangeTranscriptions.id, rangeId));
+}
+
+/**
+ * Give up on a passage. The active transcript is left as it was.
+ */
+export async function failRangeTranscription(
+  rangeId: string,
+  errorMessage: string,
+  executor: DbExecutor = db
+): Promise<void> {
+  const now = new Date();
+  await executor
+    .update(rangeTranscriptions)
+    .set({ status: 'failed', errorMessage, completedAt: now, updatedAt: now })
+    .where(and(
+      eq(rangeTranscriptions.id, rangeId),
+      inArray(rangeTranscriptions.status, ACTIVE_RANGE_STATUSES)
+    ));
+}
+
+// ============ SPLICE ============
+
+interface SplicedUtterance {
+  speaker: string;
+  speakerLabel: string | null;
+  text: string;
+  startMs: number;
+  endMs: number;
+  confidence: number | null;
+  channel: number | null;
+  language: string | null;
+  words: Array<Pick<TranscriptionWord, 'text' | 'confidence'> & { startMs: number; endMs: number; speaker: string | null }>;
+  sourceUtteranceId?: string; // Kept utterance this one copies
+}
+
+/**
+ * The clip's speaker letters (A, B, …) mean nothing in the full transcript.
+ * Each clip speaker becomes the replaced speaker it overlaps most in time;
+ * a clip speaker overlapping nobody keeps the API's letter.
+ */
+function mapClipSpeakers(
+  clipUtterances: Array<{ speaker: string; startMs: number; endMs: number }>,
+  replaced: Utterance[]
+): Map<string, Utterance> {
+  const overlapMs = new Map<string, Map<Utterance, number>>();
+
+  for (const u of clipUtterances) {
+    for (const r of replaced) {
+      const overlap = Math.min(u.endMs, r.endMs) - Math.max(u.startMs, r.startMs);
+      if (overlap <= 0) continue;
+      const bySpeaker = overlapMs.get(u.speaker) ?? new Map<Utterance, number>();
+      bySpeaker.set(r, (bySpeaker.get(r) ?? 0) + overlap);
+      overlapMs.set(u.speaker, bySpeaker);
+    }
+  }
+
+  const mapping = new Map<string, Utterance>();
+  for (const [clipSpeaker, bySpeaker] of overlapMs) {
+    // Total overlap per transcript speaker, keeping one of their utterances for label and channel
+    const totals = new Map<string, { utterance: Utterance; ms: number }>();
+    for (const [utterance, ms] of bySpeaker) {
+      const total = totals.get(utterance.speaker);
+      totals.set(utterance.speaker, { utterance: total?.utterance ?? utterance, ms: (total?.ms ?? 0) + ms });
+    }
+    const best = [...totals.values()].sort((a, b) => b.ms - a.ms)[0];
+    if (best) mapping.set(clipSpeaker, best.utterance);
+  }
+  return mapping;
+}
+
+/**
+ * Splice a completed passage transcription into a new active transcript
+ * version. Kept utterances are copied with their words and saved edits.
+ * Splicing the same passage twice is a no-op; a passage whose base version
+ * is no longer active fails instead of overwriting the newer transcript.
+ */
+export async function spliceRangeTranscription(
+  rangeId: string,
+  result: TranscriptionJobResponse
+): Promise<RangeTranscription> {
+  if (result.status !== 'completed') {
+    throw new Error(`Transcription ${result.id} is not complete (status: ${result.status})`);
+  }
+
+  return db.transaction(async (tx) => {
+    const [range] = await tx
+      .select()
+      .from(rangeTranscriptions)
+      .where(eq(rangeTranscriptions.id, rangeId))
+      .for('update');
+
+    if (!range) {
+      throw new Error(`Range transcription ${rangeId} not found`);
+    }
+    if (!ACTIVE_RANGE_STATUSES.includes(range.status as RangeTranscriptionStatus)) {
+      return range;
+    }
+
+    // Lock the recording so a full transcript being stored at the same time goes first
+    await tx
+      .select({ id: recordings.id })
+      .from(recordings)
+      .where(eq(recordings.id, range.recordingId))
+      .for('update');
+
+    const base = await tx.query.transcripts.findFirst({
+      where: eq(transcripts.id, range.baseTranscriptId),
+    });
+
+    const now = new Date();
+
+    if (!base?.isActive) {
+      const [failed] = await tx
+        .update(rangeTranscriptions)
+        .set({
+          status: 'failed',
+          errorMessage: 'The transcript changed while the passage was being re-transcribed',
+          completedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(rangeTranscriptions.id, range.id))
+        .returning();
+      return failed;
+    }
+
+    const baseUtterances = await tx.query.utterances.findMany({
+      where: eq(utterances.transcriptId, base.id),
+      orderBy: [asc(utterances.sequenceIndex)],
+    });
+    const baseWords = await tx.query.words.findMany({
+      where: eq(words.transcriptId, base.id),
+      orderBy: [asc(words.utteranceId), asc(words.wordIndex)],
+    });
+    const baseEdits = await tx.query.utteranceEdits.findMany({
+      where: eq(utteranceEdits.transcriptId, base.id),
+    });
+
+    // A channel passage only replaces that channel's utterances
+    const isReplaced = (u: Utterance) =>
+      overlaps(u, range.startMs, range.endMs) && (range.channelIndex === null || u.channel === range.channelIndex);
+    const replaced = baseUtterances.filter(isReplaced);
+    const kept = baseUtterances.filter(u => !isReplaced(u));
+
+    // Clip times are relative to the start of the passage
+    const clipWords = getUtteranceWords(result);
+    const clipLanguage = result.language_code || base.language || DEFAULT_TRANSCRIPT_LANGUAGE;
+    const clipUtterances = (result.utterances || []).map((u, index) => ({
+      ...u,
+      startMs: u.start + range.startMs,
+      endMs: u.end + range.startMs,
+      words: clipWords[index],
+    }));
+    const speakerMap = mapClipSpeakers(clipUtterances, replaced);
+
+    const inserted: SplicedUtterance[] = clipUtterances.map(u => {
+      const mapped = speakerMap.get(u.speaker);
+      // Everything heard on a channel is the channel's speaker
+      const speaker = range.channelIndex !== null
+        ? getChannelSpeakerId(range.channelIndex)
+        : mapped?.speaker ?? u.speaker;
+      return {
+        speaker,
+        speakerLabel: range.channelIndex !== null ? replaced[0]?.speakerLabel ?? null : mapped?.speakerLabel ?? null,
+        text: u.text,
+        startMs: u.startMs,
+        endMs: u.endMs,
+        confidence: u.confidence ?? null,
+        channel: range.channelIndex ?? mapped?.channel ?? null,
+        language: u.language_code || clipLanguage,
+        words: u.words.map(w => ({
+          text: w.text,
+          startMs: w.start + range.startMs,
+          endMs: w.end + range.startMs,
+          confidence: w.confidence,
+          speaker,
+        })),
+      };
+    });
+
+    const wordsByUtterance = new Map<string, typeof baseWords>();
+    for (const word of baseWords) {
+      const list = wordsByUtterance.get(word.utteranceId) ?? [];
+      list.push(word);
+      wordsByUtterance.set(word.utteranceId, list);
+    }
+
+    const spliced: SplicedUtterance[] = [
+      ...kept.map(u => ({
+        speaker: u.speaker,
+        speakerLabel: u.speakerLabel,
+        text: u.text,
+        startMs: u.startMs,
+        endMs: u.endMs,
+        confidence: u.confidence,
+        channel: u.channel,
+        language: u.language,
+        words: (wordsByUtterance.get(u.id) ?? []).map(w => ({
+          text: w.text,
+          startMs: w.startMs,
+          endMs: w.endMs,
+          confidence: w.confidence ?? undefined,
+          speaker: w.speaker,
+        })),
+        sourceUtteranceId: u.id,
+      })),
+      ...inserted,
+    ].sort((a, b) => a.startMs - b.startMs);
+
+    const confidences = spliced.map(u => u.confidence).filter((c): c is number => c !== null);
+
+    const transcript = await createTranscriptVersion({
+      id: uuidv4(),
+      recordingId: range.recordingId,
+      // Unique per passage, so splicing the same passage twice cannot create two versions
+      transcriptionJobId: `range:${range.id}`,
+      settingsJson: base.settingsJson,
+      fullText: spliced.map(u => u.text).join(' '),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+        : base.confidence,
+      language: base.language,
+      summary: base.summary,
+      chaptersJson: base.chaptersJson,
+      createdAt: now,
+    }, tx);
+
+    const utteranceRecords = spliced.map((u, index) => ({
+      id: uuidv4(),
+      transcriptId: transcript.id,
+      recordingId: range.recordingId,
+      speaker: u.speaker,
+      speakerLabel: u.speakerLabel,
+      text: u.text,
+      startMs: u.startMs,
+      endMs: u.endMs,
+      confidence: u.confidence,
+      channel: u.channel,
+      language: u.language,
+      sequenceIndex: index,
+    }));
+
+    for (let i = 0; i < utteranceRecords.length; i += UTTERANCE_BATCH_SIZE) {
+      await tx.insert(utterances).values(utteranceRecords.slice(i, i + UTTERANCE_BATCH_SIZE));
+    }
+
+    const wordRecords = utteranceRecords.flatMap((u, index) =>
+      spliced[index].words.map((w, wordIndex) => ({
+        id: uuidv4(),
+        transcriptId: transcript.id,
+        recordingId: range.recordingId,
+        utteranceId: u.id,
+        text: w.text,
+        startMs: w.startMs,
+        endMs: w.endMs,
+        confidence: w.confidence ?? null,
+        speaker: w.speaker,
+        wordIndex,
+      }))
+    );
+
+    for (let i = 0; i < wordRecords.length; i += WORD_BATCH_SIZE) {
+      await tx.insert(words).values(wordRecords.slice(i, i + WORD_BATCH_SIZE));
+    }
+
+    // Proofreading done outside the passage carries over to the new version
+    const newUtteranceIds = new Map(
+      spliced.flatMap((u, index) => u.sourceUtteranceId ? [[u.sourceUtteranceId, utteranceRecords[index].id]] : [])
+    );
+    const editRecords = baseEdits
+      .filter(edit => newUtteranceIds.has(edit.utteranceId))
+      .map(edit => ({
+        ...edit,
+        id: uuidv4(),
+        transcriptId: transcript.id,
+        utteranceId: newUtteranceIds.get(edit.utteranceId)!,
+      }));
+
+    for (let i = 0; i < editRecords.length; i += UTTERANCE_BATCH_SIZE) {
+      await tx.insert(utteranceEdits).values(editRecords.slice(i, i + UTTERANCE_BATCH_SIZE));
+    }
+
+    await queueTranscriptIndexing(range.recordingId, transcript.id, tx);
+
+    const [completed] = await tx
+      .update(rangeTranscriptions)
+      .set({
+        status: 'completed',
+        resultTranscriptId: transcript.id,
+        replacedUtteranceCount: replaced.length,
+        insertedUtteranceCount: inserted.length,
+        errorMessage: null,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(rangeTranscriptions.id, range.id))
+      .returning();
+
+    console.log('Range transcription spliced:', {
+      recordingId: range.recordingId,
+      rangeId: range.id,
+      version: transcript.version,
+      replaced: replaced.length,
+      inserted: inserted.length,
+    });
+
+    return completed;
+  });
+}
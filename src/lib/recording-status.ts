@@ -0,0 +1,167 @@
+/**
+ * Recording Status
+ *
+ * The recording status state machine. Every status change goes through
+ * `transitionRecordingStatus`, which locks the recording, checks the
+ * transition against ALLOWED_TRANSITIONS and records it in
+ * `recording_status_events` with who made it and why:
+ *
+ *   uploading → uploaded → converting → transcribing → completed
+ *        ↘__________↘___________↘____________↘→ failed | cancelled
+ *
+ * Failed, cancelled and completed recordings can be processed again, and a
+ * transcript reset puts a recording back to 'uploading'. Users set a status
+ * directly only to cancel (USER_SETTABLE_STATUSES); every other change comes
+ * from processing, which they restart through /process.
+ */
+
+import { db, recordings, recordingStatusEvents, type DbExecutor } from '@/lib/db';
+import type { NewRecording, Recording, RecordingStatusEvent } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const RECORDING_STATUSES = [
+  'uploading',
+  'uploaded',
+  'converting',
+  'transcribing',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+export type RecordingStatus = (typeof RECORDING_STATUSES)[number];
+
+// Who changed the status
+export type StatusActor = 'user' | 'admin' | 'pipeline' | 'webhook' | 'poller';
+
+// Statuses in which Case.dev is working on the recording
+export const PROCESSING_STATUSES: RecordingStatus[] = ['converting', 'transcribing'];
+
+export const ALLOWED_TRANSITIONS: Record<RecordingStatus, RecordingStatus[]> = {
+  // Direct uploads start processing straight from 'uploading'
+  uploading: ['uploaded', 'converting', 'transcribing', 'failed', 'cancelled'],
+  uploaded: ['converting', 'transcribing', 'failed', 'cancelled'],
+  converting: ['transcribing', 'failed', 'cancelled'],
+  // Back to 'converting' when a stalled recording is processed again
+  transcribing: ['completed', 'converting', 'failed', 'cancelled'],
+  completed: ['uploading', 'converting', 'transcribing'],
+  // A transcript that arrives after the recording was failed is still stored
+  failed: ['uploading', 'converting', 'transcribing', 'completed', 'cancelled'],
+  cancelled: ['uploading', 'converting', 'transcribing'],
+};
+
+// Statuses a user may set directly (PATCH /api/recordings/[id])
+export const USER_SETTABLE_STATUSES: RecordingStatus[] = ['cancelled'];
+
+export type StatusTransitionResult =
+  | { success: true; recording: Recording; changed: boolean }
+  | { success: false; error: string; recording?: Recording };
+
+export function isRecordingStatus(value: unknown): value is RecordingStatus {
+  return typeof value === 'string' && (RECORDING_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: RecordingStatus): boolean {
+  return isRecordingStatus(from) && ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a recording to a new status and record the transition.
+ *
+ * Setting the status the recording already has only updates `values` and
+ * records nothing. `from` restricts the transition to the given current
+ * statuses (e.g. only fail a recording that is still processing). The error
+ * message is set to the reason when failing and cleared otherwise, unless
+ * `values` sets it.
+ */
+export async function transitionRecordingStatus(
+  recordingId: string,
+  to: RecordingStatus,
+  change: {
+    actor: StatusActor;
+    reason?: string | null;
+    from?: RecordingStatus[];
+    values?: Partial<Omit<NewRecording, 'id' | 'status'>>;
+  },
+  executor: DbExecutor = db
+): Promise<StatusTransitionResult> {
+  return executor.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(recordings)
+      .where(eq(recordings.id, recordingId))
+      .for('update');
+
+    if (!locked) {
+      return { success: false, error: 'Recording not found' };
+    }
+
+    const from = locked.status;
+    const changed = from !== to;
+
+    if (change.from && !change.from.includes(from as RecordingStatus)) {
+      return { success: false, error: `Recording is ${from}`, recording: locked };
+    }
+
+    if (changed && !canTransition(from, to)) {
+      console.warn(`[status] Rejected transition ${from} → ${to} for recording ${recordingId} (${change.actor})`);
+      return { success: false, error: `Cannot change status from ${from} to ${to}`, recording: locked };
+    }
+
+    const now = new Date();
+    const [updated] = await tx
+      .update(recordings)
+      .set({
+        errorMessage: to === 'failed' ? (change.reason ?? null) : null,
+        ...change.values,
+        status: to,
+        updatedAt: now,
+      })
+      .where(eq(recordings.id, recordingId))
+      .returning();
+
+    if (changed) {
+      await tx.insert(recordingStatusEvents).values({
+        id: uuidv4(),
+        recordingId,
+        fromStatus: from,
+        toStatus: to,
+        actor: change.actor,
+        reason: change.reason ?? null,
+        createdAt: now,
+      });
+    }
+
+    return { success: true, recording: updated, changed };
+  });
+}
+
+/**
+ * Record the status a new recording starts in
+ */
+export async function recordInitialStatus(
+  recording: Recording,
+  actor: StatusActor,
+  reason: string,
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor.insert(recordingStatusEvents).values({
+    id: uuidv4(),
+    recordingId: recording.id,
+    fromStatus: null,
+    toStatus: recording.status,
+    actor,
+    reason,
+    createdAt: recording.createdAt,
+  });
+}
+
+/**
+ * A recording's status history, oldest first
+ */
+export async function getStatusHistory(recordingId: string): Promise<RecordingStatusEvent[]> {
+  return db.query.recordingStatusEvents.findMany({
+    where: eq(recordingStatusEvents.recordingId, recordingId),
+    orderBy: [asc(recordingStatusEvents.createdAt)],
+  });
+}
@@ -0,0 +1,424 @@
+/**
+ * In-recording Search Queries
+ *
+ * Query syntax for searching one recording's transcript:
+ *
+ *   objection sustained        both words (AND is implied)
+ *   "motion to suppress"       exact phrase
+ *   objection OR sidebar       either word; AND, OR, NOT and (parentheses) combine terms
+ *   NOT overruled, -overruled  utterances without the word
+ *   suppress*, wom?n           wildcards: * any letters, ? one letter
+ *   Kowalski~, Kowalski~2      fuzzy: up to 1 (or the given number, max 2) typos,
+ *                              for names the ASR misspelled
+ *   speaker:Judge, speaker:A   speaker name (part of it) or ID; repeat for either
+ *   after:00:30:00             utterances starting at or after a time
+ *   before:1:15:00             utterances starting before a time
+ *
+ * Words are matched case-insensitively and whole ("object" does not match
+ * "objection" without a wildcard).
+ */
+
+import { matchesSpeakerFilter } from '@/lib/transcript-search';
+
+const MAX_FUZZY_DISTANCE = 2;
+
+// Letters and digits, with inner apostrophes ("defendant's")
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+const PATTERN_WORD = /[\p{L}\p{N}*?]+(?:['’][\p{L}\p{N}*?]+)*/gu;
+
+interface WordPattern {
+  text: string;
+  wildcard: RegExp | null;
+  fuzzy: number;
+}
+
+type QueryNode =
+  | { type: 'term'; label: string; words: WordPattern[] } // Several words form a phrase
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface SearchQuery {
+  expression: QueryNode | null; // Null when the query only has filters
+  speakers: string[];
+  afterMs: number | null;
+  beforeMs: number | null;
+}
+
+/**
+ * A matched term in an utterance's text
+ */
+export interface QueryHighlight {
+  start: number;
+  end: number;
+  term: string;
+}
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close' }
+  | { kind: 'filter'; name: 'speaker' | 'after' | 'before'; value: string };
+
+// ============ PARSING ============
+
+/**
+ * Read a double-quoted string starting at `start` (the opening quote)
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } | null {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) return null;
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function tokenize(input: string): { success: true; tokens: Token[] } | { success: false; error: string } {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close' });
+      i++;
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i);
+      if (!quoted) return { success: false, error: 'Unclosed quote' };
+      tokens.push({ kind: 'phrase', value: quoted.value });
+      i = quoted.end;
+    } else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const word = input.slice(i, end);
+
+      const filter = /^(speaker|after|before):(.*)$/i.exec(word);
+      if (filter) {
+        const name = filter[1].toLowerCase() as 'speaker' | 'after' | 'before';
+        let value = filter[2];
+        // speaker:"Defense Attorney"
+        if (value === '' && input[end] === '"') {
+          const quoted = readQuoted(input, end);
+          if (!quoted) return { success: false, error: 'Unclosed quote' };
+          value = quoted.value;
+          end = quoted.end;
+        }
+        if (!value.trim()) return { success: false, error: `Missing value for ${name}:` };
+        tokens.push({ kind: 'filter', name, value: value.trim() });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ kind: 'word', value: word });
+      }
+      i = end;
+    }
+  }
+
+  return { success: true, tokens };
+}
+
+function toWordPattern(text: string, fuzzy: number): WordPattern {
+  const lower = text.toLowerCase();
+  const wildcard = /[*?]/.test(lower)
+    ? new RegExp(`^${lower.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'u')
+    : null;
+  return { text: lower, wildcard, fuzzy: wildcard ? 0 : fuzzy };
+}
+
+/**
+ * A query term: one word, or a phrase when the text holds several words
+ * ("2024-CV-01234" is matched as the phrase 2024 CV 01234)
+ */
+function toTermNode(text: string, quoted: boolean): QueryNode | null {
+  let fuzzy = 0;
+  let body = text;
+
+  const fuzzyMatch = quoted ? null : /~(\d)?$/.exec(text);
+  if (fuzzyMatch) {
+    fuzzy = Math.min(fuzzyMatch[1] ? Number(fuzzyMatch[1]) : 1, MAX_FUZZY_DISTANCE);
+    body = text.slice(0, fuzzyMatch.index);
+  }
+
+  const words = body.match(PATTERN_WORD) ?? [];
+  if (words.length === 0) return null;
+
+  return {
+    type: 'term',
+    label: quoted ? `"${text}"` : text,
+    words: words.map(word => toWordPattern(word, fuzzy)),
+  };
+}
+
+/**
+ * Parse a time like 1:15:00, 30:00 or 90 (seconds) into milliseconds
+ */
+export function parseQueryTime(value: string): number | null {
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value)) return null;
+  const parts = value.split(':').map(Number);
+  if (parts.slice(1).some(part => part >= 60)) return null;
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return Math.round(seconds * 1000);
+}
+
+/**
+ * Recursive-descent parser over the tokens: OR binds loosest, then AND
+ * (explicit or implied), then NOT
+ */
+class QueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | null {
+    const expression = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected ")"');
+    }
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) children.push(first);
+
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      const next = this.parseAnd();
+      if (!next || children.length === 0) throw new Error('OR needs a term on both sides');
+      children.push(next);
+    }
+
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.kind === 'or' || token.kind === 'close') break;
+
+      if (token.kind === 'and') {
+        this.position++;
+        if (children.length === 0) throw new Error('AND needs a term on both sides');
+        continue;
+      }
+
+      const node = this.parseNot();
+      if (node) children.push(node);
+    }
+
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: 'and', children };
+  }
+
+  private parseNot(): QueryNode | null {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.position++;
+      const child = this.parseNot();
+      if (!child) throw new Error('NOT needs a term after it');
+      return { type: 'not', child };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.peek();
+    if (!token || token.kind === 'close') return null;
+    this.position++;
+
+    switch (token.kind) {
+      case 'open': {
+        const inner = this.parseOr();
+        if (this.peek()?.kind !== 'close') throw new Error('Unclosed "("');
+        this.position++;
+        return inner;
+      }
+      case 'word':
+        return toTermNode(token.value, false);
+      case 'phrase':
+        return toTermNode(token.value, true);
+      default:
+        // Filters are collected before parsing; AND/OR are handled by the callers
+        throw new Error(`Unexpected ${token.kind.toUpperCase()}`);
+    }
+  }
+}
+
+/**
+ * Parse a search query into its boolean expression and filters
+ */
+export function parseSearchQuery(
+  input: string
+): { success: true; query: SearchQuery } | { success: false; error: string } {
+  const tokenized = tokenize(input);
+  if (!tokenized.success) return tokenized;
+
+  const query: SearchQuery = { expression: null, speakers: [], afterMs: null, beforeMs: null };
+  const termTokens: Token[] = [];
+
+  for (const token of tokenized.tokens) {
+    if (token.kind !== 'filter') {
+      termTokens.push(token);
+    } else if (token.name === 'speaker') {
+      query.speakers.push(token.value);
+    } else {
+      const ms = parseQueryTime(token.value);
+      if (ms === null) {
+        return { success: false, error: `Invalid time "${token.value}" (use hh:mm:ss, mm:ss or seconds)` };
+      }
+      if (token.name === 'after') query.afterMs = ms;
+      else query.beforeMs = ms;
+    }
+  }
+
+  try {
+    query.expression = new QueryParser(termTokens).parse();
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid query' };
+  }
+
+  if (!query.expression && query.speakers.length === 0 && query.afterMs === null && query.beforeMs === null) {
+    return { success: false, error: 'Query has no search terms or filters' };
+  }
+
+  return { success: true, query };
+}
+
+// ============ MATCHING ============
+
+/**
+ * Edit distance between two words, or Infinity once it exceeds `max`
+ */
+function boundedLevenshtein(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return Infinity;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+function matchesWord(pattern: WordPattern, word: string): boolean {
+  // "defendant" also matches "defendant's"
+  const candidates = [word, word.split(/['’]/)[0]];
+  return candidates.some(candidate => {
+    if (pattern.wildcard) return pattern.wildcard.test(candidate);
+    if (candidate === pattern.text) return true;
+    return pattern.fuzzy > 0 && boundedLevenshtein(pattern.text, candidate, pattern.fuzzy) <= pattern.fuzzy;
+  });
+}
+
+interface TextWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function splitWords(text: string): TextWord[] {
+  return [...text.matchAll(WORD_PATTERN)].map(match => ({
+    text: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+/**
+ * Evaluate an expression against an utterance's words. Returns the
+ * highlights of the terms that matched, or null if it does not match.
+ */
+function evaluate(node: QueryNode, textWords: TextWord[]): QueryHighlight[] | null {
+  switch (node.type) {
+    case 'term': {
+      const highlights: QueryHighlight[] = [];
+      for (let i = 0; i + node.words.length <= textWords.length; i++) {
+        if (node.words.every((pattern, offset) => matchesWord(pattern, textWords[i + offset].text))) {
+          highlights.push({
+            start: textWords[i].start,
+            end: textWords[i + node.words.length - 1].end,
+            term: node.label,
+          });
+        }
+      }
+      return highlights.length > 0 ? highlights : null;
+    }
+    case 'and': {
+      const highlights: QueryHighlight[] = [];
+      for (const child of node.children) {
+        const childHighlights = evaluate(child, textWords);
+        if (!childHighlights) return null;
+        highlights.push(...childHighlights);
+      }
+      return highlights;
+    }
+    case 'or': {
+      let matched = false;
+      const highlights: QueryHighlight[] = [];
+      for (const child of node.children) {
+        const childHighlights = evaluate(child, textWords);
+        if (childHighlights) {
+          matched = true;
+          highlights.push(...childHighlights);
+        }
+      }
+      return matched ? highlights : null;
+    }
+    case 'not':
+      return evaluate(node.child, textWords) ? null : [];
+  }
+}
+
+/**
+ * Match an utterance against a query. Returns the highlights in text order
+ * (empty when only filters and NOT terms apply), or null if it does not match.
+ */
+export function matchUtterance(
+  query: SearchQuery,
+  utterance: { text: string; speaker: string; startMs: number },
+  speakerName: string | null
+): QueryHighlight[] | null {
+  if (query.afterMs !== null && utterance.startMs < query.afterMs) return null;
+  if (query.beforeMs !== null && utterance.startMs >= query.beforeMs) return null;
+
+  if (
+    query.speakers.length > 0 &&
+    !query.speakers.some(filter => matchesSpeakerFilter(filter, utterance.speaker, speakerName))
+  ) {
+    return null;
+  }
+
+  if (!query.expression) return [];
+
+  const highlights = evaluate(query.expression, splitWords(utterance.text));
+  if (!highlights) return null;
+
+  // The same words can match several terms; keep one highlight per span
+  const seen = new Set<string>();
+  return highlights
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter(h => {
+      const key = `${h.start}:${h.end}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
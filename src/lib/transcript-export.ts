@@ -0,0 +1,866 @@
+/**
+ * Transcript Export
+ *
+ * Renders a recording's active transcript, with saved proofreading edits
+ * applied, as Word, PDF, plain text or JSON (with word-level timings). Used
+ * by the single-recording export, the case bulk export and proceeding exports.
+ */
+
+import { db, speakerLabels, utteranceEdits } from '@/lib/db';
+import type { Recording, Transcript, Utterance, Word } from '@/lib/db/schema';
+import { applyUtteranceEdits, toUtteranceEdit, type EditedTranscriptLine } from '@/lib/utterance-edits';
+import {
+  getActiveTranscript,
+  getTranscriptUtterances,
+  getTranscriptWords,
+  groupWordsByUtterance,
+} from '@/lib/transcripts';
+import { alignWordsToText, findWordsInCharRange } from '@/lib/word-timing';
+import { withLanguageTag, type LanguageTagStyle } from '@/lib/languages';
+import { eq } from 'drizzle-orm';
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, Header, Footer, PageNumber } from 'docx';
+import { jsPDF } from 'jspdf';
+
+export const EXPORT_FORMATS = ['docx', 'txt', 'pdf', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const DEFAULT_EXPORT_TITLE = 'OFFICIAL TRANSCRIPT';
+export const DEFAULT_EXPORT_SUBTITLE = 'Court Recording Transcription';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  pdf: 'application/pdf',
+  json: 'application/json',
+};
+
+export interface ExportOptions {
+  title: string;
+  subtitle: string;
+  languageTagStyle: LanguageTagStyle;
+}
+
+export interface ExportedTranscript {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Header fields of a transcript document: a recording, or a proceeding's files combined
+export type TranscriptDocumentInfo = Pick<
+  Recording,
+  'filename' | 'caseNumber' | 'courtName' | 'recordingDate' | 'durationSeconds'
+>;
+
+export type DocumentFormat = Exclude<ExportFormat, 'json'>;
+
+// A recording's active transcript as exports show it
+export interface ExportTranscriptSource {
+  transcript: Transcript;
+  utterances: Utterance[];
+  lines: EditedTranscriptLine[];
+  labelMap: Record<string, string>;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Load a recording's active transcript with saved proofreading edits applied,
+ * and its speaker names. Returns null if it has none.
+ */
+export async function loadExportTranscript(recordingId: string): Promise<ExportTranscriptSource | null> {
+  const transcript = await getActiveTranscript(recordingId);
+  if (!transcript) return null;
+
+  const recordingUtterances = await getTranscriptUtterances(transcript.id);
+
+  // Apply saved proofreading edits so exports match the viewer
+  const edits = await db.query.utteranceEdits.findMany({
+    where: eq(utteranceEdits.transcriptId, transcript.id),
+  });
+
+  const labels = await db.query.speakerLabels.findMany({
+    where: eq(speakerLabels.recordingId, recordingId),
+  });
+
+  const labelMap: Record<string, string> = {};
+  labels.forEach(l => {
+    labelMap[l.speakerId] = l.label;
+  });
+
+  return {
+    transcript,
+    utterances: recordingUtterances,
+    lines: applyUtteranceEdits(recordingUtterances, edits.map(toUtteranceEdit)),
+    labelMap,
+  };
+}
+
+/**
+ * Render transcript lines as a Word, plain text or PDF document. Lines are
+ * numbered in order, so one document always has continuous numbering.
+ */
+export async function renderTranscriptDocument(
+  info: TranscriptDocumentInfo,
+  lines: EditedTranscriptLine[],
+  labelMap: Record<string, string>,
+  format: DocumentFormat,
+  options: Pick<ExportOptions, 'title' | 'subtitle'>
+): Promise<Buffer> {
+  if (format === 'docx') {
+    return generateWordDocument(info, lines, labelMap, options.title, options.subtitle);
+  }
+  if (format === 'txt') {
+    return Buffer.from(generatePlainText(info, lines, labelMap, options.title, options.subtitle));
+  }
+  return generatePDFDocument(info, lines, labelMap, options.title, options.subtitle);
+}
+
+/**
+ * Render a recording's active transcript. Returns null if it has none.
+ */
+export async function exportRecordingTranscript(
+  recording: Recording,
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<ExportedTranscript | null> {
+  const source = await loadExportTranscript(recording.id);
+  if (!source) return null;
+
+  const { transcript, lines, labelMap } = source;
+
+  let data: Buffer;
+  if (format === 'json') {
+    const wordsByUtterance = groupWordsByUtterance(await getTranscriptWords(transcript.id));
+    const jsonContent = generateJsonExport(
+      recording,
+      transcript,
+      source.utterances,
+      lines,
+      wordsByUtterance,
+      labelMap
+    );
+    data = Buffer.from(JSON.stringify(jsonContent, null, 2));
+  } else {
+    // Document formats carry the language in the text; JSON has it as a field
+    const taggedLines = lines.map(line => ({
+      ...line,
+      text: withLanguageTag(line.text, line.language, transcript.language, options.languageTagStyle),
+    }));
+    data = await renderTranscriptDocument(recording, taggedLines, labelMap, format, options);
+  }
+
+  return {
+    filename: `${sanitizeFilename(recording.filename)}-transcript.${format}`,
+    contentType: CONTENT_TYPES[format],
+    data,
+  };
+}
+
+async function generateWordDocument(
+  info: TranscriptDocumentInfo,
+  utteranceList: EditedTranscriptLine[],
+  labelMap: Record<string, string>,
+  customTitle: string = DEFAULT_EXPORT_TITLE,
+  customSubtitle: string = DEFAULT_EXPORT_SUBTITLE
+): Promise<Buffer> {
+  const children: Paragraph[] = [];
+
+  // Title - Professional legal document style
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: customTitle,
+          bold: true,
+          size: 32,
+          font: 'Helvetica',
+        }),
+      ],
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 100 },
+    })
+  );
+
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: customSubtitle,
+          size: 24,
+          color: '333333',
+          font: 'Helvetica',
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 400 },
+    })
+  );
+
+  // Double line separator (legal style)
+  children.push(
+    new Paragraph({
+      children: [new TextRun({ text: '═'.repeat(70) })],
+      spacing: { after: 100 },
+    })
+  );
+  children.push(
+    new Paragraph({
+      children: [new TextRun({ text: '─'.repeat(70) })],
+      spacing: { after: 300 },
+    })
+  );
+
+  // Recording Information Header
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'RECORDING INFORMATION',
+          bold: true,
+          size: 22,
+          font: 'Helvetica',
+        }),
+      ],
+      spacing: { after: 200 },
+    })
+  );
+
+  // Metadata section with professional formatting
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({ text: 'File: ', bold: true, size: 20, font: 'Helvetica' }),
+        new TextRun({ text: info.filename, size: 20, font: 'Helvetica' }),
+      ],
+      spacing: { after: 80 },
+    })
+  );
+
+  if (info.caseNumber) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: 'Case Number: ', bold: true, size: 20, font: 'Helvetica' }),
+          new TextRun({ text: info.caseNumber, size: 20, font: 'Helvetica' }),
+        ],
+        spacing: { after: 80 },
+      })
+    );
+  }
+
+  if (info.courtName) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: 'Court: ', bold: true, size: 20, font: 'Helvetica' }),
+          new TextRun({ text: info.courtName, size: 20, font: 'Helvetica' }),
+        ],
+        spacing: { after: 80 },
+      })
+    );
+  }
+
+  if (info.recordingDate) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: 'Date: ', bold: true, size: 20, font: 'Helvetica' }),
+          new TextRun({ text: info.recordingDate, size: 20, font: 'Helvetica' }),
+        ],
+        spacing: { after: 80 },
+      })
+    );
+  }
+
+  if (info.durationSeconds) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: 'Duration: ', bold: true, size: 20, font: 'Helvetica' }),
+          new TextRun({ text: formatDuration(info.durationSeconds), size: 20, font: 'Helvetica' }),
+        ],
+        spacing: { after: 80 },
+      })
+    );
+  }
+
+  // Separator
+  children.push(
+    new Paragraph({
+      children: [new TextRun({ text: '─'.repeat(70), color: 'CCCCCC' })],
+      spacing: { before: 300, after: 300 },
+    })
+  );
+
+  // Transcript heading
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'TRANSCRIPT OF PROCEEDINGS',
+          bold: true,
+          size: 24,
+          font: 'Helvetica',
+        }),
+      ],
+      heading: HeadingLevel.HEADING_1,
+      spacing: { after: 300 },
+    })
+  );
+
+  // Utterances with line numbers
+  let lineNumber = 1;
+  for (const utterance of utteranceList) {
+    const speakerName = labelMap[utterance.speaker] || utterance.speakerLabel || `Speaker ${utterance.speaker}`;
+    const timestamp = formatTimestamp(utterance.startMs);
+
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `${lineNumber.toString().padStart(3, ' ')}  `,
+            color: '999999',
+            size: 18,
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            text: `[${timestamp}] `,
+            color: '666666',
+            size: 18,
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            text: `${speakerName.toUpperCase()}: `,
+            bold: true,
+            size: 20,
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            text: utterance.text,
+            size: 20,
+            font: 'Helvetica',
+          }),
+        ],
+        spacing: { after: 120 },
+      })
+    );
+    lineNumber++;
+  }
+
+  // End of transcript marker
+  children.push(
+    new Paragraph({
+      children: [new TextRun({ text: '─'.repeat(70) })],
+      spacing: { before: 400, after: 200 },
+    })
+  );
+
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'END OF TRANSCRIPT',
+          bold: true,
+          size: 20,
+          font: 'Helvetica',
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 300 },
+    })
+  );
+
+  // Footer with certification-style text
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'This transcript was generated using automated speech recognition technology.',
+          italics: true,
+          size: 16,
+          color: '666666',
+          font: 'Helvetica',
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 80 },
+    })
+  );
+
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: `Document generated on ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`,
+          italics: true,
+          size: 16,
+          color: '666666',
+          font: 'Helvetica',
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+    })
+  );
+
+  // Create header with Case.dev watermark
+  const header = new Header({
+    children: [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: '◆ ',
+            color: 'E65100',
+            size: 16,
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            text: 'Transcription generated through case.dev',
+            color: 'E65100',
+            size: 16,
+            font: 'Helvetica',
+          }),
+        ],
+      }),
+    ],
+  });
+
+  // Create footer with page numbers
+  const footer = new Footer({
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({
+            text: 'Page ',
+            size: 18,
+            color: '666666',
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            children: [PageNumber.CURRENT],
+            size: 18,
+            color: '666666',
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            text: ' of ',
+            size: 18,
+            color: '666666',
+            font: 'Helvetica',
+          }),
+          new TextRun({
+            children: [PageNumber.TOTAL_PAGES],
+            size: 18,
+            color: '666666',
+            font: 'Helvetica',
+          }),
+        ],
+      }),
+    ],
+  });
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: 1440, // 1 inch
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+        headers: {
+          default: header,
+        },
+        footers: {
+          default: footer,
+        },
+        children,
+      },
+    ],
+  });
+
+  return await Packer.toBuffer(doc);
+}
+
+function generatePlainText(
+  info: TranscriptDocumentInfo,
+  utteranceList: EditedTranscriptLine[],
+  labelMap: Record<string, string>,
+  customTitle: string = DEFAULT_EXPORT_TITLE,
+  customSubtitle: string = DEFAULT_EXPORT_SUBTITLE
+): string {
+  const lines: string[] = [];
+  const width = 72;
+
+  // Case.dev watermark header
+  lines.push('◆ Transcription generated through case.dev');
+  lines.push('');
+  lines.push('═'.repeat(width));
+  lines.push('');
+
+  // Title
+  lines.push(' '.repeat(Math.max(0, Math.floor((width - customTitle.length) / 2))) + customTitle);
+  lines.push(' '.repeat(Math.max(0, Math.floor((width - customSubtitle.length) / 2))) + customSubtitle);
+  lines.push('');
+  lines.push('═'.repeat(width));
+  lines.push('─'.repeat(width));
+  lines.push('');
+
+  // Recording Information
+  lines.push('RECORDING INFORMATION');
+  lines.push('─'.repeat(30));
+  lines.push('');
+  lines.push(`  File:          ${info.filename}`);
+  
+  if (info.caseNumber) {
+    lines.push(`  Case Number:   ${info.caseNumber}`);
+  }
+  if (info.courtName) {
+    lines.push(`  Court:         ${info.courtName}`);
+  }
+  if (info.recordingDate) {
+    lines.push(`  Date:          ${info.recordingDate}`);
+  }
+  if (info.durationSeconds) {
+    lines.push(`  Duration:      ${formatDuration(info.durationSeconds)}`);
+  }
+
+  lines.push('');
+  lines.push('─'.repeat(width));
+  lines.push('');
+  lines.push('TRANSCRIPT OF PROCEEDINGS');
+  lines.push('─'.repeat(30));
+  lines.push('');
+
+  // Utterances with line numbers
+  let lineNumber = 1;
+  for (const utterance of utteranceList) {
+    const speakerName = labelMap[utterance.speaker] || utterance.speakerLabel || `Speaker ${utterance.speaker}`;
+    const timestamp = formatTimestamp(utterance.startMs);
+    const lineNum = lineNumber.toString().padStart(3, ' ');
+    lines.push(`${lineNum}  [${timestamp}] ${speakerName.toUpperCase()}: ${utterance.text}`);
+    lines.push('');
+    lineNumber++;
+  }
+
+  // End of transcript
+  lines.push('─'.repeat(width));
+  lines.push('');
+  const endText = 'END OF TRANSCRIPT';
+  lines.push(' '.repeat(Math.floor((width - endText.length) / 2)) + endText);
+  lines.push('');
+  lines.push('─'.repeat(width));
+  lines.push('');
+
+  // Footer
+  lines.push('This transcript was generated using automated speech recognition technology.');
+  lines.push(`Document generated on ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`);
+  lines.push('');
+  lines.push('═'.repeat(width));
+
+  return lines.join('\n');
+}
+
+function generateJsonExport(
+  recording: Recording,
+  transcript: { version: number; confidence: number | null; language: string | null },
+  originalUtterances: Utterance[],
+  utteranceList: EditedTranscriptLine[],
+  wordsByUtterance: Map<string, Word[]>,
+  labelMap: Record<string, string>
+) {
+  const originalTextMap = new Map(originalUtterances.map(u => [u.id, u.text]));
+
+  return {
+    recording: {
+      id: recording.id,
+      filename: recording.filename,
+      caseNumber: recording.caseNumber,
+      courtName: recording.courtName,
+      recordingDate: recording.recordingDate,
+      durationSeconds: recording.durationSeconds,
+    },
+    transcript: {
+      version: transcript.version,
+      confidence: transcript.confidence,
+      language: transcript.language,
+    },
+    utterances: utteranceList.map(line => {
+      const originalText = originalTextMap.get(line.id) || '';
+      const lineWords = wordsByUtterance.get(line.id) || [];
+
+      // Word times only apply while the line's text still matches the ASR output
+      const offset = originalText.indexOf(line.text);
+      const timedWords = offset === -1
+        ? null
+        : findWordsInCharRange(
+            alignWordsToText(originalText, lineWords),
+            offset,
+            offset + line.text.length
+          ).map(w => ({
+            text: w.text,
+            startMs: w.startMs,
+            endMs: w.endMs,
+            confidence: w.confidence,
+          }));
+
+      return {
+        id: line.id,
+        speaker: line.speaker,
+        speakerName: labelMap[line.speaker] || line.speakerLabel || `Speaker ${line.speaker}`,
+        text: line.text,
+        language: line.language ?? transcript.language,
+        startMs: line.startMs,
+        endMs: line.endMs,
+        words: timedWords,
+      };
+    }),
+  };
+}
+
+function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  }
+  return `${secs}s`;
+}
+
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9.-]/g, '_').replace(/\.[^.]+$/, '');
+}
+
+// Helper function to draw page header with page numbers
+function drawPageHeader(doc: jsPDF, pageNumber: number, totalPages: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  
+  // Draw page number on the right
+  doc.setFontSize(9);
+  doc.setTextColor(102, 102, 102);
+  doc.text(`Page ${pageNumber} of ${totalPages}`, pageWidth - 15, 14, { align: 'right' });
+  
+  // Reset text color
+  doc.setTextColor(0, 0, 0);
+}
+
+async function generatePDFDocument(
+  info: TranscriptDocumentInfo,
+  utteranceList: EditedTranscriptLine[],
+  labelMap: Record<string, string>,
+  customTitle: string = DEFAULT_EXPORT_TITLE,
+  customSubtitle: string = DEFAULT_EXPORT_SUBTITLE
+): Promise<Buffer> {
+  // Create new PDF document (Letter size: 215.9mm x 279.4mm)
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'letter',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - (margin * 2);
+  let y = 30; // Start below header area
+  
+  // We'll add headers after we know total pages
+  const pages: number[] = [1];
+
+  // Title - Professional legal document style
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(customTitle, pageWidth / 2, y, { align: 'center' });
+  y += 8;
+  
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(51, 51, 51);
+  doc.text(customSubtitle, pageWidth / 2, y, { align: 'center' });
+  y += 12;
+  
+  // Double line separator (legal style)
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.8);
+  doc.line(margin, y, pageWidth - margin, y);
+  doc.setLineWidth(0.3);
+  doc.line(margin, y + 1.5, pageWidth - margin, y + 1.5);
+  y += 10;
+
+  // Recording Information Header
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('RECORDING INFORMATION', margin, y);
+  y += 6;
+
+  // Metadata section
+  doc.setFontSize(9);
+  const labelX = margin;
+  const valueX = margin + 30;
+  
+  doc.setFont('helvetica', 'bold');
+  doc.text('File:', labelX, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(info.filename, valueX, y);
+  y += 5;
+
+  if (info.caseNumber) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Case Number:', labelX, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(info.caseNumber, valueX, y);
+    y += 5;
+  }
+
+  if (info.courtName) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Court:', labelX, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(info.courtName, valueX, y);
+    y += 5;
+  }
+
+  if (info.recordingDate) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Date:', labelX, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(info.recordingDate, valueX, y);
+    y += 5;
+  }
+
+  if (info.durationSeconds) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Duration:', labelX, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(formatDuration(info.durationSeconds), valueX, y);
+    y += 5;
+  }
+
+  y += 5;
+
+  // Single line separator
+  doc.setDrawColor(204, 204, 204);
+  doc.setLineWidth(0.3);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 8;
+
+  // Transcript heading
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text('TRANSCRIPT OF PROCEEDINGS', margin, y);
+  y += 8;
+
+  // Utterances with professional formatting - number every line like legal transcripts
+  const lineHeight = 4; // mm per line
+  let lineNumber = 1;
+  
+  for (const utterance of utteranceList) {
+    const speakerName = labelMap[utterance.speaker] || utterance.speakerLabel || `Speaker ${utterance.speaker}`;
+    const timestamp = formatTimestamp(utterance.startMs);
+    
+    // Build the text line
+    const lineText = `[${timestamp}] ${speakerName.toUpperCase()}: ${utterance.text}`;
+    
+    // Split text to fit within content width (accounting for line number margin)
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    const splitText: string[] = doc.splitTextToSize(lineText, contentWidth - 12);
+
+    // Draw each wrapped line with its own line number
+    for (let i = 0; i < splitText.length; i++) {
+      // Check if we need a new page (leave room for footer)
+      if (y + lineHeight > pageHeight - 30) {
+        doc.addPage();
+        pages.push(pages.length + 1);
+        y = 30;
+        lineNumber = 1;
+      }
+
+      // Line number in margin - consistent size, font, color (not bold)
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(128, 128, 128);
+      doc.text(lineNumber.toString().padStart(3, ' '), margin - 10, y);
+      
+      // Main text
+      doc.setFontSize(9);
+      doc.setTextColor(0, 0, 0);
+      doc.setFont('helvetica', 'normal');
+      doc.text(splitText[i], margin, y);
+      
+      y += lineHeight;
+      lineNumber++;
+    }
+    
+    // Add small gap between utterances
+    y += 1;
+  }
+
+  // End of transcript marker
+  y += 5;
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 6;
+  
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('END OF TRANSCRIPT', pageWidth / 2, y, { align: 'center' });
+  y += 8;
+
+  // Footer with certification-style text
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.setTextColor(102, 102, 102);
+  doc.text(
+    'This transcript was generated using automated speech recognition technology.',
+    pageWidth / 2, y, { align: 'center' }
+  );
+  y += 4;
+  doc.text(
+    `Document generated on ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`,
+    pageWidth / 2, y, { align: 'center' }
+  );
+
+  // Now add headers to all pages
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    drawPageHeader(doc, i, totalPages);
+  }
+
+  // Convert to buffer
+  const pdfOutput = doc.output('arraybuffer');
+  return Buffer.from(pdfOutput);
+}
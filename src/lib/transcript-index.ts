@@ -0,0 +1,389 @@
+/**
+ * Transcript Indexing
+ *
+ * Semantic search runs on the Case.dev vault index. Whenever a transcript
+ * version becomes active, an 'index' job uploads it to the recording's vault
+ * as a plain-text document (one line per utterance, prefixed with its time
+ * range and speaker) and starts ingestion. The previous version's document
+ * is then queued for deletion.
+ *
+ * Search results come back as chunks of those documents. The time ranges in
+ * a chunk map it back to the utterances it covers, so each hit links to a
+ * point in the recording.
+ */
+
+import { db, recordings, speakerLabels, transcripts, type DbExecutor } from '@/lib/db';
+import type { Job, Recording, Transcript, Utterance } from '@/lib/db/schema';
+import { casedev, type SearchResponse } from '@/lib/casedev';
+import { enqueueJob } from '@/lib/jobs';
+import { getTranscriptUtterances } from '@/lib/transcripts';
+import { queueVaultDeletions } from '@/lib/vault-cleanup';
+import {
+  getRecordingFilterConditions,
+  matchesSpeakerFilter,
+  type TranscriptSearchParams,
+} from '@/lib/transcript-search';
+import { and, eq, inArray, isNotNull, isNull, ne } from 'drizzle-orm';
+
+// Chunks requested from the vault per search (filters are applied afterwards)
+const SEMANTIC_TOP_K = 50;
+
+// First line of every document (followed by case details and a blank line)
+const DOCUMENT_TITLE_PREFIX = 'Transcript of ';
+
+// Time range at the start of each document line: [00:01:23.450 - 00:01:30.120]
+const LINE_RANGE_PATTERN = /\[(\d+):(\d{2}):(\d{2})\.(\d{3}) - (\d+):(\d{2}):(\d{2})\.(\d{3})\]/g;
+
+export interface IndexJobPayload {
+  transcriptId: string;
+}
+
+/**
+ * A vault chunk mapped back to the utterances it covers
+ */
+export interface SemanticSearchResult {
+  recordingId: string;
+  transcriptId: string;
+  filename: string;
+  caseNumber: string | null;
+  courtName: string | null;
+  recordingDate: string | null;
+  status: string;
+  score: number;
+  startMs: number;
+  endMs: number;
+  utterances: Array<{
+    id: string;
+    speaker: string;
+    speakerName: string | null;
+    text: string;
+    startMs: number;
+    endMs: number;
+  }>;
+}
+
+// ============ DOCUMENTS ============
+
+function formatLineTime(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+}
+
+function parseLineTime(hours: string, minutes: string, seconds: string, millis: string): number {
+  return Number(hours) * 3_600_000 + Number(minutes) * 60_000 + Number(seconds) * 1000 + Number(millis);
+}
+
+/**
+ * Plain-text document for the vault: a short header, then one line per
+ * utterance with its time range and speaker name
+ */
+function buildTranscriptDocument(
+  recording: Recording,
+  transcriptUtterances: Utterance[],
+  labelMap: Record<string, string>
+): string {
+  const header = [
+    `${DOCUMENT_TITLE_PREFIX}${recording.filename}`,
+    recording.caseNumber && `Case: ${recording.caseNumber}`,
+    recording.courtName && `Court: ${recording.courtName}`,
+    recording.recordingDate && `Date: ${recording.recordingDate}`,
+  ].filter(Boolean);
+
+  const lines = transcriptUtterances.map(u => {
+    const speakerName = labelMap[u.speaker] || u.speakerLabel || `Speaker ${u.speaker}`;
+    return `[${formatLineTime(u.startMs)} - ${formatLineTime(u.endMs)}] ${speakerName}: ${u.text}`;
+  });
+
+  return `${header.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Start times of the lines in a chunk of a transcript document. `partial`
+ * is set when the chunk begins in the middle of a line.
+ */
+function getChunkLineStarts(chunkText: string): { startsMs: number[]; partial: boolean } | null {
+  const startsMs: number[] = [];
+  let firstIndex = -1;
+
+  for (const match of chunkText.matchAll(LINE_RANGE_PATTERN)) {
+    if (firstIndex === -1) firstIndex = match.index ?? 0;
+    startsMs.push(parseLineTime(match[1], match[2], match[3], match[4]));
+  }
+  if (startsMs.length === 0) return null;
+
+  // Text before the first time range is the tail of the previous line (or the header)
+  const leading = chunkText.slice(0, firstIndex).trim();
+  return { startsMs, partial: leading.length > 0 && !leading.startsWith(DOCUMENT_TITLE_PREFIX) };
+}
+
+/**
+ * Utterances a chunk covers: the lines whose time ranges it contains, plus
+ * the line it starts in the middle of
+ */
+function getChunkUtterances(chunkText: string, transcriptUtterances: Utterance[]): Utterance[] {
+  const lineStarts = getChunkLineStarts(chunkText);
+  if (!lineStarts) return [];
+
+  const firstStartMs = lineStarts.startsMs[0];
+  const lastStartMs = lineStarts.startsMs[lineStarts.startsMs.length - 1];
+
+  let first = transcriptUtterances.findIndex(u => u.startMs >= firstStartMs);
+  if (first === -1) return [];
+  let last = first;
+  for (let i = first; i < transcriptUtterances.length && transcriptUtterances[i].startMs <= lastStartMs; i++) {
+    last = i;
+  }
+  if (lineStarts.partial && first > 0) first--;
+
+  return transcriptUtterances.slice(first, last + 1);
+}
+
+// ============ INDEXING ============
+
+/**
+ * Queue a transcript version for indexing (call when it becomes active)
+ */
+export async function queueTranscriptIndexing(
+  recordingId: string,
+  transcriptId: string,
+  executor: DbExecutor = db
+): Promise<Job> {
+  return enqueueJob({
+    recordingId,
+    type: 'index',
+    payload: { transcriptId } satisfies IndexJobPayload,
+  }, executor);
+}
+
+async function getSpeakerLabelMap(recordingId: string): Promise<Record<string, string>> {
+  const labels = await db.query.speakerLabels.findMany({
+    where: eq(speakerLabels.recordingId, recordingId),
+  });
+  return Object.fromEntries(labels.map(l => [l.speakerId, l.label]));
+}
+
+/**
+ * Upload a transcript version to the recording's vault and start ingestion.
+ * Versions that are no longer active, already indexed or empty are skipped.
+ * Resumes where a failed attempt stopped: a document already uploaded is
+ * only ingested.
+ */
+export async function indexTranscript(recording: Recording, transcriptId: string): Promise<void> {
+  const transcript = await db.query.transcripts.findFirst({
+    where: eq(transcripts.id, transcriptId),
+  });
+  if (!transcript || !transcript.isActive || transcript.indexedAt || !recording.vaultId) return;
+
+  let vaultObjectId = transcript.vaultObjectId;
+
+  if (!vaultObjectId) {
+    const transcriptUtterances = await getTranscriptUtterances(transcript.id);
+    if (transcriptUtterances.length === 0) return;
+
+    const labelMap = await getSpeakerLabelMap(recording.id);
+    const document = buildTranscriptDocument(recording, transcriptUtterances, labelMap);
+
+    const uploadResponse = await casedev.getUploadUrl(recording.vaultId, {
+      filename: `${recording.filename}.transcript-v${transcript.version}.txt`,
+      contentType: 'text/plain',
+      auto_index: false,
+      metadata: {
+        kind: 'transcript',
+        recording_id: recording.id,
+        transcript_id: transcript.id,
+        transcript_version: transcript.version,
+        case_number: recording.caseNumber,
+        court_name: recording.courtName,
+        recording_date: recording.recordingDate,
+        speakers: labelMap,
+        start_ms: transcriptUtterances[0].startMs,
+        end_ms: transcriptUtterances[transcriptUtterances.length - 1].endMs,
+      },
+    });
+
+    const response = await fetch(uploadResponse.uploadUrl, {
+      method: 'PUT',
+      headers: uploadResponse.instructions?.headers,
+      body: document,
+    });
+    if (!response.ok) {
+      throw new Error(`Vault upload failed: ${response.status} ${response.statusText}`);
+    }
+
+    vaultObjectId = uploadResponse.objectId;
+    await db
+      .update(transcripts)
+      .set({ vaultObjectId })
+      .where(eq(transcripts.id, transcript.id));
+  }
+
+  await casedev.ingestFile(recording.vaultId, vaultObjectId);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(transcripts)
+      .set({ indexedAt: new Date() })
+      .where(eq(transcripts.id, transcript.id));
+
+    // Documents of the recording's other versions would return stale hits
+    await removeSupersededDocuments(recording, transcript, tx);
+  });
+
+  console.log(`[index] Transcript version ${transcript.version} of recording ${recording.id} sent for ingestion`);
+}
+
+/**
+ * Queue the vault documents of a recording's other transcript versions for deletion
+ */
+async function removeSupersededDocuments(
+  recording: Recording,
+  current: Transcript,
+  executor: DbExecutor
+): Promise<void> {
+  const superseded = await executor.query.transcripts.findMany({
+    where: and(
+      eq(transcripts.recordingId, recording.id),
+      ne(transcripts.id, current.id),
+      isNotNull(transcripts.vaultObjectId)
+    ),
+  });
+  if (superseded.length === 0 || !recording.vaultId) return;
+
+  await queueVaultDeletions(
+    recording.vaultId,
+    superseded.map(t => t.vaultObjectId!),
+    { recordingId: recording.id, reason: 'superseded' },
+    executor
+  );
+  await executor
+    .update(transcripts)
+    .set({ vaultObjectId: null, indexedAt: null })
+    .where(inArray(transcripts.id, superseded.map(t => t.id)));
+}
+
+/**
+ * Vault documents of all of a recording's transcript versions (deleted with the recording)
+ */
+export async function getTranscriptDocumentIds(
+  recordingId: string,
+  executor: DbExecutor = db
+): Promise<string[]> {
+  const rows = await executor
+    .select({ vaultObjectId: transcripts.vaultObjectId })
+    .from(transcripts)
+    .where(and(eq(transcripts.recordingId, recordingId), isNotNull(transcripts.vaultObjectId)));
+  return rows.map(row => row.vaultObjectId!);
+}
+
+/**
+ * Queue indexing for active transcripts that are not indexed yet (transcripts
+ * stored before indexing existed). Returns the number queued.
+ */
+export async function queueMissingTranscriptIndexing(): Promise<number> {
+  const unindexed = await db
+    .select({ id: transcripts.id, recordingId: transcripts.recordingId })
+    .from(transcripts)
+    .innerJoin(recordings, eq(transcripts.recordingId, recordings.id))
+    .where(and(
+      eq(transcripts.isActive, true),
+      isNotNull(recordings.vaultId),
+      isNull(transcripts.indexedAt)
+    ));
+
+  for (const transcript of unindexed) {
+    await queueTranscriptIndexing(transcript.recordingId, transcript.id);
+  }
+  return unindexed.length;
+}
+
+// ============ SEARCH ============
+
+/**
+ * Ask the vault index a question and map the chunks it returns back to
+ * utterances of active transcripts, best matches first. The recording
+ * filters and the speaker filter of keyword search apply.
+ */
+export async function semanticSearchTranscripts(
+  params: TranscriptSearchParams
+): Promise<SemanticSearchResult[]> {
+  const vaults = await db
+    .selectDistinct({ vaultId: recordings.vaultId })
+    .from(transcripts)
+    .innerJoin(recordings, eq(transcripts.recordingId, recordings.id))
+    .where(and(eq(transcripts.isActive, true), isNotNull(transcripts.indexedAt)));
+
+  const chunks: SearchResponse['chunks'] = [];
+  for (const { vaultId } of vaults) {
+    if (!vaultId) continue;
+    const response = await casedev.searchVault(vaultId, {
+      query: params.q,
+      method: 'hybrid',
+      topK: SEMANTIC_TOP_K,
+    });
+    chunks.push(...response.chunks);
+  }
+  if (chunks.length === 0) return [];
+
+  // Chunks of audio files or superseded documents have no active transcript and are dropped
+  const documents = await db
+    .select({ transcript: transcripts, recording: recordings })
+    .from(transcripts)
+    .innerJoin(recordings, eq(transcripts.recordingId, recordings.id))
+    .where(and(
+      eq(transcripts.isActive, true),
+      inArray(transcripts.vaultObjectId, [...new Set(chunks.map(c => c.object_id))]),
+      ...getRecordingFilterConditions(params)
+    ));
+  const documentMap = new Map(documents.map(d => [d.transcript.vaultObjectId!, d]));
+
+  const utteranceCache = new Map<string, { utterances: Utterance[]; labelMap: Record<string, string> }>();
+  const results: SemanticSearchResult[] = [];
+
+  for (const chunk of [...chunks].sort((a, b) => b.hybridScore - a.hybridScore)) {
+    const document = documentMap.get(chunk.object_id);
+    if (!document) continue;
+    const { transcript, recording } = document;
+
+    let cached = utteranceCache.get(transcript.id);
+    if (!cached) {
+      cached = {
+        utterances: await getTranscriptUtterances(transcript.id),
+        labelMap: await getSpeakerLabelMap(recording.id),
+      };
+      utteranceCache.set(transcript.id, cached);
+    }
+
+    const labelMap = cached.labelMap;
+    const covered = getChunkUtterances(chunk.text, cached.utterances).map(u => ({
+      id: u.id,
+      speaker: u.speaker,
+      speakerName: labelMap[u.speaker] || u.speakerLabel || null,
+      text: u.text,
+      startMs: u.startMs,
+      endMs: u.endMs,
+    }));
+    if (covered.length === 0) continue;
+    if (params.speaker && !covered.some(u => matchesSpeakerFilter(params.speaker!, u.speaker, u.speakerName))) {
+      continue;
+    }
+
+    results.push({
+      recordingId: recording.id,
+      transcriptId: transcript.id,
+      filename: recording.filename,
+      caseNumber: recording.caseNumber,
+      courtName: recording.courtName,
+      recordingDate: recording.recordingDate,
+      status: recording.status,
+      score: chunk.hybridScore,
+      startMs: covered[0].startMs,
+      endMs: covered[covered.length - 1].endMs,
+      utterances: covered,
+    });
+    if (results.length >= params.limit) break;
+  }
+
+  return results;
+}
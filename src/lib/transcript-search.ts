@@ -0,0 +1,219 @@
+/**
+ * Transcript Search
+ *
+ * Full-text search over the active transcripts of all recordings. Utterance
+ * text is matched with Postgres text search, backed by a GIN index on its
+ * English ('english': stemmed, so "objected" finds "objection") and
+ * language-neutral ('simple': the words as spoken) lexemes, so testimony in
+ * other languages is found by its exact words. Queries use web-search syntax:
+ * "quoted phrases", `or` and `-excluded` words.
+ */
+
+import { db, recordings, speakerLabels, transcripts, utterances } from '@/lib/db';
+import { RECORDING_STATUSES } from '@/lib/recording-status';
+import { and, asc, desc, eq, gte, ilike, lte, or, sql, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const MAX_SEARCH_RESULTS = 100;
+const DEFAULT_SEARCH_RESULTS = 25;
+
+// Must match the expression of utterances_text_search_idx for the index to be used
+const TEXT_SEARCH_CONFIGS = ['english', 'simple'] as const;
+
+// Snippet match delimiters; control characters never occur in transcript text
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MinWords=15, MaxWords=40`;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+// 'keyword' matches words (this module), 'semantic' asks the vault index (transcript-index.ts)
+export const SEARCH_MODES = ['keyword', 'semantic'] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export const transcriptSearchSchema = z.object({
+  mode: z.enum(SEARCH_MODES).default('keyword'),
+  q: z.string().trim().min(1, 'Query parameter "q" is required').max(500, 'Query too long'),
+  caseNumber: z.string().trim().min(1).optional(),
+  court: z.string().trim().min(1).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  // Speaker name or speaker ID ('A', 'B', ...)
+  speaker: z.string().trim().min(1).optional(),
+  status: z.enum(RECORDING_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).default(DEFAULT_SEARCH_RESULTS),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type TranscriptSearchParams = z.infer<typeof transcriptSearchSchema>;
+
+/**
+ * One matching utterance
+ */
+export interface TranscriptSearchResult {
+  utteranceId: string;
+  recordingId: string;
+  filename: string;
+  caseNumber: string | null;
+  courtName: string | null;
+  recordingDate: string | null;
+  status: string;
+  speaker: string;
+  speakerName: string | null;
+  startMs: number;
+  endMs: number;
+  rank: number;
+  // Excerpt around the matches, with the matched words as character ranges
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Split a ts_headline excerpt into plain text and the ranges of its matches
+ */
+function parseHeadline(headline: string): Pick<TranscriptSearchResult, 'snippet' | 'highlights'> {
+  const highlights: Array<{ start: number; end: number }> = [];
+  let snippet = '';
+  let matchStart: number | null = null;
+
+  for (const char of headline) {
+    if (char === MATCH_START) {
+      matchStart = snippet.length;
+    } else if (char === MATCH_END) {
+      if (matchStart !== null) highlights.push({ start: matchStart, end: snippet.length });
+      matchStart = null;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Conditions on the recording for the case, court, date and status filters
+ */
+export function getRecordingFilterConditions(params: TranscriptSearchParams): SQL[] {
+  const conditions: SQL[] = [];
+  if (params.caseNumber) {
+    conditions.push(sql`lower(trim(${recordings.caseNumber})) = lower(${params.caseNumber})`);
+  }
+  if (params.court) {
+    conditions.push(ilike(recordings.courtName, `%${escapeLike(params.court)}%`));
+  }
+  if (params.from) conditions.push(gte(recordings.recordingDate, params.from));
+  if (params.to) conditions.push(lte(recordings.recordingDate, params.to));
+  if (params.status) conditions.push(eq(recordings.status, params.status));
+  return conditions;
+}
+
+/**
+ * Whether an utterance's speaker matches the speaker filter: its ID exactly,
+ * or part of its name
+ */
+export function matchesSpeakerFilter(filter: string, speaker: string, speakerName: string | null): boolean {
+  return speaker === filter || !!speakerName?.toLowerCase().includes(filter.toLowerCase());
+}
+
+/**
+ * Search the active transcripts of all recordings, best matches first
+ */
+export async function searchTranscripts(
+  params: TranscriptSearchParams
+): Promise<{ total: number; results: TranscriptSearchResult[] }> {
+  // A match in either configuration; the query terms are stemmed the same way as the text
+  const query = sql`(${sql.join(
+    TEXT_SEARCH_CONFIGS.map(config => sql`websearch_to_tsquery(${config}::regconfig, ${params.q})`),
+    sql` || `
+  )})`;
+  const document = sql`(${sql.join(
+    TEXT_SEARCH_CONFIGS.map(config => sql`to_tsvector(${sql.raw(`'${config}'`)}, ${utterances.text})`),
+    sql` || `
+  )})`;
+  const speakerName = sql<string | null>`coalesce(${speakerLabels.label}, ${utterances.speakerLabel})`;
+
+  const conditions: SQL[] = [sql`${document} @@ ${query}`, ...getRecordingFilterConditions(params)];
+  if (params.speaker) {
+    conditions.push(or(
+      eq(utterances.speaker, params.speaker),
+      sql`${speakerName} ilike ${`%${escapeLike(params.speaker)}%`}`
+    )!);
+  }
+
+  // Only the active version of each transcript is searched
+  const rows = await db
+    .select({
+      utteranceId: utterances.id,
+      recordingId: recordings.id,
+      filename: recordings.filename,
+      caseNumber: recordings.caseNumber,
+      courtName: recordings.courtName,
+      recordingDate: recordings.recordingDate,
+      status: recordings.status,
+      speaker: utterances.speaker,
+      speakerName,
+      startMs: utterances.startMs,
+      endMs: utterances.endMs,
+      rank: sql<number>`ts_rank(${document}, ${query})`.mapWith(Number),
+      headline: sql<string>`ts_headline(${TEXT_SEARCH_CONFIGS[0]}::regconfig, ${utterances.text}, ${query}, ${HEADLINE_OPTIONS})`,
+      // Matches before limit and offset are applied
+      total: sql<number>`count(*) over ()`.mapWith(Number),
+    })
+    .from(utterances)
+    .innerJoin(transcripts, and(eq(utterances.transcriptId, transcripts.id), eq(transcripts.isActive, true)))
+    .innerJoin(recordings, eq(utterances.recordingId, recordings.id))
+    .leftJoin(speakerLabels, and(
+      eq(speakerLabels.recordingId, utterances.recordingId),
+      eq(speakerLabels.speakerId, utterances.speaker)
+    ))
+    .where(and(...conditions))
+    .orderBy(
+      desc(sql`ts_rank(${document}, ${query})`),
+      sql`${recordings.recordingDate} desc nulls last`,
+      asc(utterances.startMs)
+    )
+    .limit(params.limit)
+    .offset(params.offset);
+
+  // A page past the last match has no row to carry the total: count separately
+  let total = rows[0]?.total ?? 0;
+  if (rows.length === 0 && params.offset > 0) {
+    const [counted] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(utterances)
+      .innerJoin(transcripts, and(eq(utterances.transcriptId, transcripts.id), eq(transcripts.isActive, true)))
+      .innerJoin(recordings, eq(utterances.recordingId, recordings.id))
+      .leftJoin(speakerLabels, and(
+        eq(speakerLabels.recordingId, utterances.recordingId),
+        eq(speakerLabels.speakerId, utterances.speaker)
+      ))
+      .where(and(...conditions));
+    total = counted?.count ?? 0;
+  }
+
+  return {
+    total,
+    results: rows.map(row => ({
+      utteranceId: row.utteranceId,
+      recordingId: row.recordingId,
+      filename: row.filename,
+      caseNumber: row.caseNumber,
+      courtName: row.courtName,
+      recordingDate: row.recordingDate,
+      status: row.status,
+      speaker: row.speaker,
+      speakerName: row.speakerName,
+      startMs: row.startMs,
+      endMs: row.endMs,
+      rank: row.rank,
+      ...parseHeadline(row.headline),
+    })),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Per-recording Transcription Settings
+ *
+ * Settings chosen on upload (and editable before re-processing) are saved on
+ * the recording and merged with its vocabulary lists (vocabulary.ts) and the
+ * legal defaults from legal-vocabulary.ts when a transcription job is
+ * submitted. Safe to import from client code.
+ */
+
+import { z } from 'zod';
+import { LEGAL_TRANSCRIPTION_CONFIG } from '@/lib/legal-vocabulary';
+import type { CreateTranscriptionParams } from '@/lib/casedev';
+
+export interface TranscriptionSettings {
+  languageCode: string | null; // null = API default (English)
+  languageDetection: boolean; // Detect the language instead (languageCode is ignored)
+  speakersExpected: number | null; // null = detect automatically
+  extraWordBoost: string[]; // Added to the legal vocabulary
+  autoChapters: boolean;
+  summarization: boolean;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  languageCode: null,
+  languageDetection: false,
+  speakersExpected: null,
+  extraWordBoost: [],
+  autoChapters: LEGAL_TRANSCRIPTION_CONFIG.auto_chapters,
+  summarization: false,
+};
+
+// Languages offered in the settings form (Voice API language codes)
+export const TRANSCRIPTION_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'en_us', label: 'English (US)' },
+  { code: 'en_uk', label: 'English (UK)' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'vi', label: 'Vietnamese' },
+] as const;
+
+export const MAX_SPEAKERS_EXPECTED = 20;
+export const MAX_EXTRA_BOOST_WORDS = 100;
+
+// Voice API limits: at most 1000 boost terms of at most 6 words each
+export const MAX_WORD_BOOST_TERMS = 1000;
+export const MAX_BOOST_TERM_WORDS = 6;
+
+export const transcriptionSettingsSchema = z.object({
+  languageCode: z
+    .string()
+    .refine(code => TRANSCRIPTION_LANGUAGES.some(l => l.code === code), 'Unsupported language')
+    .nullable()
+    .optional(),
+  languageDetection: z.boolean().optional(),
+  speakersExpected: z.number().int().min(1).max(MAX_SPEAKERS_EXPECTED).nullable().optional(),
+  extraWordBoost: z
+    .array(z.string().trim().min(1).max(50))
+    .max(MAX_EXTRA_BOOST_WORDS, `At most ${MAX_EXTRA_BOOST_WORDS} boost words`)
+    .optional(),
+  autoChapters: z.boolean().optional(),
+  summarization: z.boolean().optional(),
+});
+
+export type TranscriptionSettingsInput = z.infer<typeof transcriptionSettingsSchema>;
+
+/**
+ * Fill in defaults for settings that were not given
+ */
+export function resolveTranscriptionSettings(
+  input: TranscriptionSettingsInput | Partial<TranscriptionSettings> | null | undefined
+): TranscriptionSettings {
+  return {
+    languageCode: input?.languageCode ?? DEFAULT_TRANSCRIPTION_SETTINGS.languageCode,
+    languageDetection: input?.languageDetection ?? DEFAULT_TRANSCRIPTION_SETTINGS.languageDetection,
+    speakersExpected: input?.speakersExpected ?? DEFAULT_TRANSCRIPTION_SETTINGS.speakersExpected,
+    extraWordBoost: [...new Set(input?.extraWordBoost ?? [])],
+    autoChapters: input?.autoChapters ?? DEFAULT_TRANSCRIPTION_SETTINGS.autoChapters,
+    summarization: input?.summarization ?? DEFAULT_TRANSCRIPTION_SETTINGS.summarization,
+  };
+}
+
+/**
+ * Settings saved on a recording (defaults for recordings saved without any)
+ */
+export function parseRecordingSettings(json: string | null): TranscriptionSettings {
+  if (!json) return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+  try {
+    return resolveTranscriptionSettings(JSON.parse(json));
+  } catch {
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+  }
+}
+
+/**
+ * Merge boost term lists in priority order, dropping duplicates (ignoring case)
+ * and terms the API rejects, and stopping at the API's limit
+ */
+export function mergeWordBoost(...lists: string[][]): string[] {
+  const merged: string[] = [];
+  const seen = new Set<string>();
+
+  for (const term of lists.flat()) {
+    const normalized = term.trim().replace(/\s+/g, ' ');
+    const key = normalized.toLowerCase();
+    if (!normalized || seen.has(key)) continue;
+    if (normalized.split(' ').length > MAX_BOOST_TERM_WORDS) continue;
+
+    seen.add(key);
+    merged.push(normalized);
+    if (merged.length === MAX_WORD_BOOST_TERMS) break;
+  }
+
+  return merged;
+}
+
+/**
+ * Voice API parameters for a recording's settings (without URLs). Terms from
+ * the recording's settings come first, then its vocabulary lists, then the
+ * legal defaults, so the most specific terms survive the boost limit.
+ */
+export function buildTranscriptionParams(
+  settings: TranscriptionSettings,
+  vocabularyTerms: string[] = []
+): Omit<CreateTranscriptionParams, 'audio_url' | 'webhook_url'> {
+  const wordBoost = mergeWordBoost(
+    settings.extraWordBoost,
+    vocabularyTerms,
+    LEGAL_TRANSCRIPTION_CONFIG.word_boost
+  );
+
+  return {
+    ...LEGAL_TRANSCRIPTION_CONFIG,
+    word_boost: wordBoost,
+    auto_chapters: settings.autoChapters,
+    summarization: settings.summarization,
+    ...(settings.languageDetection
+      ? { language_detection: true }
+      : settings.languageCode && { language_code: settings.languageCode }),
+    ...(settings.speakersExpected && { speakers_expected: settings.speakersExpected }),
+  };
+}
+
+/**
+ * Parse a comma- or newline-separated list of boost words from a form field
+ */
+export function parseBoostWords(text: string): string[] {
+  return [...new Set(text.split(/[,\n]/).map(w => w.trim()).filter(Boolean))];
+}
@@ -0,0 +1,267 @@
+/**
+ * Transcript Versions
+ *
+ * Every transcription run is stored as a numbered version of the recording's
+ * transcript. Exactly one version is active; the viewer, search and exports
+ * read from the active version while older runs stay available for comparison.
+ */
+
+import { db, transcripts, utterances, words, type DbExecutor } from '@/lib/db';
+import type { Transcript, NewTranscript, Utterance, Word } from '@/lib/db/schema';
+import type { CreateTranscriptionParams } from '@/lib/casedev';
+import { and, eq, desc } from 'drizzle-orm';
+
+/**
+ * Settings recorded with each transcript version
+ */
+export interface TranscriptionSettingsSnapshot {
+  languageCode: string | null; // null when the API default was used
+  languageDetection: boolean;
+  speakerLabels: boolean;
+  speakersExpected: number | null;
+  autoChapters: boolean;
+  summarization: boolean;
+  wordBoost: string[];
+}
+
+/**
+ * Capture the settings of a transcription request (without URLs)
+ */
+export function snapshotTranscriptionSettings(
+  params: Omit<CreateTranscriptionParams, 'audio_url' | 'webhook_url'>
+): TranscriptionSettingsSnapshot {
+  return {
+    languageCode: params.language_code ?? null,
+    languageDetection: params.language_detection ?? false,
+    speakerLabels: params.speaker_labels ?? false,
+    speakersExpected: params.speakers_expected ?? null,
+    autoChapters: params.auto_chapters ?? false,
+    summarization: params.summarization ?? false,
+    wordBoost: params.word_boost ?? [],
+  };
+}
+
+export function parseTranscriptionSettings(json: string | null): TranscriptionSettingsSnapshot | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the active transcript version for a recording
+ */
+export async function getActiveTranscript(recordingId: string): Promise<Transcript | undefined> {
+  return db.query.transcripts.findFirst({
+    where: and(
+      eq(transcripts.recordingId, recordingId),
+      eq(transcripts.isActive, true)
+    ),
+  });
+}
+
+/**
+ * Get the utterances of a transcript version in order
+ */
+export async function getTranscriptUtterances(transcriptId: string): Promise<Utterance[]> {
+  return db.query.utterances.findMany({
+    where: eq(utterances.transcriptId, transcriptId),
+    orderBy: (utterances, { asc }) => [asc(utterances.sequenceIndex)],
+  });
+}
+
+/**
+ * Get the word timings of a transcript version, in playback order
+ */
+export async function getTranscriptWords(transcriptId: string): Promise<Word[]> {
+  return db.query.words.findMany({
+    where: eq(words.transcriptId, transcriptId),
+    orderBy: (words, { asc }) => [asc(words.startMs), asc(words.wordIndex)],
+  });
+}
+
+/**
+ * Group words by utterance ID, keeping playback order
+ */
+export function groupWordsByUtterance(wordList: Word[]): Map<string, Word[]> {
+  const grouped = new Map<string, Word[]>();
+  for (const word of wordList) {
+    const list = grouped.get(word.utteranceId);
+    if (list) {
+      list.push(word);
+    } else {
+      grouped.set(word.utteranceId, [word]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Get all transcript versions for a recording, newest first
+ */
+export async function listTranscriptVersions(recordingId: string): Promise<Transcript[]> {
+  return db.query.transcripts.findMany({
+    where: eq(transcripts.recordingId, recordingId),
+    orderBy: [desc(transcripts.version)],
+  });
+}
+
+/**
+ * Insert a new transcript version and make it the active one
+ */
+export async function createTranscriptVersion(
+  values: Omit<NewTranscript, 'version' | 'isActive'>,
+  executor: DbExecutor = db
+): Promise<Transcript> {
+  return executor.transaction(async (tx) => {
+    const [latest] = await tx
+      .select({ version: transcripts.version })
+      .from(transcripts)
+      .where(eq(transcripts.recordingId, values.recordingId))
+      .orderBy(desc(transcripts.version))
+      .limit(1);
+
+    await tx
+      .update(transcripts)
+      .set({ isActive: false })
+      .where(eq(transcripts.recordingId, values.recordingId));
+
+    const [created] = await tx.insert(transcripts).values({
+      ...values,
+      version: (latest?.version ?? 0) + 1,
+      isActive: true,
+    }).returning();
+
+    return created;
+  });
+}
+
+/**
+ * Make a transcript version the active one.
+ * Returns the activated version, or undefined if it does not exist.
+ */
+export async function activateTranscriptVersion(
+  recordingId: string,
+  version: number
+): Promise<Transcript | undefined> {
+  return db.transaction(async (tx) => {
+    const target = await tx.query.transcripts.findFirst({
+      where: and(
+        eq(transcripts.recordingId, recordingId),
+        eq(transcripts.version, version)
+      ),
+    });
+
+    if (!target) return undefined;
+
+    await tx
+      .update(transcripts)
+      .set({ isActive: false })
+      .where(eq(transcripts.recordingId, recordingId));
+
+    const [activated] = await tx
+      .update(transcripts)
+      .set({ isActive: true })
+      .where(eq(transcripts.id, target.id))
+      .returning();
+
+    return activated;
+  });
+}
+
+// Utterances per side aligned at once when comparing versions: an LCS table of
+// about 4 MB. Longer transcripts are aligned window by window.
+const DIFF_WINDOW = 1000;
+
+export type VersionDiffEntry =
+  | { type: 'unchanged'; from: Utterance; to: Utterance }
+  | { type: 'removed'; from: Utterance }
+  | { type: 'added'; to: Utterance };
+
+function normalizeForDiff(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare two transcript versions utterance by utterance.
+ * Utterances are aligned on normalized text using a longest common subsequence,
+ * so a changed utterance shows up as a removed/added pair. Past the common
+ * start and end, the alignment is computed DIFF_WINDOW utterances at a time,
+ * keeping the first half of each window, so memory stays bounded; for long,
+ * heavily changed transcripts the result may not be the smallest diff.
+ */
+export function diffTranscriptVersions(
+  fromUtterances: Utterance[],
+  toUtterances: Utterance[]
+): VersionDiffEntry[] {
+  const a = fromUtterances.map(u => normalizeForDiff(u.text));
+  const b = toUtterances.map(u => normalizeForDiff(u.text));
+  const entries: VersionDiffEntry[] = [];
+
+  let i = 0;
+  let j = 0;
+  let n = a.length;
+  let m = b.length;
+
+  while (i < n && j < m && a[i] === b[j]) {
+    entries.push({ type: 'unchanged', from: fromUtterances[i++], to: toUtterances[j++] });
+  }
+  let suffix = 0;
+  while (n > i && m > j && a[n - 1] === b[m - 1]) {
+    n--;
+    m--;
+    suffix++;
+  }
+
+  // lcs[x][y] = LCS length of the window's a[x..] and b[y..], stored row-major
+  const lcs = new Uint32Array((Math.min(DIFF_WINDOW, n - i) + 1) * (Math.min(DIFF_WINDOW, m - j) + 1));
+
+  while (i < n && j < m) {
+    const rows = Math.min(DIFF_WINDOW, n - i);
+    const cols = Math.min(DIFF_WINDOW, m - j);
+    const width = cols + 1;
+    lcs.fill(0, 0, (rows + 1) * width);
+
+    for (let x = rows - 1; x >= 0; x--) {
+      for (let y = cols - 1; y >= 0; y--) {
+        lcs[x * width + y] = a[i + x] === b[j + y]
+          ? lcs[(x + 1) * width + y + 1] + 1
+          : Math.max(lcs[(x + 1) * width + y], lcs[x * width + y + 1]);
+      }
+    }
+
+    // The last window is kept whole; earlier ones only up to half way, since
+    // their end is aligned without seeing what follows
+    const isLast = i + rows === n && j + cols === m;
+    const rowLimit = isLast ? rows : Math.ceil(rows / 2);
+    const colLimit = isLast ? cols : Math.ceil(cols / 2);
+
+    let x = 0;
+    let y = 0;
+    while (x < rowLimit && y < colLimit) {
+      if (a[i + x] === b[j + y]) {
+        entries.push({ type: 'unchanged', from: fromUtterances[i + x], to: toUtterances[j + y] });
+        x++;
+        y++;
+      } else if (lcs[(x + 1) * width + y] >= lcs[x * width + y + 1]) {
+        entries.push({ type: 'removed', from: fromUtterances[i + x] });
+        x++;
+      } else {
+        entries.push({ type: 'added', to: toUtterances[j + y] });
+        y++;
+      }
+    }
+    i += x;
+    j += y;
+  }
+  while (i < n) entries.push({ type: 'removed', from: fromUtterances[i++] });
+  while (j < m) entries.push({ type: 'added', to: toUtterances[j++] });
+
+  for (let k = 0; k < suffix; k++) {
+    entries.push({ type: 'unchanged', from: fromUtterances[n + k], to: toUtterances[m + k] });
+  }
+
+  return entries;
+}
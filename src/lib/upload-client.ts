@@ -0,0 +1,401 @@
+/**
+ * Chunked Upload Client
+ *
+ * Browser side of the chunked upload API (see chunked-upload.ts). Uploads a
+ * file part by part straight to storage, skipping parts the server already
+ * has, so an upload interrupted by a dropped connection or a page reload
+ * resumes where it stopped. Once every part is in, the server finishes the
+ * upload in the background and the client polls until it is done.
+ * Unfinished uploads are remembered in localStorage by file identity (name,
+ * size, last modified) so selecting the same file again resumes the same
+ * recording.
+ */
+
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
+
+const PENDING_UPLOADS_KEY = 'pendingUploads';
+const PART_MAX_ATTEMPTS = 4;
+const PART_RETRY_BASE_MS = 1000;
+const FINALIZE_POLL_MS = 2000;
+
+export interface PendingUpload {
+  recordingId: string;
+  filename: string;
+  fileSizeBytes: number;
+  startedAt: string;
+}
+
+export interface ChunkedUploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  partNumber: number; // Part currently uploading (1-based)
+  partCount: number;
+  partProgress: number; // 0-100 for the current part
+  finalizing: boolean; // Every part is in; the server is finishing the upload
+}
+
+interface UploadStatusResponse {
+  status: string;
+  errorMessage: string | null;
+  finalizing: boolean;
+  fileSizeBytes: number;
+  partSize: number;
+  partCount: number;
+  parts: Array<{ partNumber: number; sizeBytes: number; sha256: string }>;
+}
+
+// ============ RESUME STATE ============
+
+function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPendingUploads(): Record<string, PendingUpload> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writePendingUploads(uploads: Record<string, PendingUpload>): void {
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+}
+
+export function listPendingUploads(): PendingUpload[] {
+  return Object.values(readPendingUploads());
+}
+
+export function getPendingUpload(file: File): PendingUpload | null {
+  return readPendingUploads()[getFileKey(file)] || null;
+}
+
+export function savePendingUpload(file: File, recordingId: string): void {
+  const uploads = readPendingUploads();
+  uploads[getFileKey(file)] = {
+    recordingId,
+    filename: file.name,
+    fileSizeBytes: file.size,
+    startedAt: new Date().toISOString(),
+  };
+  writePendingUploads(uploads);
+}
+
+export function clearPendingUpload(file: File): void {
+  const uploads = readPendingUploads();
+  delete uploads[getFileKey(file)];
+  writePendingUploads(uploads);
+}
+
+// ============ CHECKSUMS ============
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256(data: ArrayBuffer): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', data);
+}
+
+/**
+ * Upload checksum: SHA-256 of the concatenated binary part digests
+ */
+async function computeUploadChecksum(partDigests: ArrayBuffer[]): Promise<string> {
+  const combined = new Uint8Array(partDigests.length * 32);
+  partDigests.forEach((digest, index) => combined.set(new Uint8Array(digest), index * 32));
+  return toHex(await sha256(combined.buffer));
+}
+
+// ============ UPLOAD ============
+
+/**
+ * Fetch a chunked upload's progress. Returns null if the recording no longer
+ * exists or is not a chunked upload.
+ */
+export async function fetchUploadStatus(recordingId: string): Promise<UploadStatusResponse | null> {
+  const response = await fetch(`/api/recordings/${recordingId}/upload`);
+  if (response.status === 404 || response.status === 400) return null;
+  if (!response.ok) {
+    throw new Error('Failed to fetch upload progress');
+  }
+  return response.json();
+}
+
+/**
+ * Presigned storage URL (and the headers to send with it) for one part
+ */
+async function fetchPartUploadUrl(
+  recordingId: string,
+  partNumber: number,
+  digest: string
+): Promise<{ uploadUrl: string; headers: Record<string, string> }> {
+  const response = await fetch(`/api/recordings/${recordingId}/upload/parts/${partNumber}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sha256: digest }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to get an upload URL for part ${partNumber}`);
+  }
+  return response.json();
+}
+
+/**
+ * Tell the server a part is in storage
+ */
+async function recordPart(
+  recordingId: string,
+  partNumber: number,
+  part: { etag: string; sha256: string; sizeBytes: number }
+): Promise<void> {
+  const response = await fetch(`/api/recordings/${recordingId}/upload/parts/${partNumber}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(part),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to record part ${partNumber}`);
+  }
+}
+
+/**
+ * Send a part to storage. Resolves with the ETag storage returned.
+ */
+function putPart(
+  url: string,
+  data: Blob,
+  headers: Record<string, string>,
+  onProgress: (percent: number) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        const etag = xhr.getResponseHeader('ETag');
+        if (etag) {
+          resolve(etag);
+        } else {
+          // Storage must expose the header to the browser (CORS)
+          reject(new Error('Part upload failed: storage did not return an ETag'));
+        }
+      } else {
+        let message = `Part upload failed: ${xhr.status}`;
+        try {
+          message = JSON.parse(xhr.responseText).error || message;
+        } catch {
+          // Keep the status message
+        }
+        reject(new Error(message));
+      }
+    });
+
+    xhr.addEventListener('error', () => reject(new Error('Part upload failed: network error')));
+
+    xhr.open('PUT', url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.send(data);
+  });
+}
+
+/**
+ * Wait for the server to finish an upload whose parts are all in
+ */
+async function waitForFinalize(recordingId: string): Promise<void> {
+  while (true) {
+    const status = await fetchUploadStatus(recordingId);
+    if (!status) {
+      throw new Error('Upload not found');
+    }
+    if (status.status === 'failed') {
+      throw new Error(status.errorMessage || 'Upload was rejected');
+    }
+    if (status.status !== 'uploading') return;
+    await new Promise(resolve => setTimeout(resolve, FINALIZE_POLL_MS));
+  }
+}
+
+/**
+ * Upload a file to a recording created with `uploadMode: 'chunked'` and finalize it.
+ * Parts already on the server with a matching checksum are skipped; failed
+ * parts are retried with backoff. Resolves once the server has finished the upload.
+ */
+export async function uploadFileInParts(
+  file: File,
+  recordingId: string,
+  onProgress: (progress: ChunkedUploadProgress) => void
+): Promise<void> {
+  const status = await fetchUploadStatus(recordingId);
+  if (!status) {
+    throw new Error('Upload not found');
+  }
+  if (status.status !== 'uploading') {
+    // Finalized on an earlier attempt
+    return;
+  }
+  if (status.fileSizeBytes !== file.size) {
+    throw new Error('Selected file does not match the unfinished upload');
+  }
+
+  const reportFinalizing = () => onProgress({
+    uploadedBytes: file.size,
+    totalBytes: file.size,
+    partNumber: status.partCount,
+    partCount: status.partCount,
+    partProgress: 100,
+    finalizing: true,
+  });
+
+  if (status.finalizing) {
+    // Every part went in on an earlier attempt
+    reportFinalizing();
+    await waitForFinalize(recordingId);
+    return;
+  }
+
+  const uploaded = new Map(status.parts.map(p => [p.partNumber, p]));
+  const partDigests: ArrayBuffer[] = [];
+  let uploadedBytes = 0;
+
+  for (let partNumber = 1; partNumber <= status.partCount; partNumber++) {
+    const start = (partNumber - 1) * status.partSize;
+    const blob = file.slice(start, Math.min(start + status.partSize, file.size));
+    const digest = await sha256(await blob.arrayBuffer());
+    const digestHex = toHex(digest);
+    partDigests.push(digest);
+
+    const report = (partProgress: number) => onProgress({
+      uploadedBytes: uploadedBytes + Math.round(blob.size * partProgress / 100),
+      totalBytes: file.size,
+      partNumber,
+      partCount: status.partCount,
+      partProgress,
+      finalizing: false,
+    });
+
+    if (uploaded.get(partNumber)?.sha256 !== digestHex) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          // A fresh URL per attempt, in case the last one expired
+          const { uploadUrl, headers } = await fetchPartUploadUrl(recordingId, partNumber, digestHex);
+          const etag = await putPart(uploadUrl, blob, headers, report);
+          await recordPart(recordingId, partNumber, { etag, sha256: digestHex, sizeBytes: blob.size });
+          break;
+        } catch (error) {
+          if (attempt >= PART_MAX_ATTEMPTS) throw error;
+          await new Promise(resolve => setTimeout(resolve, PART_RETRY_BASE_MS * Math.pow(2, attempt - 1)));
+        }
+      }
+    }
+
+    report(100);
+    uploadedBytes += blob.size;
+  }
+
+  const response = await fetch(`/api/recordings/${recordingId}/upload/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ checksum: await computeUploadChecksum(partDigests) }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to finalize upload');
+  }
+
+  reportFinalizing();
+  await waitForFinalize(recordingId);
+}
+
+export interface RecordingUploadDetails {
+  caseNumber: string | null;
+  courtName: string | null;
+  recordingDate: string | null;
+  preserveChannels: boolean;
+  channelLabels?: string[];
+  settings?: TranscriptionSettings;
+}
+
+/**
+ * Upload a file as a new recording, or resume the unfinished upload of the
+ * same file. Returns the recording ID once the upload is finalized.
+ */
+export async function uploadRecording(
+  file: File,
+  details: RecordingUploadDetails,
+  onProgress: (progress: ChunkedUploadProgress) => void
+): Promise<string> {
+  let recordingId = getPendingUpload(file)?.recordingId ?? null;
+  if (recordingId) {
+    const status = await fetchUploadStatus(recordingId);
+    if (!status || status.status === 'failed') {
+      // The recording was deleted or rejected since - start over
+      clearPendingUpload(file);
+      recordingId = null;
+    }
+  }
+
+  if (!recordingId) {
+    const createResponse = await fetch('/api/recordings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filename: file.name,
+        fileSizeBytes: file.size,
+        uploadMode: 'chunked',
+        ...details,
+      }),
+    });
+
+    if (!createResponse.ok) {
+      const errorData = await createResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create recording');
+    }
+
+    const { recording } = await createResponse.json();
+    recordingId = recording.id as string;
+    savePendingUpload(file, recordingId);
+  }
+
+  await uploadFileInParts(file, recordingId, onProgress);
+  clearPendingUpload(file);
+
+  return recordingId;
+}
+
+/**
+ * Start the transcription pipeline for an uploaded recording, optionally with
+ * new transcription settings (a resumed upload keeps the settings it was created with).
+ * Returns false if it could not be started (it can be restarted from the dashboard).
+ */
+export async function startRecordingProcessing(
+  recordingId: string,
+  settings?: TranscriptionSettings
+): Promise<boolean> {
+  const response = await fetch(`/api/recordings/${recordingId}/process`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ settings }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    console.warn('Processing may not have started:', error);
+    return false;
+  }
+  return true;
+}
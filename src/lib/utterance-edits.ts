@@ -0,0 +1,102 @@
+/**
+ * Utterance Edits
+ *
+ * Proofreading corrections made in the transcript viewer (speaker splits,
+ * reassigned speakers, text fixes and deleted blocks). Edits are stored
+ * separately from the utterances so the raw ASR output is never overwritten.
+ */
+
+import { z } from 'zod';
+import type { Utterance, UtteranceEditRecord } from '@/lib/db/schema';
+
+// Maximum number of edits accepted in a single save
+export const MAX_EDITS_PER_SAVE = 5000;
+
+export const textSegmentSchema = z.object({
+  text: z.string(),
+  speaker: z.string().min(1, 'Segment speaker is required').max(100, 'Speaker ID too long'),
+  speakerLabel: z.string().max(255, 'Speaker label too long').nullable(),
+  startCharIndex: z.number().int().min(0),
+  endCharIndex: z.number().int().min(0),
+});
+
+export const utteranceEditSchema = z.object({
+  utteranceId: z.string().min(1, 'Utterance ID is required'),
+  // An empty segment list marks the whole utterance as deleted
+  segments: z.array(textSegmentSchema),
+});
+
+export const saveUtteranceEditsSchema = z.object({
+  edits: z.array(utteranceEditSchema).max(MAX_EDITS_PER_SAVE, `Too many edits (max ${MAX_EDITS_PER_SAVE})`),
+});
+
+export type TextSegment = z.infer<typeof textSegmentSchema>;
+export type UtteranceEdit = z.infer<typeof utteranceEditSchema>;
+
+/**
+ * Convert a stored edit row back into the shape used by the viewer
+ */
+export function toUtteranceEdit(record: UtteranceEditRecord): UtteranceEdit {
+  let segments: TextSegment[] = [];
+  try {
+    segments = JSON.parse(record.segmentsJson);
+  } catch {
+    console.error('Invalid segments JSON for utterance edit:', record.id);
+  }
+  return {
+    utteranceId: record.utteranceId,
+    segments: record.isDeleted ? [] : segments,
+  };
+}
+
+/**
+ * Join edited segments into the corrected utterance text
+ */
+export function getCorrectedText(segments: TextSegment[]): string {
+  return segments.map(s => s.text).join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * A transcript line after edits are applied - one per speaker segment
+ */
+export type EditedTranscriptLine = Pick<
+  Utterance,
+  'id' | 'speaker' | 'speakerLabel' | 'text' | 'startMs' | 'endMs' | 'language'
+>;
+
+/**
+ * Apply saved edits to utterances for exports.
+ * Deleted utterances are dropped and split utterances become one line per segment.
+ */
+export function applyUtteranceEdits(
+  utteranceList: Utterance[],
+  edits: UtteranceEdit[]
+): EditedTranscriptLine[] {
+  const editMap = new Map(edits.map(e => [e.utteranceId, e]));
+  const lines: EditedTranscriptLine[] = [];
+
+  for (const utterance of utteranceList) {
+    const edit = editMap.get(utterance.id);
+
+    if (!edit) {
+      lines.push(utterance);
+      continue;
+    }
+
+    for (const segment of edit.segments) {
+      const text = segment.text.trim();
+      if (!text) continue;
+      lines.push({
+        id: utterance.id,
+        speaker: segment.speaker,
+        speakerLabel: segment.speakerLabel,
+        text,
+        startMs: utterance.startMs,
+        endMs: utterance.endMs,
+        language: utterance.language,
+      });
+    }
+  }
+
+  return lines;
+}
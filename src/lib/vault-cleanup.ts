@@ -0,0 +1,316 @@
+/**
+ * Vault Cleanup
+ *
+ * Deleting a recording must also delete its files from the Case.dev vault
+ * (sealed matters cannot leave audio behind). Deletions are queued in
+ * `vault_deletions` in the same transaction that deletes the recording and
+ * retried with backoff until the vault confirms; an object the vault no
+ * longer has counts as deleted.
+ *
+ * Reconciliation compares the vault with the `recordings` table: objects no
+ * recording or transcript points to (orphans) and recordings pointing to objects the vault
+ * does not have (missing). It reports both and, when asked, queues the
+ * orphans for deletion and clears the dangling references. A vault whose
+ * listing cannot be read in full reports no missing objects, so cleanup never
+ * clears references to objects that were merely not listed.
+ */
+
+import { db, recordingChannels, recordings, transcripts, vaultDeletions, type DbExecutor } from '@/lib/db';
+import type { Recording, VaultDeletion } from '@/lib/db/schema';
+import { casedev, type VaultObjectSummary } from '@/lib/casedev';
+import { getRetryDelayMs } from '@/lib/jobs';
+import { and, asc, count, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const APP_VAULT_NAME = 'Court Recording Transcriber';
+
+const DELETION_BATCH_SIZE = 20;
+const LIST_PAGE_SIZE = 100;
+
+// Objects younger than this may belong to an upload whose recording is not saved yet
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+type VaultObjectField = 'vaultObjectId' | 'convertedObjectId';
+const VAULT_OBJECT_FIELDS: VaultObjectField[] = ['vaultObjectId', 'convertedObjectId'];
+
+export interface VaultDeletionResult {
+  deleted: number;
+  retrying: number;
+  dead: number;
+}
+
+export interface VaultReconcileReport {
+  vaultIds: string[];
+  objectCount: number;
+  // Vaults that listed fewer objects than their total; missing objects are not checked there
+  incompleteVaultIds: string[];
+  orphans: Array<{ vaultId: string; objectId: string; filename: string; createdAt: string }>;
+  missing: Array<{ recordingId: string; vaultId: string; objectId: string; field: VaultObjectField }>;
+  deletions: { pending: number; dead: number };
+  // Set when cleanup was requested
+  queued?: number;
+  cleared?: number;
+}
+
+/**
+ * Vault objects stored for a recording (original and converted audio)
+ */
+export function getRecordingVaultObjectIds(recording: Recording): string[] {
+  return VAULT_OBJECT_FIELDS
+    .map(field => recording[field])
+    .filter((objectId): objectId is string => !!objectId);
+}
+
+/**
+ * Queue vault objects for deletion. Objects already queued are retried from scratch.
+ */
+export async function queueVaultDeletions(
+  vaultId: string,
+  objectIds: string[],
+  params: { recordingId?: string; reason: 'recording_deleted' | 'orphan' | 'superseded' },
+  executor: DbExecutor = db
+): Promise<VaultDeletion[]> {
+  if (objectIds.length === 0) return [];
+
+  const now = new Date();
+  return executor
+    .insert(vaultDeletions)
+    .values(objectIds.map(objectId => ({
+      id: uuidv4(),
+      vaultId,
+      objectId,
+      recordingId: params.recordingId ?? null,
+      reason: params.reason,
+      state: 'pending',
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    })))
+    .onConflictDoUpdate({
+      target: [vaultDeletions.vaultId, vaultDeletions.objectId],
+      set: { state: 'pending', attempts: 0, runAt: now, lastError: null, updatedAt: now },
+    })
+    .returning();
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && /\(404\)$/.test(error.message);
+}
+
+/**
+ * Attempt one queued deletion
+ */
+async function attemptVaultDeletion(deletion: VaultDeletion): Promise<VaultDeletion> {
+  const now = new Date();
+
+  try {
+    await casedev.deleteObject(deletion.vaultId, deletion.objectId);
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      const attempts = deletion.attempts + 1;
+      const dead = attempts >= deletion.maxAttempts;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      const [updated] = await db
+        .update(vaultDeletions)
+        .set({
+          state: dead ? 'dead' : 'pending',
+          attempts,
+          runAt: dead ? deletion.runAt : new Date(now.getTime() + getRetryDelayMs(attempts)),
+          lastError: errorMessage,
+          updatedAt: now,
+        })
+        .where(eq(vaultDeletions.id, deletion.id))
+        .returning();
+
+      console.warn(
+        `[vault] Deleting object ${deletion.objectId} failed (attempt ${attempts}/${deletion.maxAttempts}${dead ? ', giving up' : ''}):`,
+        errorMessage
+      );
+      return updated;
+    }
+  }
+
+  const [updated] = await db
+    .update(vaultDeletions)
+    .set({
+      state: 'deleted',
+      attempts: deletion.attempts + 1,
+      lastError: null,
+      deletedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(vaultDeletions.id, deletion.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Run due vault deletions (or the given ones right away)
+ */
+export async function processVaultDeletions(deletionIds?: string[]): Promise<VaultDeletionResult> {
+  const due = await db.query.vaultDeletions.findMany({
+    where: deletionIds
+      ? and(eq(vaultDeletions.state, 'pending'), inArray(vaultDeletions.id, deletionIds))
+      : and(eq(vaultDeletions.state, 'pending'), lte(vaultDeletions.runAt, new Date())),
+    orderBy: [asc(vaultDeletions.runAt)],
+    limit: DELETION_BATCH_SIZE,
+  });
+
+  const result: VaultDeletionResult = { deleted: 0, retrying: 0, dead: 0 };
+  for (const deletion of due) {
+    const updated = await attemptVaultDeletion(deletion);
+    if (updated.state === 'deleted') result.deleted++;
+    else if (updated.state === 'dead') result.dead++;
+    else result.retrying++;
+  }
+  return result;
+}
+
+async function getAppVaultIds(): Promise<string[]> {
+  const { vaults } = await casedev.listVaults();
+  const referenced = await db
+    .selectDistinct({ vaultId: recordings.vaultId })
+    .from(recordings)
+    .where(isNotNull(recordings.vaultId));
+
+  return [...new Set([
+    ...vaults.filter(v => v.name === APP_VAULT_NAME).map(v => v.id),
+    ...referenced.map(r => r.vaultId!),
+  ])];
+}
+
+/**
+ * List every object in a vault, page by page. `complete` is false when the
+ * pages stop short of the reported total.
+ */
+async function listAllObjects(vaultId: string): Promise<{ objects: VaultObjectSummary[]; complete: boolean }> {
+  const objects: VaultObjectSummary[] = [];
+  const seen = new Set<string>();
+
+  while (true) {
+    const page = await casedev.listObjects(vaultId, { limit: LIST_PAGE_SIZE, offset: objects.length });
+    const added = page.objects.filter(o => !seen.has(o.id));
+    for (const object of added) {
+      seen.add(object.id);
+      objects.push(object);
+    }
+
+    if (objects.length >= page.total) return { objects, complete: true };
+    // An empty page, or one repeating what was listed, means paging is not working
+    if (added.length === 0) return { objects, complete: false };
+  }
+}
+
+/**
+ * Compare the vault with the recordings table. With `cleanup`, queue orphaned
+ * objects for deletion and clear references to objects the vault no longer has.
+ */
+export async function reconcileVault(options: { cleanup?: boolean } = {}): Promise<VaultReconcileReport> {
+  const vaultIds = await getAppVaultIds();
+
+  const allRecordings = await db
+    .select({
+      id: recordings.id,
+      vaultId: recordings.vaultId,
+      status: recordings.status,
+      vaultObjectId: recordings.vaultObjectId,
+      convertedObjectId: recordings.convertedObjectId,
+    })
+    .from(recordings)
+    .where(isNotNull(recordings.vaultId));
+
+  // Transcript documents for semantic search (transcript-index.ts) belong to their recording too
+  const transcriptDocuments = await db
+    .select({ vaultObjectId: transcripts.vaultObjectId })
+    .from(transcripts)
+    .where(isNotNull(transcripts.vaultObjectId));
+
+  // So do the vault copies of their channels' audio (converted-audio.ts)
+  const channelCopies = await db
+    .select({ objectId: recordingChannels.objectId })
+    .from(recordingChannels)
+    .where(isNotNull(recordingChannels.objectId));
+
+  const referenced = new Set([
+    ...allRecordings.flatMap(r => [r.vaultObjectId, r.convertedObjectId].filter(Boolean)),
+    ...transcriptDocuments.map(t => t.vaultObjectId),
+    ...channelCopies.map(c => c.objectId),
+  ]);
+
+  const pendingDeletions = await db.query.vaultDeletions.findMany({
+    where: eq(vaultDeletions.state, 'pending'),
+    columns: { objectId: true },
+  });
+  const queuedForDeletion = new Set(pendingDeletions.map(d => d.objectId));
+
+  const report: VaultReconcileReport = {
+    vaultIds,
+    objectCount: 0,
+    incompleteVaultIds: [],
+    orphans: [],
+    missing: [],
+    deletions: { pending: 0, dead: 0 },
+  };
+
+  const graceCutoff = Date.now() - ORPHAN_GRACE_MS;
+
+  for (const vaultId of vaultIds) {
+    const { objects, complete } = await listAllObjects(vaultId);
+    report.objectCount += objects.length;
+    const present = new Set(objects.map(o => o.id));
+
+    for (const object of objects) {
+      if (referenced.has(object.id) || queuedForDeletion.has(object.id)) continue;
+      if (new Date(object.createdAt).getTime() > graceCutoff) continue;
+      report.orphans.push({ vaultId, objectId: object.id, filename: object.filename, createdAt: object.createdAt });
+    }
+
+    // Unlisted objects may still exist; only a full listing proves one missing
+    if (!complete) {
+      console.warn(`[vault] Listing of vault ${vaultId} is incomplete; skipping the missing-object check`);
+      report.incompleteVaultIds.push(vaultId);
+      continue;
+    }
+
+    for (const recording of allRecordings) {
+      // Uploads still in progress may not be listed until their upload completes
+      if (recording.vaultId !== vaultId || recording.status === 'uploading') continue;
+      for (const field of VAULT_OBJECT_FIELDS) {
+        const objectId = recording[field];
+        if (objectId && !present.has(objectId)) {
+          report.missing.push({ recordingId: recording.id, vaultId, objectId, field });
+        }
+      }
+    }
+  }
+
+  if (options.cleanup) {
+    report.queued = 0;
+    for (const vaultId of vaultIds) {
+      const objectIds = report.orphans.filter(o => o.vaultId === vaultId).map(o => o.objectId);
+      report.queued += (await queueVaultDeletions(vaultId, objectIds, { reason: 'orphan' })).length;
+    }
+
+    report.cleared = 0;
+    for (const { recordingId, field } of report.missing) {
+      await db
+        .update(recordings)
+        .set({ [field]: null, updatedAt: new Date() })
+        .where(eq(recordings.id, recordingId));
+      report.cleared++;
+    }
+  }
+
+  const deletionCounts = await db
+    .select({ state: vaultDeletions.state, count: count() })
+    .from(vaultDeletions)
+    .where(inArray(vaultDeletions.state, ['pending', 'dead']))
+    .groupBy(vaultDeletions.state);
+  for (const { state, count: total } of deletionCounts) {
+    if (state === 'pending' || state === 'dead') report.deletions[state] = total;
+  }
+
+  return report;
+}
@@ -0,0 +1,182 @@
+/**
+ * Case Vocabulary Lists
+ *
+ * Most transcription errors are names and terms specific to one matter:
+ * parties, witnesses, streets, drugs. Vocabulary lists hold such terms for a
+ * case number or a court; when a recording is transcribed, the lists matching
+ * its case number and court are merged into the Voice API word boost (see
+ * `buildTranscriptionParams`). Terms can be imported from a pasted witness
+ * list or a CSV export.
+ */
+
+import { db, vocabularyLists } from '@/lib/db';
+import type { Recording, VocabularyList } from '@/lib/db/schema';
+import { mergeWordBoost, MAX_WORD_BOOST_TERMS } from '@/lib/transcription-settings';
+import { and, asc, eq, or, sql } from 'drizzle-orm';
+
+export const VOCABULARY_SCOPES = ['case', 'court'] as const;
+export type VocabularyScope = (typeof VOCABULARY_SCOPES)[number];
+
+// A list never needs more terms than one job can boost
+export const MAX_LIST_TERMS = MAX_WORD_BOOST_TERMS;
+
+// CSV columns that hold the terms, by header name
+const TERM_COLUMN_HEADERS = ['term', 'terms', 'name', 'names', 'witness', 'party', 'word', 'vocabulary'];
+
+export interface VocabularyListResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  scope: VocabularyScope;
+  scopeValue: string;
+  terms: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function parseTerms(json: string): string[] {
+  try {
+    const terms = JSON.parse(json);
+    return Array.isArray(terms) ? terms.filter((t): t is string => typeof t === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Clean up terms: collapse whitespace, drop duplicates (ignoring case) and
+ * phrases too long to boost, and cap the list size
+ */
+export function normalizeTerms(terms: string[]): string[] {
+  return mergeWordBoost(terms).slice(0, MAX_LIST_TERMS);
+}
+
+export function toVocabularyListResponse(list: VocabularyList): VocabularyListResponse {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    scope: list.scope as VocabularyScope,
+    scopeValue: list.scopeValue,
+    terms: parseTerms(list.termsJson),
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+  };
+}
+
+// ============ IMPORT ============
+
+/**
+ * Split one CSV line into cells (double quotes may wrap cells containing the delimiter)
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Strip list decoration from a pasted line: bullets, numbering and
+ * parenthetical notes such as "(expert witness)"
+ */
+function cleanTerm(text: string): string {
+  return text
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '')
+    .replace(/\s*\([^)]*\)/g, '')
+    .trim();
+}
+
+/**
+ * Terms from a pasted list (one per line) or CSV. A CSV with a recognised
+ * header ("name", "term", "witness", ...) contributes that column; otherwise
+ * every cell is a term.
+ */
+export function parseTermImport(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  const delimiter = lines.some(line => line.includes('\t')) ? '\t' : ',';
+  const isDelimited = lines.some(line => line.includes(delimiter));
+
+  if (!isDelimited) {
+    return normalizeTerms(lines.map(cleanTerm));
+  }
+
+  const rows = lines.map(line => splitCsvLine(line, delimiter));
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const termColumn = header.findIndex(cell => TERM_COLUMN_HEADERS.includes(cell));
+
+  const terms = termColumn >= 0
+    ? rows.slice(1).map(row => row[termColumn] ?? '')
+    : rows.flat();
+
+  return normalizeTerms(terms.map(cleanTerm));
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Lists that apply to a recording: its case number's lists, then its court's
+ */
+export async function getVocabularyListsForRecording(
+  recording: Pick<Recording, 'caseNumber' | 'courtName'>
+): Promise<VocabularyList[]> {
+  const conditions = [];
+  if (recording.caseNumber?.trim()) {
+    conditions.push(and(
+      eq(vocabularyLists.scope, 'case'),
+      sql`lower(${vocabularyLists.scopeValue}) = lower(${recording.caseNumber.trim()})`
+    ));
+  }
+  if (recording.courtName?.trim()) {
+    conditions.push(and(
+      eq(vocabularyLists.scope, 'court'),
+      sql`lower(${vocabularyLists.scopeValue}) = lower(${recording.courtName.trim()})`
+    ));
+  }
+  if (conditions.length === 0) return [];
+
+  const lists = await db.query.vocabularyLists.findMany({
+    where: or(...conditions),
+    orderBy: [asc(vocabularyLists.createdAt)],
+  });
+
+  // Case lists are more specific, so their terms win the boost limit
+  return [
+    ...lists.filter(l => l.scope === 'case'),
+    ...lists.filter(l => l.scope === 'court'),
+  ];
+}
+
+/**
+ * All vocabulary terms for a recording, in priority order
+ */
+export async function getVocabularyTerms(
+  recording: Pick<Recording, 'caseNumber' | 'courtName'>
+): Promise<string[]> {
+  const lists = await getVocabularyListsForRecording(recording);
+  return lists.flatMap(list => parseTerms(list.termsJson));
+}
@@ -0,0 +1,267 @@
+/**
+ * Webhook Delivery Log
+ *
+ * Every Case.dev webhook call is stored in `webhook_deliveries`, keyed by
+ * source, job ID and event. A redelivery of the same event only bumps the
+ * counter on the existing row, and processing locks the row inside a
+ * transaction so each event is applied at most once.
+ */
+
+import { db, recordings, webhookDeliveries, type Transaction } from '@/lib/db';
+import type { Job, WebhookDelivery } from '@/lib/db/schema';
+import type { ConvertJobResponse } from '@/lib/casedev';
+import {
+  onConversionCompleted,
+  onTranscriptionCompleted,
+  onRemoteJobFailed,
+  runJobNow,
+} from '@/lib/pipeline';
+import { findChannelByTranscriptionJob } from '@/lib/channels';
+import { findRangeTranscriptionByJob } from '@/lib/range-transcription';
+import { isRemoteJobCancelled } from '@/lib/jobs';
+import { transitionRecordingStatus } from '@/lib/recording-status';
+import { eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const WEBHOOK_SOURCES = ['convert', 'transcribe'] as const;
+export type WebhookSource = (typeof WEBHOOK_SOURCES)[number];
+
+export const WEBHOOK_DELIVERY_STATES = ['received', 'processed', 'failed'] as const;
+export type WebhookDeliveryState = (typeof WEBHOOK_DELIVERY_STATES)[number];
+
+export interface WebhookProcessResult {
+  outcome: 'processed' | 'ignored' | 'duplicate' | 'recording_not_found' | 'not_found' | 'failed';
+  delivery?: WebhookDelivery;
+  error?: string;
+}
+
+interface ConvertWebhookPayload {
+  job_id: string;
+  status: string;
+  output_url?: string;
+  output_urls?: string[];
+  metadata?: ConvertJobResponse['metadata'];
+  error?: string;
+}
+
+interface TranscribeWebhookPayload {
+  id: string;
+  status: string;
+  error?: string;
+}
+
+// What a handler did: the follow-up jobs to start after commit, if any
+interface HandlerResult {
+  recordingFound: boolean;
+  ignored?: boolean; // Late result for a cancelled job
+  followUpJobs?: Job[];
+}
+
+/**
+ * Store a webhook call. Returns the existing row (with its delivery count bumped)
+ * if this job and event were delivered before.
+ */
+export async function recordWebhookDelivery(params: {
+  source: WebhookSource;
+  externalJobId: string;
+  event: string;
+  payloadJson: string;
+}): Promise<WebhookDelivery> {
+  const now = new Date();
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      id: uuidv4(),
+      source: params.source,
+      externalJobId: params.externalJobId,
+      event: params.event,
+      state: 'received',
+      payloadJson: params.payloadJson,
+      createdAt: now,
+      lastReceivedAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [webhookDeliveries.source, webhookDeliveries.externalJobId, webhookDeliveries.event],
+      set: {
+        deliveryCount: sql`${webhookDeliveries.deliveryCount} + 1`,
+        lastReceivedAt: now,
+        updatedAt: now,
+      },
+    })
+    .returning();
+
+  return delivery;
+}
+
+async function handleConvertDelivery(
+  tx: Transaction,
+  payload: ConvertWebhookPayload
+): Promise<HandlerResult> {
+  const { job_id, status, output_url, output_urls, metadata, error } = payload;
+
+  // Find recording by convert job ID
+  const recording = await tx.query.recordings.findFirst({
+    where: eq(recordings.convertJobId, job_id),
+  });
+
+  if (!recording) {
+    return { recordingFound: false };
+  }
+
+  if (recording.status === 'cancelled' || await isRemoteJobCancelled('convert', job_id, tx)) {
+    return { recordingFound: true, ignored: true };
+  }
+
+  if (status === 'completed') {
+    // Get the output URL (use first channel if multi-channel)
+    const audioUrl = output_url || (output_urls && output_urls[0]);
+
+    if (!audioUrl) {
+      await transitionRecordingStatus(recording.id, 'failed', {
+        actor: 'webhook',
+        reason: 'Conversion completed but no output URL provided',
+      }, tx);
+
+      return { recordingFound: true };
+    }
+
+    // Mark the convert step done and queue transcription of the output (or of each channel)
+    const followUpJobs = await onConversionCompleted(
+      recording,
+      job_id,
+      audioUrl,
+      metadata,
+      output_urls || [],
+      tx
+    );
+    return { recordingFound: true, followUpJobs };
+  }
+
+  if (status === 'failed') {
+    // Retried with backoff until the job runs out of attempts
+    await onRemoteJobFailed('convert', job_id, recording, error || 'Conversion failed', tx);
+  }
+
+  return { recordingFound: true };
+}
+
+async function handleTranscribeDelivery(
+  tx: Transaction,
+  payload: TranscribeWebhookPayload
+): Promise<HandlerResult> {
+  const { id: jobId, status, error } = payload;
+
+  // Find recording by transcription job ID, or through the channel or passage it transcribed
+  const channel = await findChannelByTranscriptionJob(jobId, tx);
+  const range = channel ? undefined : await findRangeTranscriptionByJob(jobId, tx);
+  const recordingId = channel?.recordingId ?? range?.recordingId;
+  const recording = await tx.query.recordings.findFirst({
+    where: recordingId
+      ? eq(recordings.id, recordingId)
+      : eq(recordings.transcriptionJobId, jobId),
+  });
+
+  if (!recording) {
+    return { recordingFound: false };
+  }
+
+  if (recording.status === 'cancelled' || await isRemoteJobCancelled('transcribe', jobId, tx)) {
+    return { recordingFound: true, ignored: true };
+  }
+
+  if (status === 'completed') {
+    // Queue ingestion; the ingest job fetches the result and stores the transcript
+    const followUpJob = await onTranscriptionCompleted(recording, jobId, tx);
+    return { recordingFound: true, followUpJobs: [followUpJob] };
+  }
+
+  if (status === 'error') {
+    // Retried with backoff until the job runs out of attempts
+    await onRemoteJobFailed('transcribe', jobId, recording, error || 'Transcription failed', tx);
+  }
+
+  return { recordingFound: true };
+}
+
+/**
+ * Apply a stored delivery. Already processed deliveries are skipped unless
+ * `replay` is set (admin replay).
+ */
+export async function processWebhookDelivery(
+  deliveryId: string,
+  options: { replay?: boolean } = {}
+): Promise<WebhookProcessResult> {
+  const followUpJobs: Job[] = [];
+
+  let result: WebhookProcessResult;
+  try {
+    result = await db.transaction(async (tx) => {
+      // Lock the row so concurrent redeliveries wait and then see it processed
+      const [delivery] = await tx
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.id, deliveryId))
+        .for('update');
+
+      if (!delivery) {
+        return { outcome: 'not_found' as const };
+      }
+
+      if (delivery.state === 'processed' && !options.replay) {
+        return { outcome: 'duplicate' as const, delivery };
+      }
+
+      const payload = JSON.parse(delivery.payloadJson);
+      const handled = delivery.source === 'convert'
+        ? await handleConvertDelivery(tx, payload as ConvertWebhookPayload)
+        : await handleTranscribeDelivery(tx, payload as TranscribeWebhookPayload);
+
+      const now = new Date();
+
+      if (!handled.recordingFound) {
+        const [updated] = await tx
+          .update(webhookDeliveries)
+          .set({ state: 'failed', lastError: 'Recording not found', updatedAt: now })
+          .where(eq(webhookDeliveries.id, delivery.id))
+          .returning();
+        return { outcome: 'recording_not_found' as const, delivery: updated };
+      }
+
+      followUpJobs.push(...(handled.followUpJobs || []));
+
+      const [updated] = await tx
+        .update(webhookDeliveries)
+        .set({
+          state: 'processed',
+          lastError: null,
+          processCount: sql`${webhookDeliveries.processCount} + 1`,
+          processedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(webhookDeliveries.id, delivery.id))
+        .returning();
+
+      return { outcome: handled.ignored ? 'ignored' as const : 'processed' as const, delivery: updated };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Webhook delivery processing failed:', deliveryId, error);
+
+    // The transaction rolled back; record the error so the delivery can be retried or replayed
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({ state: 'failed', lastError: message, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .returning();
+
+    return { outcome: 'failed', delivery: updated, error: message };
+  }
+
+  // Start the next pipeline step now that its job is committed
+  for (const job of followUpJobs) {
+    await runJobNow(job.id);
+  }
+
+  return result;
+}
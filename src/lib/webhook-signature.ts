@@ -0,0 +1,125 @@
+/**
+ * Webhook Signature Verification
+ *
+ * Case.dev signs `<timestamp>.<raw body>` with HMAC-SHA256 and sends the hex
+ * digest in `x-casedev-signature` and the Unix timestamp (seconds) in
+ * `x-casedev-timestamp`. A delivery is accepted when:
+ *
+ *   - the signature matches one of the configured secrets (WEBHOOK_SECRET may
+ *     list several, comma-separated, so secrets can be rotated),
+ *   - the timestamp is within the tolerance window, and
+ *   - the signature has not been seen before (replay protection).
+ *
+ * Without a secret, verification is skipped in development and every delivery
+ * is rejected in production unless WEBHOOK_ALLOW_UNSIGNED=true.
+ */
+
+import { NextRequest } from 'next/server';
+import { db, webhookNonces } from '@/lib/db';
+import { lt } from 'drizzle-orm';
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-casedev-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-casedev-timestamp';
+
+const TOLERANCE_SECONDS = Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || 300;
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Configured signing secrets, current first
+ */
+export function getWebhookSecrets(): string[] {
+  return (process.env.WEBHOOK_SECRET || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+function signatureMatches(signature: string, expected: string): boolean {
+  const provided = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(expected);
+  // Use timing-safe comparison to prevent timing attacks
+  return provided.length === expectedBuffer.length && crypto.timingSafeEqual(provided, expectedBuffer);
+}
+
+/**
+ * Remember a signature; returns false if it was already used
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+  // Nonces only need to outlive the window in which their timestamp is accepted
+  const cutoff = new Date(Date.now() - 2 * TOLERANCE_SECONDS * 1000);
+  await db.delete(webhookNonces).where(lt(webhookNonces.createdAt, cutoff));
+
+  const inserted = await db
+    .insert(webhookNonces)
+    .values({ nonce, createdAt: new Date() })
+    .onConflictDoNothing()
+    .returning({ nonce: webhookNonces.nonce });
+
+  return inserted.length > 0;
+}
+
+/**
+ * Verify a webhook request against its raw body
+ */
+export async function verifyWebhookRequest(
+  request: NextRequest,
+  rawBody: string
+): Promise<WebhookVerification> {
+  const secrets = getWebhookSecrets();
+
+  if (secrets.length === 0) {
+    if (process.env.NODE_ENV === 'production' && process.env.WEBHOOK_ALLOW_UNSIGNED !== 'true') {
+      return { valid: false, reason: 'WEBHOOK_SECRET not configured' };
+    }
+    console.warn('WEBHOOK_SECRET not configured - skipping signature verification');
+    return { valid: true };
+  }
+
+  const rawSignature = request.headers.get(WEBHOOK_SIGNATURE_HEADER) || request.headers.get('x-webhook-signature');
+  const rawTimestamp = request.headers.get(WEBHOOK_TIMESTAMP_HEADER) || request.headers.get('x-webhook-timestamp');
+
+  if (!rawSignature) {
+    return { valid: false, reason: 'Missing signature' };
+  }
+  if (!rawTimestamp) {
+    return { valid: false, reason: 'Missing timestamp' };
+  }
+
+  const timestamp = Number(rawTimestamp);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'Invalid timestamp' };
+  }
+
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (ageSeconds > TOLERANCE_SECONDS) {
+    return { valid: false, reason: `Timestamp outside the ${TOLERANCE_SECONDS}s tolerance window` };
+  }
+
+  const signature = rawSignature.replace(/^sha256=/, '').trim().toLowerCase();
+  const matched = secrets.some(secret =>
+    signatureMatches(signature, signWebhookPayload(rawBody, timestamp, secret))
+  );
+  if (!matched) {
+    return { valid: false, reason: 'Signature mismatch' };
+  }
+
+  if (!(await consumeNonce(signature))) {
+    return { valid: false, reason: 'Replayed delivery' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,94 @@
+/**
+ * Word Timing
+ *
+ * Helpers for the Voice API's word-level timestamps. Words are stored per
+ * utterance; these functions line them up with the utterance text so the
+ * player, search and exports can map between character offsets and times.
+ * Pure functions only - shared by API routes and the transcript viewer.
+ */
+
+export interface WordTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+  confidence: number | null;
+}
+
+// A word located in its utterance's text
+export interface AlignedWord extends WordTiming {
+  startChar: number;
+  endChar: number;
+}
+
+const PUNCTUATION = /^[^a-z0-9]+|[^a-z0-9]+$/g;
+
+/**
+ * Find each word in the utterance text, in order.
+ * Words that cannot be found (e.g. the text was normalized differently) are skipped.
+ */
+export function alignWordsToText(text: string, wordList: WordTiming[]): AlignedWord[] {
+  const lowerText = text.toLowerCase();
+  const aligned: AlignedWord[] = [];
+  let cursor = 0;
+
+  for (const word of wordList) {
+    const needle = word.text.toLowerCase();
+    let index = needle ? lowerText.indexOf(needle, cursor) : -1;
+    let length = needle.length;
+
+    // Fall back to the bare word if punctuation differs between the word and the text
+    if (index === -1) {
+      const bare = needle.replace(PUNCTUATION, '');
+      index = bare ? lowerText.indexOf(bare, cursor) : -1;
+      length = bare.length;
+    }
+
+    if (index === -1) continue;
+
+    aligned.push({ ...word, startChar: index, endChar: index + length });
+    cursor = index + length;
+  }
+
+  return aligned;
+}
+
+/**
+ * Index of the word being spoken at a time: the last word that has started.
+ * Words must be sorted by start time. Returns -1 before the first word.
+ */
+export function findWordIndexAtTime(wordList: WordTiming[], timeMs: number): number {
+  let low = 0;
+  let high = wordList.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (wordList[mid].startMs <= timeMs) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Character offset of the word playing at a time, or null if no word has started
+ */
+export function getPlaybackCharIndex(alignedWords: AlignedWord[], timeMs: number): number | null {
+  const index = findWordIndexAtTime(alignedWords, timeMs);
+  return index === -1 ? null : alignedWords[index].startChar;
+}
+
+/**
+ * Words overlapping a character range of the utterance text
+ */
+export function findWordsInCharRange(
+  alignedWords: AlignedWord[],
+  start: number,
+  end: number
+): AlignedWord[] {
+  return alignedWords.filter(w => w.startChar < end && w.endChar > start);
+}